@@ -15,6 +15,8 @@ import { ReturnManagement } from './pages/ReturnManagement';
 import { ResidualManagement } from './pages/ResidualManagement';
 import { FinancialCenter } from './pages/FinancialCenter';
 import { TodayShipped } from './pages/TodayShipped';
+import { DispatchMonitor } from './pages/DispatchMonitor';
+import { CustomerDetail } from './pages/CustomerDetail';
 import { User, UserRole, Tenant } from './types';
 import { db } from './services/mockBackend';
 import { Lock, User as UserIcon, Menu, Globe } from 'lucide-react';
@@ -90,23 +92,12 @@ export default function App() {
   const [brandedTenant, setBrandedTenant] = useState<Tenant | null>(null);
   const [currentPage, setCurrentPage] = useState('dashboard');
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+  const [selectedCustomer, setSelectedCustomer] = useState<{ id: string; returnTo: string } | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const initBranding = useCallback(async () => {
     try {
-      const tenants = await db.getTenants();
-      const currentHost = window.location.hostname.toLowerCase().trim();
-      const currentHostNoWww = currentHost.replace(/^www\./, '');
-      
-      const match = tenants.find(t => {
-          const tDomain = t.domain?.toLowerCase().trim();
-          if (tDomain && (tDomain === currentHost || tDomain === currentHostNoWww)) return true;
-          return (t.domainRecords || []).some(r => {
-              const host = r.host.toLowerCase().trim();
-              return (host === currentHost || host === currentHostNoWww) && r.isActive;
-          });
-      });
-      
+      const match = await db.getBranding(window.location.hostname.toLowerCase().trim());
       if (match) setBrandedTenant(match);
     } catch (e) {
       console.error("Branding sync failure", e);
@@ -123,13 +114,13 @@ export default function App() {
   useEffect(() => {
     initBranding();
 
-    const saved = localStorage.getItem('mw_user');
-    if (saved) {
-        const u = JSON.parse(saved); 
+    db.restoreSession().then(u => {
+        if (!u) return;
         setUser(u);
+        localStorage.setItem('mw_user', JSON.stringify(u));
         if (u.tenantId) db.getTenant(u.tenantId).then(t => t && setTenant(t));
         if (u.role === UserRole.DEV_ADMIN) setCurrentPage('dev_dashboard');
-    }
+    });
   }, [initBranding]);
 
   // Deep Link Observer for Ctrl + Click functionality
@@ -168,15 +159,18 @@ export default function App() {
 
   const renderPage = () => {
     if (user.role === UserRole.DEV_ADMIN) return <DevAdmin />;
-    if (currentPage === 'order_detail' && selectedOrderId) return <OrderDetail orderId={selectedOrderId} tenantId={user.tenantId!} onBack={() => {setSelectedOrderId(null); setCurrentPage('selling');}} />;
+    const openCustomer = (id: string) => { setSelectedCustomer({ id, returnTo: currentPage }); setCurrentPage('customer_detail'); };
+    if (currentPage === 'order_detail' && selectedOrderId) return <OrderDetail orderId={selectedOrderId} tenantId={user.tenantId!} onBack={() => {setSelectedOrderId(null); setCurrentPage('selling');}} onOpenCustomer={openCustomer} />;
+    if (currentPage === 'customer_detail' && selectedCustomer) return <CustomerDetail customerId={selectedCustomer.id} tenantId={user.tenantId!} onBack={() => { setCurrentPage(selectedCustomer.returnTo); setSelectedCustomer(null); }} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
     switch(currentPage) {
         case 'dashboard': return <Dashboard tenantId={user.tenantId!} shopName={displayShopName} />;
         case 'leads': return <Leads tenantId={user.tenantId!} shopName={displayShopName} />;
-        case 'selling': return <SellingPipeline tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
-        case 'shipping': return <ShippingPipeline tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
+        case 'selling': return <SellingPipeline tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }}  onSelectCustomer={openCustomer} />;
+        case 'shipping': return <ShippingPipeline tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }}  onSelectCustomer={openCustomer} />;
         case 'today_shipped': return <TodayShipped tenantId={user.tenantId!} shopName={displayShopName} />;
-        case 'return_mgmt': return <ReturnManagement tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
-        case 'residual_mgmt': return <ResidualManagement tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
+        case 'dispatch_monitor': return <DispatchMonitor tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }} />;
+        case 'return_mgmt': return <ReturnManagement tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }}  onSelectCustomer={openCustomer} />;
+        case 'residual_mgmt': return <ResidualManagement tenantId={user.tenantId!} shopName={displayShopName} onSelectOrder={(id) => { setSelectedOrderId(id); setCurrentPage('order_detail'); }}  onSelectCustomer={openCustomer} />;
         case 'financials': return <FinancialCenter tenantId={user.tenantId!} shopName={displayShopName} />;
         case 'inventory': return <Stock tenantId={user.tenantId!} shopName={displayShopName} />;
         case 'returns': return <Returns tenantId={user.tenantId!} shopName={displayShopName} />;
@@ -197,7 +191,7 @@ export default function App() {
             logoUrl={tenant?.settings.logoUrl || brandedTenant?.settings.logoUrl} 
             activePage={currentPage} 
             onNavigate={setCurrentPage}
-            onLogout={() => { setUser(null); setTenant(null); localStorage.removeItem('mw_user'); }}
+            onLogout={() => { setUser(null); setTenant(null); db.logout(); }}
             isOpen={mobileMenuOpen} onClose={() => setMobileMenuOpen(false)}
         />
       </div>
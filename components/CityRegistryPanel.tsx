@@ -0,0 +1,156 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { db } from '../services/mockBackend';
+import { CityRecord, CourierProviderId } from '../types';
+import { COURIER_PROVIDER_LABELS } from '../utils/couriers';
+import { cityFromName, normalizeCityName } from '../utils/cities';
+import { MapPin, Search, Plus, Save, Trash2, X } from 'lucide-react';
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600";
+const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1";
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+// DevAdmin editor for the central city registry every tenant's orders are validated against
+export const CityRegistryPanel: React.FC = () => {
+  const [cities, setCities] = useState<CityRecord[]>([]);
+  const [search, setSearch] = useState('');
+  const [editing, setEditing] = useState<{ city: CityRecord; previousId?: string } | null>(null);
+  const [bulkInput, setBulkInput] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try { setCities(await db.getCityRegistry()); } catch (e) { setCities([]); }
+  };
+
+  useEffect(() => { load(); }, []);
+
+  const filtered = useMemo(() => {
+    const term = normalizeCityName(search);
+    if (!term) return cities;
+    return cities.filter(c => [c.name, c.district, c.province, ...c.aliases].some(v => normalizeCityName(v).includes(term)));
+  }, [cities, search]);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setSaving(true);
+    try {
+      await db.saveCity(editing.city, editing.previousId);
+      setEditing(null);
+      await load();
+    } catch (err: any) {
+      alert("Registry Save Failure: " + err.message);
+    } finally { setSaving(false); }
+  };
+
+  const handleDelete = async (city: CityRecord) => {
+    if (!confirm(`Remove ${city.name} from the registry? Orders going there will fail city validation. Marking it inactive keeps its history readable.`)) return;
+    try {
+      await db.deleteCity(city.id);
+      await load();
+    } catch (err: any) {
+      alert("Registry Delete Failure: " + err.message);
+    }
+  };
+
+  const handleBulkAdd = async () => {
+    const names = splitList(bulkInput.replace(/\n/g, ','));
+    if (names.length === 0) return;
+    try {
+      await db.updateGlobalCities(names);
+      setBulkInput('');
+      await load();
+    } catch (err: any) {
+      alert("Registry Import Failure: " + err.message);
+    }
+  };
+
+  const update = (patch: Partial<CityRecord>) => editing && setEditing({ ...editing, city: { ...editing.city, ...patch } });
+
+  return (
+    <div className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-slate-900 text-white rounded-2xl flex items-center justify-center"><MapPin size={22}/></div>
+          <div>
+            <h3 className="text-xl font-black uppercase text-slate-900 leading-none">City Registry</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{cities.length} Cities · Shared By Every Cluster</p>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+            <input className={`${inputClass} pl-10 w-64`} placeholder="Name, alias or district" value={search} onChange={e => setSearch(e.target.value)} />
+          </div>
+          <button onClick={() => setEditing({ city: cityFromName('') })} className="px-5 py-3 rounded-xl bg-blue-600 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-blue-700">
+            <Plus size={12}/> Add City
+          </button>
+        </div>
+      </div>
+
+      {editing && (
+        <div key={editing.previousId || 'new'} className="bg-blue-50 border border-blue-100 p-6 rounded-[2rem] space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1"><label className={labelClass}>Name</label><input className={inputClass} value={editing.city.name} onChange={e => update({ name: e.target.value })} /></div>
+            <div className="space-y-1"><label className={labelClass}>District</label><input className={inputClass} value={editing.city.district} onChange={e => update({ district: e.target.value })} /></div>
+            <div className="space-y-1"><label className={labelClass}>Province</label><input className={inputClass} value={editing.city.province} onChange={e => update({ province: e.target.value })} /></div>
+          </div>
+          <div className="space-y-1">
+            <label className={labelClass}>Aliases (comma separated: other spellings, suburbs)</label>
+            <input className={inputClass} defaultValue={editing.city.aliases.join(', ')} onBlur={e => update({ aliases: splitList(e.target.value) })} />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {Object.values(CourierProviderId).map(p => (
+              <div key={p} className="space-y-1">
+                <label className={labelClass}>{COURIER_PROVIDER_LABELS[p]} City Code</label>
+                <input className={`${inputClass} font-mono`} placeholder={editing.city.name || 'Same as name'} value={editing.city.courierCodes[p] || ''} onChange={e => update({ courierCodes: { ...editing.city.courierCodes, [p]: e.target.value } })} />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+              <input type="checkbox" checked={editing.city.active} onChange={e => update({ active: e.target.checked })} /> Deliverable
+            </label>
+            <div className="flex gap-3">
+              <button onClick={() => setEditing(null)} className="px-5 py-3 rounded-xl bg-white border border-slate-200 text-slate-500 font-black uppercase text-[9px] tracking-widest flex items-center gap-2"><X size={12}/> Cancel</button>
+              <button onClick={handleSave} disabled={saving || !editing.city.name.trim()} className="px-5 py-3 rounded-xl bg-slate-900 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 disabled:opacity-30"><Save size={12}/> Save City</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto no-scrollbar max-h-[560px] overflow-y-auto border border-slate-100 rounded-2xl">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">City</th>
+              <th className="px-4 py-3">District / Province</th>
+              <th className="px-4 py-3">Aliases</th>
+              <th className="px-4 py-3">Courier Codes</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {filtered.map(c => (
+              <tr key={c.id} className={c.active ? '' : 'opacity-40'}>
+                <td className="px-6 py-3 text-[11px] font-black uppercase text-slate-900">{c.name}</td>
+                <td className="px-4 py-3 text-[10px] font-bold text-slate-500 uppercase">{[c.district, c.province].filter(Boolean).join(' · ') || '—'}</td>
+                <td className="px-4 py-3 text-[10px] font-bold text-slate-500 max-w-[240px] truncate" title={c.aliases.join(', ')}>{c.aliases.join(', ') || '—'}</td>
+                <td className="px-4 py-3 text-[10px] font-mono font-bold text-slate-500">{Object.entries(c.courierCodes).map(([p, code]) => `${p}: ${code}`).join(' · ') || '—'}</td>
+                <td className="px-6 py-3 text-right whitespace-nowrap">
+                  <button onClick={() => setEditing({ city: c, previousId: c.id })} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-600 font-black uppercase text-[9px] tracking-widest hover:bg-blue-50 hover:text-blue-600">Edit</button>
+                  <button onClick={() => handleDelete(c)} className="p-2 ml-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-slate-50 p-6 rounded-[2rem] border border-slate-100 space-y-3">
+        <label className={labelClass}>Quick Add (names only, one per line or comma separated)</label>
+        <textarea className={`${inputClass} h-20 resize-none`} value={bulkInput} onChange={e => setBulkInput(e.target.value)} />
+        <button onClick={handleBulkAdd} disabled={!bulkInput.trim()} className="px-5 py-3 rounded-xl bg-slate-900 text-white font-black uppercase text-[9px] tracking-widest disabled:opacity-30">Add Cities</button>
+      </div>
+    </div>
+  );
+};
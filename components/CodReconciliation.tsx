@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { db } from '../services/mockBackend';
+import { CodReceivable, CodStatement, Order, RemittanceStatus } from '../types';
+import { formatCurrency } from '../utils/helpers';
+import { Banknote, Upload, AlertTriangle, FileSpreadsheet, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface CodReconciliationProps {
+  tenantId: string;
+  onReconciled: () => void; // Statement fees changed order data; the P&L reloads
+}
+
+const FLAG_TONES: Record<string, string> = {
+  [RemittanceStatus.SHORT_PAID]: 'bg-amber-50 text-amber-700 border-amber-100',
+  [RemittanceStatus.MISSING]: 'bg-rose-50 text-rose-700 border-rose-100'
+};
+
+export const CodReconciliation: React.FC<CodReconciliationProps> = ({ tenantId, onReconciled }) => {
+  const [receivables, setReceivables] = useState<CodReceivable[]>([]);
+  const [flagged, setFlagged] = useState<Order[]>([]);
+  const [statements, setStatements] = useState<CodStatement[]>([]);
+  const [accountId, setAccountId] = useState('');
+  const [lastImport, setLastImport] = useState<CodStatement | null>(null);
+  const [showFlagged, setShowFlagged] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [res, history] = await Promise.all([db.getCodReceivables(tenantId), db.getCodStatements(tenantId)]);
+      setReceivables(res.receivables || []);
+      setFlagged(res.flagged || []);
+      setStatements(history || []);
+      setAccountId(prev => prev || res.receivables?.[0]?.courierAccountId || '');
+    } catch (e) {
+      console.error("Remittance sync failure", e);
+    }
+  }, [tenantId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !accountId) return;
+    // The courier's statement number; a corrected export under the same reference replaces the earlier import
+    const reference = prompt("Statement reference (courier statement no. or payout date). Re-using one replaces that statement:", file.name.replace(/\.[^.]+$/, ''));
+    if (!reference?.trim()) return;
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      setBusy(true);
+      try {
+        const statement = await db.importCodStatement(tenantId, accountId, reference.trim(), file.name, event.target?.result as string);
+        setLastImport(statement);
+        await load();
+        onReconciled();
+      } catch (err: any) {
+        alert("Statement Import Failure: " + err.message);
+      } finally { setBusy(false); }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const labelOf = (id?: string) => receivables.find(r => r.courierAccountId === id)?.label || 'Default';
+  const totalOutstanding = receivables.reduce((s, r) => s + r.outstanding, 0);
+
+  if (receivables.length === 0) return null;
+
+  return (
+    <div className="modern-card overflow-hidden bg-white shadow-sm border border-slate-100 print:hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+            <Banknote size={16} className="text-emerald-600" /> COD Remittance
+          </h3>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Outstanding {formatCurrency(totalOutstanding)}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {receivables.length > 1 && (
+            <select value={accountId} onChange={e => setAccountId(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[10px] font-black uppercase outline-none">
+              {receivables.map(r => <option key={r.courierAccountId} value={r.courierAccountId}>{r.label}</option>)}
+            </select>
+          )}
+          <label className={`px-5 py-3 rounded-xl bg-slate-900 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 cursor-pointer hover:bg-black ${busy ? 'opacity-30 pointer-events-none' : ''}`}>
+            <Upload size={12}/> {busy ? 'Reconciling...' : 'Import Statement'}
+            <input type="file" accept=".csv,.xlsx" className="hidden" onChange={handleFile} />
+          </label>
+        </div>
+      </div>
+
+      {lastImport && (
+        <div className="mx-6 mt-6 bg-emerald-50 border border-emerald-100 rounded-2xl px-5 py-4 space-y-2">
+          <p className="text-[10px] font-black uppercase tracking-widest text-emerald-700 flex items-center gap-2">
+            <FileSpreadsheet size={14}/> {lastImport.reference}{lastImport.revision > 1 ? ` (revision ${lastImport.revision})` : ''}: {lastImport.matched}/{lastImport.lines} parcels matched · {lastImport.remitted} remitted · {lastImport.shortPaid} short-paid
+          </p>
+          {lastImport.unmatched.length > 0 && (
+            <div className="max-h-32 overflow-y-auto no-scrollbar space-y-1">
+              {lastImport.unmatched.map(line => (
+                <p key={line.waybill} className="text-[10px] font-bold text-rose-600"><span className="font-mono">{line.waybill}</span> · {formatCurrency(line.amount)} · {line.reason}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto no-scrollbar">
+        <table className="w-full text-left compact-table">
+          <thead>
+            <tr className="bg-slate-50/50">
+              <th className="pl-6">Courier</th>
+              <th className="text-right">Delivered</th>
+              <th className="text-right">Expected</th>
+              <th className="text-right">Remitted</th>
+              <th className="text-right">Fees</th>
+              <th className="text-right">Outstanding</th>
+              <th className="text-center pr-6">Flags</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {receivables.map(r => (
+              <tr key={r.courierAccountId}>
+                <td className="pl-6 py-4 text-[11px] font-black uppercase text-slate-900">{r.label}</td>
+                <td className="text-right py-4 text-[11px] font-bold text-slate-600">{r.delivered}</td>
+                <td className="text-right py-4 text-[11px] font-bold text-slate-600">{formatCurrency(r.expected)}</td>
+                <td className="text-right py-4 text-[11px] font-bold text-emerald-600">{formatCurrency(r.remitted)}</td>
+                <td className="text-right py-4 text-[11px] font-bold text-rose-600">{formatCurrency(r.fees)}</td>
+                <td className="text-right py-4 text-[12px] font-black text-slate-900">{formatCurrency(r.outstanding)}</td>
+                <td className="text-center pr-6 py-4 text-[9px] font-black uppercase tracking-widest text-slate-400">
+                  {r.shortPaid} short · {r.missing} missing · {r.unreconciled} pending
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-6 border-t border-slate-50 space-y-4">
+        <button onClick={() => setShowFlagged(!showFlagged)} disabled={flagged.length === 0} className="w-full flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900 disabled:opacity-40">
+          <span className="flex items-center gap-2"><AlertTriangle size={14} className="text-amber-500"/> {flagged.length} Orders Short-Paid Or Missing</span>
+          {showFlagged ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+        </button>
+        {showFlagged && (
+          <div className="max-h-72 overflow-y-auto no-scrollbar divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+            {flagged.map(o => (
+              <div key={o.id} className="flex items-center justify-between gap-4 px-5 py-3">
+                <div className="flex flex-col">
+                  <span className="text-[11px] font-black uppercase text-slate-900">{o.customerName}</span>
+                  <span className="text-[9px] font-mono font-bold text-slate-400">{o.trackingNumber} · {labelOf(o.courierAccountId)} · {o.deliveredAt ? new Date(o.deliveredAt).toLocaleDateString() : ''}</span>
+                </div>
+                <span className="text-[10px] font-bold text-slate-600">{formatCurrency(o.codRemitted || 0)} / {formatCurrency(o.totalAmount)}</span>
+                <span className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${FLAG_TONES[o.codStatus || ''] || ''}`}>{o.codStatus}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {statements.length > 0 && (
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight">
+            Last statement: {statements[0].reference || statements[0].fileName} · {labelOf(statements[0].courierAccountId)} · {new Date(statements[0].importedAt).toLocaleString()} by {statements[0].importedBy}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
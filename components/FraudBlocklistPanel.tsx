@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { db } from '../services/mockBackend';
+import { FraudListing, FraudReasonCode, Tenant } from '../types';
+import { FRAUD_REASON_LABELS } from '../utils/customers';
+import { Globe, Search, Plus, ShieldCheck, ShieldOff, Trash2 } from 'lucide-react';
+
+interface FraudBlocklistPanelProps {
+  tenants: Tenant[];
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600";
+
+// DevAdmin review of the shared fraud blocklist: shop reports, confirmations and removals
+export const FraudBlocklistPanel: React.FC<FraudBlocklistPanelProps> = ({ tenants }) => {
+  const [listings, setListings] = useState<(FraudListing & { flagged: boolean })[]>([]);
+  const [search, setSearch] = useState('');
+  const [phone, setPhone] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const shopName = (tenantId: string) => tenants.find(t => t.id === tenantId)?.name || tenantId;
+
+  const load = async () => {
+    try { setListings(await db.getFraudBlocklist(search)); } catch (e) { setListings([]); }
+  };
+
+  useEffect(() => { load(); }, [search]);
+
+  const handleConfirm = async (target: string, reason: string) => {
+    if (!target.trim() || !reason.trim()) return;
+    setSaving(true);
+    try {
+      await db.confirmFraudPhone(target, reason);
+      setPhone('');
+      setNote('');
+      await load();
+    } catch (err: any) {
+      alert("Blocklist Failure: " + err.message);
+    } finally { setSaving(false); }
+  };
+
+  const handleUnconfirm = async (id: string) => {
+    try {
+      await db.unconfirmFraudPhone(id);
+      await load();
+    } catch (err: any) {
+      alert("Blocklist Failure: " + err.message);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    if (!confirm(`Remove ${id} and every shop report on it from the blocklist?`)) return;
+    try {
+      await db.removeFraudPhone(id);
+      await load();
+    } catch (err: any) {
+      alert("Blocklist Failure: " + err.message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-rose-600 text-white rounded-2xl flex items-center justify-center"><Globe size={22}/></div>
+          <div>
+            <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Fraud Network</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{listings.filter(l => l.flagged).length} Flagged · {listings.length} Listed · Opted-in Clusters Only</p>
+          </div>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+          <input className={`${inputClass} pl-10 w-64`} placeholder="Phone" value={search} onChange={e => setSearch(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="bg-rose-50 border border-rose-100 p-6 rounded-[2rem] grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-4 items-center">
+        <input className={`${inputClass} font-mono`} placeholder="0771234567" value={phone} onChange={e => setPhone(e.target.value)} />
+        <input className={inputClass} placeholder="Reason shown to every shop" value={note} onChange={e => setNote(e.target.value)} />
+        <button onClick={() => handleConfirm(phone, note)} disabled={saving || !phone.trim() || !note.trim()} className="px-5 py-3 rounded-xl bg-rose-600 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 disabled:opacity-30 hover:bg-rose-700">
+          <Plus size={12}/> Add Confirmed
+        </button>
+      </div>
+
+      <div className="overflow-x-auto no-scrollbar max-h-[560px] overflow-y-auto border border-slate-100 rounded-2xl">
+        <table className="w-full text-left">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              <th className="px-6 py-3">Phone</th>
+              <th className="px-4 py-3">State</th>
+              <th className="px-4 py-3">Reports</th>
+              <th className="px-6 py-3 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {listings.map(l => (
+              <tr key={l.id} className="align-top">
+                <td className="px-6 py-4 text-[11px] font-mono font-black text-slate-900">{l.id}</td>
+                <td className="px-4 py-4 space-y-1">
+                  <span className={`inline-block px-2 py-0.5 rounded text-[8px] font-black uppercase ${l.confirmed ? 'bg-rose-600 text-white' : l.flagged ? 'bg-orange-100 text-orange-700' : 'bg-slate-100 text-slate-500'}`}>
+                    {l.confirmed ? 'Confirmed' : l.flagged ? 'Flagged' : 'Reported'}
+                  </span>
+                  {l.note && <p className="text-[10px] font-bold text-slate-500">{l.note} · {l.confirmedBy}</p>}
+                </td>
+                <td className="px-4 py-4 space-y-1">
+                  {l.reports.length === 0 ? <span className="text-[10px] font-bold text-slate-300">—</span> : l.reports.map(r => (
+                    <p key={r.tenantId} className="text-[10px] font-bold text-slate-600">
+                      <span className="font-black uppercase text-slate-900">{shopName(r.tenantId)}</span> · {FRAUD_REASON_LABELS[r.category || FraudReasonCode.OTHER]}{r.reason ? ` — ${r.reason}` : ''} · {r.returned} returned, {r.rejected} rejected · {r.reportedBy}, {new Date(r.reportedAt).toLocaleDateString()}
+                    </p>
+                  ))}
+                </td>
+                <td className="px-6 py-4 text-right whitespace-nowrap space-x-2">
+                  {l.confirmed ? (
+                    <button onClick={() => handleUnconfirm(l.id)} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-600 font-black uppercase text-[9px] tracking-widest hover:bg-slate-200 inline-flex items-center gap-1"><ShieldOff size={12}/> Unconfirm</button>
+                  ) : (
+                    <button onClick={() => { const reason = prompt(`Confirm ${l.id} for every opted-in shop. Reason:`, l.reports[0]?.reason || ''); if (reason) handleConfirm(l.id, reason); }} className="px-4 py-2 rounded-xl bg-rose-50 text-rose-600 font-black uppercase text-[9px] tracking-widest hover:bg-rose-100 inline-flex items-center gap-1"><ShieldCheck size={12}/> Confirm</button>
+                  )}
+                  <button onClick={() => handleRemove(l.id)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl inline-flex"><Trash2 size={14}/></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {listings.length === 0 && (
+          <p className="text-center py-16 text-[10px] font-black text-slate-300 uppercase tracking-widest">No phones on the blocklist</p>
+        )}
+      </div>
+    </div>
+  );
+};
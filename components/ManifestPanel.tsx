@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { db } from '../services/mockBackend';
+import { ManifestStatus, PickupManifest, TenantSettings, UnmanifestedSummary } from '../types';
+import { formatCurrency } from '../utils/helpers';
+import { getCourierAccounts } from '../utils/couriers';
+import { ClipboardList, ScanLine, Printer, Truck, Trash2, X, AlertTriangle, ChevronDown, ChevronUp, CheckCircle2 } from 'lucide-react';
+
+interface ManifestPanelProps {
+  tenantId: string;
+  settings: TenantSettings | null;
+  manifests: PickupManifest[];
+  unmanifested: UnmanifestedSummary | null;
+  onChanged: () => void;
+  onPrint: (manifest: PickupManifest) => void;
+}
+
+interface ScanFeedback {
+  manifestId: string;
+  ok: boolean;
+  message: string;
+}
+
+// Pickup batches for the courier riders: open sheets are scanned parcel by parcel, then handed over
+export const ManifestPanel: React.FC<ManifestPanelProps> = ({ tenantId, settings, manifests, unmanifested, onChanged, onPrint }) => {
+  const accounts = getCourierAccounts(settings);
+  const [accountId, setAccountId] = useState('');
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [showOverdue, setShowOverdue] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const open = manifests.filter(m => m.status === ManifestStatus.OPEN);
+  const handedOver = manifests.filter(m => m.status === ManifestStatus.HANDED_OVER);
+  const selectedAccount = accountId || accounts.find(a => a.isDefault)?.id || accounts[0]?.id || '';
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (err: any) {
+      alert(`${failure}: ${err.message}`);
+    } finally { setBusy(false); }
+  };
+
+  const handleCreate = () => run(() => db.createManifests(tenantId, undefined, selectedAccount), 'Manifest Failure');
+
+  const handleScan = async (e: React.FormEvent, manifest: PickupManifest) => {
+    e.preventDefault();
+    const code = (codes[manifest.id] || '').trim();
+    if (!code) return;
+    setCodes(prev => ({ ...prev, [manifest.id]: '' }));
+    try {
+      const res = await db.scanManifestParcel(tenantId, manifest.id, code);
+      const parcel = res.manifest.parcels.find(p => p.orderId === res.orderId);
+      setFeedback({ manifestId: manifest.id, ok: true, message: res.duplicate ? `${code} already scanned` : `${code} verified · ${parcel?.customerName || ''}` });
+      onChanged();
+    } catch (err: any) {
+      setFeedback({ manifestId: manifest.id, ok: false, message: err.message });
+    }
+  };
+
+  const handleHandOver = (manifest: PickupManifest) => {
+    const unscanned = manifest.parcels.filter(p => !p.scannedAt).length;
+    if (unscanned > 0 && !confirm(`${unscanned} parcel(s) were not scanned. They will come off manifest #${manifest.number} and wait for the next pickup. Continue?`)) return;
+    const riderName = prompt('Rider name (optional):') ?? undefined;
+    run(async () => onPrint(await db.handOverManifest(tenantId, manifest.id, riderName)), 'Handover Failure');
+  };
+
+  const handleDiscard = (manifest: PickupManifest) => {
+    if (!confirm(`Discard manifest #${manifest.number}? Its parcels go back to waiting for pickup.`)) return;
+    run(() => db.deleteManifest(tenantId, manifest.id), 'Manifest Failure');
+  };
+
+  if (accounts.length === 0) return null;
+
+  return (
+    <div className="modern-card overflow-hidden bg-white border border-slate-100 shadow-sm rounded-[3rem] print:hidden">
+      <div className="p-6 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-slate-50/20">
+        <div>
+          <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+            <ClipboardList size={16} className="text-rose-500" /> Pickup Manifests
+          </h3>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{unmanifested?.count || 0} Parcels Waiting For A Rider</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {accounts.length > 1 && (
+            <select value={selectedAccount} onChange={e => setAccountId(e.target.value)} className="bg-white border border-slate-200 rounded-xl px-4 py-3 text-[10px] font-black uppercase outline-none">
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+            </select>
+          )}
+          <button onClick={handleCreate} disabled={busy || !unmanifested?.count} className="px-5 py-3 rounded-xl bg-slate-900 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-black disabled:opacity-30">
+            <ClipboardList size={12}/> Manifest All Waiting
+          </button>
+        </div>
+      </div>
+
+      {unmanifested && unmanifested.overdue.length > 0 && (
+        <div className="mx-6 mt-6 bg-amber-50 border border-amber-100 rounded-2xl px-5 py-4 space-y-2">
+          <button onClick={() => setShowOverdue(!showOverdue)} className="w-full flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-amber-700">
+            <span className="flex items-center gap-2"><AlertTriangle size={14}/> {unmanifested.overdue.length} Shipped Over {unmanifested.alertHours}h Ago, Not On Any Manifest</span>
+            {showOverdue ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+          </button>
+          {showOverdue && (
+            <div className="max-h-48 overflow-y-auto no-scrollbar space-y-1">
+              {unmanifested.overdue.map(o => (
+                <p key={o.id} className="text-[10px] font-bold text-amber-800">
+                  <span className="font-mono">{o.trackingNumber || o.id}</span> · {o.customerName} · {o.customerCity} · shipped {o.shippedAt ? new Date(o.shippedAt).toLocaleString() : ''}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {open.length === 0 && (
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No open manifests. Select parcels below or manifest everything waiting.</p>
+        )}
+        {open.map(m => {
+          const scanned = m.parcels.filter(p => p.scannedAt).length;
+          const note = feedback?.manifestId === m.id ? feedback : null;
+          return (
+            <div key={m.id} className="border border-slate-100 rounded-[2rem] p-5 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-lg font-black text-slate-900 uppercase leading-none">#{m.number} · {m.label}</p>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">{scanned}/{m.parcels.length} Scanned · COD {formatCurrency(m.codTotal)} · {m.createdBy}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => onPrint(m)} className="p-2 text-slate-400 hover:text-slate-900" title="Print sheet"><Printer size={16}/></button>
+                  <button onClick={() => handleDiscard(m)} className="p-2 text-slate-300 hover:text-rose-600" title="Discard"><Trash2 size={16}/></button>
+                </div>
+              </div>
+
+              <form onSubmit={e => handleScan(e, m)} className="relative">
+                <ScanLine className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+                <input
+                  value={codes[m.id] || ''}
+                  onChange={e => setCodes(prev => ({ ...prev, [m.id]: e.target.value }))}
+                  placeholder="Scan waybill barcode..."
+                  className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-10 pr-4 py-3 text-xs font-mono font-black text-slate-900 outline-none focus:ring-2 focus:ring-rose-500"
+                />
+              </form>
+              {note && (
+                <p className={`text-[10px] font-black uppercase tracking-tight ${note.ok ? 'text-emerald-600' : 'text-rose-600'}`}>{note.message}</p>
+              )}
+
+              <div className="max-h-56 overflow-y-auto no-scrollbar divide-y divide-slate-50 border border-slate-50 rounded-xl">
+                {m.parcels.map(p => (
+                  <div key={p.orderId} className="flex items-center justify-between gap-3 px-4 py-2">
+                    <span className={p.scannedAt ? 'text-emerald-500' : 'text-slate-200'}><CheckCircle2 size={14}/></span>
+                    <span className="flex-1 text-[10px] font-mono font-black text-slate-600">{p.waybill}</span>
+                    <span className="flex-1 text-[10px] font-black uppercase text-slate-900 truncate">{p.customerName}</span>
+                    <span className="text-[10px] font-bold text-slate-500">{formatCurrency(p.codAmount)}</span>
+                    <button onClick={() => run(() => db.removeManifestParcel(tenantId, m.id, p.orderId), 'Manifest Failure')} className="p-1 text-slate-300 hover:text-rose-600"><X size={12}/></button>
+                  </div>
+                ))}
+              </div>
+
+              <button onClick={() => handleHandOver(m)} disabled={busy || scanned === 0} className="w-full py-3 rounded-xl bg-rose-500 text-white font-black uppercase text-[9px] tracking-widest flex items-center justify-center gap-2 hover:bg-rose-600 disabled:opacity-30">
+                <Truck size={12}/> Hand Over {scanned} Parcels
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {handedOver.length > 0 && (
+        <div className="p-6 border-t border-slate-50 space-y-3">
+          <button onClick={() => setShowHistory(!showHistory)} className="w-full flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-900">
+            <span>{handedOver.length} Recent Handovers</span>
+            {showHistory ? <ChevronUp size={14}/> : <ChevronDown size={14}/>}
+          </button>
+          {showHistory && (
+            <div className="divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+              {handedOver.map(m => (
+                <div key={m.id} className="flex items-center justify-between gap-4 px-5 py-3">
+                  <span className="text-[11px] font-black uppercase text-slate-900">#{m.number} · {m.label}</span>
+                  <span className="text-[10px] font-bold text-slate-500">{m.parcels.length} parcels · {formatCurrency(m.codTotal)}</span>
+                  <span className="text-[9px] font-bold text-slate-400 uppercase">{m.riderName || 'Rider'} · {m.handedOverAt ? new Date(m.handedOverAt).toLocaleString() : ''}</span>
+                  <button onClick={() => onPrint(m)} className="p-2 text-slate-400 hover:text-slate-900"><Printer size={14}/></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
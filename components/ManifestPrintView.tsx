@@ -0,0 +1,101 @@
+import React from 'react';
+import Barcode from 'react-barcode';
+import { PickupManifest, TenantSettings } from '../types';
+
+interface ManifestPrintViewProps {
+  manifest: PickupManifest;
+  settings: TenantSettings;
+}
+
+// Handover sheet the courier rider signs when collecting a pickup batch
+export const ManifestPrintView: React.FC<ManifestPrintViewProps> = ({ manifest, settings }) => {
+  const { parcels } = manifest;
+  const scanned = parcels.filter(p => p.scannedAt).length;
+
+  return (
+    <div className="print-only w-full bg-white text-black font-sans p-0">
+      <style>{`
+        @page {
+          margin: 12mm !important;
+          size: A4 portrait;
+        }
+        @media print {
+            body {
+              margin: 0;
+              padding: 0;
+              -webkit-print-color-adjust: exact;
+            }
+            .manifest-row { page-break-inside: avoid; }
+        }
+      `}</style>
+
+      <div className="flex items-start justify-between border-b-[2pt] border-black pb-3 mb-3">
+        <div>
+          <p className="text-[10px] font-normal uppercase tracking-widest">Pickup Manifest</p>
+          <h1 className="text-[28px] font-black tracking-tighter leading-none">#{manifest.number}</h1>
+          <p className="text-[12px] font-black uppercase mt-1">{manifest.label}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-[13px] font-black uppercase">{settings.shopName}</p>
+          <p className="text-[9px] font-bold text-gray-700">{settings.shopAddress}</p>
+          <p className="text-[10px] font-black">{settings.shopPhone}</p>
+          <p className="text-[9px] font-bold mt-1">Created {new Date(manifest.createdAt).toLocaleString()} by {manifest.createdBy}</p>
+          {manifest.handedOverAt && <p className="text-[9px] font-bold">Handed over {new Date(manifest.handedOverAt).toLocaleString()}</p>}
+        </div>
+      </div>
+
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="text-[9px] font-black uppercase tracking-widest border-b-[1pt] border-black">
+            <th className="py-1 w-8">#</th>
+            <th className="py-1">Waybill</th>
+            <th className="py-1">Consignee</th>
+            <th className="py-1">City</th>
+            <th className="py-1 text-right">COD (Rs.)</th>
+            <th className="py-1 text-center w-12">Scan</th>
+          </tr>
+        </thead>
+        <tbody>
+          {parcels.map((parcel, i) => (
+            <tr key={parcel.orderId} className="manifest-row border-b-[0.5pt] border-gray-300">
+              <td className="py-1 text-[10px] font-bold">{i + 1}</td>
+              <td className="py-1">
+                <Barcode
+                  value={parcel.waybill || parcel.orderId}
+                  width={1.2}
+                  height={24}
+                  fontSize={9}
+                  font="monospace"
+                  background="transparent"
+                  format="CODE128"
+                  margin={0}
+                />
+              </td>
+              <td className="py-1 text-[10px] font-black uppercase">{parcel.customerName}</td>
+              <td className="py-1 text-[10px] font-bold uppercase">{parcel.customerCity}</td>
+              <td className="py-1 text-[11px] font-black text-right">{parcel.codAmount.toLocaleString()}</td>
+              <td className="py-1 text-[11px] font-black text-center">{parcel.scannedAt ? '✓' : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-between border-t-[2pt] border-black pt-2 mt-2 text-[12px] font-black uppercase">
+        <span>{parcels.length} Parcels · {scanned} Scanned</span>
+        <span>COD Total: Rs.{manifest.codTotal.toLocaleString()}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-12 mt-16 text-[10px] font-bold uppercase">
+        <div>
+          <div className="border-b-[1pt] border-black h-10"></div>
+          <p className="mt-1">Handed over by{manifest.handedOverBy ? `: ${manifest.handedOverBy}` : ''}</p>
+        </div>
+        <div>
+          <div className="border-b-[1pt] border-black h-10"></div>
+          <p className="mt-1">Rider name &amp; signature{manifest.riderName ? `: ${manifest.riderName}` : ''}</p>
+        </div>
+      </div>
+      <p className="text-[8px] font-bold text-gray-500 mt-4">The rider's signature confirms receipt of every parcel listed above and the COD amounts shown.</p>
+    </div>
+  );
+};
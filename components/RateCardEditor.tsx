@@ -0,0 +1,90 @@
+import React from 'react';
+import { CourierRateCard, RateWeightSlab, RateZone } from '../types';
+import { emptyRateCard } from '../utils/rateCards';
+import { Calculator, Plus, Trash2, Scale, MapPin } from 'lucide-react';
+
+interface RateCardEditorProps {
+  rateCard?: CourierRateCard;
+  onChange: (rateCard: CourierRateCard | undefined) => void;
+}
+
+const inputClass = "w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600";
+const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1";
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+export const RateCardEditor: React.FC<RateCardEditorProps> = ({ rateCard, onChange }) => {
+  if (!rateCard) {
+    return (
+      <button onClick={() => onChange(emptyRateCard())} className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 hover:text-blue-600 hover:border-blue-300 font-black uppercase text-[10px] tracking-widest transition-all flex items-center justify-center gap-2">
+        <Calculator size={14}/> Add Rate Card
+      </button>
+    );
+  }
+
+  const update = (patch: Partial<CourierRateCard>) => onChange({ ...rateCard, ...patch });
+  const updateSlab = (index: number, patch: Partial<RateWeightSlab>) =>
+    update({ weightSlabs: rateCard.weightSlabs.map((s, i) => i === index ? { ...s, ...patch } : s) });
+  const updateZone = (id: string, patch: Partial<RateZone>) =>
+    update({ zones: rateCard.zones.map(z => z.id === id ? { ...z, ...patch } : z) });
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] border border-slate-200 space-y-6">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2"><Calculator size={14} className="text-blue-600"/> Rate Card</label>
+        <button onClick={() => confirm("Remove this rate card? Orders already shipped keep the cost priced at dispatch.") && onChange(undefined)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl"><Trash2 size={14}/></button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <label className={labelClass}>Base Fee (LKR)</label>
+          <input type="number" min={0} className={inputClass} value={rateCard.baseFee} onChange={e => update({ baseFee: toNumber(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>Return Fee (LKR)</label>
+          <input type="number" min={0} className={inputClass} value={rateCard.returnFee} onChange={e => update({ returnFee: toNumber(e.target.value) })} />
+        </div>
+        <div className="space-y-1">
+          <label className={labelClass}>COD Charge (%)</label>
+          <input type="number" min={0} max={100} step={0.1} className={inputClass} value={rateCard.codPercent} onChange={e => update({ codPercent: Math.min(100, toNumber(e.target.value)) })} />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className={`${labelClass} flex items-center gap-2`}><Scale size={12}/> Weight Slabs (added to the base fee)</label>
+        {rateCard.weightSlabs.map((slab, i) => (
+          <div key={i} className="flex items-center gap-3">
+            <span className="text-[9px] font-black text-slate-400 uppercase w-12">Over</span>
+            <input type="number" min={0} step={0.1} className={inputClass} value={slab.overKg} onChange={e => updateSlab(i, { overKg: toNumber(e.target.value) })} />
+            <span className="text-[9px] font-black text-slate-400 uppercase w-16">KG, Add</span>
+            <input type="number" min={0} className={inputClass} value={slab.fee} onChange={e => updateSlab(i, { fee: toNumber(e.target.value) })} />
+            <button onClick={() => update({ weightSlabs: rateCard.weightSlabs.filter((_, j) => j !== i) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+          </div>
+        ))}
+        <button onClick={() => update({ weightSlabs: [...rateCard.weightSlabs, { overKg: (rateCard.weightSlabs[rateCard.weightSlabs.length - 1]?.overKg || 0) + 1, fee: 0 }] })} className="text-[9px] font-black uppercase tracking-widest text-blue-600 flex items-center gap-1 hover:underline">
+          <Plus size={12}/> Add Slab
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <label className={`${labelClass} flex items-center gap-2`}><MapPin size={12}/> Zone Surcharges</label>
+        {rateCard.zones.map(zone => (
+          <div key={zone.id} className="grid grid-cols-12 gap-3 items-center">
+            <input className={`col-span-3 ${inputClass}`} placeholder="Zone" value={zone.name} onChange={e => updateZone(zone.id, { name: e.target.value })} />
+            <input
+              className={`col-span-6 ${inputClass} font-bold`}
+              placeholder="Cities, comma separated"
+              defaultValue={zone.cities.join(', ')}
+              onBlur={e => updateZone(zone.id, { cities: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })}
+            />
+            <input type="number" min={0} className={`col-span-2 ${inputClass}`} value={zone.surcharge} onChange={e => updateZone(zone.id, { surcharge: toNumber(e.target.value) })} />
+            <button onClick={() => update({ zones: rateCard.zones.filter(z => z.id !== zone.id) })} className="p-2 text-slate-300 hover:text-rose-600"><Trash2 size={14}/></button>
+          </div>
+        ))}
+        <button onClick={() => update({ zones: [...rateCard.zones, { id: `zone-${Date.now()}`, name: '', cities: [], surcharge: 0 }] })} className="text-[9px] font-black uppercase tracking-widest text-blue-600 flex items-center gap-1 hover:underline">
+          <Plus size={12}/> Add Zone
+        </button>
+      </div>
+    </div>
+  );
+};
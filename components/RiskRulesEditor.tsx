@@ -0,0 +1,92 @@
+import React from 'react';
+import { CustomerRiskRules } from '../types';
+import { DEFAULT_RISK_RULES } from '../utils/customerRisk';
+import { ShieldAlert, RotateCcw, Globe } from 'lucide-react';
+
+interface RiskRulesEditorProps {
+  rules?: Partial<CustomerRiskRules>;
+  onChange: (rules: CustomerRiskRules | undefined) => void;
+  fraudNetwork: boolean;
+  onChangeFraudNetwork: (joined: boolean) => void;
+}
+
+const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600";
+const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1";
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+// Each row is an orange and a red threshold; 0 switches that level off
+const THRESHOLDS: { label: string; orange: keyof CustomerRiskRules; red: keyof CustomerRiskRules; percent?: boolean }[] = [
+  { label: 'Return Ratio (%)', orange: 'returnRatioOrange', red: 'returnRatioRed', percent: true },
+  { label: 'Rejected Orders', orange: 'rejectedOrange', red: 'rejectedRed' },
+  { label: 'No-Answer Streak', orange: 'noAnswerOrange', red: 'noAnswerRed' }
+];
+
+export const RiskRulesEditor: React.FC<RiskRulesEditorProps> = ({ rules, onChange, fraudNetwork, onChangeFraudNetwork }) => {
+  const current: CustomerRiskRules = { ...DEFAULT_RISK_RULES, ...(rules || {}) };
+  const update = (patch: Partial<CustomerRiskRules>) => onChange({ ...current, ...patch });
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-100 shadow-sm space-y-8">
+      <div className="flex items-center justify-between border-b border-slate-50 pb-8">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-rose-50 text-rose-600 rounded-2xl flex items-center justify-center"><ShieldAlert size={24}/></div>
+          <div>
+            <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Customer Risk</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Thresholds for orange and red customers</p>
+          </div>
+        </div>
+        {rules && (
+          <button onClick={() => onChange(undefined)} className="px-4 py-2 rounded-xl border border-slate-200 text-slate-400 hover:text-slate-900 font-black uppercase text-[9px] tracking-widest flex items-center gap-2"><RotateCcw size={12}/> Defaults</button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {THRESHOLDS.map(row => {
+          const scale = row.percent ? 100 : 1;
+          return (
+            <div key={row.label} className="grid grid-cols-3 gap-4 items-end">
+              <p className="text-[11px] font-black text-slate-900 uppercase pb-3">{row.label}</p>
+              {(['orange', 'red'] as const).map(level => (
+                <div key={level} className="space-y-1">
+                  <label className={labelClass}>{level === 'orange' ? 'Orange At' : 'Red At'}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={row.percent ? 100 : undefined}
+                    className={inputClass}
+                    value={Math.round((current[row[level]] as number) * scale)}
+                    onChange={e => update({ [row[level]]: Math.min(toNumber(e.target.value) / scale, row.percent ? 1 : Infinity) })}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <p className="text-[11px] font-black text-slate-900 uppercase pb-3">High Value, Nothing Delivered</p>
+          <div className="space-y-1 col-span-2">
+            <label className={labelClass}>Order Value (LKR)</label>
+            <input type="number" min={0} className={inputClass} value={current.highValueAmount} onChange={e => update({ highValueAmount: toNumber(e.target.value) })} />
+          </div>
+        </div>
+      </div>
+
+      <label className="flex items-center justify-between gap-4 p-6 bg-slate-50 border border-slate-100 rounded-2xl cursor-pointer">
+        <div>
+          <p className="text-[11px] font-black text-slate-900 uppercase">Block Red Confirmations</p>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">Only the owner can confirm a RISK_RED customer, and each override is audited</p>
+        </div>
+        <input type="checkbox" className="w-5 h-5 accent-rose-600" checked={current.blockRedConfirm} onChange={e => update({ blockRedConfirm: e.target.checked })} />
+      </label>
+
+      <label className="flex items-center justify-between gap-4 p-6 bg-slate-50 border border-slate-100 rounded-2xl cursor-pointer">
+        <div>
+          <p className="text-[11px] font-black text-slate-900 uppercase flex items-center gap-2"><Globe size={14} className="text-blue-600"/> Fraud Network</p>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">Share fake-order numbers with other shops and see theirs. Only report categories are shared, never your shop name, notes or orders</p>
+        </div>
+        <input type="checkbox" className="w-5 h-5 accent-blue-600" checked={fraudNetwork} onChange={e => onChangeFraudNetwork(e.target.checked)} />
+      </label>
+    </div>
+  );
+};
@@ -15,9 +15,11 @@ import {
   Globe,
   Scan,
   RotateCcw,
-  PhoneForwarded
+  PhoneForwarded,
+  Send
 } from 'lucide-react';
 import { User, UserRole } from '../types';
+import { hasPermission } from '../utils/permissions';
 
 interface SidebarProps {
   user: User;
@@ -32,16 +34,8 @@ interface SidebarProps {
 
 export const Sidebar: React.FC<SidebarProps> = ({ user, shopName, logoUrl, activePage, onNavigate, onLogout, isOpen, onClose }) => {
   
-  const hasAccess = (pageId: string) => {
-    if (user.role === UserRole.DEV_ADMIN) return true;
-    if (user.role === UserRole.SUPER_ADMIN) return true;
-    // Admins get access to pipeline, scan terminals and operational tools
-    if (user.role === UserRole.ADMIN) {
-        const adminPages = ['dashboard', 'leads', 'selling', 'shipping', 'today_shipped', 'return_mgmt', 'residual_mgmt', 'inventory', 'returns'];
-        if (adminPages.includes(pageId)) return true;
-    }
-    return user.permissions?.includes(pageId);
-  };
+  // Same rules the API enforces server-side
+  const hasAccess = (pageId: string) => hasPermission(user, pageId);
 
   const navItem = (id: string, icon: React.ReactNode, label: string) => {
     if (!hasAccess(id)) return null;
@@ -122,11 +116,12 @@ export const Sidebar: React.FC<SidebarProps> = ({ user, shopName, logoUrl, activ
             <>
               {navItem('dashboard', <LayoutDashboard />, 'Dashboard')}
 
-              {SectionHeader('Terminal', ['leads', 'selling', 'shipping', 'today_shipped'])}
+              {SectionHeader('Terminal', ['leads', 'selling', 'shipping', 'today_shipped', 'dispatch_monitor'])}
               {navItem('leads', <UserPlus />, 'Inbound')}
               {navItem('selling', <ShoppingCart />, 'Selling')}
               {navItem('shipping', <Truck />, 'Logistics')}
               {navItem('today_shipped', <CalendarCheck />, 'Daily Logs')}
+              {navItem('dispatch_monitor', <Send />, 'Dispatch Monitor')}
               
               {SectionHeader('Operations', ['return_mgmt', 'residual_mgmt'])}
               {navItem('return_mgmt', <RotateCcw />, 'Returns Hub')}
@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { db } from '../services/mockBackend';
+import { CourierProviderId, CourierStatusRule, OrderStatus, StatusMatchType } from '../types';
+import { COURIER_PROVIDER_LABELS } from '../utils/couriers';
+import { COURIER_REPORTED_STATUSES, DEFAULT_STATUS_RULES, compileRule, getStatusRules, matchCourierStatus } from '../utils/courierStatus';
+import { ListOrdered, Plus, Trash2, FlaskConical, AlertTriangle, RefreshCcw, RotateCcw } from 'lucide-react';
+
+interface UnmappedStatus {
+  provider: CourierProviderId;
+  courierStatus: string;
+  count: number;
+  lastSeen: string;
+}
+
+interface StatusMappingEditorProps {
+  tenantId: string;
+  rules: CourierStatusRule[]; // Empty means the couriers' defaults apply
+  providers: CourierProviderId[];
+  onChange: (rules: CourierStatusRule[]) => void;
+}
+
+const inputClass = "w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600";
+
+export const StatusMappingEditor: React.FC<StatusMappingEditorProps> = ({ tenantId, rules, providers, onChange }) => {
+  const [previewText, setPreviewText] = useState('');
+  const [previewProvider, setPreviewProvider] = useState<CourierProviderId>(providers[0] || CourierProviderId.FDE);
+  const [unmapped, setUnmapped] = useState<UnmappedStatus[]>([]);
+  const [reapplying, setReapplying] = useState(false);
+
+  const customised = rules.length > 0;
+  const shownRules = customised ? rules : providers.flatMap(p => DEFAULT_STATUS_RULES[p] || []);
+
+  const loadUnmapped = async () => {
+    try {
+      setUnmapped(await db.getUnmappedStatuses(tenantId));
+    } catch (e) { setUnmapped([]); }
+  };
+
+  useEffect(() => { loadUnmapped(); }, [tenantId]);
+
+  const customise = () => {
+    onChange(shownRules.map((r, i) => ({ ...r, id: `sr-${Date.now()}-${i}` })));
+  };
+
+  const updateRule = (id: string, patch: Partial<CourierStatusRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addRule = (pattern = '', provider?: CourierProviderId) => {
+    const base = customised ? rules : shownRules.map((r, i) => ({ ...r, id: `sr-${Date.now()}-${i}` }));
+    const priority = base.reduce((max, r) => Math.max(max, r.priority), 0) + 10;
+    onChange([...base, { id: `sr-${Date.now()}`, provider, match: pattern ? StatusMatchType.EXACT : StatusMatchType.CONTAINS, pattern, status: OrderStatus.SHIPPED, priority }]);
+  };
+
+  const resetToDefaults = () => {
+    if (!confirm("Discard your mapping table and use the courier defaults?")) return;
+    onChange([]);
+  };
+
+  const handleReapply = async () => {
+    setReapplying(true);
+    try {
+      const { replayed, stillUnmapped } = await db.replayUnmappedStatuses(tenantId);
+      alert(`${replayed - stillUnmapped} of ${replayed} held updates applied. ${stillUnmapped} still need a rule.`);
+      await loadUnmapped();
+    } catch (err: any) {
+      alert("Reapply Failure: " + err.message);
+    } finally { setReapplying(false); }
+  };
+
+  const previewRule = previewText ? matchCourierStatus(getStatusRules({ statusRules: rules }, previewProvider), previewText) : null;
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-100 shadow-sm space-y-10">
+      <div className="flex items-center justify-between gap-4 border-b border-slate-50 pb-8">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-violet-50 text-violet-600 rounded-2xl flex items-center justify-center"><ListOrdered size={24}/></div>
+          <div>
+            <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Courier Status Mapping</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{customised ? 'Custom Table' : 'Courier Defaults'} · Lowest Priority Checked First</p>
+          </div>
+        </div>
+        {customised ? (
+          <button onClick={resetToDefaults} className="px-5 py-2 rounded-xl bg-slate-100 text-slate-600 font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-slate-200">
+            <RotateCcw size={12} /> Use Defaults
+          </button>
+        ) : (
+          <button onClick={customise} className="px-5 py-2 rounded-xl bg-violet-50 text-violet-700 font-black uppercase text-[9px] tracking-widest hover:bg-violet-100">
+            Customise
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-12 gap-3 text-[9px] font-black text-slate-400 uppercase tracking-widest px-1">
+          <span className="col-span-1">Priority</span>
+          <span className="col-span-2">Courier</span>
+          <span className="col-span-2">Match</span>
+          <span className="col-span-3">Courier Text</span>
+          <span className="col-span-3">Order Status</span>
+        </div>
+        {shownRules.map(rule => {
+          const badRegex = rule.match === StatusMatchType.REGEX && !compileRule(rule);
+          return (
+            <div key={rule.id} className="grid grid-cols-12 gap-3 items-center">
+              <input type="number" disabled={!customised} className={`col-span-1 ${inputClass}`} value={rule.priority} onChange={e => updateRule(rule.id, { priority: Number(e.target.value) })} />
+              <select disabled={!customised} className={`col-span-2 ${inputClass}`} value={rule.provider || ''} onChange={e => updateRule(rule.id, { provider: (e.target.value || undefined) as CourierProviderId | undefined })}>
+                <option value="">All</option>
+                {Object.values(CourierProviderId).map(p => <option key={p} value={p}>{COURIER_PROVIDER_LABELS[p]}</option>)}
+              </select>
+              <select disabled={!customised} className={`col-span-2 ${inputClass}`} value={rule.match} onChange={e => updateRule(rule.id, { match: e.target.value as StatusMatchType })}>
+                {Object.values(StatusMatchType).map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <input disabled={!customised} className={`col-span-3 ${inputClass} ${badRegex ? 'border-rose-400 text-rose-600' : ''}`} title={badRegex ? 'Invalid regular expression' : ''} value={rule.pattern} onChange={e => updateRule(rule.id, { pattern: e.target.value })} />
+              <select disabled={!customised} className={`col-span-3 ${inputClass}`} value={rule.status} onChange={e => updateRule(rule.id, { status: e.target.value as OrderStatus })}>
+                {COURIER_REPORTED_STATUSES.map(s => <option key={s} value={s}>{s.replace(/_/g, ' ')}</option>)}
+              </select>
+              {customised && <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="col-span-1 p-3 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all flex justify-center"><Trash2 size={16}/></button>}
+            </div>
+          );
+        })}
+        <button onClick={() => addRule()} className="w-full py-4 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 hover:text-violet-600 hover:border-violet-300 font-black uppercase text-[10px] tracking-widest transition-all flex items-center justify-center gap-2">
+          <Plus size={16}/> Add Rule
+        </button>
+      </div>
+
+      <div className="bg-slate-50 p-8 rounded-[2.5rem] border border-slate-100 space-y-4">
+        <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2">
+          <FlaskConical size={16} className="text-violet-600"/> Test a Courier Status
+        </label>
+        <div className="flex flex-col md:flex-row gap-4">
+          <select className={`md:w-48 ${inputClass}`} value={previewProvider} onChange={e => setPreviewProvider(e.target.value as CourierProviderId)}>
+            {Object.values(CourierProviderId).map(p => <option key={p} value={p}>{COURIER_PROVIDER_LABELS[p]}</option>)}
+          </select>
+          <input className={`flex-1 ${inputClass}`} placeholder="Ex. Return Transfer to Origin" value={previewText} onChange={e => setPreviewText(e.target.value)} />
+        </div>
+        {previewText && (
+          previewRule ? (
+            <p className="text-[10px] font-black uppercase tracking-widest text-emerald-600 px-2">
+              → {previewRule.status.replace(/_/g, ' ')} <span className="text-slate-400">via {previewRule.match} "{previewRule.pattern}" (priority {previewRule.priority})</span>
+            </p>
+          ) : (
+            <p className="text-[10px] font-black uppercase tracking-widest text-rose-600 px-2 flex items-center gap-2">
+              <AlertTriangle size={14}/> No rule matches. Updates with this text are held for review.
+            </p>
+          )
+        )}
+      </div>
+
+      {unmapped.length > 0 && (
+        <div className="bg-amber-50 p-8 rounded-[2.5rem] border border-amber-100 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <label className="text-[11px] font-black text-amber-700 uppercase tracking-widest ml-1 flex items-center gap-2">
+              <AlertTriangle size={16}/> Unrecognised Courier Statuses
+            </label>
+            <button onClick={handleReapply} disabled={reapplying} className="px-5 py-2 rounded-xl bg-amber-600 text-white font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-amber-700 disabled:opacity-30">
+              <RefreshCcw size={12} className={reapplying ? 'animate-spin' : ''} /> Reapply Saved Rules
+            </button>
+          </div>
+          {unmapped.map(u => (
+            <div key={`${u.provider}-${u.courierStatus}`} className="flex items-center justify-between gap-4 bg-white rounded-2xl px-6 py-3">
+              <div>
+                <p className="text-xs font-black text-slate-900">"{u.courierStatus}"</p>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{COURIER_PROVIDER_LABELS[u.provider] || u.provider} · {u.count} held · last {new Date(u.lastSeen).toLocaleString()}</p>
+              </div>
+              <button onClick={() => addRule(u.courierStatus, u.provider)} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-700 font-black uppercase text-[9px] tracking-widest hover:bg-slate-200 flex items-center gap-2">
+                <Plus size={12}/> Map It
+              </button>
+            </div>
+          ))}
+          <p className="text-[9px] font-bold text-amber-700/70 uppercase tracking-tight italic px-2">
+            * Save the settings first; reapplying uses the stored rules.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { db } from '../services/mockBackend';
+import { CourierAccount, PooledWaybill, WaybillPoolSummary, WaybillStatus } from '../types';
+import { parseWaybillInput } from '../utils/waybills';
+import { Ticket, Upload, Ban, AlertTriangle, Search, RefreshCcw } from 'lucide-react';
+
+interface WaybillPoolPanelProps {
+  tenantId: string;
+  accounts: CourierAccount[]; // EXISTING_WAYBILL accounts only
+  onChangeLowAlert: (accountId: string, threshold: number) => void;
+}
+
+const inputClass = "w-full bg-white border border-slate-200 rounded-xl px-4 py-3 text-xs font-black text-slate-900 outline-none focus:ring-2 focus:ring-amber-500";
+
+const STATUS_TONES: Record<WaybillStatus, string> = {
+  [WaybillStatus.AVAILABLE]: 'text-emerald-600',
+  [WaybillStatus.ASSIGNED]: 'text-blue-600',
+  [WaybillStatus.USED]: 'text-slate-400',
+  [WaybillStatus.VOID]: 'text-rose-600'
+};
+
+export const WaybillPoolPanel: React.FC<WaybillPoolPanelProps> = ({ tenantId, accounts, onChangeLowAlert }) => {
+  const [accountId, setAccountId] = useState(accounts[0]?.id || '');
+  const [summary, setSummary] = useState<WaybillPoolSummary[]>([]);
+  const [waybills, setWaybills] = useState<PooledWaybill[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WaybillStatus | 'ALL'>(WaybillStatus.AVAILABLE);
+  const [search, setSearch] = useState('');
+  const [input, setInput] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const account = accounts.find(a => a.id === accountId) || accounts[0];
+  const stats = summary.find(s => s.courierAccountId === account?.id);
+  const preview = useMemo(() => parseWaybillInput(input), [input]);
+
+  const load = async () => {
+    if (!account) return;
+    try {
+      const res = await db.getWaybillPool(tenantId, account.id, statusFilter, search);
+      setSummary(res.summary || []);
+      setWaybills(res.waybills || []);
+    } catch (e) { setWaybills([]); }
+  };
+
+  useEffect(() => { load(); }, [tenantId, account?.id, statusFilter, search]);
+
+  if (!account) return null;
+
+  const handleAdd = async () => {
+    if (preview.errors.length > 0) return alert(preview.errors.join('\n'));
+    if (preview.waybills.length === 0) return;
+    setBusy(true);
+    try {
+      const { added, duplicates } = await db.addPoolWaybills(tenantId, account.id, input);
+      alert(`${added} waybills added to the pool.${duplicates ? ` ${duplicates} were already loaded.` : ''}`);
+      setInput('');
+      await load();
+    } catch (err: any) {
+      alert("Pool Upload Failure: " + err.message);
+    } finally { setBusy(false); }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => setInput(prev => [prev, event.target?.result as string].filter(Boolean).join('\n'));
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleVoid = async (waybill: string) => {
+    const reason = prompt(`Void waybill ${waybill}? Give a reason (damaged, lost…):`);
+    if (reason === null) return;
+    try {
+      await db.voidPoolWaybills(tenantId, account.id, [waybill], reason);
+      await load();
+    } catch (err: any) {
+      alert("Void Failure: " + err.message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[4rem] border border-slate-100 shadow-sm space-y-10">
+      <div className="flex items-center justify-between gap-4 border-b border-slate-50 pb-8">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-amber-50 text-amber-600 rounded-2xl flex items-center justify-center"><Ticket size={24}/></div>
+          <div>
+            <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Waybill Pool</h3>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Pre-Printed Stock · Assigned On Confirm</p>
+          </div>
+        </div>
+        {accounts.length > 1 && (
+          <select className={`w-56 ${inputClass}`} value={account.id} onChange={e => setAccountId(e.target.value)}>
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+          </select>
+        )}
+      </div>
+
+      {stats?.low && (
+        <div className="bg-rose-50 border border-rose-100 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest text-rose-700 flex items-center gap-3">
+          <AlertTriangle size={16}/> Only {stats.available} free waybills left. Load more before the pool runs dry.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Remaining', value: stats?.available ?? 0, tone: 'text-emerald-600' },
+          { label: 'Assigned', value: stats?.assigned ?? 0, tone: 'text-blue-600' },
+          { label: 'Used', value: stats?.used ?? 0, tone: 'text-slate-900' },
+          { label: 'Void', value: stats?.void ?? 0, tone: 'text-rose-600' }
+        ].map(card => (
+          <div key={card.label} className="bg-slate-50 rounded-2xl p-5 border border-slate-100">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{card.label}</p>
+            <p className={`text-2xl font-black ${card.tone}`}>{card.value}</p>
+          </div>
+        ))}
+        <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100 space-y-1">
+          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Low Alert Below</label>
+          <input type="number" min={0} className={inputClass} value={account.waybillLowAlert ?? stats?.lowAlert ?? 50} onChange={e => onChangeLowAlert(account.id, Number(e.target.value))} />
+        </div>
+      </div>
+
+      <div className="bg-slate-50 p-8 rounded-[2.5rem] border border-slate-100 space-y-4">
+        <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2">
+          <Upload size={16} className="text-amber-600"/> Load Waybills
+        </label>
+        <textarea
+          className={`${inputClass} h-28 resize-none font-mono`}
+          placeholder={"Scan or paste one per line, or a range:\n10000001-10000500"}
+          value={input}
+          onChange={e => setInput(e.target.value)}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className={`text-[10px] font-black uppercase tracking-widest ${preview.errors.length ? 'text-rose-600' : 'text-slate-400'}`}>
+            {preview.errors.length ? preview.errors[0] : `${preview.waybills.length} waybills ready`}
+          </p>
+          <div className="flex gap-3">
+            <label className="px-5 py-3 rounded-xl bg-white border border-slate-200 text-slate-600 font-black uppercase text-[9px] tracking-widest cursor-pointer hover:bg-slate-100">
+              CSV / TXT <input type="file" accept=".csv,.txt" className="hidden" onChange={handleFile} />
+            </label>
+            <button onClick={handleAdd} disabled={busy || preview.waybills.length === 0} className="px-6 py-3 rounded-xl bg-amber-600 text-white font-black uppercase text-[9px] tracking-widest hover:bg-amber-700 disabled:opacity-30">
+              Add To Pool
+            </button>
+          </div>
+        </div>
+        <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight italic px-2">
+          * Save a new courier account before loading its waybills. Once loaded, only pool waybills can be attached to orders.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+            <input className={`${inputClass} pl-10`} placeholder="Find a waybill" value={search} onChange={e => setSearch(e.target.value)} />
+          </div>
+          <select className={`md:w-48 ${inputClass}`} value={statusFilter} onChange={e => setStatusFilter(e.target.value as WaybillStatus | 'ALL')}>
+            <option value="ALL">All</option>
+            {Object.values(WaybillStatus).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <button onClick={load} className="p-3 bg-white border border-slate-200 rounded-xl text-slate-400 hover:text-slate-900"><RefreshCcw size={16}/></button>
+        </div>
+        <div className="max-h-72 overflow-y-auto no-scrollbar divide-y divide-slate-50 border border-slate-100 rounded-2xl">
+          {waybills.length === 0 ? (
+            <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No waybills</p>
+          ) : waybills.map(w => (
+            <div key={w.waybill} className="flex items-center justify-between gap-4 px-6 py-3">
+              <span className="font-mono text-xs font-black text-slate-900">{w.waybill}</span>
+              <span className={`text-[9px] font-black uppercase tracking-widest ${STATUS_TONES[w.status]}`}>
+                {w.status}{w.orderId ? ` · #${w.orderId.slice(-8)}` : ''}{w.voidReason ? ` · ${w.voidReason}` : ''}
+              </span>
+              {w.status === WaybillStatus.AVAILABLE ? (
+                <button onClick={() => handleVoid(w.waybill)} className="p-2 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl" title="Void"><Ban size={14}/></button>
+              ) : <span className="w-8"/>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
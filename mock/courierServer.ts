@@ -0,0 +1,12 @@
+import { MOCK_FDE_API_KEY, MOCK_FDE_CLIENT_ID, mockCourierApp } from './fdeMock';
+
+// Serves the mock FDE API (`npm run mock:courier`). Start the app server with
+// FDE_API_URL=http://localhost:8090/api/parcel to use it, and set MOCK_WEBHOOK_URL to the
+// tenant's callback link from Settings so pushes pass the token check.
+const PORT = Number(process.env.MOCK_COURIER_PORT || 8090);
+const webhookUrl = process.env.MOCK_WEBHOOK_URL || '';
+
+mockCourierApp.listen(PORT, () => {
+  console.log(`>>> Mock FDE courier on http://localhost:${PORT}/api/parcel (api_key=${MOCK_FDE_API_KEY}, client_id=${MOCK_FDE_CLIENT_ID})`);
+  console.log(webhookUrl ? `>>> Pushing status updates to ${webhookUrl}` : '>>> No MOCK_WEBHOOK_URL set; status updates are only logged');
+});
@@ -0,0 +1,212 @@
+import express from 'express';
+import { FDE_ERRORS } from '../server/couriers/fde';
+
+// Offline stand-in for the FDE parcel API. `mock/courierServer.ts` serves it for manual
+// runs (`npm run mock:courier`); the test suite mounts it on a port of its own.
+
+type WebhookFormat = 'json' | 'multipart' | 'urlencoded';
+type ScriptName = 'DELIVERED' | 'RETURNED';
+
+interface MockParcel {
+  waybill: string;
+  orderId: string;
+  recipient: string;
+  city: string;
+  amount: number;
+  status: string;
+  history: { status: string; at: string; format?: WebhookFormat; delivered?: boolean }[];
+  createdAt: string;
+}
+
+export const MOCK_FDE_API_KEY = process.env.MOCK_FDE_API_KEY || 'mock-key';
+export const MOCK_FDE_CLIENT_ID = process.env.MOCK_FDE_CLIENT_ID || 'mock-client';
+const INACTIVE_CLIENT_ID = 'inactive';
+
+// Status wording as FDE sends it; the OMS maps these through the FDE provider
+const SCRIPTS: Record<ScriptName, string[]> = {
+  DELIVERED: ['Transfer', 'Delivery', 'Delivered'],
+  RETURNED: ['Transfer', 'Delivery', 'Return Transfer', 'Returned']
+};
+const FORMATS: WebhookFormat[] = ['json', 'multipart', 'urlencoded'];
+
+const config = {
+  webhookUrl: process.env.MOCK_WEBHOOK_URL || '',
+  format: (process.env.MOCK_WEBHOOK_FORMAT || 'rotate') as WebhookFormat | 'rotate',
+  script: (process.env.MOCK_SCRIPT || 'DELIVERED') as ScriptName,
+  stepMs: Number(process.env.MOCK_STEP_MS || 3000),
+  autoProgress: process.env.MOCK_AUTO_PROGRESS !== 'false'
+};
+
+const parcels = new Map<string, MockParcel>();
+// Waybill issued per client order_id. Resending an order_id returns its first waybill, which is
+// what the OMS's per-order courier reference relies on when it retries.
+const issuedByOrderId = new Map<string, string>();
+// Codes queued by POST /mock/fail-next, returned by the next parcel calls in order
+const failQueue: number[] = [];
+let waybillSeq = 10000000 + Math.floor(Math.random() * 1000000);
+let pushCount = 0;
+
+const nextFormat = (): WebhookFormat =>
+  config.format === 'rotate' ? FORMATS[pushCount++ % FORMATS.length] : config.format;
+
+const fail = (res: express.Response, status: number) =>
+  res.json({ status, message: FDE_ERRORS[status] || 'Unknown Error' });
+
+// Mirrors the validation FDE applies to the form, in the order it reports errors
+function validateParcel(body: Record<string, string>, existingWaybill: boolean): number | null {
+  const forced = failQueue.shift();
+  if (forced) return forced;
+
+  // A recipient named MOCK-ERR-<code> forces that error for a single request
+  const magic = /^MOCK-ERR-(\d{3})$/.exec((body.recipient_name || '').trim());
+  if (magic && FDE_ERRORS[Number(magic[1])]) return Number(magic[1]);
+
+  if (body.api_key !== MOCK_FDE_API_KEY) return 211;
+  if (body.client_id === INACTIVE_CLIENT_ID) return 201;
+  if (body.client_id !== MOCK_FDE_CLIENT_ID) return 212;
+  if (!/^\d+$/.test(body.order_id || '')) return 202;
+  if (!(Number(body.parcel_weight) > 0)) return 203;
+  if (!(body.parcel_description || '').trim()) return 204;
+  if (!(body.recipient_name || '').trim()) return 205;
+  if (!/^\d{9,10}$/.test(body.recipient_contact_1 || '')) return 206;
+  if (body.recipient_contact_2 && !/^\d{9,10}$/.test(body.recipient_contact_2)) return 207;
+  if (!(body.recipient_address || '').trim()) return 208;
+  if (!(body.recipient_city || '').trim()) return 209;
+  if (!['0', '1'].includes(body.exchange || '0')) return 213;
+  if (existingWaybill && !(body.waybill_id || '').trim()) return 210;
+  return null;
+}
+
+async function pushStatus(parcel: MockParcel, status: string, format: WebhookFormat = nextFormat()) {
+  parcel.status = status;
+  const at = new Date().toISOString();
+  const entry = { status, at, format, delivered: false };
+  parcel.history.push(entry);
+  if (!config.webhookUrl) {
+    console.log(`[mock-courier] ${parcel.waybill} → ${status} (no webhook URL configured)`);
+    return entry;
+  }
+
+  const fields: Record<string, string> = {
+    waybill_id: parcel.waybill,
+    order_id: parcel.orderId,
+    current_status: status,
+    last_update_time: at
+  };
+
+  let body: any;
+  const headers: Record<string, string> = {};
+  if (format === 'json') {
+    body = JSON.stringify(fields);
+    headers['Content-Type'] = 'application/json';
+  } else if (format === 'urlencoded') {
+    body = new URLSearchParams(fields);
+  } else {
+    const form = new FormData();
+    Object.entries(fields).forEach(([k, v]) => form.append(k, v));
+    body = form;
+  }
+
+  try {
+    const res = await fetch(config.webhookUrl, { method: 'POST', headers, body });
+    entry.delivered = res.ok;
+    console.log(`[mock-courier] ${parcel.waybill} → ${status} via ${format}: HTTP ${res.status}`);
+  } catch (e: any) {
+    console.error(`[mock-courier] webhook push failed for ${parcel.waybill}:`, e.message);
+  }
+  return entry;
+}
+
+function runScript(parcel: MockParcel, script: ScriptName, stepMs: number) {
+  SCRIPTS[script].forEach((status, i) => {
+    setTimeout(() => { pushStatus(parcel, status); }, stepMs * (i + 1));
+  });
+}
+
+function createParcel(body: Record<string, string>, waybill: string): MockParcel {
+  const parcel: MockParcel = {
+    waybill,
+    orderId: body.order_id,
+    recipient: body.recipient_name,
+    city: body.recipient_city,
+    amount: Number(body.amount) || 0,
+    status: 'Waiting',
+    history: [],
+    createdAt: new Date().toISOString()
+  };
+  parcels.set(waybill, parcel);
+  if (config.autoProgress) runScript(parcel, config.script, config.stepMs);
+  return parcel;
+}
+
+export const mockCourierApp = express();
+mockCourierApp.use(express.urlencoded({ extended: false }));
+mockCourierApp.use(express.json());
+
+// --- FDE protocol ---
+mockCourierApp.post('/api/parcel/new_api_v1.php', (req, res) => {
+  const error = validateParcel(req.body, false);
+  if (error) return fail(res, error);
+  const key = `${req.body.client_id}:${req.body.order_id}`;
+  const issued = issuedByOrderId.get(key);
+  if (issued) return res.json({ status: 200, waybill_no: issued, message: 'Success' });
+  const waybill = String(waybillSeq++);
+  issuedByOrderId.set(key, waybill);
+  createParcel(req.body, waybill);
+  res.json({ status: 200, waybill_no: waybill, message: 'Success' });
+});
+
+mockCourierApp.post('/api/parcel/existing_waybill_api_v1.php', (req, res) => {
+  const error = validateParcel(req.body, true);
+  if (error) return fail(res, error);
+  const waybill = String(req.body.waybill_id).trim();
+  if (!parcels.has(waybill)) createParcel(req.body, waybill);
+  res.json({ status: 200, message: 'Success' });
+});
+
+// Tracking lookup used by the OMS tracking poller
+mockCourierApp.post('/api/parcel/tracking_api_v1.php', (req, res) => {
+  if (req.body.api_key !== MOCK_FDE_API_KEY) return fail(res, 211);
+  if (req.body.client_id !== MOCK_FDE_CLIENT_ID) return fail(res, 212);
+  const parcel = parcels.get(String(req.body.waybill_id || '').trim());
+  if (!parcel) return res.json({ status: 404, message: 'Waybill not found' });
+  const last = parcel.history[parcel.history.length - 1];
+  res.json({ status: 200, waybill_no: parcel.waybill, current_status: parcel.status, last_update_time: last?.at || parcel.createdAt });
+});
+
+// --- Test controls ---
+mockCourierApp.get('/mock/parcels', (req, res) => res.json([...parcels.values()]));
+
+mockCourierApp.get('/mock/config', (req, res) => res.json({ ...config, apiKey: MOCK_FDE_API_KEY, clientId: MOCK_FDE_CLIENT_ID, failQueue }));
+
+mockCourierApp.post('/mock/config', (req, res) => {
+  Object.assign(config, req.body);
+  res.json(config);
+});
+
+// Queue error codes (201–214) for the next parcel calls: { "code": 210, "count": 2 }
+mockCourierApp.post('/mock/fail-next', (req, res) => {
+  const code = Number(req.body.code);
+  if (!FDE_ERRORS[code]) return res.status(400).json({ error: `Unknown FDE code ${req.body.code}` });
+  for (let i = 0; i < (Number(req.body.count) || 1); i++) failQueue.push(code);
+  res.json({ failQueue });
+});
+
+// Push one status now: { "status": "Delivered", "format": "multipart" }
+mockCourierApp.post('/mock/parcels/:waybill/push', async (req, res) => {
+  const parcel = parcels.get(req.params.waybill);
+  if (!parcel) return res.status(404).json({ error: 'Unknown waybill' });
+  if (!req.body.status) return res.status(400).json({ error: 'status is required' });
+  if (req.body.format && !FORMATS.includes(req.body.format)) return res.status(400).json({ error: `format must be one of ${FORMATS.join(', ')}` });
+  res.json(await pushStatus(parcel, req.body.status, req.body.format));
+});
+
+// Replay a scripted progression: { "script": "RETURNED", "stepMs": 500 }
+mockCourierApp.post('/mock/parcels/:waybill/script', (req, res) => {
+  const parcel = parcels.get(req.params.waybill);
+  if (!parcel) return res.status(404).json({ error: 'Unknown waybill' });
+  const script = (req.body.script || config.script) as ScriptName;
+  if (!SCRIPTS[script]) return res.status(400).json({ error: `script must be one of ${Object.keys(SCRIPTS).join(', ')}` });
+  runScript(parcel, script, Number(req.body.stepMs) || config.stepMs);
+  res.json({ waybill: parcel.waybill, script: SCRIPTS[script] });
+});
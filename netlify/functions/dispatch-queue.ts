@@ -0,0 +1,12 @@
+import { schedule } from '@netlify/functions';
+import { runDispatchQueue } from '../../server/dispatch';
+
+// Scheduled functions are stopped after 30 seconds, so the run stops taking jobs well before
+// that; keep FDE_TIMEOUT_MS below the remainder so the last courier call can finish
+const BUDGET_MS = Number(process.env.NETLIFY_DISPATCH_BUDGET_MS || 20000);
+
+// Netlify counterpart of the Express server's in-process dispatch worker (server/dispatch.ts)
+export const handler = schedule('* * * * *', async () => {
+  const summary = await runDispatchQueue(undefined, BUDGET_MS);
+  return { statusCode: 200, body: JSON.stringify(summary) };
+});
@@ -0,0 +1,8 @@
+import { schedule } from '@netlify/functions';
+import { runTrackingPoll } from '../../server/tracking';
+
+// Netlify counterpart of the Express server's in-process tracking timer (server/tracking.ts)
+export const handler = schedule('*/30 * * * *', async () => {
+  const summary = await runTrackingPoll();
+  return { statusCode: 200, body: JSON.stringify(summary) };
+});
@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { db } from '../services/mockBackend';
+import { CustomerStatus, FraudReasonCode, NetworkFlag, Order, OrderStatus, ScoredCustomer } from '../types';
+import { formatCurrency, getCustomerStatusColor } from '../utils/helpers';
+import { FRAUD_REASON_LABELS } from '../utils/customers';
+import { ArrowLeft, RefreshCw, Phone, MapPin, ShoppingBag, MessageSquare, Trash2, Send, UserCheck, ChevronRight, ShieldAlert, Globe } from 'lucide-react';
+
+interface CustomerDetailProps {
+  customerId: string;
+  tenantId: string;
+  onBack: () => void;
+  onSelectOrder: (orderId: string) => void;
+}
+
+const getStatusBadgeClass = (status: OrderStatus) => {
+  switch(status) {
+    case OrderStatus.DELIVERED: return 'bg-emerald-50 text-emerald-600 border-emerald-100';
+    case OrderStatus.REJECTED: return 'bg-rose-50 text-rose-600 border-rose-100';
+    case OrderStatus.RETURNED:
+    case OrderStatus.RETURN_COMPLETED: return 'bg-amber-50 text-amber-600 border-amber-100';
+    case OrderStatus.SHIPPED: return 'bg-blue-50 text-blue-600 border-blue-100';
+    default: return 'bg-slate-50 text-slate-500 border-slate-100';
+  }
+};
+
+export const CustomerDetail: React.FC<CustomerDetailProps> = ({ customerId, tenantId, onBack, onSelectOrder }) => {
+  const [customer, setCustomer] = useState<ScoredCustomer | null>(null);
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [missing, setMissing] = useState(false);
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [network, setNetwork] = useState<NetworkFlag | null>(null);
+  const [inNetwork, setInNetwork] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await db.getCustomer(tenantId, customerId);
+      setCustomer(res.customer);
+      setOrders(res.orders || []);
+      setNetwork(res.network);
+      setInNetwork(res.inNetwork);
+      setMissing(false);
+    } catch (e) {
+      setMissing(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, customerId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleAddNote = async () => {
+    if (!note.trim()) return;
+    setSaving(true);
+    try {
+      setCustomer(await db.addCustomerNote(tenantId, customerId, note));
+      setNote('');
+    } catch (err: any) {
+      alert("Note Failure: " + err.message);
+    } finally { setSaving(false); }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!confirm("Delete this note?")) return;
+    try {
+      setCustomer(await db.deleteCustomerNote(tenantId, customerId, noteId));
+    } catch (err: any) {
+      alert("Note Failure: " + err.message);
+    }
+  };
+
+  const handleReport = async () => {
+    const codes = Object.values(FraudReasonCode);
+    const choice = prompt(`Report this number to the fraud network. Other shops see only the category and the date, never your shop name, note or orders.\n\n${codes.map((c, i) => `${i + 1}. ${FRAUD_REASON_LABELS[c]}`).join('\n')}\n\nCategory number:`);
+    const category = codes[Number(choice) - 1];
+    if (!category) return;
+    const reason = prompt("Note for your team and the platform admins (optional, never shown to other shops):");
+    if (reason === null) return;
+    try {
+      setNetwork(await db.reportToFraudNetwork(tenantId, customerId, category, reason));
+    } catch (err: any) {
+      alert("Report Failure: " + err.message);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm("Withdraw your shop's fraud network report for this number?")) return;
+    try {
+      setNetwork(await db.withdrawFraudReport(tenantId, customerId));
+    } catch (err: any) {
+      alert("Report Failure: " + err.message);
+    }
+  };
+
+  if (missing) return (
+    <div className="p-20 text-center space-y-6">
+      <p className="font-black uppercase text-slate-300">No customer profile for {customerId}</p>
+      <button onClick={onBack} className="px-6 py-3 bg-white border border-slate-200 rounded-2xl font-black uppercase text-[10px]">Back</button>
+    </div>
+  );
+  if (!customer) return <div className="p-20 text-center font-black uppercase text-slate-300">Synchronizing...</div>;
+
+  const settled = customer.delivered + customer.returned;
+  const deliveryRate = settled > 0 ? Math.round((customer.delivered / settled) * 100) : null;
+  const sortedNotes = [...customer.notes].reverse();
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6 pb-20 animate-slide-in no-print px-2">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-4 bg-white border border-slate-100 rounded-3xl text-black shadow-sm hover:bg-slate-50 transition-all"><ArrowLeft size={20} /></button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-black text-slate-900 uppercase leading-none tracking-tight">{customer.name}</h1>
+              <span className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${getCustomerStatusColor(customer.risk.status)}`}>{customer.risk.status.replace('_', ' ')}</span>
+            </div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2 flex items-center gap-2">
+              <Phone size={12} className="text-blue-500" /> <span className="text-slate-900 font-mono">{customer.phone}</span>
+              {customer.altPhones.length > 0 && <span className="font-mono">· {customer.altPhones.join(' · ')}</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          {inNetwork && (network?.reportedByYou ? (
+            <button onClick={handleWithdraw} className="px-6 py-4 bg-white border border-slate-200 text-slate-500 hover:text-slate-900 rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-sm flex items-center gap-2"><Globe size={14}/> Withdraw Report</button>
+          ) : customer.returned + customer.rejected > 0 && (
+            <button onClick={handleReport} className="px-6 py-4 bg-rose-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest shadow-sm flex items-center gap-2 hover:bg-rose-700"><Globe size={14}/> Report To Network</button>
+          ))}
+          <button onClick={load} className="p-4 bg-white border border-slate-200 text-slate-400 hover:text-slate-900 rounded-2xl shadow-sm transition-all active:scale-95">
+            <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Orders', value: customer.orders, tone: 'text-slate-900' },
+          { label: 'Delivered', value: customer.delivered, tone: 'text-emerald-600' },
+          { label: 'Returned', value: customer.returned, tone: customer.returned > 0 ? 'text-rose-600' : 'text-slate-900' },
+          { label: 'Rejected', value: customer.rejected, tone: customer.rejected > 0 ? 'text-amber-600' : 'text-slate-900' },
+          { label: 'Lifetime Value', value: formatCurrency(customer.lifetimeValue), tone: 'text-blue-600' }
+        ].map(stat => (
+          <div key={stat.label} className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{stat.label}</p>
+            <p className={`text-2xl font-black mt-2 ${stat.tone}`}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {network?.flagged && (
+        <div className="p-6 rounded-[2rem] border bg-rose-50 border-rose-100 text-rose-700 flex items-start gap-4">
+          <Globe size={20} className="shrink-0 mt-0.5" />
+          <div className="space-y-1">
+            <p className="text-[11px] font-black uppercase tracking-widest">Flagged On Network{network.confirmed ? ' · Confirmed' : ''} · {network.shops} other shop{network.shops === 1 ? '' : 's'}</p>
+            <ul className="space-y-1 text-[11px] font-bold">
+              {network.note && <li>{network.note}</li>}
+              {network.categories.map(c => <li key={c}>{FRAUD_REASON_LABELS[c]}</li>)}
+            </ul>
+            {network.lastReportedAt && (
+              <p className="text-[9px] font-black uppercase tracking-widest opacity-70">Reported {new Date(network.firstReportedAt!).toLocaleDateString()}{network.firstReportedAt !== network.lastReportedAt ? ` – ${new Date(network.lastReportedAt).toLocaleDateString()}` : ''}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {(customer.risk.status === CustomerStatus.RISK_RED || customer.risk.status === CustomerStatus.RISK_ORANGE) && (
+        <div className={`p-6 rounded-[2rem] border flex items-start gap-4 ${customer.risk.status === CustomerStatus.RISK_RED ? 'bg-rose-50 border-rose-100 text-rose-700' : 'bg-orange-50 border-orange-100 text-orange-700'}`}>
+          <ShieldAlert size={20} className="shrink-0 mt-0.5" />
+          <ul className="space-y-1 text-[11px] font-bold uppercase tracking-tight">
+            {customer.risk.reasons.map(r => <li key={r}>{r}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-6">
+          <div className="flex items-center justify-between">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><ShoppingBag size={16} className="text-blue-600"/> Order History</h3>
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              {deliveryRate === null ? 'No settled parcels' : `${deliveryRate}% delivered`} · Since {new Date(customer.firstOrderAt).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="divide-y divide-slate-50 border border-slate-50 rounded-[2rem] overflow-hidden">
+            {orders.map(o => (
+              <button key={o.id} onClick={() => onSelectOrder(o.id)} className="w-full px-6 py-4 flex items-center justify-between gap-4 text-left hover:bg-slate-50 transition-all group">
+                <div className="flex flex-col">
+                  <span className="text-[12px] font-black text-slate-900">REF #{o.id.slice(-6).toUpperCase()}</span>
+                  <span className="text-[10px] font-bold text-slate-400 uppercase mt-0.5">{new Date(o.createdAt).toLocaleDateString()} · {o.items[0]?.name || 'Item'}{o.customerCity ? ` · ${o.customerCity}` : ''}</span>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className={`px-2 py-0.5 border rounded-lg text-[8px] font-black uppercase tracking-tight ${getStatusBadgeClass(o.status)}`}>{o.status}</span>
+                  <span className="text-sm font-black text-slate-900">{formatCurrency(o.totalAmount)}</span>
+                  <ChevronRight size={16} className="text-slate-300 group-hover:text-blue-600" />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-4">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><MapPin size={16} className="text-blue-600"/> Addresses</h3>
+            {customer.addresses.map((a, i) => (
+              <div key={i} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+                <p className="text-[11px] font-bold text-slate-900">{a.address}</p>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">{a.city || 'No city'} · {new Date(a.lastUsedAt).toLocaleDateString()}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-4">
+            <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><MessageSquare size={16} className="text-blue-600"/> Notes</h3>
+            <div className="flex gap-2">
+              <input
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleAddNote()}
+                placeholder="Add a note..."
+                className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-xs font-bold text-slate-900 outline-none focus:ring-2 focus:ring-blue-600"
+              />
+              <button onClick={handleAddNote} disabled={saving || !note.trim()} className="px-4 rounded-xl bg-slate-900 text-white disabled:opacity-30"><Send size={14}/></button>
+            </div>
+            {sortedNotes.length === 0 ? (
+              <div className="py-6 text-center flex flex-col items-center gap-2 opacity-30">
+                <UserCheck size={28} className="text-slate-300" />
+                <p className="text-[9px] font-black uppercase tracking-widest">No Notes</p>
+              </div>
+            ) : sortedNotes.map(n => (
+              <div key={n.id} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl group">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-[11px] font-bold text-slate-900 whitespace-pre-wrap">{n.text}</p>
+                  <button onClick={() => handleDeleteNote(n.id)} className="p-1 text-slate-300 hover:text-rose-600 opacity-0 group-hover:opacity-100"><Trash2 size={12}/></button>
+                </div>
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-2">{n.user} · {new Date(n.timestamp).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,22 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { db } from '../services/mockBackend';
-import { Tenant, User, UserRole, Order, OrderStatus, Product } from '../types';
+import { CityRegistryPanel } from '../components/CityRegistryPanel';
+import { FraudBlocklistPanel } from '../components/FraudBlocklistPanel';
+import { normalizePhone } from '../utils/phone';
+import { Tenant, User, UserRole, Order, OrderStatus, Product, SecurityAction, SecurityLog, WebhookEventStatus, WebhookInboxEntry } from '../types';
 import { 
   Database, RefreshCcw, Globe, Plus, Trash2, Cloud, 
   AlertTriangle, Settings, Layout, Globe2, ShieldAlert, Key, Zap,
   FileUp, DatabaseBackup, CheckCircle2, AlertCircle, HardDriveDownload,
   Users, ChevronDown, Rocket, Lock, Store, ImageIcon, ShieldCheck, Mail,
-  Eraser, Flame, Package, Download, Upload, Box
+  Eraser, Flame, Package, Download, Upload, Box, ScrollText, Search, Webhook, RotateCcw
 } from 'lucide-react';
 
 export const DevAdmin: React.FC = () => {
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [loading, setLoading] = useState(true);
-  const [view, setView] = useState<'CLUSTERS' | 'DOMAINS' | 'MIGRATION'>('CLUSTERS');
+  const [view, setView] = useState<'CLUSTERS' | 'DOMAINS' | 'MIGRATION' | 'AUDIT' | 'WEBHOOKS' | 'CITIES' | 'FRAUD'>('CLUSTERS');
   
   // Cluster Form States
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -31,6 +34,19 @@ export const DevAdmin: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inventoryFileRef = useRef<HTMLInputElement>(null);
 
+  // Security Audit States
+  const [auditLogs, setAuditLogs] = useState<SecurityLog[]>([]);
+  const [auditLoading, setAuditLoading] = useState(false);
+  const [auditFilters, setAuditFilters] = useState({ action: 'ALL', tenantId: '', actor: '', startDate: '', endDate: '' });
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  // Webhook Inbox States
+  const [inbox, setInbox] = useState<WebhookInboxEntry[]>([]);
+  const [inboxLoading, setInboxLoading] = useState(false);
+  const [inboxFilters, setInboxFilters] = useState({ status: 'ALL', tenantId: '', waybill: '' });
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
   const load = async () => {
     setLoading(true);
     try {
@@ -41,6 +57,76 @@ export const DevAdmin: React.FC = () => {
 
   useEffect(() => { load(); }, []);
 
+  const loadAuditLogs = async () => {
+    setAuditLoading(true);
+    try {
+      setAuditLogs(await db.getSecurityLogs(auditFilters));
+    } catch (err: any) {
+      alert("Audit Fetch Failure: " + err.message);
+    } finally { setAuditLoading(false); }
+  };
+
+  const loadInbox = async (filters = inboxFilters) => {
+    setInboxLoading(true);
+    try {
+      setInbox(await db.getWebhookInbox(filters));
+    } catch (err: any) {
+      alert("Inbox Fetch Failure: " + err.message);
+    } finally { setInboxLoading(false); }
+  };
+
+  useEffect(() => {
+    if (view === 'AUDIT') loadAuditLogs();
+    if (view === 'WEBHOOKS') loadInbox();
+  }, [view]);
+
+  const showUnmatched = () => {
+    const filters = { ...inboxFilters, status: WebhookEventStatus.UNMATCHED };
+    setInboxFilters(filters);
+    loadInbox(filters);
+  };
+
+  const handleReplay = async (entry: WebhookInboxEntry) => {
+    setReplayingId(entry.id);
+    try {
+      const replayed = await db.replayWebhook(entry.id);
+      setInbox(prev => prev.map(e => e.id === replayed.id ? replayed : e));
+    } catch (err: any) {
+      alert("Replay Failure: " + err.message);
+    } finally { setReplayingId(null); }
+  };
+
+  const getEventColor = (status: WebhookEventStatus) => {
+    if (status === WebhookEventStatus.APPLIED) return 'bg-emerald-50 text-emerald-600';
+    if (status === WebhookEventStatus.UNMATCHED || status === WebhookEventStatus.UNMAPPED || status === WebhookEventStatus.IGNORED) return 'bg-amber-50 text-amber-600';
+    if (status === WebhookEventStatus.FAILED || status === WebhookEventStatus.INVALID) return 'bg-rose-50 text-rose-600';
+    return 'bg-blue-50 text-blue-600';
+  };
+
+  const handleAuditExport = () => {
+    if (auditLogs.length === 0) return alert("No audit entries to export.");
+    const escape = (value: any) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const header = ['Timestamp', 'Action', 'Actor', 'Role', 'Tenant', 'Target', 'IP', 'User Agent', 'Before', 'After'];
+    const rows = auditLogs.map(l => [
+      l.timestamp, l.action, l.actor.username, l.actor.role, l.tenantId, l.target, l.ip, l.userAgent,
+      l.before ? JSON.stringify(l.before) : '', l.after ? JSON.stringify(l.after) : ''
+    ].map(escape).join(','));
+    const csv = [header.join(','), ...rows].join('\n');
+    const anchor = document.createElement('a');
+    anchor.setAttribute("href", "data:text/csv;charset=utf-8," + encodeURIComponent(csv));
+    anchor.setAttribute("download", `security_audit_${new Date().toISOString()}.csv`);
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+  };
+
+  const getActionColor = (action: SecurityAction) => {
+    if (action === SecurityAction.LOGIN_FAILED || action === SecurityAction.TENANT_DELETED || action === SecurityAction.ORDERS_PURGED || action === SecurityAction.USER_DELETED) return 'bg-rose-50 text-rose-600';
+    if (action === SecurityAction.COURIER_KEYS_UPDATED || action === SecurityAction.WEBHOOK_SECRET_ROTATED || action === SecurityAction.RISK_OVERRIDE || action === SecurityAction.FRAUD_LIST_UPDATED) return 'bg-amber-50 text-amber-600';
+    if (action === SecurityAction.LOGIN) return 'bg-emerald-50 text-emerald-600';
+    return 'bg-blue-50 text-blue-600';
+  };
+
   const handleSaveCluster = async () => {
     if (!formData.name || !formData.mongoUri) return alert("CRITICAL: Identifier and Mongo URI are mandatory.");
     const cleanDomain = formData.domain.toLowerCase().trim().replace(/^https?:\/\//, '').split('/')[0];
@@ -153,14 +239,15 @@ export const DevAdmin: React.FC = () => {
               continue;
           }
 
-          const phone = rawPhone.replace('p:', '').replace(/\s/g, '');
+          // Numbers that do not parse are kept as typed; migrated history is not refused over them
+          const phone = normalizePhone(rawPhone);
           
           const legacyOrder: Order = {
             id: cleanVal(parts[idx.id]) || `mig-${Date.now()}-${i}`,
             tenantId: migrationTenantId,
             customerName: name,
             customerPhone: phone,
-            customerPhone2: cleanVal(parts[idx.phone2]),
+            customerPhone2: normalizePhone(cleanVal(parts[idx.phone2])),
             customerAddress: address,
             customerCity: cleanVal(parts[idx.city]),
             items: [{
@@ -240,7 +327,7 @@ export const DevAdmin: React.FC = () => {
               setMigrationLog(`Restoring ${products.length} product records...`);
               
               for (const p of products) {
-                  await db.updateProduct({ ...p, tenantId: migrationTenantId });
+                  await db.updateProduct({ ...p, tenantId: migrationTenantId }, 'Inventory backup restore');
               }
               
               setMigrationProgress('SUCCESS');
@@ -272,6 +359,25 @@ export const DevAdmin: React.FC = () => {
     }
   };
 
+  const handleCustomerMigration = async () => {
+    if (!migrationTenantId) return alert("Select target cluster node first.");
+    setMigrationProgress('SYNCING');
+    setMigrationLog('Normalising phones and linking orders to customer profiles...');
+    try {
+      // Each call resumes from the server-side cursor, so an interrupted run can simply be started again
+      let progress = await db.migrateCustomers(migrationTenantId);
+      while (!progress.done) {
+        setMigrationLog(`Customer migration: ${progress.scanned} orders scanned, ${progress.updated} updated...`);
+        progress = await db.migrateCustomers(migrationTenantId);
+      }
+      setMigrationProgress('SUCCESS');
+      setMigrationLog(`Customer Migration Complete: ${progress.scanned} orders scanned, ${progress.updated} updated.`);
+    } catch (err: any) {
+      setMigrationProgress('ERROR');
+      setMigrationLog(`Customer Migration Failure: ${err.message}`);
+    }
+  };
+
   const handleDeleteTenant = async (id: string) => {
     const confirmation = prompt(`CRITICAL: Type "DELETE ${id}" to permanently erase this cluster.`);
     if (confirmation !== `DELETE ${id}`) return alert("Decommissioning aborted.");
@@ -308,6 +414,10 @@ export const DevAdmin: React.FC = () => {
           <button onClick={() => setView('CLUSTERS')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'CLUSTERS' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Active Clusters</button>
           <button onClick={() => setView('DOMAINS')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'DOMAINS' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>DNS & Tunnels</button>
           <button onClick={() => setView('MIGRATION')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'MIGRATION' ? 'bg-blue-600 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Data Management Hub</button>
+          <button onClick={() => setView('AUDIT')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'AUDIT' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Security Audit</button>
+          <button onClick={() => setView('WEBHOOKS')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'WEBHOOKS' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Webhook Inbox</button>
+          <button onClick={() => setView('CITIES')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'CITIES' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>City Registry</button>
+          <button onClick={() => setView('FRAUD')} className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'FRAUD' ? 'bg-slate-900 text-white shadow-md' : 'text-slate-400 hover:text-slate-600'}`}>Fraud Network</button>
       </div>
 
       {view === 'CLUSTERS' && (
@@ -449,6 +559,27 @@ export const DevAdmin: React.FC = () => {
                       </div>
                   </div>
 
+                  {/* Customer Profile Migration */}
+                  <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-6">
+                      <div className="flex items-center gap-4">
+                          <div className="w-12 h-12 bg-emerald-50 text-emerald-600 rounded-2xl flex items-center justify-center"><Users size={24}/></div>
+                          <div>
+                              <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Customer Profiles</h3>
+                              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Phone & Profile Migration</p>
+                          </div>
+                      </div>
+                      <p className="text-[11px] font-bold text-slate-500 uppercase leading-relaxed px-2">
+                        Rewrite stored phones into local form and link older orders to customer profiles. Safe to re-run; an interrupted run resumes where it stopped.
+                      </p>
+                      <button 
+                        onClick={handleCustomerMigration}
+                        disabled={!migrationTenantId || migrationProgress === 'SYNCING' || migrationProgress === 'PURGING'}
+                        className="w-full py-5 bg-emerald-600 text-white rounded-[2rem] font-black text-[10px] uppercase tracking-[0.2em] shadow-xl hover:bg-emerald-700 transition-all flex items-center justify-center gap-3 disabled:opacity-30"
+                      >
+                         <Users size={18} /> Migrate Customer Profiles
+                      </button>
+                  </div>
+
                   {/* High Speed Purge Utility */}
                   <div className="bg-rose-50 border-2 border-rose-100 p-10 rounded-[3rem] space-y-6">
                       <div className="flex items-center gap-4">
@@ -522,6 +653,185 @@ export const DevAdmin: React.FC = () => {
           </div>
       )}
 
+      {view === 'AUDIT' && (
+          <div className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                      <div className="w-12 h-12 bg-slate-900 text-white rounded-2xl flex items-center justify-center"><ScrollText size={22}/></div>
+                      <div>
+                          <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Security Audit Trail</h3>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{auditLogs.length} Entries Loaded</p>
+                      </div>
+                  </div>
+                  <button onClick={handleAuditExport} className="flex items-center justify-center gap-2 px-6 py-3 bg-slate-100 text-slate-900 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-200 transition-all">
+                      <Download size={16} /> Export CSV
+                  </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+                  <select className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black uppercase outline-none" value={auditFilters.action} onChange={e => setAuditFilters({...auditFilters, action: e.target.value})}>
+                      <option value="ALL">All Actions</option>
+                      {Object.values(SecurityAction).map(a => <option key={a} value={a}>{a.replace(/_/g, ' ')}</option>)}
+                  </select>
+                  <select className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black uppercase outline-none" value={auditFilters.tenantId} onChange={e => setAuditFilters({...auditFilters, tenantId: e.target.value})}>
+                      <option value="">All Nodes</option>
+                      {tenants.map(t => <option key={t.id} value={t.id}>{t.settings.shopName || t.name}</option>)}
+                  </select>
+                  <input className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black outline-none" placeholder="Actor username" value={auditFilters.actor} onChange={e => setAuditFilters({...auditFilters, actor: e.target.value})} />
+                  <input type="date" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black outline-none" value={auditFilters.startDate} onChange={e => setAuditFilters({...auditFilters, startDate: e.target.value})} />
+                  <input type="date" className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black outline-none" value={auditFilters.endDate} onChange={e => setAuditFilters({...auditFilters, endDate: e.target.value})} />
+                  <button onClick={loadAuditLogs} className="flex items-center justify-center gap-2 bg-blue-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all">
+                      {auditLoading ? <RefreshCcw size={14} className="animate-spin" /> : <Search size={14} />} Apply
+                  </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                      <thead>
+                          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                              <th className="py-3 pr-4">Time</th>
+                              <th className="py-3 pr-4">Action</th>
+                              <th className="py-3 pr-4">Actor</th>
+                              <th className="py-3 pr-4">Node</th>
+                              <th className="py-3 pr-4">Target</th>
+                              <th className="py-3 pr-4">Origin</th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {auditLogs.map(log => (
+                              <React.Fragment key={log.id}>
+                                  <tr onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)} className="border-b border-slate-50 hover:bg-slate-50 cursor-pointer text-xs font-bold text-slate-700">
+                                      <td className="py-3 pr-4 font-mono text-[10px] whitespace-nowrap">{new Date(log.timestamp).toLocaleString()}</td>
+                                      <td className="py-3 pr-4"><span className={`px-3 py-1 rounded-full text-[8px] font-black uppercase whitespace-nowrap ${getActionColor(log.action)}`}>{log.action.replace(/_/g, ' ')}</span></td>
+                                      <td className="py-3 pr-4">{log.actor.username}<span className="block text-[9px] text-slate-400 uppercase">{log.actor.role || '—'}</span></td>
+                                      <td className="py-3 pr-4 font-mono text-[10px]">{log.tenantId || 'SYSTEM'}</td>
+                                      <td className="py-3 pr-4">{log.target || '—'}</td>
+                                      <td className="py-3 pr-4 font-mono text-[10px]">{log.ip || '—'}<span className="block text-[9px] text-slate-400 truncate max-w-[220px]" title={log.userAgent || ''}>{log.userAgent || ''}</span></td>
+                                  </tr>
+                                  {expandedLogId === log.id && (
+                                      <tr className="bg-slate-50">
+                                          <td colSpan={6} className="p-4">
+                                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                  <div>
+                                                      <p className="text-[9px] font-black text-rose-500 uppercase tracking-widest mb-2">Before</p>
+                                                      <pre className="bg-white border border-slate-100 rounded-xl p-4 text-[10px] font-mono whitespace-pre-wrap break-all">{log.before ? JSON.stringify(log.before, null, 2) : '—'}</pre>
+                                                  </div>
+                                                  <div>
+                                                      <p className="text-[9px] font-black text-emerald-600 uppercase tracking-widest mb-2">After</p>
+                                                      <pre className="bg-white border border-slate-100 rounded-xl p-4 text-[10px] font-mono whitespace-pre-wrap break-all">{log.after ? JSON.stringify(log.after, null, 2) : '—'}</pre>
+                                                  </div>
+                                              </div>
+                                          </td>
+                                      </tr>
+                                  )}
+                              </React.Fragment>
+                          ))}
+                      </tbody>
+                  </table>
+                  {!auditLoading && auditLogs.length === 0 && (
+                      <p className="text-center py-16 text-[10px] font-black text-slate-300 uppercase tracking-widest">No audit entries match these filters</p>
+                  )}
+              </div>
+          </div>
+      )}
+
+      {view === 'WEBHOOKS' && (
+          <div className="bg-white p-8 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                      <div className="w-12 h-12 bg-slate-900 text-white rounded-2xl flex items-center justify-center"><Webhook size={22}/></div>
+                      <div>
+                          <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Courier Webhook Inbox</h3>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">{inbox.length} Events Loaded</p>
+                      </div>
+                  </div>
+                  <button onClick={showUnmatched} className="flex items-center justify-center gap-2 px-6 py-3 bg-amber-50 text-amber-700 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-amber-100 transition-all">
+                      <AlertTriangle size={16} /> Unmatched Waybills
+                  </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <select className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black uppercase outline-none" value={inboxFilters.status} onChange={e => setInboxFilters({...inboxFilters, status: e.target.value})}>
+                      <option value="ALL">All Outcomes</option>
+                      {Object.values(WebhookEventStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <select className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black uppercase outline-none" value={inboxFilters.tenantId} onChange={e => setInboxFilters({...inboxFilters, tenantId: e.target.value})}>
+                      <option value="">All Nodes</option>
+                      {tenants.map(t => <option key={t.id} value={t.id}>{t.settings.shopName || t.name}</option>)}
+                  </select>
+                  <input className="bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-[11px] font-black outline-none" placeholder="Waybill" value={inboxFilters.waybill} onChange={e => setInboxFilters({...inboxFilters, waybill: e.target.value})} />
+                  <button onClick={() => loadInbox()} className="flex items-center justify-center gap-2 bg-blue-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all">
+                      {inboxLoading ? <RefreshCcw size={14} className="animate-spin" /> : <Search size={14} />} Apply
+                  </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                      <thead>
+                          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                              <th className="py-3 pr-4">Received</th>
+                              <th className="py-3 pr-4">Node</th>
+                              <th className="py-3 pr-4">Waybill</th>
+                              <th className="py-3 pr-4">Courier Status</th>
+                              <th className="py-3 pr-4">Outcome</th>
+                              <th className="py-3 pr-4">Attempts</th>
+                              <th className="py-3 pr-4"></th>
+                          </tr>
+                      </thead>
+                      <tbody>
+                          {inbox.map(entry => (
+                              <React.Fragment key={entry.id}>
+                                  <tr onClick={() => setExpandedEventId(expandedEventId === entry.id ? null : entry.id)} className="border-b border-slate-50 hover:bg-slate-50 cursor-pointer text-xs font-bold text-slate-700">
+                                      <td className="py-3 pr-4 font-mono text-[10px] whitespace-nowrap">{new Date(entry.receivedAt).toLocaleString()}</td>
+                                      <td className="py-3 pr-4 font-mono text-[10px]">{entry.tenantId}<span className="block text-[9px] text-slate-400 uppercase">{entry.provider} · {entry.source || 'WEBHOOK'}</span></td>
+                                      <td className="py-3 pr-4 font-mono text-[10px]">{entry.waybill || '—'}</td>
+                                      <td className="py-3 pr-4">{entry.courierStatus || '—'}<span className="block text-[9px] text-slate-400 font-mono">{entry.eventTime ? new Date(entry.eventTime).toLocaleString() : 'No courier time'}</span></td>
+                                      <td className="py-3 pr-4">
+                                          <span className={`px-3 py-1 rounded-full text-[8px] font-black uppercase whitespace-nowrap ${getEventColor(entry.status)}`}>{entry.status}</span>
+                                          <span className="block text-[9px] text-slate-400 mt-1 max-w-[240px] truncate" title={entry.result || ''}>{entry.result || ''}</span>
+                                      </td>
+                                      <td className="py-3 pr-4 font-mono text-[10px]">{entry.attempts}{entry.duplicates > 0 && <span className="block text-[9px] text-slate-400">+{entry.duplicates} dup</span>}</td>
+                                      <td className="py-3 pr-4 text-right">
+                                          <button
+                                              onClick={e => { e.stopPropagation(); handleReplay(entry); }}
+                                              disabled={replayingId === entry.id}
+                                              className="inline-flex items-center gap-2 px-4 py-2 bg-slate-100 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-200 disabled:opacity-30"
+                                          >
+                                              <RotateCcw size={12} className={replayingId === entry.id ? 'animate-spin' : ''} /> Replay
+                                          </button>
+                                      </td>
+                                  </tr>
+                                  {expandedEventId === entry.id && (
+                                      <tr className="bg-slate-50">
+                                          <td colSpan={7} className="p-4">
+                                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                                  <div>
+                                                      <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-2">Raw Body · {entry.contentType || 'no content type'}</p>
+                                                      <pre className="bg-white border border-slate-100 rounded-xl p-4 text-[10px] font-mono whitespace-pre-wrap break-all">{entry.rawBody || '—'}</pre>
+                                                  </div>
+                                                  <div>
+                                                      <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-2">Query · Order {entry.orderId || '—'}</p>
+                                                      <pre className="bg-white border border-slate-100 rounded-xl p-4 text-[10px] font-mono whitespace-pre-wrap break-all">{JSON.stringify(entry.query, null, 2)}</pre>
+                                                  </div>
+                                              </div>
+                                          </td>
+                                      </tr>
+                                  )}
+                              </React.Fragment>
+                          ))}
+                      </tbody>
+                  </table>
+                  {!inboxLoading && inbox.length === 0 && (
+                      <p className="text-center py-16 text-[10px] font-black text-slate-300 uppercase tracking-widest">No webhook events match these filters</p>
+                  )}
+              </div>
+          </div>
+      )}
+
+      {view === 'CITIES' && <CityRegistryPanel />}
+
+      {view === 'FRAUD' && <FraudBlocklistPanel tenants={tenants} />}
+
       {isModalOpen && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/60 backdrop-blur-sm">
           <div className="bg-white w-full max-w-2xl rounded-[3rem] p-10 space-y-8 shadow-2xl animate-slide-in max-h-[90vh] overflow-y-auto no-scrollbar">
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { db } from '../services/mockBackend';
+import { DispatchJob, DispatchJobStatus } from '../types';
+import { Send, RefreshCw, RotateCcw, XCircle, ChevronDown, ChevronUp, Package, Clock, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface DispatchMonitorProps {
+  tenantId: string;
+  shopName: string;
+  onSelectOrder: (id: string) => void;
+}
+
+const REFRESH_MS = 15000;
+
+const STATUS_STYLES: Record<DispatchJobStatus, { badge: string; icon: React.ReactNode }> = {
+  [DispatchJobStatus.QUEUED]: { badge: 'bg-amber-50 text-amber-700 border-amber-100', icon: <Clock size={12}/> },
+  [DispatchJobStatus.RUNNING]: { badge: 'bg-blue-50 text-blue-700 border-blue-100', icon: <Loader2 size={12} className="animate-spin"/> },
+  [DispatchJobStatus.FAILED]: { badge: 'bg-rose-50 text-rose-700 border-rose-100', icon: <AlertTriangle size={12}/> },
+  [DispatchJobStatus.DONE]: { badge: 'bg-emerald-50 text-emerald-700 border-emerald-100', icon: <CheckCircle2 size={12}/> }
+};
+
+export const DispatchMonitor: React.FC<DispatchMonitorProps> = ({ tenantId, shopName, onSelectOrder }) => {
+  const [jobs, setJobs] = useState<DispatchJob[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<DispatchJobStatus, number>>>({});
+  const [filter, setFilter] = useState<DispatchJobStatus | 'ALL'>('ALL');
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await db.getDispatchJobs(tenantId, filter);
+      setJobs(res.jobs || []);
+      setCounts(res.counts || {});
+    } catch (e) {
+      console.error("Dispatch Monitor Handshake Failure", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId, filter]);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const handleAction = async (job: DispatchJob, action: 'RETRY' | 'CANCEL') => {
+    if (action === 'CANCEL' && !confirm(`Cancel the dispatch of ${job.customerName}? The order stays CONFIRMED.`)) return;
+    setBusyId(job.id);
+    try {
+      await db.updateDispatchJob(job.id, action, tenantId);
+      await load();
+    } catch (err: any) {
+      alert("Dispatch Action Failure: " + err.message);
+    } finally { setBusyId(null); }
+  };
+
+  const total = Object.values(counts).reduce((sum, n) => sum + (n || 0), 0);
+  const tabs: { id: DispatchJobStatus | 'ALL'; label: string; count: number }[] = [
+    { id: 'ALL', label: 'All', count: total },
+    ...Object.values(DispatchJobStatus).map(s => ({ id: s, label: s, count: counts[s] || 0 }))
+  ];
+
+  return (
+    <div className="space-y-6 animate-slide-in max-w-[1400px] mx-auto pb-10 px-2">
+      <div className="flex flex-col md:flex-row items-center justify-between gap-6">
+        <div className="flex items-center gap-4">
+          <div className="p-4 bg-blue-600 text-white rounded-[1.5rem] shadow-xl rotate-2">
+            <Send size={28} />
+          </div>
+          <div>
+            <h2 className="text-3xl font-black text-slate-900 uppercase tracking-tighter leading-none">{shopName} Dispatch Monitor</h2>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] mt-2">Courier Queue · Auto Retry</p>
+          </div>
+        </div>
+        <button onClick={load} className="p-3 bg-white border border-slate-200 rounded-xl text-slate-400 hover:text-slate-900 transition-all shadow-sm">
+          <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setFilter(tab.id)}
+            className={`px-5 py-2.5 rounded-xl font-black uppercase text-[10px] tracking-widest transition-all border ${filter === tab.id ? 'bg-slate-950 text-white border-slate-950 shadow-lg' : 'bg-white text-slate-500 border-slate-200 hover:text-slate-900'}`}
+          >
+            {tab.label} <span className="opacity-60 ml-1">{tab.count}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="modern-card overflow-hidden flex flex-col min-h-[500px] bg-white border border-slate-100 shadow-sm rounded-[3rem]">
+        <div className="flex-1 overflow-x-auto no-scrollbar">
+          <table className="w-full text-left compact-table">
+            <thead>
+              <tr className="bg-slate-50/50">
+                <th className="pl-8">Node Reference</th>
+                <th>Consignee</th>
+                <th className="text-center">Status</th>
+                <th className="text-center">Attempts</th>
+                <th>Courier Outcome</th>
+                <th className="text-right pr-8">Terminal</th>
+              </tr>
+            </thead>
+            <tbody className={`divide-y divide-slate-50 ${loading && jobs.length === 0 ? 'opacity-30' : ''}`}>
+              {jobs.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-32 text-center">
+                    <div className="flex flex-col items-center opacity-20">
+                      <Package size={64} className="mb-4 stroke-1" />
+                      <p className="text-sm font-black uppercase tracking-[0.5em]">Queue Empty</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : jobs.map(job => {
+                const style = STATUS_STYLES[job.status];
+                const expanded = expandedId === job.id;
+                return (
+                  <React.Fragment key={job.id}>
+                    <tr className="hover:bg-slate-50 transition-colors">
+                      <td className="pl-8 py-5">
+                        <button onClick={() => onSelectOrder(job.orderId)} className="font-mono text-[10px] font-black text-blue-600 uppercase tracking-tighter hover:underline">#{job.orderId.slice(-8)}</button>
+                        <p className="text-[9px] font-bold text-slate-400 uppercase mt-0.5">{new Date(job.createdAt).toLocaleString()} · {job.requestedBy}</p>
+                      </td>
+                      <td className="py-5">
+                        <div className="flex flex-col">
+                          <span className="font-black text-slate-900 text-[13px] uppercase tracking-tight">{job.customerName}</span>
+                          <span className="text-[10px] font-bold text-slate-400 mt-0.5 uppercase">{job.customerCity}</span>
+                        </div>
+                      </td>
+                      <td className="text-center py-5">
+                        <span className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border ${style.badge}`}>
+                          {style.icon} {job.status}
+                        </span>
+                      </td>
+                      <td className="text-center py-5 text-[11px] font-black text-slate-600">{job.attempts.length}/{job.maxAttempts}</td>
+                      <td className="py-5 max-w-[320px]">
+                        {job.status === DispatchJobStatus.DONE ? (
+                          <span className="text-[10px] font-mono font-black text-emerald-600 uppercase">{job.waybill || 'Shipped'}</span>
+                        ) : (
+                          <div className="flex flex-col">
+                            {job.lastError && <span className="text-[10px] font-bold text-rose-600 truncate" title={job.lastError}>{job.lastError}</span>}
+                            {job.status === DispatchJobStatus.QUEUED && job.nextAttemptAt && (
+                              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-0.5">Next try {new Date(job.nextAttemptAt).toLocaleTimeString()}</span>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="text-right pr-8 py-5">
+                        <div className="flex items-center justify-end gap-2">
+                          {job.status === DispatchJobStatus.FAILED && (
+                            <button onClick={() => handleAction(job, 'RETRY')} disabled={busyId === job.id} className="px-4 py-2 rounded-xl bg-blue-50 text-blue-700 font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-blue-100 disabled:opacity-30">
+                              <RotateCcw size={12}/> Retry
+                            </button>
+                          )}
+                          {job.status === DispatchJobStatus.QUEUED && (
+                            <button onClick={() => handleAction(job, 'CANCEL')} disabled={busyId === job.id} className="px-4 py-2 rounded-xl bg-slate-100 text-slate-600 font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-rose-50 hover:text-rose-600 disabled:opacity-30">
+                              <XCircle size={12}/> Cancel
+                            </button>
+                          )}
+                          <button onClick={() => setExpandedId(expanded ? null : job.id)} disabled={job.attempts.length === 0} className="p-2 bg-white border border-slate-200 text-slate-400 hover:text-slate-900 rounded-xl transition-all disabled:opacity-30">
+                            {expanded ? <ChevronUp size={16}/> : <ChevronDown size={16}/>}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr className="bg-slate-50/60">
+                        <td colSpan={6} className="px-8 py-4">
+                          <div className="space-y-2">
+                            {job.attempts.map((a, i) => (
+                              <div key={i} className="flex items-center gap-4 text-[10px] font-bold">
+                                <span className="text-slate-400 font-mono w-44">{new Date(a.at).toLocaleString()}</span>
+                                <span className={`font-black uppercase tracking-widest w-24 ${a.error ? (a.retryable ? 'text-amber-600' : 'text-rose-600') : 'text-emerald-600'}`}>
+                                  {a.error ? (a.retryable ? 'Retryable' : 'Refused') : 'Shipped'}
+                                </span>
+                                <span className="font-mono text-slate-500 w-12">{a.code || '—'}</span>
+                                <span className="text-slate-700">{a.error || 'Courier accepted the parcel'}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { db } from '../services/mockBackend';
-import { Order, OrderStatus, Product } from '../types';
+import { Order, OrderStatus, Product, Tenant } from '../types';
 import { formatCurrency } from '../utils/helpers';
+import { shippingCostOf } from '../utils/rateCards';
+import { CodReconciliation } from '../components/CodReconciliation';
 import { 
   Wallet, 
   Calculator, 
@@ -16,7 +18,8 @@ import {
   Calendar,
   Users,
   Package,
-  RefreshCw
+  RefreshCw,
+  MapPin
 } from 'lucide-react';
 
 interface FinancialCenterProps {
@@ -27,6 +30,7 @@ interface FinancialCenterProps {
 export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shopName }) => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
+  const [tenant, setTenant] = useState<Tenant | null>(null);
   const [loading, setLoading] = useState(true);
 
   const [startDate, setStartDate] = useState(() => {
@@ -46,12 +50,14 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
     setLoading(true);
     try {
       // Fetch up to 10k orders for financial summary calculations
-      const [oRes, p] = await Promise.all([
+      const [oRes, p, t] = await Promise.all([
         db.getOrders({ tenantId, limit: 10000 }), 
-        db.getProducts(tenantId)
+        db.getProducts(tenantId),
+        db.getTenant(tenantId)
       ]);
       setOrders(oRes.data || []);
       setProducts(p || []);
+      setTenant(t || null);
     } catch (e) {
       console.error("Financial sync failure", e);
     } finally {
@@ -68,7 +74,8 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
 
     if (!Array.isArray(orders)) return {
       grossRevenue: 0, totalCogs: 0, grossProfit: 0, deliveredCount: 0, returnedCount: 0,
-      totalDeliveryDeduction: 0, totalReturnDeduction: 0, netProfit: 0, investorShare: 0,
+      totalDeliveryDeduction: 0, totalReturnDeduction: 0, deliverySources: { statement: 0, rateCard: 0 }, returnSources: { statement: 0, rateCard: 0 },
+      cityProfit: [], netProfit: 0, investorShare: 0,
       workerSharePool: 0, perWorkerProfit: 0, orderCount: 0
     };
 
@@ -85,21 +92,54 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
 
     const grossRevenue = deliveredOrders.reduce((s, o) => s + o.totalAmount, 0);
     
-    const totalCogs = deliveredOrders.reduce((sum, order) => {
-      return sum + order.items.reduce((itemSum, item) => {
+    const cogsOf = (order: Order) => {
+      // Orders dispatched with recorded batches carry their exact cost
+      if (order.stockAllocations && order.stockAllocations.length > 0) {
+        return order.stockAllocations.reduce((s, a) => s + a.quantity * a.buyingPrice, 0);
+      }
+      return order.items.reduce((itemSum, item) => {
         const prod = products.find(p => p.id === item.productId);
         const avgBuyingPrice = prod?.batches && prod.batches.length > 0 
           ? prod.batches.reduce((acc, b) => acc + b.buyingPrice, 0) / prod.batches.length 
           : 0;
         return itemSum + (item.quantity * avgBuyingPrice);
       }, 0);
-    }, 0);
+    };
+    const totalCogs = deliveredOrders.reduce((sum, order) => sum + cogsOf(order), 0);
 
     const deliveredCount = deliveredOrders.length;
     const returnedCount = returnedOrders.length;
     
-    const totalDeliveryDeduction = deliveredCount * deliveryFee;
-    const totalReturnDeduction = returnedCount * returnFee;
+    // Fees a courier statement actually deducted win over the rate card price, which wins over the flat guess
+    const returned = (o: Order) => o.status !== OrderStatus.DELIVERED;
+    const feeSource = (o: Order) => o.courierFee !== undefined ? 'statement' : shippingCostOf(tenant?.settings, o) ? 'rateCard' : 'flat';
+    const feeOf = (o: Order) => {
+      if (o.courierFee !== undefined) return o.courierFee;
+      const cost = shippingCostOf(tenant?.settings, o);
+      if (cost) return returned(o) ? cost.returnFee : cost.delivery;
+      return returned(o) ? returnFee : deliveryFee;
+    };
+    const sources = (list: Order[]) => ({
+      statement: list.filter(o => feeSource(o) === 'statement').length,
+      rateCard: list.filter(o => feeSource(o) === 'rateCard').length
+    });
+    const totalDeliveryDeduction = deliveredOrders.reduce((s, o) => s + feeOf(o), 0);
+    const totalReturnDeduction = returnedOrders.reduce((s, o) => s + feeOf(o), 0);
+    const deliverySources = sources(deliveredOrders);
+    const returnSources = sources(returnedOrders);
+
+    const cities = new Map<string, { city: string; delivered: number; returned: number; revenue: number; cogs: number; shipping: number }>();
+    for (const o of [...deliveredOrders, ...returnedOrders]) {
+      const city = (o.customerCity || '').trim() || 'Unknown';
+      const row = cities.get(city.toLowerCase()) || { city, delivered: 0, returned: 0, revenue: 0, cogs: 0, shipping: 0 };
+      if (returned(o)) row.returned++;
+      else { row.delivered++; row.revenue += o.totalAmount; row.cogs += cogsOf(o); }
+      row.shipping += feeOf(o);
+      cities.set(city.toLowerCase(), row);
+    }
+    const cityProfit = [...cities.values()]
+      .map(c => ({ ...c, profit: c.revenue - c.cogs - c.shipping }))
+      .sort((a, b) => b.revenue - a.revenue);
     
     const grossProfit = grossRevenue - totalCogs;
     const netProfit = grossProfit - totalDeliveryDeduction - totalReturnDeduction - manualExpenses - advertisingCosts;
@@ -116,19 +156,31 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
       returnedCount,
       totalDeliveryDeduction,
       totalReturnDeduction,
+      deliverySources,
+      returnSources,
+      cityProfit,
       netProfit,
       investorShare,
       workerSharePool,
       perWorkerProfit,
       orderCount: filtered.length
     };
-  }, [orders, products, startDate, endDate, deliveryFee, returnFee, manualExpenses, advertisingCosts, workerCount]);
+  }, [orders, products, tenant, startDate, endDate, deliveryFee, returnFee, manualExpenses, advertisingCosts, workerCount]);
+
+  const feeBreakdown = (count: number, from: { statement: number; rateCard: number }, flat: number) => {
+    const flatCount = count - from.statement - from.rateCard;
+    return [
+      from.statement > 0 && `${from.statement} per statement`,
+      from.rateCard > 0 && `${from.rateCard} per rate card`,
+      (flatCount > 0 || count === 0) && `${flatCount} × ${flat}`
+    ].filter(Boolean).join(' + ');
+  };
 
   const handlePrint = () => {
     window.print();
   };
 
-  if (loading) return <div className="p-20 text-center font-black uppercase text-slate-300 tracking-[0.5em]">Syncing Ledgers...</div>;
+  if (loading && orders.length === 0) return <div className="p-20 text-center font-black uppercase text-slate-300 tracking-[0.5em]">Syncing Ledgers...</div>;
 
   return (
     <div className="space-y-10 max-w-7xl mx-auto pb-20 animate-slide-in print:p-0">
@@ -198,6 +250,7 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
                   className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 font-black text-xl text-white outline-none focus:border-rose-500 transition-all"
                 />
               </div>
+              <p className="text-[9px] font-bold text-slate-500 uppercase tracking-tight italic">* Applied only to parcels with no courier statement or rate card</p>
               <div>
                 <label className="text-[9px] font-black text-slate-500 uppercase tracking-widest block mb-2">Staff Workforce Count</label>
                 <div className="flex items-center gap-3">
@@ -295,11 +348,11 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
               <div className="space-y-1 pt-4">
                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Operating Deductions</p>
                 <div className="flex justify-between items-center py-1 text-slate-500">
-                  <span className="text-xs font-medium">Delivery Fees ({financialData.deliveredCount} × {deliveryFee})</span>
+                  <span className="text-xs font-medium">Delivery Fees ({feeBreakdown(financialData.deliveredCount, financialData.deliverySources, deliveryFee)})</span>
                   <span className="text-xs font-bold text-rose-600">-{formatCurrency(financialData.totalDeliveryDeduction)}</span>
                 </div>
                 <div className="flex justify-between items-center py-1 text-slate-500">
-                  <span className="text-xs font-medium">Return Fees ({financialData.returnedCount} × {returnFee})</span>
+                  <span className="text-xs font-medium">Return Fees ({feeBreakdown(financialData.returnedCount, financialData.returnSources, returnFee)})</span>
                   <span className="text-xs font-bold text-rose-600">-{formatCurrency(financialData.totalReturnDeduction)}</span>
                 </div>
                 <div className="flex justify-between items-center py-1 text-slate-500">
@@ -319,6 +372,44 @@ export const FinancialCenter: React.FC<FinancialCenterProps> = ({ tenantId, shop
             </div>
           </div>
 
+          {financialData.cityProfit.length > 0 && (
+            <div className="modern-card overflow-hidden bg-white shadow-sm border border-slate-100">
+              <div className="p-6 border-b border-slate-50">
+                <h3 className="text-sm font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+                  <MapPin size={16} className="text-blue-600" /> Profit By City
+                </h3>
+              </div>
+              <div className="max-h-96 overflow-y-auto no-scrollbar">
+                <table className="w-full text-left compact-table">
+                  <thead>
+                    <tr className="bg-slate-50/50">
+                      <th className="pl-6">City</th>
+                      <th className="text-right">Delivered</th>
+                      <th className="text-right">Returned</th>
+                      <th className="text-right">Revenue</th>
+                      <th className="text-right">Shipping</th>
+                      <th className="text-right pr-6">Profit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {financialData.cityProfit.map(c => (
+                      <tr key={c.city}>
+                        <td className="pl-6 py-3 text-[11px] font-black uppercase text-slate-900">{c.city}</td>
+                        <td className="text-right py-3 text-[11px] font-bold text-slate-600">{c.delivered}</td>
+                        <td className="text-right py-3 text-[11px] font-bold text-slate-600">{c.returned}</td>
+                        <td className="text-right py-3 text-[11px] font-bold text-slate-600">{formatCurrency(c.revenue)}</td>
+                        <td className="text-right py-3 text-[11px] font-bold text-rose-600">{formatCurrency(c.shipping)}</td>
+                        <td className={`text-right pr-6 py-3 text-[12px] font-black ${c.profit < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatCurrency(c.profit)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <CodReconciliation tenantId={tenantId} onReconciled={load} />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="modern-card p-6 border-l-4 border-l-indigo-600 bg-white">
                 <div className="flex items-center gap-3 mb-4">
@@ -1,17 +1,13 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { db } from '../services/mockBackend';
-import { Product, Order, OrderStatus, Tenant, CourierMode } from '../types';
-import { UserPlus, FileSpreadsheet, CheckCircle2, ChevronDown, History, Package, ShieldAlert, AlertTriangle, Upload, Trash2, Database, Box, Zap, MapPin, Scale, RefreshCw } from 'lucide-react';
-import { parseCSV, formatCurrency } from '../utils/helpers';
-
-const SRI_LANKA_CITIES_FALLBACK = [
-  "Colombo", "Gampaha", "Kalutara", "Kandy", "Matale", "Nuwara Eliya", "Galle", "Matara", "Hambantota", 
-  "Jaffna", "Kilinochchi", "Mannar", "Vavuniya", "Mullaitivu", "Batticaloa", "Ampara", "Trincomalee", 
-  "Kurunegala", "Puttalam", "Anuradhapura", "Polonnaruwa", "Badulla", "Monaragala", "Ratnapura", "Kegalle",
-  "Dehiwala-Mount Lavinia", "Moratuwa", "Negombo", "Sri Jayawardenepura Kotte", "Kaduwela", "Kolonnawa", 
-  "Chilaw", "Wattala", "Welisara", "Ja-Ela", "Paliyagoda", "Gampola", "Nawalapitiya", "Haputale"
-].sort();
+import { Product, Order, OrderStatus, CustomerStatus, Tenant, CourierMode, WaybillPoolSummary, CityRecord, FraudReasonCode } from '../types';
+import { UserPlus, FileSpreadsheet, CheckCircle2, ChevronDown, History, Package, ShieldAlert, AlertTriangle, Upload, Trash2, Database, Box, Zap, MapPin, Scale, RefreshCw, Globe } from 'lucide-react';
+import { parseCSV, formatCurrency, getCustomerStatusColor } from '../utils/helpers';
+import { selectCourierAccount } from '../utils/couriers';
+import { parsePhone, phoneProblem } from '../utils/phone';
+import { SEED_CITIES, resolveCity, suggestCitiesFromAddress } from '../utils/cities';
+import { FRAUD_REASON_LABELS } from '../utils/customers';
 
 interface LeadsProps {
   tenantId: string;
@@ -21,7 +17,8 @@ interface LeadsProps {
 export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
   const [products, setProducts] = useState<Product[]>([]);
   const [tenant, setTenant] = useState<Tenant | null>(null);
-  const [cities, setCities] = useState<string[]>([]);
+  const [cityRegistry, setCityRegistry] = useState<CityRecord[]>([]);
+  const cities = useMemo(() => cityRegistry.filter(c => c.active).map(c => c.name), [cityRegistry]);
   const [currentUser, setCurrentUser] = useState<string>('System');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [loading, setLoading] = useState(false);
@@ -36,6 +33,13 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
     weight: '1'
   });
   const [customerHistory, setCustomerHistory] = useState<any>(null);
+  // Waybill rules follow the courier account that serves the chosen city
+  const manualAccount = selectCourierAccount(tenant?.settings, manualForm.city);
+  const isExistingMode = manualAccount?.mode === CourierMode.EXISTING_WAYBILL;
+  const [waybillPools, setWaybillPools] = useState<WaybillPoolSummary[]>([]);
+  const manualPool = waybillPools.find(p => p.courierAccountId === manualAccount?.id);
+  // With a loaded pool the waybill may be left blank; one is handed out on confirm
+  const hasWaybillPool = !!manualPool && manualPool.available + manualPool.assigned + manualPool.used + manualPool.void > 0;
   const [message, setMessage] = useState<{ text: string, type: 'success' | 'error' | 'info' } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
@@ -48,10 +52,8 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
     await Promise.all([
         db.getProducts(tenantId).then(setProducts),
         db.getTenant(tenantId).then(setTenant),
-        db.getGlobalCities().then(c => {
-            const cityList = Array.from(new Set(c.length > 0 ? c : SRI_LANKA_CITIES_FALLBACK));
-            setCities(cityList);
-        })
+        db.getWaybillPool(tenantId).then(res => setWaybillPools(res.summary || [])).catch(() => setWaybillPools([])),
+        db.getCityRegistry().then(c => setCityRegistry(c.length > 0 ? c : SEED_CITIES)).catch(() => setCityRegistry(SEED_CITIES))
     ]);
     const saved = localStorage.getItem('mw_user');
     if (saved) setCurrentUser(JSON.parse(saved).username);
@@ -60,25 +62,46 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
 
   useEffect(() => { loadData(); }, [loadData]);
 
+  // Graded against the selected product's price, so a large first order shows its caution
+  const manualAmount = products.find(x => x.id === manualForm.productId)?.price || 0;
+
+  const manualPhone = parsePhone(manualForm.phone);
+
   useEffect(() => {
-    const normalizedPhone = manualForm.phone.replace(/\D/g, '');
-    if (normalizedPhone.length >= 9) {
+    const normalizedPhone = manualPhone?.local;
+    if (normalizedPhone) {
         const timer = setTimeout(async () => {
-            const h = await db.getCustomerHistory(normalizedPhone, tenantId);
+            const h = await db.getCustomerHistory(normalizedPhone, tenantId, manualAmount);
             setCustomerHistory(h);
         }, 500);
         return () => clearTimeout(timer);
     } else {
         setCustomerHistory(null);
     }
-  }, [manualForm.phone, tenantId]);
+  }, [manualPhone?.local, manualAmount, tenantId]);
+
+  // Town names read off the address while it is typed; an exact hit fills an empty city
+  const addressCities = useMemo(() => suggestCitiesFromAddress(manualForm.address, cityRegistry), [manualForm.address, cityRegistry]);
+
+  useEffect(() => {
+    const top = addressCities[0];
+    if (top?.score === 1) setManualForm(form => form.city ? form : { ...form, city: top.city.name });
+  }, [addressCities]);
+
+  // CSV cities are matched to the registry spelling, falling back to a town named in the address
+  const registryCity = (city?: string, address?: string) =>
+    resolveCity(city, cityRegistry)?.name
+      || suggestCitiesFromAddress(address, cityRegistry).find(m => m.score === 1)?.city.name
+      || city
+      || '';
 
   const handleManualSubmit = async () => {
     if (!manualForm.name || !manualForm.phone || !manualForm.productId || !manualForm.address) return alert("CRITICAL: Name, Phone, Address, and SKU are mandatory.");
     if (!manualForm.city) return alert("City Selection Required.");
+    const phoneError = phoneProblem(manualForm.phone);
+    if (phoneError) return alert(`Invalid Contact No: ${phoneError}`);
 
-    const isExistingMode = tenant?.settings.courierMode === CourierMode.EXISTING_WAYBILL;
-    if (isExistingMode && !manualForm.trackingNumber) return alert("Existing Waybill ID is mandatory for this cluster mode.");
+    if (isExistingMode && !hasWaybillPool && !manualForm.trackingNumber) return alert("Existing Waybill ID is mandatory for this cluster mode.");
 
     const p = products.find(x => x.id === manualForm.productId);
     if (!p) return;
@@ -87,11 +110,11 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
       id: `ord-${Date.now()}`,
       tenantId,
       customerName: manualForm.name,
-      customerPhone: manualForm.phone,
+      customerPhone: manualPhone!.local,
       customerAddress: manualForm.address,
       customerCity: manualForm.city,
       parcelWeight: manualForm.weight,
-      trackingNumber: isExistingMode ? manualForm.trackingNumber : undefined,
+      trackingNumber: isExistingMode && manualForm.trackingNumber ? manualForm.trackingNumber : undefined,
       items: [{ productId: p.id, name: p.name, price: p.price, quantity: 1 }],
       totalAmount: p.price,
       status: OrderStatus.PENDING,
@@ -101,7 +124,14 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
       logs: [{ id: `l-${Date.now()}`, message: 'Manual Creation', timestamp: new Date().toISOString(), user: currentUser }]
     };
     
-    await db.createOrders([order]);
+    let flagged: { orderId: string; warning: string }[];
+    try {
+      // Typed waybills are checked against the pool server-side
+      flagged = await db.createOrders([order]);
+    } catch (e: any) {
+      return alert(`Entry Rejected: ${e.message}`);
+    }
+    if (flagged.length > 0) alert(`Lead saved. ${flagged[0].warning}`);
     setMessage({ text: "Entry Handshake Complete", type: 'success' });
     setManualForm({ 
         name: '', 
@@ -122,7 +152,13 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
     const reader = new FileReader();
     reader.onload = (event) => {
         const text = event.target?.result as string;
-        const cleaned = parseCSV(text);
+        const parsed = parseCSV(text);
+        // Rows whose phone is not a Sri Lankan number would be refused by the server and the courier
+        const cleaned = parsed.filter(l => !phoneProblem(l.phone));
+        const skipped = parsed.filter(l => phoneProblem(l.phone));
+        if (skipped.length > 0) {
+            alert(`${skipped.length} row${skipped.length === 1 ? '' : 's'} skipped for an invalid phone:\n${skipped.slice(0, 10).map(l => `• ${l.name}: ${phoneProblem(l.phone)}`).join('\n')}${skipped.length > 10 ? '\n…' : ''}`);
+        }
         
         if (cleaned.length === 0) {
             alert("UPLOAD FAILED: No valid records found. Ensure CSV has Name, Address, and Phone columns.");
@@ -150,7 +186,7 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
         customerName: lead.name,
         customerPhone: lead.phone,
         customerAddress: lead.address,
-        customerCity: lead.city || '', // Changed: No default fallback, empty forces selection later
+        customerCity: registryCity(lead.city, lead.address), // Empty when nothing matched; forces selection later
         parcelWeight: '1',
         items: [{ productId: p.id, name: p.name, price: p.price, quantity: 1 }],
         totalAmount: p.price,
@@ -161,15 +197,14 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
         logs: [{ id: `l-${Date.now()}`, message: 'Bulk CSV Ingestion', timestamp: new Date().toISOString(), user: currentUser }]
     }));
 
-    await db.createOrders(newOrders);
+    const flagged = await db.createOrders(newOrders);
     setIsProcessing(false);
     setPendingLeads([]);
+    if (flagged.length > 0) alert(`${flagged.length} of the imported leads are flagged on the fraud network. The warning is in each order's log.`);
     setMessage({ text: `${newOrders.length} Leads Injected Successfully`, type: 'success' });
     setTimeout(() => setMessage(null), 3000);
   };
 
-  const isExistingMode = tenant?.settings.courierMode === CourierMode.EXISTING_WAYBILL;
-
   return (
     <div className="space-y-8 animate-slide-in max-w-[1300px] mx-auto pb-20 px-4">
       <div className="flex items-center justify-between">
@@ -184,6 +219,11 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
                 <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase ${isExistingMode ? 'bg-indigo-600 text-white' : 'bg-emerald-500 text-white'}`}>
                     {isExistingMode ? 'Mode: Existing Waybill' : 'Mode: Standard API'}
                 </span>
+                {waybillPools.filter(p => p.low).map(p => (
+                    <span key={p.courierAccountId} className="px-2 py-0.5 rounded-full text-[8px] font-black uppercase bg-rose-600 text-white flex items-center gap-1">
+                        <AlertTriangle size={10}/> {p.label}: {p.available} Waybills Left
+                    </span>
+                ))}
             </div>
           </div>
         </div>
@@ -232,7 +272,7 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
                                 className="w-full bg-white border border-indigo-200 rounded-2xl px-5 py-3.5 text-sm font-black text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500 transition-all font-mono" 
                                 value={manualForm.trackingNumber} 
                                 onChange={(e) => setManualForm({...manualForm, trackingNumber: e.target.value})} 
-                                placeholder="Scan assigned WB..." 
+                                placeholder={hasWaybillPool ? `Blank = next from pool (${manualPool!.available} left)` : "Scan assigned WB..."} 
                             />
                         </div>
                         <div className="space-y-1.5 relative">
@@ -269,6 +309,11 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
                         onChange={(e) => setManualForm({...manualForm, phone: e.target.value})} 
                         placeholder="077..." 
                     />
+                    {manualForm.phone.trim() && (
+                        <p className={`text-[9px] font-black uppercase tracking-widest ml-1 ${manualPhone ? 'text-emerald-600' : 'text-rose-500'}`}>
+                            {manualPhone ? `${manualPhone.local} · ${manualPhone.type}` : phoneProblem(manualForm.phone)}
+                        </p>
+                    )}
                 </div>
                 <div className="md:col-span-2 space-y-2">
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Deployment Address</label>
@@ -278,6 +323,16 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
                     onChange={(e) => setManualForm({...manualForm, address: e.target.value})}
                     placeholder="Full street address..."
                   />
+                  {addressCities.length > 0 && addressCities[0].city.name !== manualForm.city && (
+                    <div className="flex flex-wrap items-center gap-2 ml-1">
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">City from address</span>
+                        {addressCities.map(m => (
+                            <button key={m.city.id} onClick={() => setManualForm({ ...manualForm, city: m.city.name })} className="px-3 py-1 rounded-lg bg-blue-50 border border-blue-100 text-blue-700 text-[9px] font-black uppercase tracking-widest hover:bg-blue-100">
+                                {m.city.name}{m.city.district && m.city.district !== m.city.name ? ` · ${m.city.district}` : ''}
+                            </button>
+                        ))}
+                    </div>
+                  )}
                 </div>
                 {!isExistingMode && (
                     <div className="space-y-1.5 relative">
@@ -425,10 +480,30 @@ export const Leads: React.FC<LeadsProps> = ({ tenantId, shopName }) => {
                                     <p className={`text-4xl font-black ${customerHistory.returns > 0 ? 'text-rose-500' : 'text-emerald-500'}`}>{customerHistory.returns}</p>
                                 </div>
                             </div>
-                            {customerHistory.returns > 0 && (
+                            {customerHistory.network?.flagged && (
                                 <div className="bg-rose-600/20 border border-rose-600/30 p-8 rounded-3xl flex items-start gap-4">
-                                    <ShieldAlert size={20} className="text-rose-500 shrink-0 mt-0.5" />
-                                    <p className="text-[11px] font-bold text-rose-400 uppercase leading-relaxed tracking-tight">Identity Mismatch Risk: Subject has multiple rejections in cluster. Exercise caution.</p>
+                                    <Globe size={20} className="text-rose-500 shrink-0 mt-0.5" />
+                                    <div className="space-y-2">
+                                        <p className="text-[11px] font-black text-rose-400 uppercase tracking-widest">Flagged On Network{customerHistory.network.confirmed ? ' · Confirmed' : ''}</p>
+                                        <p className="text-[10px] font-bold text-rose-300 uppercase leading-relaxed">Reported by {customerHistory.network.shops} other shop{customerHistory.network.shops === 1 ? '' : 's'}</p>
+                                        <ul className="space-y-1 text-[10px] font-bold text-rose-300 leading-relaxed">
+                                            {customerHistory.network.note && <li>{customerHistory.network.note}</li>}
+                                            {customerHistory.network.categories.map((c: FraudReasonCode) => <li key={c}>{FRAUD_REASON_LABELS[c]}</li>)}
+                                        </ul>
+                                    </div>
+                                </div>
+                            )}
+                            {customerHistory.status && (
+                                <div className="space-y-4">
+                                    <span className={`inline-block px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${getCustomerStatusColor(customerHistory.status)}`}>{customerHistory.status.replace('_', ' ')}</span>
+                                    {(customerHistory.status === CustomerStatus.RISK_RED || customerHistory.status === CustomerStatus.RISK_ORANGE) && (
+                                        <div className={`p-8 rounded-3xl flex items-start gap-4 border ${customerHistory.status === CustomerStatus.RISK_RED ? 'bg-rose-600/20 border-rose-600/30' : 'bg-orange-500/10 border-orange-500/30'}`}>
+                                            <ShieldAlert size={20} className={`shrink-0 mt-0.5 ${customerHistory.status === CustomerStatus.RISK_RED ? 'text-rose-500' : 'text-orange-400'}`} />
+                                            <ul className={`space-y-2 text-[11px] font-bold uppercase leading-relaxed tracking-tight ${customerHistory.status === CustomerStatus.RISK_RED ? 'text-rose-400' : 'text-orange-300'}`}>
+                                                {(customerHistory.reasons || []).map((r: string) => <li key={r}>{r}</li>)}
+                                            </ul>
+                                        </div>
+                                    )}
                                 </div>
                             )}
                         </div>
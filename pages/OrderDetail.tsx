@@ -1,31 +1,45 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { db } from '../services/mockBackend';
-import { Order, OrderStatus, OrderLog, Product, Tenant, CourierMode } from '../types';
+import { Order, OrderStatus, Product, Tenant, UserRole, CourierMode, WaybillPoolSummary, CityRecord } from '../types';
 import { 
   ArrowLeft, Truck, Check, Clock, User as UserIcon, Save, 
   Activity, MapPin, Package, Trash2, Plus, Printer, RefreshCcw, MessageSquare, Zap, Calendar, ShoppingBag, DollarSign, Search, ChevronDown, X, History, ShoppingCart, Scale, Info, CheckCircle2, History as HistoryIcon, UserCheck, ExternalLink, Phone, RotateCcw, AlertCircle, RefreshCw
 } from 'lucide-react';
 import { formatCurrency } from '../utils/helpers';
+import { customerKey } from '../utils/customers';
+import { whatsappNumber } from '../utils/phone';
+import { PIPELINE_STATUSES, TRACKED_STATUSES, canTransition } from '../utils/orderTransitions';
+import { selectCourierAccount } from '../utils/couriers';
+import { SEED_CITIES, matchCity, normalizeCityName, resolveCity, suggestCitiesFromAddress } from '../utils/cities';
 import { BillPrintView } from '../components/BillPrintView';
 import { createPortal } from 'react-dom';
 
-const SRI_LANKA_CITIES_FALLBACK = ["Colombo", "Gampaha", "Kalutara", "Kandy", "Matale", "Nuwara Eliya", "Galle", "Matara", "Hambantota", "Jaffna", "Kilinochchi", "Mannar", "Vavuniya", "Mullaitivu", "Batticaloa", "Ampara", "Trincomalee", "Kurunegala", "Puttalam", "Anuradhapura", "Polonnaruwa", "Badulla", "Monaragala", "Ratnapura", "Kegalle", "Dehiwala-Mount Lavinia", "Moratuwa", "Negombo", "Sri Jayawardenepura Kotte", "Kaduwela", "Kolonnawa", "Chilaw", "Wattala", "Welisara", "Ja-Ela", "Paliyagoda", "Gampola", "Nawalapitiya", "Haputale"].sort();
+// Call-centre outcomes; each is only offered when the transition table allows it
+const HANDSHAKE_ACTIONS = [
+  { status: OrderStatus.NO_ANSWER, label: 'No Answer', className: 'bg-amber-400 text-black' },
+  { status: OrderStatus.REJECTED, label: 'Rejected', className: 'bg-rose-600 text-white' },
+  { status: OrderStatus.CONFIRMED, label: 'CONFIRM ORDER', className: 'bg-emerald-500 text-white' },
+  { status: OrderStatus.HOLD, label: 'Hold', className: 'bg-purple-600 text-white' }
+];
 
 interface OrderDetailProps {
   orderId: string;
   tenantId: string;
   onBack: () => void;
+  onOpenCustomer?: (customerId: string) => void;
 }
 
-export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onBack }) => {
+export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onBack, onOpenCustomer }) => {
   const [order, setOrder] = useState<Order | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [tenant, setTenant] = useState<Tenant | null>(null);
-  const [cities, setCities] = useState<string[]>([]);
+  const [waybillPools, setWaybillPools] = useState<WaybillPoolSummary[]>([]);
+  const [cities, setCities] = useState<CityRecord[]>([]);
   const [customerHistory, setCustomerHistory] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [shippingLoading, setShippingLoading] = useState(false);
+  const [refreshingTracking, setRefreshingTracking] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showPrintPortal, setShowPrintPortal] = useState(false);
 
@@ -49,19 +63,18 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const results = await Promise.allSettled([db.getOrder(orderId, tenantId), db.getProducts(tenantId), db.getTenant(tenantId), db.getGlobalCities()]);
+      const results = await Promise.allSettled([db.getOrder(orderId, tenantId), db.getProducts(tenantId), db.getTenant(tenantId), db.getCityRegistry()]);
       const data = results[0].status === 'fulfilled' ? (results[0].value as Order) : null;
       const fetchedProducts = results[1].status === 'fulfilled' ? (results[1].value as Product[]) : [];
       const fetchedTenant = results[2].status === 'fulfilled' ? (results[2].value as Tenant) : null;
-      const fetchedCities = results[3].status === 'fulfilled' ? (results[3].value as string[]) : [];
-      
-      const uniqueCities = Array.from(new Set(fetchedCities && fetchedCities.length > 0 ? fetchedCities : SRI_LANKA_CITIES_FALLBACK));
-      setCities(uniqueCities);
+      const fetchedCities = results[3].status === 'fulfilled' ? (results[3].value as CityRecord[]) : [];
+      setCities(fetchedCities.length > 0 ? fetchedCities : SEED_CITIES);
 
       if (data) {
         setOrder(data);
         setProducts(fetchedProducts);
         setTenant(fetchedTenant || null);
+        db.getWaybillPool(tenantId).then(res => setWaybillPools(res.summary || [])).catch(() => {});
         db.getCustomerDetailedHistory(data.customerPhone, tenantId).then(h => setCustomerHistory(h.filter(x => x.id !== orderId))).catch(() => {});
 
         const initialCity = data.customerCity || ''; 
@@ -116,52 +129,33 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
   }, [order?.id, order?.status]);
 
   const filteredCities = useMemo(() => {
-    return cities.filter(c => c.toLowerCase().includes(citySearch.toLowerCase()));
+    const term = normalizeCityName(citySearch);
+    return cities
+      .filter(c => c.active && [c.name, ...c.aliases].some(n => normalizeCityName(n).includes(term)))
+      .map(c => c.name);
   }, [cities, citySearch]);
 
-  const totalAmount = useMemo(() => items.reduce((sum, item) => sum + (item.price * item.quantity), 0), [items]);
+  // Couriers refuse towns outside the registry; offer the nearest spelling, or read one off the address
+  const citySuggestions = useMemo(() => {
+    if (resolveCity(localFormData.customerCity, cities)) return [];
+    return localFormData.customerCity
+      ? matchCity(localFormData.customerCity, cities)
+      : suggestCitiesFromAddress(localFormData.customerAddress, cities);
+  }, [cities, localFormData.customerCity, localFormData.customerAddress]);
 
-  const handleInventoryReduction = async () => {
-    try {
-        const reductionPromises = items.map(item => 
-            db.deductStockFIFO(tenantId, item.productId, item.quantity)
-        );
-        await Promise.all(reductionPromises);
-        console.log(">>> Inventory Protocol: Batch Reduction Successful.");
-    } catch (err) {
-        console.error(">>> Inventory Failure:", err);
-    }
-  };
+  const totalAmount = useMemo(() => items.reduce((sum, item) => sum + (item.price * item.quantity), 0), [items]);
 
   const updateStatus = async (newStatus: OrderStatus) => {
     if (!order) return;
-    const user = localStorage.getItem('mw_user') ? JSON.parse(localStorage.getItem('mw_user')!).username : 'System';
-    
-    // ACTION: Confirm Stock Availability for Confirmation
-    if (newStatus === OrderStatus.CONFIRMED) {
-        for (const item of items) {
-            const product = products.find(p => p.id === item.productId);
-            const availableStock = (product?.batches || []).reduce((sum, b) => sum + b.quantity, 0);
-            if (availableStock < item.quantity) {
-                alert(`INSUFFICIENT STOCK: SKU [${product?.sku || 'UNKNOWN'}] only has ${availableStock} units available. Order cannot be confirmed.`);
-                return;
-            }
-        }
-    }
-
-    const needsStockReduction = (newStatus === OrderStatus.CONFIRMED || newStatus === OrderStatus.SHIPPED) && 
-                               order.status !== OrderStatus.CONFIRMED && 
-                               order.status !== OrderStatus.SHIPPED;
-
-    if (needsStockReduction) {
-        await handleInventoryReduction();
-    }
 
     if (newStatus === OrderStatus.SHIPPED) {
-      if (order.status === OrderStatus.SHIPPED) return alert("System Warning: This lead has already been dispatched.");
-      if (order.status !== OrderStatus.CONFIRMED) return alert("System Warning: Only CONFIRMED orders can be dispatched to logistics.");
+      if (!canTransition(order.status, OrderStatus.SHIPPED)) return alert("System Warning: Only CONFIRMED orders can be dispatched to logistics.");
 
-      if (tenant?.settings.courierMode === CourierMode.EXISTING_WAYBILL && !localFormData.trackingNumber) return alert("Waybill ID required.");
+      const courier = selectCourierAccount(tenant?.settings, localFormData.customerCity);
+      // Accounts with a waybill pool hand out the next free waybill at dispatch
+      const pool = waybillPools.find(p => p.courierAccountId === courier?.id);
+      const hasPool = !!pool && pool.available + pool.assigned + pool.used + pool.void > 0;
+      if (courier?.mode === CourierMode.EXISTING_WAYBILL && !hasPool && !localFormData.trackingNumber) return alert("Waybill ID required.");
       setShippingLoading(true);
       try { 
         await db.shipOrder({ ...order, ...localFormData, items, totalAmount }, tenantId);
@@ -173,40 +167,51 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
     }
     
     setIsSaving(true);
-    
-    const timestampUpdates: Partial<Order> = {};
-    if (newStatus === OrderStatus.CONFIRMED && !order.confirmedAt) {
-        timestampUpdates.confirmedAt = new Date().toISOString();
-    }
-    if (newStatus === OrderStatus.DELIVERED && !order.deliveredAt) {
-        timestampUpdates.deliveredAt = new Date().toISOString();
+    try {
+      // Stock checks, stock moves and lifecycle timestamps are applied server-side
+      const { createdAt, ...formEdits } = localFormData;
+      const patch = { ...formEdits, items, totalAmount };
+      let updated: Order;
+      try {
+        updated = await db.transitionOrder(order.id, tenantId, newStatus, patch);
+      } catch (e: any) {
+        if (!e.details?.overrideRequired) throw e;
+        // RISK_RED confirmations need a supervisor; the server checks the role again
+        const role = JSON.parse(localStorage.getItem('mw_user') || '{}').role;
+        const reasons = (e.details.reasons || []).map((r: string) => `• ${r}`).join('\n');
+        if (role !== UserRole.SUPER_ADMIN && role !== UserRole.DEV_ADMIN) {
+          return alert(`High Risk Customer:\n${reasons}\n\nA supervisor must confirm this order.`);
+        }
+        if (!confirm(`High Risk Customer:\n${reasons}\n\nConfirm anyway? The override is recorded in the audit log.`)) return;
+        updated = await db.transitionOrder(order.id, tenantId, newStatus, patch, true);
+      }
+      if (newStatus === OrderStatus.OPEN_LEAD) {
+          setOrder(updated);
+      } else {
+          loadData();
+      }
+    } catch (e: any) {
+      alert(`Status Protocol Error: ${e.message}`);
+    } finally {
+      setIsSaving(false);
     }
+  };
 
-    const log: OrderLog = { id: `l-${Date.now()}`, message: `Status Protocol: Order transitioned to ${newStatus}`, timestamp: new Date().toISOString(), user };
-    
-    await db.updateOrder({ 
-        ...order, 
-        ...localFormData, 
-        ...timestampUpdates,
-        items, 
-        totalAmount, 
-        status: newStatus, 
-        logs: [...(order.logs || []), log] 
-    });
-    
-    setIsSaving(false);
-    
-    if (newStatus === OrderStatus.OPEN_LEAD) {
-        setOrder(prev => prev ? { ...prev, status: OrderStatus.OPEN_LEAD, logs: [...(prev.logs || []), log] } : null);
-    } else {
-        loadData();
-    }
+  const handleRefreshTracking = async () => {
+    if (!order) return;
+    setRefreshingTracking(true);
+    try {
+      const { outcome, courierStatus, result } = await db.refreshTracking(order.id, tenantId);
+      alert(`Courier Sync: ${outcome}${courierStatus ? ` (${courierStatus})` : ''}. ${result}`);
+      loadData();
+    } catch (e: any) { alert(`Tracking Sync Error: ${e.message}`); }
+    finally { setRefreshingTracking(false); }
   };
 
   const openWhatsApp = (phoneNum: string) => {
     if (!phoneNum) return;
-    const cleanPhone = phoneNum.replace(/\D/g, '');
-    const formattedPhone = cleanPhone.startsWith('0') ? '94' + cleanPhone.slice(1) : cleanPhone;
+    const formattedPhone = whatsappNumber(phoneNum);
+    if (!formattedPhone) return alert(`${phoneNum} is not a Sri Lankan mobile number.`);
     const msg = `Hi ${localFormData.customerName}, this is from ${tenant?.settings.shopName || 'Milky Way'}. Regarding your order #${orderId.slice(-6).toUpperCase()}, the status is currently ${order?.status}.`;
     window.open(`https://wa.me/${formattedPhone}?text=${encodeURIComponent(msg)}`, '_blank');
   };
@@ -266,8 +271,7 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
 
   if (loading || !order) return <div className="p-20 text-center font-black uppercase text-slate-300">Synchronizing...</div>;
 
-  const isConfirmed = order.status === OrderStatus.CONFIRMED;
-  const isShipped = order.status === OrderStatus.SHIPPED;
+  const isPipeline = PIPELINE_STATUSES.includes(order.status);
 
   return (
     <div className="max-w-6xl mx-auto space-y-6 pb-20 animate-slide-in no-print px-2">
@@ -291,7 +295,7 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                     <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
                 </button>
                 <button onClick={() => { setShowPrintPortal(true); setTimeout(() => { window.print(); setShowPrintPortal(false); }, 500); }} className="bg-white border border-slate-200 text-slate-900 px-6 py-4 rounded-2xl font-black uppercase text-[10px] flex items-center gap-3 shadow-sm hover:border-blue-600 transition-all"><Printer size={16} /> Print Bill</button>
-                <button onClick={async () => { setIsSaving(true); await db.updateOrder({ ...order, ...localFormData, items, totalAmount }); setIsSaving(false); alert("Registry updated."); }} className="bg-slate-950 text-white px-8 py-4 rounded-2xl font-black uppercase text-[10px] flex items-center gap-3 shadow-2xl active:scale-95 transition-all">
+                <button onClick={async () => { setIsSaving(true); try { await db.updateOrder({ ...order, ...localFormData, items, totalAmount }); alert("Registry updated."); loadData(); } catch (e: any) { alert(`Registry Error: ${e.message}`); } finally { setIsSaving(false); } }} className="bg-slate-950 text-white px-8 py-4 rounded-2xl font-black uppercase text-[10px] flex items-center gap-3 shadow-2xl active:scale-95 transition-all">
                     {isSaving ? <RefreshCcw size={16} className="animate-spin" /> : <Save size={16} />} Commit Changes
                 </button>
             </div>
@@ -302,46 +306,32 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                 <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-6">
                     <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2 mb-2"><Activity size={16} className="text-blue-600"/> Handshake Protocol</h3>
                     <div className="flex flex-wrap gap-3">
-                        {(!isConfirmed && !isShipped) ? (
-                            <>
-                                <button 
-                                    onClick={() => updateStatus(OrderStatus.NO_ANSWER)} 
-                                    className={`px-5 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all shadow-md ${getActionBtnClass(OrderStatus.NO_ANSWER, 'bg-amber-400 text-black')}`}
-                                >
-                                    No Answer
-                                </button>
-                                <button 
-                                    onClick={() => updateStatus(OrderStatus.REJECTED)} 
-                                    className={`px-5 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all shadow-md ${getActionBtnClass(OrderStatus.REJECTED, 'bg-rose-600 text-white')}`}
-                                >
-                                    Rejected
-                                </button>
-                                <button 
-                                    onClick={() => updateStatus(OrderStatus.CONFIRMED)} 
-                                    className={`px-10 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all shadow-md ${getActionBtnClass(OrderStatus.CONFIRMED, 'bg-emerald-500 text-white')}`}
-                                >
-                                    CONFIRM ORDER
-                                </button>
+                        {isPipeline ? (
+                            HANDSHAKE_ACTIONS.filter(a => a.status === order.status || canTransition(order.status, a.status)).map(a => (
                                 <button 
-                                    onClick={() => updateStatus(OrderStatus.HOLD)} 
-                                    className={`px-5 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all shadow-md ${getActionBtnClass(OrderStatus.HOLD, 'bg-purple-600 text-white')}`}
+                                    key={a.status}
+                                    onClick={() => updateStatus(a.status)} 
+                                    disabled={a.status === order.status || isSaving}
+                                    className={`${a.status === OrderStatus.CONFIRMED ? 'px-10' : 'px-5'} py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all shadow-md ${getActionBtnClass(a.status, a.className)}`}
                                 >
-                                    Hold
+                                    {a.label}
                                 </button>
-                            </>
+                            ))
                         ) : (
                             <>
-                                {isConfirmed && (
+                                {canTransition(order.status, OrderStatus.SHIPPED) && (
                                     <button onClick={() => updateStatus(OrderStatus.SHIPPED)} disabled={shippingLoading} className={`px-12 py-5 rounded-[2rem] font-black text-[14px] uppercase flex items-center gap-3 shadow-2xl transition-all bg-blue-600 text-white hover:bg-blue-700 hover:scale-105 animate-pulse`}>
                                         <Truck size={24} /> {shippingLoading ? 'SYNCHRONIZING...' : 'TRANSMIT TO LOGISTICS'}
                                     </button>
                                 )}
-                                {isShipped && (
+                                {TRACKED_STATUSES.includes(order.status) && (
                                     <div className="px-10 py-4 bg-indigo-700 text-white rounded-[2rem] font-black text-[12px] uppercase flex items-center gap-3 shadow-xl">
                                         <CheckCircle2 size={20} /> Transmitted Successfully
                                     </div>
                                 )}
-                                <button onClick={() => updateStatus(OrderStatus.OPEN_LEAD)} className="px-5 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all bg-slate-200 text-slate-600 hover:bg-slate-300 flex items-center gap-2"><RotateCcw size={14} /> Reset Status</button>
+                                {canTransition(order.status, OrderStatus.OPEN_LEAD) && (
+                                    <button onClick={() => updateStatus(OrderStatus.OPEN_LEAD)} className="px-5 py-3.5 rounded-2xl font-black text-[10px] uppercase transition-all bg-slate-200 text-slate-600 hover:bg-slate-300 flex items-center gap-2"><RotateCcw size={14} /> Reset Status</button>
+                                )}
                             </>
                         )}
                     </div>
@@ -386,6 +376,19 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                                     {filteredCities.map(c => <button key={c} onClick={() => selectCity(c)} className="w-full text-left px-5 py-3 text-[13px] font-bold hover:bg-blue-50 uppercase border-b border-slate-50">{c}</button>)}
                                 </div>
                             )}
+                            {localFormData.customerCity && citySuggestions.length === 0 && !resolveCity(localFormData.customerCity, cities) && (
+                                <p className="text-[9px] font-black text-rose-600 uppercase tracking-widest ml-1">Unknown city: the courier will refuse it</p>
+                            )}
+                            {citySuggestions.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2 ml-1">
+                                    <span className="text-[9px] font-black text-amber-600 uppercase tracking-widest">{localFormData.customerCity ? 'Did you mean' : 'From address'}</span>
+                                    {citySuggestions.map(m => (
+                                        <button key={m.city.id} onClick={() => selectCity(m.city.name)} className="px-3 py-1 rounded-lg bg-amber-50 border border-amber-100 text-amber-700 text-[9px] font-black uppercase tracking-widest hover:bg-amber-100">
+                                            {m.city.name}{m.city.district && m.city.district !== m.city.name ? ` · ${m.city.district}` : ''}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                         <div className="md:col-span-2 space-y-1.5">
                             <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Address</label>
@@ -407,8 +410,10 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                 <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
                     <div className="flex items-center justify-between">
                         <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><Package size={16} className="text-blue-600"/> Order Payload</h3>
-                        <button onClick={addItem} className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-[10px] font-black uppercase hover:bg-blue-600 hover:text-white transition-all"><Plus size={14}/> Add Item</button>
+                        {isPipeline && <button onClick={addItem} className="flex items-center gap-2 px-4 py-2 bg-blue-50 text-blue-600 rounded-xl text-[10px] font-black uppercase hover:bg-blue-600 hover:text-white transition-all"><Plus size={14}/> Add Item</button>}
                     </div>
+                    {/* Products and quantities hold reserved stock from CONFIRMED on; the server refuses changes */}
+                    {!isPipeline && <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Products and quantities are locked in {order.status}{order.status === OrderStatus.CONFIRMED ? ' · move to Hold to change them' : ''}</p>}
                     
                     <div className="space-y-4">
                         {items.length === 0 && <div className="py-10 text-center text-slate-300 uppercase text-[10px] font-black tracking-widest border-2 border-dashed border-slate-50 rounded-3xl">Payload Empty</div>}
@@ -416,7 +421,7 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                             <div key={idx} className="p-6 bg-slate-50 border border-slate-100 rounded-[2rem] flex flex-col md:flex-row items-center gap-6 group hover:border-blue-200 transition-all">
                                 <div className="flex-1 w-full space-y-1.5">
                                     <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Product SKU</label>
-                                    <select className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none appearance-none" value={item.productId} onChange={e => handleItemChange(idx, 'productId', e.target.value)}>
+                                    <select className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-bold outline-none appearance-none disabled:opacity-50" value={item.productId} disabled={!isPipeline} onChange={e => handleItemChange(idx, 'productId', e.target.value)}>
                                         {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                                     </select>
                                 </div>
@@ -426,13 +431,13 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                                 </div>
                                 <div className="w-full md:w-24 space-y-1.5">
                                     <label className="text-[8px] font-black text-slate-400 uppercase tracking-widest ml-1">Quantity</label>
-                                    <input type="number" className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-black outline-none text-center" value={item.quantity} onChange={e => handleItemChange(idx, 'quantity', parseInt(e.target.value) || 0)} />
+                                    <input type="number" className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2.5 text-xs font-black outline-none text-center disabled:opacity-50" value={item.quantity} disabled={!isPipeline} onChange={e => handleItemChange(idx, 'quantity', parseInt(e.target.value) || 0)} />
                                 </div>
                                 <div className="flex flex-col items-end pt-4 md:pt-0">
                                     <p className="text-[8px] font-black text-slate-400 uppercase mb-1">Subtotal</p>
                                     <p className="text-sm font-black text-slate-900">{formatCurrency(item.price * item.quantity)}</p>
                                 </div>
-                                <button onClick={() => removeItem(idx)} className="p-3 text-slate-300 hover:text-rose-600 transition-all"><Trash2 size={16}/></button>
+                                {isPipeline && <button onClick={() => removeItem(idx)} className="p-3 text-slate-300 hover:text-rose-600 transition-all"><Trash2 size={16}/></button>}
                             </div>
                         ))}
                     </div>
@@ -441,7 +446,14 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
 
             <div className="space-y-8">
                 <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-sm space-y-8">
-                    <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><HistoryIcon size={16} className="text-blue-600"/> Customer Intelligence Nexus</h3>
+                    <div className="flex items-center justify-between gap-2">
+                        <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-2"><HistoryIcon size={16} className="text-blue-600"/> Customer Intelligence Nexus</h3>
+                        {onOpenCustomer && customerKey(order.customerPhone) && (
+                            <button onClick={() => onOpenCustomer(customerKey(order.customerPhone))} className="px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-blue-600 flex items-center gap-1">
+                                <UserIcon size={12}/> Profile
+                            </button>
+                        )}
+                    </div>
                     <div className="space-y-4">
                         {customerHistory.length === 0 ? (
                             <div className="py-10 text-center flex flex-col items-center gap-3 opacity-30">
@@ -492,6 +504,26 @@ export const OrderDetail: React.FC<OrderDetailProps> = ({ orderId, tenantId, onB
                         <h3 className="text-2xl font-black font-mono tracking-tighter">{order.trackingNumber}</h3>
                         <p className="text-[10px] font-bold uppercase opacity-60">Handshake timestamp: {new Date(order.shippedAt || order.createdAt).toLocaleString()}</p>
                         <p className="text-[9px] font-black uppercase tracking-[0.2em] opacity-80 mt-2">API Waybill ID Verified</p>
+                        {order.courierRef && (
+                            <p className="text-[10px] font-bold uppercase opacity-80">Courier Ref: <span className="font-mono">{order.courierRef}</span></p>
+                        )}
+                        {order.shippingCost && (
+                            <p className="text-[10px] font-bold uppercase opacity-80" title={`Base ${order.shippingCost.base} · Weight ${order.shippingCost.weight} · Zone ${order.shippingCost.zone}${order.shippingCost.zoneName ? ` (${order.shippingCost.zoneName})` : ''} · COD ${order.shippingCost.cod}`}>
+                                Shipping Cost: {formatCurrency(order.shippingCost.delivery)} · Return {formatCurrency(order.shippingCost.returnFee)}
+                            </p>
+                        )}
+                        {order.courierStatus && (
+                            <p className="text-[10px] font-bold uppercase opacity-80">Courier: {order.courierStatus}{order.courierStatusAt ? ` · ${new Date(order.courierStatusAt).toLocaleString()}` : ''}</p>
+                        )}
+                        {TRACKED_STATUSES.includes(order.status) && (
+                            <button
+                                onClick={handleRefreshTracking}
+                                disabled={refreshingTracking}
+                                className="w-full mt-2 py-3 bg-white/10 border border-white/20 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-white/20 transition-all disabled:opacity-40"
+                            >
+                                <RefreshCw size={14} className={refreshingTracking ? 'animate-spin' : ''} /> Refresh Tracking Now
+                            </button>
+                        )}
                     </div>
                 )}
 
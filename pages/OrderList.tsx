@@ -1,13 +1,15 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { db } from '../services/mockBackend';
-import { Order, OrderStatus } from '../types';
-import { formatCurrency } from '../utils/helpers';
+import { Order, OrderStatus, ScoredCustomer } from '../types';
+import { formatCurrency, getCustomerStatusColor } from '../utils/helpers';
+import { customerKey } from '../utils/customers';
 import { Search, ChevronRight, Trash2, CheckSquare, Square, Truck, Printer, ExternalLink, ChevronLeft, Loader2 } from 'lucide-react';
 
 interface OrderListProps {
   tenantId: string;
   onSelectOrder: (orderId: string) => void;
+  onSelectCustomer?: (customerId: string) => void;
   status?: OrderStatus | 'ALL' | 'TODAY_SHIPPED';
   productId?: string | null;
   startDate?: string;
@@ -21,6 +23,7 @@ interface OrderListProps {
 export const OrderList: React.FC<OrderListProps> = ({ 
   tenantId, 
   onSelectOrder, 
+  onSelectCustomer,
   status = 'ALL', 
   productId, 
   startDate, 
@@ -35,7 +38,7 @@ export const OrderList: React.FC<OrderListProps> = ({
   const [currentPage, setCurrentPage] = useState(1);
   const [limit] = useState(50);
   
-  const [customerHistories, setCustomerHistories] = useState<{[key: string]: any}>({});
+  const [customers, setCustomers] = useState<Record<string, ScoredCustomer>>({});
   const [search, setSearch] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
@@ -111,17 +114,9 @@ export const OrderList: React.FC<OrderListProps> = ({
       setTotalCount(total);
       
       if (finalOrders.length > 0) {
-        const uniquePhones = [...new Set(finalOrders.map(o => o.customerPhone))];
-        const historyResults = await Promise.all(uniquePhones.map(async (phone) => {
-          const h = await db.getCustomerHistory(phone, tenantId);
-          return { phone, h };
-        }));
-        
-        const historyMap: any = {};
-        historyResults.forEach(res => { 
-          historyMap[res.phone.slice(-8)] = res.h; 
-        });
-        setCustomerHistories(historyMap);
+        const keys = [...new Set(finalOrders.map(o => customerKey(o.customerPhone)).filter(Boolean))];
+        const profiles = await db.getCustomersByIds(tenantId, keys);
+        setCustomers(Object.fromEntries(profiles.map(c => [c.id, c])));
       }
     } finally {
       setIsLoading(false);
@@ -160,45 +155,20 @@ export const OrderList: React.FC<OrderListProps> = ({
   const handleBulkShip = async () => {
     if (!confirm(`Logistics Sync: Transmit selected leads to Courier? Note: Only CONFIRMED orders will be processed.`)) return;
     setBulkProcessing(true);
-    
-    let successCount = 0;
-    let failCount = 0;
-    let skipCount = 0;
-    let lastError = '';
+    setBulkProgressMsg(`QUEUEING ${selectedIds.length} ORDERS FOR DISPATCH`);
 
-    const targetIds = [...selectedIds];
-    for (let i = 0; i < targetIds.length; i++) {
-        const id = targetIds[i];
-        const order = orders.find(o => o.id === id);
-        
-        if (order) {
-            if (order.status !== OrderStatus.CONFIRMED) {
-                console.warn(`Skipping ${order.id}: Status is ${order.status}, expected CONFIRMED.`);
-                skipCount++;
-                continue;
-            }
-
-            setBulkProgressMsg(`SHIPPING ${i+1}/${targetIds.length}: ${order.customerName}`);
-            try {
-                await db.shipOrder(order, tenantId);
-                successCount++;
-            } catch (err: any) {
-                failCount++;
-                lastError = err.message;
-                console.error(`FDE Handshake failed for ${order.id}:`, err);
-            }
-            await new Promise(r => setTimeout(r, 800));
-        }
+    try {
+        // The server works the queue and retries busy couriers; closing this tab loses nothing
+        const { jobs, skipped } = await db.enqueueDispatch([...selectedIds], tenantId);
+        alert(`Logistics Summary:\n- Queued: ${jobs.length}\n- Skipped (Not Confirmed/Already Shipped): ${skipped.length}\n\nFollow progress in the Dispatch Monitor.`);
+        setSelectedIds([]);
+    } catch (err: any) {
+        alert(`Dispatch Queue Failure: ${err.message}`);
+    } finally {
+        setBulkProcessing(false);
+        setBulkProgressMsg('');
     }
 
-    setBulkProcessing(false);
-    setBulkProgressMsg('');
-    
-    let summary = `Logistics Summary:\n- Processed: ${successCount}\n- Failed: ${failCount}\n- Skipped (Not Confirmed/Already Shipped): ${skipCount}`;
-    if (failCount > 0) summary += `\n\nLast Error: ${lastError}`;
-    alert(summary);
-    
-    setSelectedIds([]);
     await loadData();
     if (onRefresh) onRefresh();
   };
@@ -305,8 +275,7 @@ export const OrderList: React.FC<OrderListProps> = ({
               <tr><td colSpan={7} className="py-20 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No Records Found</td></tr>
             )}
             {orders.map((order) => {
-              const last8 = order.customerPhone.slice(-8);
-              const history = customerHistories[last8];
+              const customer = customers[customerKey(order.customerPhone)];
               const isSelected = selectedIds.includes(order.id);
               return (
                 <tr key={order.id} className={`hover:bg-slate-50 transition-colors cursor-pointer group ${isSelected ? 'bg-blue-50/50' : ''}`} onClick={(e) => handleOrderClick(e, order.id)}>
@@ -325,16 +294,18 @@ export const OrderList: React.FC<OrderListProps> = ({
                   </td>
                   <td>
                     <div className="flex flex-col">
-                      <span className="text-[13px] font-black uppercase text-slate-900">{order.customerName}</span>
+                      {onSelectCustomer && customer ? (
+                        <button onClick={(e) => { e.stopPropagation(); onSelectCustomer(customer.id); }} className="text-left text-[13px] font-black uppercase text-slate-900 hover:text-blue-600 hover:underline">{order.customerName}</button>
+                      ) : (
+                        <span className="text-[13px] font-black uppercase text-slate-900">{order.customerName}</span>
+                      )}
                       <span className="text-[10px] font-bold text-slate-400">{order.customerPhone}</span>
                     </div>
                   </td>
                   <td className="text-center">
                       <div className="flex flex-col gap-1 items-center">
-                        {history?.returns > 0 ? (
-                          <div className="bg-rose-600 text-white px-2 py-0.5 rounded text-[8px] font-black uppercase">RISK ({history.returns})</div>
-                        ) : history?.count >= 2 ? (
-                          <div className="bg-blue-600 text-white px-2 py-0.5 rounded text-[8px] font-black uppercase">REPEAT ({history.count})</div>
+                        {customer ? (
+                          <div title={customer.risk.reasons.join('\n')} className={`px-2 py-0.5 rounded text-[8px] font-black uppercase ${getCustomerStatusColor(customer.risk.status)}`}>{customer.risk.status.replace('_', ' ')} ({customer.orders})</div>
                         ) : <span className="text-[10px] font-bold text-slate-300">-</span>}
                       </div>
                   </td>
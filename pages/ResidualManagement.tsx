@@ -10,9 +10,10 @@ interface ResidualManagementProps {
   tenantId: string;
   shopName: string;
   onSelectOrder: (id: string) => void;
+  onSelectCustomer?: (customerId: string) => void;
 }
 
-export const ResidualManagement: React.FC<ResidualManagementProps> = ({ tenantId, shopName, onSelectOrder }) => {
+export const ResidualManagement: React.FC<ResidualManagementProps> = ({ tenantId, shopName, onSelectOrder, onSelectCustomer }) => {
   const [activeFilter, setActiveFilter] = useState<OrderStatus | 'ALL'>('ALL');
   const [orders, setOrders] = useState<Order[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
@@ -168,6 +169,7 @@ export const ResidualManagement: React.FC<ResidualManagementProps> = ({ tenantId
           key={refreshKey}
           tenantId={tenantId} 
           onSelectOrder={onSelectOrder} 
+          onSelectCustomer={onSelectCustomer}
           data={filteredOrders}
           onRefresh={() => setRefreshKey(prev => prev + 1)}
         />
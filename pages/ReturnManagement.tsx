@@ -10,9 +10,10 @@ interface ReturnManagementProps {
   tenantId: string;
   shopName: string;
   onSelectOrder: (id: string) => void;
+  onSelectCustomer?: (customerId: string) => void;
 }
 
-export const ReturnManagement: React.FC<ReturnManagementProps> = ({ tenantId, shopName, onSelectOrder }) => {
+export const ReturnManagement: React.FC<ReturnManagementProps> = ({ tenantId, shopName, onSelectOrder, onSelectCustomer }) => {
   const [activeFilter, setActiveFilter] = useState<OrderStatus | 'ALL'>('ALL');
   const [scanInput, setScanInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
@@ -234,6 +235,7 @@ export const ReturnManagement: React.FC<ReturnManagementProps> = ({ tenantId, sh
           key={refreshKey}
           tenantId={tenantId} 
           onSelectOrder={onSelectOrder} 
+          onSelectCustomer={onSelectCustomer}
           data={displayOrders}
           onRefresh={() => setRefreshKey(prev => prev + 1)}
         />
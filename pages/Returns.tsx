@@ -19,7 +19,7 @@ import {
     RefreshCcw,
     AlertTriangle
 } from 'lucide-react';
-import { Order, OrderStatus } from '../types';
+import { DispatchJobStatus, Order, OrderStatus, ReturnCondition } from '../types';
 import { Html5Qrcode, Html5QrcodeSupportedFormats } from 'html5-qrcode';
 import { formatCurrency } from '../utils/helpers';
 
@@ -33,6 +33,7 @@ type ScanOperation = 'RETURN' | 'DISPATCH' | 'DELIVERY' | 'INFO';
 export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
   const [scanMode, setScanMode] = useState<'HARDWARE' | 'CAMERA' | 'MANUAL'>('HARDWARE');
   const [operation, setOperation] = useState<ScanOperation>('RETURN');
+  const [returnCondition, setReturnCondition] = useState<ReturnCondition>(ReturnCondition.RESELLABLE);
   const [scanInput, setScanInput] = useState('');
   const [processedOrder, setProcessedOrder] = useState<Order | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -91,7 +92,7 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
                           formatsToSupport: formatsToSupport
                       },
                       (decodedText) => {
-                          handleScanProcess(decodedText);
+                          scanHandlerRef.current(decodedText);
                       },
                       () => {
                           // Ignore scanning errors (no code in view)
@@ -117,6 +118,9 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
       };
   }, [scanMode]);
 
+  // The camera callback is registered once per mode; read the latest operation and grade through a ref
+  const scanHandlerRef = useRef<(code: string) => void>(() => {});
+
   const handleScanProcess = async (code: string) => {
     if (isProcessing) return;
     setIsProcessing(true);
@@ -131,21 +135,28 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
       let result: any = null;
       
       if (operation === 'RETURN') {
-          result = await db.processReturn(cleanCode, tenantId);
+          result = await db.processReturn(cleanCode, tenantId, returnCondition);
           if (result && result.alreadyProcessed) {
               setAlreadyScanned(true);
           }
       } else if (operation === 'DISPATCH') {
           const order = await db.getOrder(cleanCode, tenantId);
-          if (order) {
-              result = await db.shipOrder(order, tenantId);
+          if (order && order.status !== OrderStatus.CONFIRMED && order.shippedAt) {
+              // A second scan of a dispatched parcel never books the courier again
+              result = { ...order, alreadyProcessed: true };
+          } else if (order) {
+              // Queued server-side: a busy courier is retried by the worker instead of losing the scan
+              const { jobs, skipped } = await db.enqueueDispatch([order.id], tenantId, true);
+              const job = jobs[0];
+              if (!job) throw new Error(skipped[0]?.reason || 'Dispatch refused.');
+              if (job.status === DispatchJobStatus.DONE) result = await db.getOrder(order.id, tenantId);
+              else if (job.status === DispatchJobStatus.FAILED) throw new Error(job.lastError || 'Courier refused the parcel.');
+              else throw new Error(`${job.lastError ? `Courier busy (${job.lastError}). ` : ''}Queued for automatic retry; see the Dispatch Monitor.`);
           }
       } else if (operation === 'DELIVERY') {
           const order = await db.getOrder(cleanCode, tenantId);
           if (order) {
-              const updated = { ...order, status: OrderStatus.DELIVERED, deliveredAt: new Date().toISOString() };
-              await db.updateOrder(updated);
-              result = updated;
+              result = await db.transitionOrder(order.id, tenantId, OrderStatus.DELIVERED);
           }
       } else {
           const order = await db.getOrder(cleanCode, tenantId);
@@ -172,6 +183,8 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
     }
   };
 
+  scanHandlerRef.current = handleScanProcess;
+
   const getOpTitle = () => {
       switch(operation) {
           case 'RETURN': return 'Return & Restock';
@@ -233,6 +246,25 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
       </div>
 
       <div className="w-full bg-white p-10 rounded-[3rem] shadow-sm border border-slate-100">
+        {operation === 'RETURN' && (
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-8">
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest mr-2">Parcel Condition</span>
+                {[
+                    { id: ReturnCondition.RESELLABLE, label: 'Resellable', active: 'bg-emerald-600 text-white' },
+                    { id: ReturnCondition.DAMAGED, label: 'Damaged', active: 'bg-amber-500 text-white' },
+                    { id: ReturnCondition.MISSING, label: 'Missing', active: 'bg-rose-600 text-white' }
+                ].map(c => (
+                    <button 
+                        key={c.id}
+                        type="button"
+                        onClick={() => setReturnCondition(c.id)}
+                        className={`px-4 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${returnCondition === c.id ? c.active + ' shadow-lg' : 'bg-slate-100 text-slate-400'}`}
+                    >
+                        {c.label}
+                    </button>
+                ))}
+            </div>
+        )}
         {scanMode === 'CAMERA' ? (
             <div className="animate-slide-in space-y-6">
                 <div className="relative overflow-hidden rounded-[2.5rem] border-8 border-slate-50 bg-slate-950 aspect-[16/9] max-w-2xl mx-auto shadow-inner">
@@ -309,6 +341,11 @@ export const Returns: React.FC<ReturnsProps> = ({ tenantId, shopName }) => {
                                 <span>Ref: {processedOrder.id.slice(-8)}</span>
                                 <span className="text-blue-600">COD: {formatCurrency(processedOrder.totalAmount)}</span>
                                 <span className="text-indigo-600">Status: {processedOrder.status}</span>
+                                {processedOrder.returnCondition && (
+                                    <span className={processedOrder.returnCondition === ReturnCondition.RESELLABLE ? 'text-emerald-600' : 'text-rose-600'}>
+                                        Grade: {processedOrder.returnCondition}{processedOrder.returnCondition !== ReturnCondition.RESELLABLE && ' (Written Off)'}
+                                    </span>
+                                )}
                             </div>
                         </div>
                         <button onClick={() => setProcessedOrder(null)} className="p-3 bg-white border border-slate-200 text-slate-400 hover:text-rose-600 rounded-2xl transition-all shadow-sm"><X size={20}/></button>
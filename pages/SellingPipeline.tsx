@@ -9,9 +9,10 @@ interface SellingPipelineProps {
   tenantId: string;
   shopName: string;
   onSelectOrder: (id: string) => void;
+  onSelectCustomer?: (customerId: string) => void;
 }
 
-export const SellingPipeline: React.FC<SellingPipelineProps> = ({ tenantId, shopName, onSelectOrder }) => {
+export const SellingPipeline: React.FC<SellingPipelineProps> = ({ tenantId, shopName, onSelectOrder, onSelectCustomer }) => {
   const [activeFilter, setActiveFilter] = useState<OrderStatus | 'ALL'>('ALL');
   const [selectedProductId, setSelectedProductId] = useState<string>('ALL');
   const [products, setProducts] = useState<Product[]>([]);
@@ -115,6 +116,7 @@ export const SellingPipeline: React.FC<SellingPipelineProps> = ({ tenantId, shop
           key={refreshKey}
           tenantId={tenantId} 
           onSelectOrder={onSelectOrder} 
+          onSelectCustomer={onSelectCustomer}
           status={activeFilter}
           productId={selectedProductId === 'ALL' ? null : selectedProductId}
           startDate={startDate}
@@ -1,12 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { db } from '../services/mockBackend';
-import { Tenant, TenantSettings, CourierMode } from '../types';
+import { Tenant, TenantSettings, CourierMode, CourierAccount, CourierProviderId } from '../types';
+import { COURIER_PROVIDER_LABELS, getCourierAccounts } from '../utils/couriers';
+import { StatusMappingEditor } from '../components/StatusMappingEditor';
+import { WaybillPoolPanel } from '../components/WaybillPoolPanel';
+import { RateCardEditor } from '../components/RateCardEditor';
+import { RiskRulesEditor } from '../components/RiskRulesEditor';
 import { 
   Save, Store, ShieldCheck, Truck, 
   Copy, CheckCircle2, Webhook, Image as ImageIcon,
-  RefreshCcw, Layout, AlertTriangle, Globe, Zap, Key, Link, Shield, MapPin, Phone, CloudLightning, Info, Server,
-  Fingerprint
+  RefreshCcw, Layout, AlertTriangle, Globe, Zap, Key, Shield, MapPin, Phone, CloudLightning, Info, Server,
+  Fingerprint, Plus, Trash2
 } from 'lucide-react';
 
 interface SettingsProps {
@@ -26,14 +31,16 @@ export const Settings: React.FC<SettingsProps> = ({ tenantId, shopName, onRefres
   const [saving, setSaving] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [syncStatus, setSyncStatus] = useState<'IDLE' | 'SUCCESS' | 'ERROR'>( 'IDLE' );
-  const [copied, setCopied] = useState(false);
+  const [copied, setCopied] = useState<CourierProviderId | null>(null);
+  const [rotating, setRotating] = useState(false);
 
   const loadTenant = async () => {
     const t = await db.getTenant(tenantId);
     if (t) {
         setTenant(t);
         setSettings({ ...t.settings, 
-            courierApiUrl: t.settings.courierApiUrl || 'https://www.fdedomestic.com/api/parcel/new_api_v1.php' 
+            courierApiUrl: t.settings.courierApiUrl || 'https://www.fdedomestic.com/api/parcel/new_api_v1.php',
+            couriers: getCourierAccounts(t.settings)
         });
     }
   };
@@ -61,6 +68,31 @@ export const Settings: React.FC<SettingsProps> = ({ tenantId, shopName, onRefres
       } finally { setSaving(false); }
   };
 
+  const courierAccounts = settings.couriers || [];
+
+  const updateCourier = (id: string, patch: Partial<CourierAccount>) => {
+      setSettings({ ...settings, couriers: courierAccounts.map(a => a.id === id ? { ...a, ...patch } : patch.isDefault ? { ...a, isDefault: false } : a) });
+  };
+
+  const addCourier = () => {
+      const account: CourierAccount = {
+          id: `ca-${Date.now()}`,
+          provider: CourierProviderId.FDE,
+          label: COURIER_PROVIDER_LABELS[CourierProviderId.FDE],
+          apiKey: '',
+          clientId: '',
+          mode: CourierMode.STANDARD,
+          cities: [],
+          isDefault: courierAccounts.length === 0
+      };
+      setSettings({ ...settings, couriers: [...courierAccounts, account] });
+  };
+
+  const removeCourier = (id: string) => {
+      if (!confirm("Remove this courier account? Parcels already shipped through it keep their tracking.")) return;
+      setSettings({ ...settings, couriers: courierAccounts.filter(a => a.id !== id) });
+  };
+
   const handleSyncDNS = async () => {
       if (!tenant?.domain || !settings.cloudflareToken) {
           return alert("Protocol Error: Custom Domain and CF Token required for sync.");
@@ -95,12 +127,28 @@ export const Settings: React.FC<SettingsProps> = ({ tenantId, shopName, onRefres
       }
   };
 
-  const webhookUrl = `${window.location.protocol}//${tenant?.domain || window.location.host}/api/courier-webhook`;
+  // One callback link per courier in use; each carries the tenant and its webhook secret
+  const webhookProviders = [...new Set(courierAccounts.map(a => a.provider))];
+  const webhookUrl = (provider: CourierProviderId) => {
+      const params = new URLSearchParams({ tenant: tenantId, provider, token: settings.webhookSecret || '' });
+      return `${window.location.protocol}//${tenant?.domain || window.location.host}/api/courier-webhook?${params}`;
+  };
+
+  const copyWebhook = (provider: CourierProviderId) => {
+    navigator.clipboard.writeText(webhookUrl(provider));
+    setCopied(provider);
+    setTimeout(() => setCopied(null), 2000);
+  };
 
-  const copyWebhook = () => {
-    navigator.clipboard.writeText(webhookUrl);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleRotateSecret = async () => {
+      if (settings.webhookSecret && !confirm("Issue a new webhook secret? Couriers still using the current link will be rejected until you send them the new one.")) return;
+      setRotating(true);
+      try {
+        const webhookSecret = await db.rotateWebhookSecret(tenantId);
+        setSettings({ ...settings, webhookSecret });
+      } catch (err: any) {
+        alert("Rotation Failure: " + err.message);
+      } finally { setRotating(false); }
   };
 
   if (!tenant) return <div className="p-20 text-center font-black uppercase text-slate-300 tracking-[0.5em]">Syncing Hub Registry...</div>;
@@ -191,23 +239,42 @@ export const Settings: React.FC<SettingsProps> = ({ tenantId, shopName, onRefres
                     
                     <div className="space-y-6">
                         <div className="bg-slate-50 p-8 rounded-[2.5rem] border border-slate-100 space-y-4">
-                            <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2">
-                                <Fingerprint size={16} className="text-amber-600"/> Courier Callback Link (Webhook URL)
-                            </label>
-                            <div className="flex flex-col md:flex-row gap-4">
-                                <div className="flex-1 bg-white border-2 border-slate-200 rounded-2xl px-6 py-4 font-black text-blue-600 text-xs break-all overflow-hidden flex items-center">
-                                    {webhookUrl}
-                                </div>
-                                <button 
-                                    onClick={copyWebhook}
-                                    className={`px-8 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest transition-all flex items-center gap-3 shrink-0 shadow-lg ${copied ? 'bg-emerald-600 text-white' : 'bg-black text-white hover:bg-slate-800'}`}
+                            <div className="flex items-center justify-between gap-4">
+                                <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2">
+                                    <Fingerprint size={16} className="text-amber-600"/> Courier Callback Link (Webhook URL)
+                                </label>
+                                <button
+                                    onClick={handleRotateSecret}
+                                    disabled={rotating}
+                                    className="px-5 py-2 rounded-xl bg-amber-50 text-amber-700 font-black uppercase text-[9px] tracking-widest flex items-center gap-2 hover:bg-amber-100 disabled:opacity-30"
                                 >
-                                    {copied ? <CheckCircle2 size={16} /> : <Copy size={16} />}
-                                    {copied ? 'COPIED!' : 'COPY URL'}
+                                    {rotating ? <RefreshCcw size={12} className="animate-spin" /> : <Key size={12} />}
+                                    {settings.webhookSecret ? 'Rotate Secret' : 'Issue Secret'}
                                 </button>
                             </div>
+                            {!settings.webhookSecret ? (
+                                <div className="bg-rose-50 border border-rose-100 rounded-2xl px-6 py-4 text-[10px] font-black uppercase tracking-widest text-rose-600 flex items-center gap-3">
+                                    <AlertTriangle size={16} /> No webhook secret issued. Courier status updates are rejected until one is.
+                                </div>
+                            ) : (webhookProviders.length > 0 ? webhookProviders : [CourierProviderId.FDE]).map(provider => (
+                                <div key={provider} className="space-y-2">
+                                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">{COURIER_PROVIDER_LABELS[provider]}</p>
+                                    <div className="flex flex-col md:flex-row gap-4">
+                                        <div className="flex-1 bg-white border-2 border-slate-200 rounded-2xl px-6 py-4 font-black text-blue-600 text-xs break-all overflow-hidden flex items-center">
+                                            {webhookUrl(provider)}
+                                        </div>
+                                        <button 
+                                            onClick={() => copyWebhook(provider)}
+                                            className={`px-8 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest transition-all flex items-center gap-3 shrink-0 shadow-lg ${copied === provider ? 'bg-emerald-600 text-white' : 'bg-black text-white hover:bg-slate-800'}`}
+                                        >
+                                            {copied === provider ? <CheckCircle2 size={16} /> : <Copy size={16} />}
+                                            {copied === provider ? 'COPIED!' : 'COPY URL'}
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
                             <p className="text-[9px] font-bold text-slate-400 uppercase tracking-tight mt-2 italic px-2">
-                                * Give this URL to your courier provider (FDE/Logistics) to enable real-time delivery status tracking.
+                                * Give this URL to your courier provider (FDE/Logistics) to enable real-time delivery status tracking. It contains your secret: treat it like a password.
                             </p>
                         </div>
                     </div>
@@ -219,33 +286,97 @@ export const Settings: React.FC<SettingsProps> = ({ tenantId, shopName, onRefres
                         <div className="w-12 h-12 bg-indigo-50 text-indigo-600 rounded-2xl flex items-center justify-center"><Truck size={24}/></div>
                         <div>
                             <h3 className="text-xl font-black uppercase text-slate-900 leading-none">Logistics Gateway</h3>
-                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">API Endpoint and Access Keys</p>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Courier Accounts and City Routing</p>
                         </div>
                     </div>
                     
                     <div className="space-y-8">
-                        <div className="bg-indigo-50 p-8 rounded-[2.5rem] border border-indigo-100 space-y-4">
-                            <label className="text-[11px] font-black text-indigo-600 uppercase tracking-widest ml-1 flex items-center gap-2"><Link size={16}/> Courier API Endpoint</label>
-                            <input 
-                                className="w-full bg-white border-2 border-indigo-200 rounded-2xl px-6 py-4 font-black text-blue-600 outline-none focus:border-indigo-600 transition-all text-sm" 
-                                value={settings.courierApiUrl} 
-                                onChange={e => setSettings({...settings, courierApiUrl: e.target.value})} 
-                            />
-                        </div>
-
-                        <div className="grid md:grid-cols-2 gap-8">
-                            <div className="space-y-2">
-                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">AUTH KEY</label>
-                                <input type="password" placeholder="••••••••" className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={settings.courierApiKey} onChange={e => setSettings({...settings, courierApiKey: e.target.value})} />
+                        {courierAccounts.length === 0 && (
+                            <div className="bg-slate-50 p-8 rounded-[2.5rem] border border-slate-100 text-center text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                                No courier accounts configured
                             </div>
-                            <div className="space-y-2">
-                                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">CLIENT ID</label>
-                                <input className="w-full bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={settings.courierClientId} onChange={e => setSettings({...settings, courierClientId: e.target.value})} />
+                        )}
+                        {courierAccounts.map(account => (
+                            <div key={account.id} className={`p-8 rounded-[2.5rem] border space-y-6 ${account.isDefault ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}>
+                                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                                    <div className="flex-1 space-y-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Account Label</label>
+                                        <input className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={account.label} onChange={e => updateCourier(account.id, { label: e.target.value })} />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Provider</label>
+                                        <select className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={account.provider} onChange={e => updateCourier(account.id, { provider: e.target.value as CourierProviderId })}>
+                                            {Object.values(CourierProviderId).map(p => <option key={p} value={p}>{COURIER_PROVIDER_LABELS[p]}</option>)}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">Waybill Mode</label>
+                                        <select className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={account.mode} onChange={e => updateCourier(account.id, { mode: e.target.value as CourierMode })}>
+                                            <option value={CourierMode.STANDARD}>Standard API</option>
+                                            <option value={CourierMode.EXISTING_WAYBILL}>Existing Waybill</option>
+                                        </select>
+                                    </div>
+                                    <button onClick={() => removeCourier(account.id)} className="p-4 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-2xl transition-all"><Trash2 size={18}/></button>
+                                </div>
+
+                                <div className="grid md:grid-cols-2 gap-8">
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">AUTH KEY</label>
+                                        <input type="password" placeholder="••••••••" className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={account.apiKey} onChange={e => updateCourier(account.id, { apiKey: e.target.value })} />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1">CLIENT ID</label>
+                                        <input className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-black text-slate-900 outline-none focus:ring-2 focus:ring-blue-600" value={account.clientId} onChange={e => updateCourier(account.id, { clientId: e.target.value })} />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2">
+                                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-1 flex items-center gap-2"><MapPin size={14}/> Cities Routed Here (comma separated)</label>
+                                    <textarea 
+                                        className="w-full bg-white border border-slate-200 rounded-2xl px-6 py-4 font-bold text-slate-900 outline-none focus:ring-2 focus:ring-blue-600 text-sm h-20 resize-none" 
+                                        placeholder="Ex. Colombo, Kandy, Galle"
+                                        defaultValue={(account.cities || []).join(', ')} 
+                                        onBlur={e => updateCourier(account.id, { cities: e.target.value.split(',').map(c => c.trim()).filter(Boolean) })} 
+                                    />
+                                </div>
+
+                                <label className="flex items-center gap-3 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+                                    <input type="radio" name="default-courier" checked={!!account.isDefault} onChange={() => updateCourier(account.id, { isDefault: true })} />
+                                    Default account (takes every city not listed elsewhere)
+                                </label>
+
+                                <RateCardEditor rateCard={account.rateCard} onChange={rateCard => updateCourier(account.id, { rateCard })} />
                             </div>
-                        </div>
+                        ))}
+
+                        <button onClick={addCourier} className="w-full py-4 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-300 font-black uppercase text-[10px] tracking-widest transition-all flex items-center justify-center gap-2">
+                            <Plus size={16}/> Add Courier Account
+                        </button>
                     </div>
                 </div>
 
+                {courierAccounts.some(a => a.mode === CourierMode.EXISTING_WAYBILL) && (
+                    <WaybillPoolPanel
+                        tenantId={tenantId}
+                        accounts={courierAccounts.filter(a => a.mode === CourierMode.EXISTING_WAYBILL)}
+                        onChangeLowAlert={(id, waybillLowAlert) => updateCourier(id, { waybillLowAlert })}
+                    />
+                )}
+
+                <StatusMappingEditor
+                    tenantId={tenantId}
+                    rules={settings.statusRules || []}
+                    providers={webhookProviders.length > 0 ? webhookProviders : [CourierProviderId.FDE]}
+                    onChange={statusRules => setSettings({ ...settings, statusRules })}
+                />
+
+                <RiskRulesEditor
+                    rules={settings.riskRules}
+                    onChange={riskRules => setSettings({ ...settings, riskRules })}
+                    fraudNetwork={!!settings.fraudNetwork}
+                    onChangeFraudNetwork={fraudNetwork => setSettings({ ...settings, fraudNetwork })}
+                />
+
                 <div className="bg-white p-12 rounded-[4rem] border border-slate-100 shadow-sm space-y-10">
                     <div className="flex items-center gap-4 border-b border-slate-50 pb-8">
                         <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-2xl flex items-center justify-center"><Store size={24}/></div>
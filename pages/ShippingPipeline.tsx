@@ -12,9 +12,10 @@ interface ShippingPipelineProps {
   tenantId: string;
   shopName: string;
   onSelectOrder: (id: string) => void;
+  onSelectCustomer?: (customerId: string) => void;
 }
 
-export const ShippingPipeline: React.FC<ShippingPipelineProps> = ({ tenantId, shopName, onSelectOrder }) => {
+export const ShippingPipeline: React.FC<ShippingPipelineProps> = ({ tenantId, shopName, onSelectOrder, onSelectCustomer }) => {
   const [activeFilter, setActiveFilter] = useState<OrderStatus | 'LOGISTICS_ALL' | 'TODAY_SHIPPED'>('LOGISTICS_ALL');
   const [orders, setOrders] = useState<Order[]>([]);
   const [tenantSettings, setTenantSettings] = useState<TenantSettings | null>(null);
@@ -232,6 +233,7 @@ export const ShippingPipeline: React.FC<ShippingPipelineProps> = ({ tenantId, sh
           key={refreshKey}
           tenantId={tenantId} 
           onSelectOrder={onSelectOrder} 
+          onSelectCustomer={onSelectCustomer}
           data={filteredOrders}
           logisticsOnly={true} 
           onBulkAction={handleBulkPrint}
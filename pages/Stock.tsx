@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { db } from '../services/mockBackend';
-import { Product, StockBatch, Order, OrderStatus } from '../types';
+import { Product, StockBatch, Order, OrderStatus, StockLedgerEntry, StockMovementType, StockWriteOff, ReturnCondition } from '../types';
 import { 
   Plus, 
   Trash2, 
@@ -24,7 +24,9 @@ import {
   ArrowUpRight,
   RefreshCw,
   BarChart3,
-  LayoutDashboard
+  LayoutDashboard,
+  ScrollText,
+  SlidersHorizontal
 } from 'lucide-react';
 import { formatCurrency, formatFullNumber } from '../utils/helpers';
 
@@ -34,7 +36,7 @@ interface StockProps {
 }
 
 export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
-  const [view, setView] = useState<'LIVE' | 'HISTORY'>('LIVE');
+  const [view, setView] = useState<'LIVE' | 'HISTORY' | 'LEDGER'>('LIVE');
   const [products, setProducts] = useState<Product[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -45,6 +47,12 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
   const [editingBatchId, setEditingBatchId] = useState<string | null>(null);
   const [tempPrice, setTempPrice] = useState<number>(0);
 
+  const [ledger, setLedger] = useState<StockLedgerEntry[]>([]);
+  const [ledgerProductId, setLedgerProductId] = useState('');
+  const [asOfDate, setAsOfDate] = useState(new Date().toISOString().split('T')[0]);
+  const [onHandAsOf, setOnHandAsOf] = useState<Record<string, number>>({});
+  const [writeOffs, setWriteOffs] = useState<StockWriteOff[]>([]);
+
   const load = useCallback(async () => {
     setLoading(true);
     try {
@@ -56,12 +64,23 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
           const orderData = await db.getOrders({ tenantId, limit: 10000 });
           setOrders(orderData.data || []);
       }
+
+      if (view === 'LEDGER') {
+          const [entries, onHand, writeOffData] = await Promise.all([
+              db.getStockLedger({ tenantId, productId: ledgerProductId || undefined, endDate: asOfDate, limit: 1000 }),
+              db.getStockOnHand(tenantId, asOfDate),
+              db.getStockWriteOffs(tenantId, undefined, asOfDate)
+          ]);
+          setLedger(entries);
+          setWriteOffs(writeOffData.filter(w => !ledgerProductId || w.productId === ledgerProductId));
+          setOnHandAsOf(Object.fromEntries(onHand.map(r => [r.productId, r.quantity])));
+      }
     } catch (e) {
       console.error("Failed to load inventory data", e);
     } finally {
       setLoading(false);
     }
-  }, [tenantId, view]);
+  }, [tenantId, view, ledgerProductId, asOfDate]);
 
   useEffect(() => { load(); }, [load]);
 
@@ -130,8 +149,12 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
       batches: [...(product.batches || []), newBatch]
     };
 
-    await db.updateProduct(updatedProduct);
-    setBatchForms(prev => ({ ...prev, [productId]: { quantity: 0, buyingPrice: 0 } }));
+    try {
+      await db.updateProduct(updatedProduct, 'Stock batch received');
+      setBatchForms(prev => ({ ...prev, [productId]: { quantity: 0, buyingPrice: 0 } }));
+    } catch (e: any) {
+      alert("Registry access failure: " + e.message);
+    }
     load();
   };
 
@@ -143,11 +166,30 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
         b.id === batchId ? { ...b, buyingPrice: tempPrice } : b
     );
 
-    await db.updateProduct({ ...product, batches: updatedBatches });
+    try {
+      await db.updateProduct({ ...product, batches: updatedBatches }, 'Batch cost edited');
+    } catch (e: any) {
+      alert("Registry access failure: " + e.message);
+    }
     setEditingBatchId(null);
     load();
   };
 
+  const handleAdjustBatch = async (productId: string, batch: StockBatch) => {
+    const input = prompt(`Adjust batch ${batch.id.slice(-6)} (currently ${batch.quantity} units). Enter the change, e.g. -2 or 5:`);
+    if (!input) return;
+    const quantity = parseInt(input);
+    if (!quantity) return alert("Adjustment must be a non-zero whole number.");
+    const reason = prompt("Reason for this adjustment (recorded in the stock ledger):");
+    if (!reason || !reason.trim()) return alert("A reason is required for manual adjustments.");
+    try {
+      await db.adjustStock(tenantId, productId, batch.id, quantity, reason);
+    } catch (e: any) {
+      alert("Registry access failure: " + e.message);
+    }
+    load();
+  };
+
   const handleDeleteProduct = async (id: string) => {
     if (!confirm("CRITICAL PROTOCOL: Destroy this master product and all associated batches permanently?")) return;
     setLoading(true);
@@ -162,7 +204,19 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
     }
   };
 
+  const getMovementColor = (type: StockMovementType) => {
+    switch (type) {
+      case StockMovementType.RECEIPT: return 'bg-emerald-100 text-emerald-700';
+      case StockMovementType.CONSUMPTION: return 'bg-blue-100 text-blue-700';
+      case StockMovementType.RETURN: return 'bg-rose-100 text-rose-700';
+      case StockMovementType.ADJUSTMENT: return 'bg-amber-100 text-amber-700';
+      case StockMovementType.PRICE_CHANGE: return 'bg-purple-100 text-purple-700';
+      default: return 'bg-slate-100 text-slate-600';
+    }
+  };
+
   const getProductStock = (p: Product) => (p.batches || []).reduce((sum, b) => sum + b.quantity, 0);
+  const getReservedStock = (p: Product) => (p.batches || []).reduce((sum, b) => sum + (b.reserved || 0), 0);
   const getProductCostValue = (p: Product) => (p.batches || []).reduce((sum, b) => sum + (b.quantity * b.buyingPrice), 0);
 
   return (
@@ -191,6 +245,12 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
                 >
                     History Summary
                 </button>
+                <button 
+                    onClick={() => setView('LEDGER')} 
+                    className={`px-6 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${view === 'LEDGER' ? 'bg-white shadow-md text-slate-900' : 'text-slate-400 hover:text-slate-600'}`}
+                >
+                    Stock Ledger
+                </button>
             </div>
             <button 
                 onClick={load} 
@@ -237,6 +297,7 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
                 <div className="p-20 text-center text-[10px] font-black uppercase tracking-[0.5em] text-slate-300">Syncing Inventory Nodes...</div>
             ) : products.map(p => {
                 const totalStock = getProductStock(p);
+                const reservedStock = getReservedStock(p);
                 const isExpanded = expandedId === p.id;
                 
                 return (
@@ -260,6 +321,7 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
                                 <div className="text-center">
                                     <p className="text-[8px] font-black text-slate-400 uppercase mb-1">Total Stock</p>
                                     <p className={`text-sm font-black ${totalStock < 10 ? 'text-rose-600 animate-pulse' : 'text-slate-900'}`}>{totalStock} units</p>
+                                    {reservedStock > 0 && <p className="text-[8px] font-black text-amber-500 uppercase">{reservedStock} reserved</p>}
                                 </div>
                                 <div className="text-center hidden md:block">
                                     <p className="text-[8px] font-black text-slate-400 uppercase mb-1">Cost Value</p>
@@ -297,6 +359,7 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
                                                                     Added: {batch.originalQuantity ?? batch.quantity} <span className="text-slate-300 mx-1">|</span> Remaining: <span className={batch.quantity < 5 ? 'text-rose-600' : 'text-emerald-600'}>{batch.quantity}</span>
                                                                 </p>
                                                                 {batch.id.startsWith('rb-') && <span className="bg-rose-600 text-white px-2 py-0.5 rounded text-[7px] font-black uppercase">Returned Stock</span>}
+                                                                {(batch.reserved || 0) > 0 && <span className="bg-amber-400 text-black px-2 py-0.5 rounded text-[7px] font-black uppercase">{batch.reserved} Reserved</span>}
                                                             </div>
                                                             <p className="text-[9px] font-bold text-slate-400 uppercase">{new Date(batch.createdAt).toLocaleDateString()}</p>
                                                         </div>
@@ -327,7 +390,12 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
                                                                             <Edit3 size={12}/>
                                                                         </button>
                                                                     </div>
-                                                                    <p className="text-[9px] font-black text-blue-600 uppercase tracking-tighter">ID: {batch.id.slice(-6)}</p>
+                                                                    <div className="flex items-center gap-2">
+                                                                        <button onClick={() => handleAdjustBatch(p.id, batch)} className="text-[8px] font-black text-slate-400 hover:text-blue-600 uppercase flex items-center gap-1 transition-all">
+                                                                            <SlidersHorizontal size={10}/> Adjust
+                                                                        </button>
+                                                                        <p className="text-[9px] font-black text-blue-600 uppercase tracking-tighter">ID: {batch.id.slice(-6)}</p>
+                                                                    </div>
                                                                 </div>
                                                             )}
                                                         </div>
@@ -377,6 +445,106 @@ export const Stock: React.FC<StockProps> = ({ tenantId, shopName }) => {
             })}
           </div>
         </>
+      ) : view === 'LEDGER' ? (
+        <div className="space-y-6 animate-slide-in">
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-100 shadow-sm flex flex-col md:flex-row gap-4 md:items-end">
+                <div className="flex-1 space-y-1">
+                    <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Product</label>
+                    <select className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:ring-2 focus:ring-blue-600" value={ledgerProductId} onChange={e => setLedgerProductId(e.target.value)}>
+                        <option value="">All Products</option>
+                        {products.map(p => <option key={p.id} value={p.id}>{p.sku} — {p.name}</option>)}
+                    </select>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-1">Stock As Of</label>
+                    <input type="date" className="w-full bg-slate-50 border border-slate-200 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:ring-2 focus:ring-blue-600" value={asOfDate} onChange={e => setAsOfDate(e.target.value)} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {products.filter(p => !ledgerProductId || p.id === ledgerProductId).map(p => (
+                    <div key={p.id} className="bg-white p-5 rounded-[2rem] border border-slate-100 shadow-sm">
+                        <p className="text-[10px] font-mono font-bold text-blue-500 uppercase">{p.sku}</p>
+                        <p className="text-[9px] font-black text-slate-400 uppercase truncate">{p.name}</p>
+                        <p className="text-xl font-black text-slate-900 mt-2">{formatFullNumber(onHandAsOf[p.id] || 0, 0)} <span className="text-[9px] text-slate-400">units</span></p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                        <tr>
+                            <th className="px-6 py-4">Time</th>
+                            <th className="px-6 py-4">Product / Batch</th>
+                            <th className="px-6 py-4">Movement</th>
+                            <th className="px-6 py-4 text-right">Qty</th>
+                            <th className="px-6 py-4 text-right">Unit Cost</th>
+                            <th className="px-6 py-4 text-right">Balance</th>
+                            <th className="px-6 py-4">Reason</th>
+                            <th className="px-6 py-4">User</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                        {ledger.length === 0 && (
+                            <tr><td colSpan={8} className="py-16 text-center text-[10px] font-black text-slate-300 uppercase tracking-[0.4em]">No Ledger Entries</td></tr>
+                        )}
+                        {ledger.map(entry => {
+                            const prod = products.find(p => p.id === entry.productId);
+                            return (
+                                <tr key={entry.id} className="text-xs hover:bg-slate-50/50">
+                                    <td className="px-6 py-3 font-mono text-[10px] text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                                    <td className="px-6 py-3">
+                                        <p className="font-black text-slate-900 uppercase">{prod?.sku || entry.productId}</p>
+                                        <p className="text-[9px] font-bold text-slate-400 uppercase">Batch {entry.batchId.slice(-6)}</p>
+                                    </td>
+                                    <td className="px-6 py-3">
+                                        <span className={`px-2 py-1 rounded text-[8px] font-black uppercase ${getMovementColor(entry.type)}`}>{entry.type.replace('_', ' ')}</span>
+                                    </td>
+                                    <td className={`px-6 py-3 text-right font-black ${entry.quantity < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                        {entry.type === StockMovementType.PRICE_CHANGE ? '—' : `${entry.quantity > 0 ? '+' : ''}${entry.quantity}`}
+                                    </td>
+                                    <td className="px-6 py-3 text-right font-bold text-slate-600 whitespace-nowrap">
+                                        {entry.previousCost !== undefined && <span className="text-slate-300 line-through mr-1">{formatCurrency(entry.previousCost)}</span>}
+                                        {formatCurrency(entry.unitCost)}
+                                    </td>
+                                    <td className="px-6 py-3 text-right font-black text-slate-900">{entry.balance}</td>
+                                    <td className="px-6 py-3 text-[10px] font-bold text-slate-500">{entry.reason}{entry.orderId && <span className="ml-1 font-mono text-blue-500">#{entry.orderId}</span>}</td>
+                                    <td className="px-6 py-3 text-[10px] font-black text-slate-400 uppercase">{entry.user}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm p-8 space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-[11px] font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+                        <Trash2 size={16} className="text-rose-600" /> Write-off Bucket
+                    </h3>
+                    <p className="text-sm font-black text-rose-600">{formatCurrency(writeOffs.reduce((sum, w) => sum + w.quantity * w.unitCost, 0))}</p>
+                </div>
+                {writeOffs.length === 0 ? (
+                    <p className="text-center py-6 text-[10px] font-black text-slate-300 uppercase tracking-widest">No Damaged Or Missing Returns</p>
+                ) : (
+                    <div className="divide-y divide-slate-50">
+                        {writeOffs.map(w => (
+                            <div key={w.id} className="flex items-center justify-between py-3 text-xs">
+                                <div>
+                                    <p className="font-black text-slate-900 uppercase">{products.find(p => p.id === w.productId)?.sku || w.productId} <span className="font-mono text-blue-500 ml-1">#{w.orderId}</span></p>
+                                    <p className="text-[9px] font-bold text-slate-400 uppercase">{new Date(w.timestamp).toLocaleString()} · {w.user}</p>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <span className={`px-2 py-1 rounded text-[8px] font-black uppercase ${w.condition === ReturnCondition.MISSING ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'}`}>{w.condition}</span>
+                                    <span className="font-black text-slate-900">{w.quantity} × {formatCurrency(w.unitCost)}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-slide-in">
             {aggregatedHistory.length === 0 && (
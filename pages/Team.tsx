@@ -15,6 +15,7 @@ const AVAILABLE_PERMISSIONS = [
     { id: 'selling', label: 'Selling Pipeline' },
     { id: 'shipping', label: 'Logistics Access' },
     { id: 'today_shipped', label: 'Daily Logs' },
+    { id: 'dispatch_monitor', label: 'Dispatch Monitor' },
     { id: 'return_mgmt', label: 'Returns Hub' },
     { id: 'residual_mgmt', label: 'Residual Hub' },
     { id: 'financials', label: 'Financial Center' },
@@ -31,6 +32,9 @@ export const Team: React.FC<TeamProps> = ({ tenantId, shopName }) => {
   const [newPermissions, setNewPermissions] = useState<string[]>(['selling']); // Default access
   const [isSaving, setIsSaving] = useState(false);
   const [loading, setLoading] = useState(false);
+  // The server refuses grants above the caller's own; the form only offers owner rights to owners
+  const callerRole = JSON.parse(localStorage.getItem('mw_user') || '{}').role;
+  const canGrantOwner = callerRole === UserRole.SUPER_ADMIN || callerRole === UserRole.DEV_ADMIN;
 
   const load = useCallback(async () => {
     setLoading(true);
@@ -55,6 +59,8 @@ export const Team: React.FC<TeamProps> = ({ tenantId, shopName }) => {
         setNewPermissions(['selling']);
         load();
         alert("Staff member successfully integrated into cluster.");
+      } catch (err: any) {
+        alert("Provisioning Failure: " + err.message);
       } finally {
         setIsSaving(false);
       }
@@ -62,8 +68,12 @@ export const Team: React.FC<TeamProps> = ({ tenantId, shopName }) => {
 
   const handleRemove = async (id: string) => {
       if (!confirm("CRITICAL: Revoke all access for this staff member?")) return;
-      await db.removeTeamMember(id);
-      load();
+      try {
+        await db.removeTeamMember(id);
+        load();
+      } catch (err: any) {
+        alert("Revocation Failure: " + err.message);
+      }
   };
 
   return (
@@ -135,7 +145,7 @@ export const Team: React.FC<TeamProps> = ({ tenantId, shopName }) => {
                                 onChange={e => setNewRole(e.target.value as UserRole)}
                             >
                                 <option value={UserRole.ADMIN}>Admin (Staff Agent)</option>
-                                <option value={UserRole.SUPER_ADMIN}>Super Admin (Partner/Owner)</option>
+                                {canGrantOwner && <option value={UserRole.SUPER_ADMIN}>Super Admin (Partner/Owner)</option>}
                             </select>
                         </div>
                     </div>
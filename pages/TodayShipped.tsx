@@ -2,10 +2,12 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
 import { db } from '../services/mockBackend';
-import { Order, TenantSettings } from '../types';
+import { Order, PickupManifest, TenantSettings, UnmanifestedSummary } from '../types';
 import { formatCurrency, getSLDateString } from '../utils/helpers';
-import { Printer, CalendarCheck, Search, Download, Calendar, Package, RefreshCw, CheckSquare, Square } from 'lucide-react';
+import { Printer, CalendarCheck, Search, Download, Calendar, Package, RefreshCw, CheckSquare, Square, ClipboardList } from 'lucide-react';
 import { LabelPrintView } from '../components/LabelPrintView';
+import { ManifestPrintView } from '../components/ManifestPrintView';
+import { ManifestPanel } from '../components/ManifestPanel';
 
 interface TodayShippedProps {
   tenantId: string;
@@ -19,6 +21,18 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
   const [search, setSearch] = useState('');
   const [targetDate, setTargetDate] = useState(getSLDateString());
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [manifests, setManifests] = useState<PickupManifest[]>([]);
+  const [unmanifested, setUnmanifested] = useState<UnmanifestedSummary | null>(null);
+
+  const loadManifests = useCallback(async () => {
+    try {
+        const res = await db.getManifests(tenantId);
+        setManifests(res.manifests || []);
+        setUnmanifested(res.unmanifested || null);
+    } catch (e) {
+        console.error("Manifest Sync Failure", e);
+    }
+  }, [tenantId]);
 
   const load = useCallback(async () => {
     setLoading(true);
@@ -43,6 +57,9 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
   }, [tenantId, targetDate]);
 
   useEffect(() => { load(); }, [load]);
+  useEffect(() => { loadManifests(); }, [loadManifests]);
+
+  const manifestNumbers = useMemo(() => new Map(manifests.map(m => [m.id, m.number])), [manifests]);
 
   const dailyOrders = useMemo(() => {
       if (!Array.isArray(orders)) return [];
@@ -81,6 +98,28 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
     setTimeout(() => { window.print(); root.unmount(); document.body.removeChild(printContainer); }, 500);
   };
 
+  const handlePrintManifest = (manifest: PickupManifest) => {
+    if (!tenantSettings) return;
+    const printContainer = document.createElement('div');
+    printContainer.className = 'print-only';
+    document.body.appendChild(printContainer);
+    const root = createRoot(printContainer);
+    root.render(<ManifestPrintView manifest={manifest} settings={tenantSettings} />);
+    setTimeout(() => { window.print(); root.unmount(); document.body.removeChild(printContainer); }, 500);
+  };
+
+  const handleManifestSelected = async () => {
+    try {
+        const created = await db.createManifests(tenantId, selectedIds);
+        const added = created.reduce((s, m) => s + m.parcels.length, 0);
+        if (added < selectedIds.length) alert(`${selectedIds.length - added} selected parcel(s) were skipped: already on a manifest or no longer SHIPPED.`);
+        setSelectedIds([]);
+        await Promise.all([load(), loadManifests()]);
+    } catch (err: any) {
+        alert("Manifest Failure: " + err.message);
+    }
+  };
+
   const handlePrintSingle = (order: Order) => {
     if (!tenantSettings) return;
     const printContainer = document.createElement('div');
@@ -114,11 +153,16 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
                 />
             </div>
             <button 
-                onClick={load} 
+                onClick={() => { load(); loadManifests(); }} 
                 className="p-3 bg-white border border-slate-200 rounded-xl text-slate-400 hover:text-slate-900 transition-all shadow-sm"
             >
                 <RefreshCw size={20} className={loading ? 'animate-spin' : ''} />
             </button>
+            {selectedIds.length > 0 && (
+                <button onClick={handleManifestSelected} className="px-6 py-3.5 bg-white border border-slate-200 text-slate-900 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:border-rose-300 transition-all shadow-sm flex items-center gap-3">
+                    <ClipboardList size={18} /> Add To Manifest ({selectedIds.length})
+                </button>
+            )}
             {selectedIds.length > 0 ? (
                 <button onClick={handlePrintSelected} className="px-8 py-3.5 bg-blue-600 text-white rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all shadow-2xl flex items-center gap-3 animate-bounce">
                     <Printer size={18} /> Print Selected ({selectedIds.length})
@@ -131,6 +175,15 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
         </div>
       </div>
 
+      <ManifestPanel
+        tenantId={tenantId}
+        settings={tenantSettings}
+        manifests={manifests}
+        unmanifested={unmanifested}
+        onChanged={() => { load(); loadManifests(); }}
+        onPrint={handlePrintManifest}
+      />
+
       <div className="modern-card overflow-hidden flex flex-col min-h-[600px] bg-white border border-slate-100 shadow-sm rounded-[3rem]">
         <div className="p-6 border-b border-slate-50 flex items-center justify-between bg-slate-50/20">
             <div className="relative w-80">
@@ -202,6 +255,9 @@ export const TodayShipped: React.FC<TodayShippedProps> = ({ tenantId, shopName }
                                     <span className="bg-slate-900 text-white px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border border-white/10">
                                         {o.status}
                                     </span>
+                                    {o.manifestId && (
+                                        <span className="block mt-1.5 text-[8px] font-black text-rose-500 uppercase tracking-widest">Manifest #{manifestNumbers.get(o.manifestId) ?? '—'}</span>
+                                    )}
                                 </td>
                                 <td className="py-6">
                                     <span className="font-black text-slate-900 text-[14px]">{formatCurrency(o.totalAmount)}</span>
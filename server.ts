@@ -0,0 +1,32 @@
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { connectCentral } from './server/db';
+import { startTrackingPoller } from './server/tracking';
+import { startDispatchWorker } from './server/dispatch';
+import { apiRouter } from './server/express';
+
+// Express server: the API (server/express.ts), the built frontend and the background workers.
+// Built to build/server.js (`npm run build:server`).
+dotenv.config();
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const distPath = path.resolve(__dirname, '../dist');
+
+const app = express();
+const PORT = process.env.PORT || 8080;
+
+app.use(cors());
+app.use('/api', apiRouter());
+
+app.use(express.static(distPath));
+app.get('*', (req, res) => res.sendFile(path.join(distPath, 'index.html')));
+
+app.listen(PORT, async () => {
+  console.log(`>>> MW-OMS Local Node Port ${PORT}`);
+  try { await connectCentral(); } catch (e) {}
+  startTrackingPoller();
+  startDispatchWorker();
+});
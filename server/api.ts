@@ -0,0 +1,37 @@
+import { createRouter } from './router';
+import { authRoutes } from './routes/auth';
+import { systemRoutes } from './routes/system';
+import { tenantRoutes } from './routes/tenants';
+import { userRoutes } from './routes/users';
+import { orderRoutes } from './routes/orders';
+import { productRoutes } from './routes/products';
+import { logisticsRoutes } from './routes/logistics';
+import { dispatchRoutes } from './routes/dispatch';
+import { waybillRoutes } from './routes/waybills';
+import { financialRoutes } from './routes/financials';
+import { cityRoutes } from './routes/cities';
+import { manifestRoutes } from './routes/manifests';
+import { customerRoutes } from './routes/customers';
+import { fraudNetworkRoutes } from './routes/fraudNetwork';
+
+export type { ApiRequest, ApiResponse } from './http';
+export { parseBody } from './http';
+
+// Single route table mounted by both the Express server (server.ts) and the
+// Netlify function (netlify/functions/api.ts).
+export const handleApiRequest = createRouter([
+  ...authRoutes,
+  ...systemRoutes,
+  ...tenantRoutes,
+  ...userRoutes,
+  ...orderRoutes,
+  ...productRoutes,
+  ...logisticsRoutes,
+  ...dispatchRoutes,
+  ...waybillRoutes,
+  ...financialRoutes,
+  ...cityRoutes,
+  ...manifestRoutes,
+  ...customerRoutes,
+  ...fraudNetworkRoutes
+]);
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { SecurityAction, SecurityLog, Tenant } from '../types';
+import { RequestContext } from './context';
+
+// --- SECURITY AUDIT ---
+// Append-only trail in the central `security_logs` collection. Secrets are never
+// written out; only a masked tail so DevAdmin can tell that a key was rotated.
+const SECRET_FIELDS = ['password', 'passwordHash', 'courierApiKey', 'cloudflareToken', 'mongoUri', 'webhookSecret'];
+const COURIER_KEY_FIELDS = ['courierApiKey', 'courierClientId', 'courierApiUrl', 'couriers'];
+
+export interface AuditDiff {
+  before: Record<string, any>;
+  after: Record<string, any>;
+}
+
+interface AuditDetails {
+  actor?: { id?: string; username?: string; role?: any; tenantId?: string } | null;
+  tenantId?: string | null;
+  target?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+const maskSecret = (key: string, value: any) => {
+  if (value === undefined || value === null || value === '') return value;
+  if (key === 'password' || key === 'passwordHash') return '••••••';
+  return `••••${String(value).slice(-4)}`;
+};
+
+const maskValue = (key: string, value: any) => {
+  if (key === 'couriers' && Array.isArray(value)) return value.map(a => ({ ...a, apiKey: maskSecret('apiKey', a.apiKey) }));
+  return SECRET_FIELDS.includes(key) ? maskSecret(key, value) : value;
+};
+
+// Shallow before/after of the keys that actually changed
+export function auditDiff(before: Record<string, any> | null = {}, after: Record<string, any> | null = {}, keys?: string[]): AuditDiff {
+  const diff: AuditDiff = { before: {}, after: {} };
+  const fields = keys || [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])];
+  for (const key of fields) {
+    if (key === '_id') continue;
+    const prev = before ? before[key] : undefined;
+    const next = after ? after[key] : undefined;
+    if (JSON.stringify(prev) === JSON.stringify(next)) continue;
+    diff.before[key] = maskValue(key, prev);
+    diff.after[key] = maskValue(key, next);
+  }
+  return diff;
+}
+
+export const hasChanges = (diff: AuditDiff) => Object.keys(diff.after).length > 0 || Object.keys(diff.before).length > 0;
+
+// Never lets an audit failure break the request being audited
+export async function recordSecurityEvent(ctx: RequestContext, action: SecurityAction, details: AuditDetails = {}) {
+  try {
+    const who = details.actor || ctx.user;
+    const entry: SecurityLog = {
+      id: `sec-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      action,
+      actor: { id: who?.id || null, username: who?.username || 'UNKNOWN', role: who?.role || null },
+      tenantId: details.tenantId !== undefined ? details.tenantId : (ctx.tenantId || who?.tenantId || null),
+      target: details.target || null,
+      ip: ctx.req.ip,
+      userAgent: ctx.req.headers['user-agent'] || null,
+      before: details.before || null,
+      after: details.after || null,
+      timestamp: new Date().toISOString()
+    };
+    await ctx.central.collection<SecurityLog>('security_logs').insertOne(entry);
+  } catch (e: any) { console.error('Security log write failed:', e.message); }
+}
+
+// Splits a tenant edit into its settings and courier-credential audit events
+export async function auditTenantSettings(ctx: RequestContext, before: Partial<Tenant> | null, after: Partial<Tenant> & { id: string }) {
+  const prev: Record<string, any> = before?.settings || {};
+  const next: Record<string, any> = after.settings || {};
+  const courier = auditDiff(prev, next, COURIER_KEY_FIELDS);
+  if (hasChanges(courier)) {
+    await recordSecurityEvent(ctx, SecurityAction.COURIER_KEYS_UPDATED, { tenantId: after.id, target: after.id, ...courier });
+  }
+  const otherKeys = [...new Set([...Object.keys(prev), ...Object.keys(next)])].filter(k => !COURIER_KEY_FIELDS.includes(k));
+  const settings = auditDiff(prev, next, otherKeys);
+  if (hasChanges(settings)) {
+    await recordSecurityEvent(ctx, SecurityAction.SETTINGS_UPDATED, { tenantId: after.id, target: after.id, ...settings });
+  }
+}
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { Tenant, User, UserRole } from '../types';
+import { hasPermission } from '../utils/permissions';
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // One packing shift
+
+// User document as persisted; `password` only survives on legacy records awaiting rehash
+export interface StoredUser extends User {
+  passwordHash?: string;
+  password?: string;
+}
+
+export interface SessionClaims {
+  sub: string;
+  tid: string | null;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+export const publicUser = (user: any): User => {
+  const { _id, password, passwordHash, ...rest } = user;
+  return rest;
+};
+
+// --- CREDENTIALS & SESSIONS ---
+// Passwords are stored as `scrypt$<salt>$<hash>`. Sessions are stateless HMAC-signed
+// tokens (`<payload>.<signature>`, base64url) carried as `Authorization: Bearer`.
+
+const getSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error('SESSION_SECRET is missing');
+  return secret;
+};
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(String(password), salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = String(stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(String(password), salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Constant-time comparison for legacy plaintext records awaiting migration
+export function matchesLegacyPassword(password: string, legacy: string) {
+  const a = crypto.createHash('sha256').update(String(password)).digest();
+  const b = crypto.createHash('sha256').update(String(legacy)).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Replaces a plaintext `password` on a user payload with its salted hash
+export function withHashedPassword(user: any): Partial<StoredUser> {
+  const { _id, password, passwordHash, ...rest } = user;
+  if (password) rest.passwordHash = hashPassword(password);
+  return rest;
+}
+
+export function signSession(user: User) {
+  const now = Date.now();
+  const claims: SessionClaims = {
+    sub: user.id, tid: user.tenantId || null, role: user.role, iat: now, exp: now + SESSION_TTL_MS
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+  return { token: `${payload}.${signature}`, expiresAt: new Date(now + SESSION_TTL_MS).toISOString() };
+}
+
+export function verifySession(token: string | null): SessionClaims | null {
+  const secret = getSessionSecret();
+  const [payload, signature] = String(token || '').split('.');
+  if (!payload || !signature) return null;
+  const expected = crypto.createHmac('sha256', secret).update(payload).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!claims.exp || claims.exp < Date.now()) return null;
+    return claims;
+  } catch (e) { return null; }
+}
+
+// Tenant documents minus infrastructure details and, for non-owners, secrets
+export const redactTenant = (tenant: any, user: User): Omit<Tenant, 'mongoUri'> => {
+  const { _id, mongoUri, ...rest } = tenant;
+  if (hasPermission(user, 'settings')) return rest;
+  const { courierApiKey, cloudflareToken, couriers, webhookSecret, ...settings } = rest.settings || {};
+  // Routing and mode stay visible so order screens know which waybill rules apply
+  if (couriers) settings.couriers = couriers.map(({ apiKey, ...account }: any) => ({ ...account, apiKey: '' }));
+  return { ...rest, settings };
+};
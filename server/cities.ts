@@ -0,0 +1,51 @@
+import { Db } from 'mongodb';
+import { CityRecord, CourierProviderId } from '../types';
+import { SEED_CITIES, cityFromName, cityId, courierCityName, matchCity, resolveCity } from '../utils/cities';
+import { HttpError } from './http';
+
+// --- CITY REGISTRY ---
+// One central list shared by every tenant. It replaces the free-text `global_cities`
+// master list, whose names are carried over the first time the registry is read.
+export const CITIES_COLLECTION = 'cities';
+const LEGACY_CITIES_COLLECTION = 'global_cities';
+const CACHE_SECONDS = 60; // Dispatch runs check every order; edits through the API clear it
+
+let cached: { at: number; cities: CityRecord[] } | null = null;
+
+export const clearCityCache = () => { cached = null; };
+
+async function seedRegistry(central: Db) {
+  const legacy = await central.collection<{ id: string; cities?: string[] }>(LEGACY_CITIES_COLLECTION).findOne({ id: 'master_list' });
+  const seeded = new Map(SEED_CITIES.map(c => [c.id, c]));
+  for (const name of legacy?.cities || []) {
+    if (name?.trim() && !seeded.has(cityId(name))) seeded.set(cityId(name), cityFromName(name));
+  }
+  await central.collection<CityRecord>(CITIES_COLLECTION).bulkWrite([...seeded.values()].map(city => ({
+    updateOne: { filter: { id: city.id }, update: { $setOnInsert: city }, upsert: true }
+  })));
+}
+
+export async function loadCityRegistry(central: Db): Promise<CityRecord[]> {
+  if (cached && Date.now() - cached.at < CACHE_SECONDS * 1000) return cached.cities;
+  const col = central.collection<CityRecord>(CITIES_COLLECTION);
+  if (await col.estimatedDocumentCount() === 0) await seedRegistry(central);
+  const cities = await col.find({}, { projection: { _id: 0 } }).sort({ name: 1 }).toArray();
+  cached = { at: Date.now(), cities };
+  return cities;
+}
+
+/**
+ * The registry city an order is going to, checked before any courier sees it. Couriers
+ * refuse towns they do not know (FDE code 209), so an unknown name fails here with the
+ * closest spellings as suggestions instead of costing a courier round trip.
+ */
+export async function validateOrderCity(central: Db, city: string | undefined, provider: CourierProviderId): Promise<{ city: CityRecord; courierCity: string }> {
+  if (!city?.trim()) throw new HttpError(422, 'Cannot ship: the order has no city.', { missing: ['customerCity'] });
+  const registry = await loadCityRegistry(central);
+  const record = resolveCity(city, registry);
+  if (!record) {
+    const suggestions = matchCity(city, registry).map(m => m.city.name);
+    throw new HttpError(422, `Unknown city "${city}".${suggestions.length ? ` Did you mean ${suggestions.join(', ')}?` : ''}`, { suggestions });
+  }
+  return { city: record, courierCity: courierCityName(record, provider) };
+}
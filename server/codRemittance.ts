@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import { Db } from 'mongodb';
+import { CodReceivable, CodRemittanceLine, CodStatement, CodStatementLine, CourierAccount, Order, OrderStatus, RemittanceStatus, TenantSettings } from '../types';
+import { getCourierAccounts, selectCourierAccount } from '../utils/couriers';
+import { normalizeWaybill } from '../utils/waybills';
+import { HttpError } from './http';
+import { readSpreadsheetRows } from './spreadsheet';
+import { findOrderByWaybill } from './webhooks';
+
+// --- COD REMITTANCE ---
+// Couriers collect cash on delivery and pay it out later, net of their fees, with a
+// statement listing every parcel. Each statement's lines are stored per waybill, and an
+// order's collected cash and fees are the sum of every line that lists it; importing a
+// corrected statement under the same reference replaces its lines. Delivered orders that
+// no statement has listed after COD_MISSING_DAYS are flagged MISSING.
+export const COD_STATEMENTS_COLLECTION = 'cod_statements';
+export const COD_LINES_COLLECTION = 'cod_remittance_lines';
+const MISSING_AFTER_DAYS = Number(process.env.COD_MISSING_DAYS || 10);
+const SHORT_PAY_TOLERANCE = 1; // Couriers round to the rupee
+const HEADER_SCAN_ROWS = 15; // Statements often open with a title block above the header row
+
+const RETURNED_STATUSES = [OrderStatus.RETURNED, OrderStatus.RETURN_COMPLETED];
+
+interface StatementColumns {
+  waybill: number;
+  amount: number;
+  fee: number;
+  net: number;
+}
+
+// Header wording differs per courier. Patterns match the whole cleaned header, so columns
+// such as "Paid Date" or "Remit Ref" are never read as money; first match wins.
+const COLUMN_PATTERNS: [keyof StatementColumns, RegExp][] = [
+  ['waybill', /^(waybill|tracking|awb|consignment)( (no|number|id))?$/],
+  ['fee', /^((courier|delivery|handling|cod|total) )?(fees?|charges?|deductions?|commission)( amount)?$/],
+  ['net', /^(net( amount| paid| payable)?|(amount )?(payable|paid|remitted|settled)( amount)?|settlement( amount)?)$/],
+  ['amount', /^(cod( amount| value)?|collected( amount)?|collection( amount)?|(parcel|order) (amount|value)|amount|value|total( amount)?)$/]
+];
+
+// "COD Amount (LKR)" → "cod amount"
+const cleanHeader = (cell: string) =>
+  cell.toLowerCase().replace(/\(.*?\)/g, ' ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+function locateColumns(rows: string[][]): { columns: StatementColumns; start: number } {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SCAN_ROWS); r++) {
+    const header = rows[r].map(cleanHeader);
+    const columns: StatementColumns = { waybill: -1, amount: -1, fee: -1, net: -1 };
+    const taken = new Set<number>();
+    for (const [key, pattern] of COLUMN_PATTERNS) {
+      const index = header.findIndex((h, i) => !taken.has(i) && pattern.test(h));
+      if (index >= 0) { columns[key] = index; taken.add(index); }
+    }
+    if (columns.waybill >= 0 && (columns.amount >= 0 || columns.net >= 0)) return { columns, start: r + 1 };
+  }
+  throw new HttpError(400, 'Statement needs a waybill column and a COD amount or net paid column.');
+}
+
+const toAmount = (value?: string) => {
+  const n = Number(String(value || '').replace(/[^0-9.\-]/g, ''));
+  return isNaN(n) ? 0 : n;
+};
+
+// One entry per waybill; couriers list adjustments and fees as extra rows for the same parcel
+function readStatementLines(rows: string[][]): Map<string, { amount: number; fee: number }> {
+  const { columns, start } = locateColumns(rows);
+  const lines = new Map<string, { amount: number; fee: number }>();
+  for (const row of rows.slice(start)) {
+    const waybill = normalizeWaybill(row[columns.waybill]);
+    if (!waybill) continue;
+    const fee = columns.fee >= 0 ? Math.abs(toAmount(row[columns.fee])) : 0;
+    // Without a collected column the parcel's cash is what was paid plus what was kept
+    const amount = columns.amount >= 0 ? toAmount(row[columns.amount]) : toAmount(row[columns.net]) + fee;
+    const line = lines.get(waybill) || { amount: 0, fee: 0 };
+    lines.set(waybill, { amount: line.amount + amount, fee: line.fee + fee });
+  }
+  return lines;
+}
+
+const remittanceStatus = (order: Order, remitted: number) =>
+  remitted >= order.totalAmount - SHORT_PAY_TOLERANCE ? RemittanceStatus.REMITTED : RemittanceStatus.SHORT_PAID;
+
+// Orders shipped before multi-courier support carry no account and belong to the default one
+const belongsTo = (order: Order, account: CourierAccount, settings?: Partial<TenantSettings> | null) =>
+  (order.courierAccountId || selectCourierAccount(settings)?.id) === account.id;
+
+// Orders reconciled before lines were stored keep those totals as one line of their last statement
+async function adoptStoredTotals(db: Db, order: Order) {
+  if (order.codRemitted === undefined && order.courierFee === undefined) return;
+  const lines = db.collection<CodRemittanceLine>(COD_LINES_COLLECTION);
+  if (await lines.findOne({ tenantId: order.tenantId, orderId: order.id })) return;
+  await lines.insertOne({
+    tenantId: order.tenantId,
+    statementId: order.codStatementId || 'before-line-import',
+    waybill: normalizeWaybill(order.trackingNumber) || order.id,
+    orderId: order.id,
+    courierAccountId: order.courierAccountId || '',
+    amount: order.codRemitted || 0,
+    fee: order.courierFee || 0,
+    importedAt: order.codReconciledAt || new Date().toISOString()
+  });
+}
+
+// Recomputes an order's COD totals from its stored lines; returns its remittance status
+async function settleOrder(db: Db, tenantId: string, orderId: string, label: string, user: string, now: string) {
+  const orders = db.collection<Order>('orders');
+  const order = await orders.findOne({ id: orderId, tenantId });
+  if (!order) return undefined;
+  const lines = await db.collection<CodRemittanceLine>(COD_LINES_COLLECTION).find({ tenantId, orderId }).sort({ importedAt: 1 }).toArray();
+  const remitted = lines.reduce((s, l) => s + l.amount, 0);
+  const fee = lines.reduce((s, l) => s + l.fee, 0);
+  const log = (message: string) => ({ id: `l-${Date.now()}-${order.id}`, message: `${label}: ${message}`, timestamp: now, user });
+
+  // The corrected statement was the only one listing this parcel
+  if (lines.length === 0) {
+    await orders.updateOne({ id: order.id, tenantId }, {
+      $unset: { codRemitted: '', courierFee: '', codStatus: '', codStatementId: '', codReconciledAt: '' },
+      $push: { logs: log('no statement lists this parcel any more') }
+    });
+    return undefined;
+  }
+
+  // A returned parcel collects nothing, so its lines only carry the return fee
+  const returned = RETURNED_STATUSES.includes(order.status);
+  const codStatus = returned && remitted === 0 ? order.codStatus : remittanceStatus(order, remitted);
+  await orders.updateOne({ id: order.id, tenantId }, {
+    $set: {
+      codRemitted: remitted,
+      courierFee: fee,
+      ...(codStatus ? { codStatus } : {}),
+      codStatementId: lines[lines.length - 1].statementId,
+      codReconciledAt: now
+    },
+    $push: { logs: log(`collected ${remitted}, fee ${fee} over all statements${codStatus ? ` (${codStatus})` : ''}`) }
+  });
+  return codStatus;
+}
+
+/**
+ * Applies a courier statement. `reference` identifies the statement itself (the courier's
+ * number or payout date): importing it again with corrections replaces its earlier lines,
+ * drops parcels it no longer lists, and recomputes every affected order from the stored lines.
+ */
+export async function importCodStatement(
+  central: Db, db: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined,
+  account: CourierAccount, reference: string, fileName: string, content: Buffer, user: string
+): Promise<CodStatement> {
+  const fileHash = crypto.createHash('sha256').update(content).digest('hex');
+  const statements = db.collection<CodStatement>(COD_STATEMENTS_COLLECTION);
+  const previous = await statements.findOne({ tenantId, fileHash });
+  if (previous) throw new HttpError(409, `This statement was already imported on ${new Date(previous.importedAt).toLocaleDateString()} as ${previous.fileName}.`);
+
+  let rows: string[][];
+  try { rows = readSpreadsheetRows(fileName, content); }
+  catch (e: any) { throw new HttpError(400, e.message); }
+  const lines = readStatementLines(rows);
+  if (lines.size === 0) throw new HttpError(400, 'No waybills found in the statement.');
+
+  const now = new Date().toISOString();
+  const replaced = await statements.findOne({ tenantId, courierAccountId: account.id, reference });
+  const statement: CodStatement = {
+    id: replaced?.id || `cod-${Date.now()}`,
+    tenantId,
+    courierAccountId: account.id,
+    provider: account.provider,
+    reference,
+    revision: (replaced?.revision || 0) + 1,
+    fileName,
+    fileHash,
+    importedBy: user,
+    importedAt: now,
+    lines: lines.size,
+    matched: 0,
+    remitted: 0,
+    shortPaid: 0,
+    unmatched: [],
+    totals: { collected: 0, fees: 0, paid: 0 }
+  };
+  const skip = (line: Omit<CodStatementLine, 'reason'>, reason: string) => statement.unmatched.push({ ...line, reason });
+  const lineCol = db.collection<CodRemittanceLine>(COD_LINES_COLLECTION);
+
+  const listed: string[] = [];
+  const matchedOrders = new Set<string>();
+  for (const [waybill, { amount, fee }] of lines) {
+    statement.totals.collected += amount;
+    statement.totals.fees += fee;
+    const order = await findOrderByWaybill(central, db, tenantId, account.provider, waybill);
+    if (!order) { skip({ waybill, amount, fee }, 'No order carries this waybill'); continue; }
+    if (!belongsTo(order, account, settings)) { skip({ waybill, amount, fee }, `Order ${order.id} was shipped with another courier account`); continue; }
+
+    await adoptStoredTotals(db, order);
+    await lineCol.updateOne(
+      { tenantId, statementId: statement.id, waybill },
+      { $set: { orderId: order.id, courierAccountId: account.id, amount, fee, importedAt: now } },
+      { upsert: true }
+    );
+    listed.push(waybill);
+    matchedOrders.add(order.id);
+  }
+  statement.totals.paid = statement.totals.collected - statement.totals.fees;
+
+  // Parcels an earlier import of this statement listed but the correction leaves out
+  const dropped = await lineCol.find({ tenantId, statementId: statement.id, waybill: { $nin: listed } }).toArray();
+  await lineCol.deleteMany({ tenantId, statementId: statement.id, waybill: { $nin: listed } });
+
+  const label = `COD: ${account.label} statement ${reference}${statement.revision > 1 ? ` (revision ${statement.revision})` : ''}`;
+  for (const orderId of new Set([...matchedOrders, ...dropped.map(l => l.orderId)])) {
+    const codStatus = await settleOrder(db, tenantId, orderId, label, user, now);
+    if (!matchedOrders.has(orderId)) continue;
+    statement.matched++;
+    if (codStatus === RemittanceStatus.REMITTED) statement.remitted++;
+    if (codStatus === RemittanceStatus.SHORT_PAID) statement.shortPaid++;
+  }
+
+  await statements.replaceOne({ tenantId, id: statement.id }, { ...statement }, { upsert: true });
+  await flagMissingRemittances(db, tenantId, settings);
+  return statement;
+}
+
+// Delivered orders no statement has listed within the grace period
+export async function flagMissingRemittances(db: Db, tenantId: string, settings?: Partial<TenantSettings> | null) {
+  const cutoff = new Date(Date.now() - MISSING_AFTER_DAYS * 86400000).toISOString();
+  const defaultAccount = selectCourierAccount(settings);
+  const accountIds = getCourierAccounts(settings).map(a => a.id);
+  await db.collection<Order>('orders').updateMany(
+    {
+      tenantId,
+      status: OrderStatus.DELIVERED,
+      deliveredAt: { $lt: cutoff },
+      codStatus: { $exists: false },
+      $or: [{ courierAccountId: { $in: accountIds } }, ...(defaultAccount ? [{ courierAccountId: { $in: [null, ''] } }] : [])]
+    },
+    { $set: { codStatus: RemittanceStatus.MISSING } }
+  );
+}
+
+// Cash still owed per courier account across every delivered order
+export async function getCodReceivables(db: Db, tenantId: string, settings?: Partial<TenantSettings> | null): Promise<CodReceivable[]> {
+  const delivered = { $eq: ['$status', OrderStatus.DELIVERED] };
+  const flagged = (status: RemittanceStatus) => ({ $sum: { $cond: [{ $and: [delivered, { $eq: ['$codStatus', status] }] }, 1, 0] } });
+  const grouped = await db.collection<Order>('orders').aggregate<any>([
+    { $match: { tenantId, status: { $in: [OrderStatus.DELIVERED, ...RETURNED_STATUSES] } } },
+    { $group: {
+      _id: { $ifNull: ['$courierAccountId', null] },
+      delivered: { $sum: { $cond: [delivered, 1, 0] } },
+      expected: { $sum: { $cond: [delivered, '$totalAmount', 0] } },
+      remitted: { $sum: { $ifNull: ['$codRemitted', 0] } },
+      fees: { $sum: { $ifNull: ['$courierFee', 0] } },
+      shortPaid: flagged(RemittanceStatus.SHORT_PAID),
+      missing: flagged(RemittanceStatus.MISSING),
+      unreconciled: { $sum: { $cond: [{ $and: [delivered, { $not: [{ $ifNull: ['$codStatus', false] }] }] }, 1, 0] } }
+    } }
+  ]).toArray();
+
+  const defaultId = selectCourierAccount(settings)?.id;
+  return getCourierAccounts(settings).map(account => {
+    const rows = grouped.filter(g => (g._id || defaultId) === account.id);
+    const sum = (key: string) => rows.reduce((s, g) => s + (g[key] || 0), 0);
+    return {
+      courierAccountId: account.id,
+      label: account.label,
+      delivered: sum('delivered'),
+      expected: sum('expected'),
+      remitted: sum('remitted'),
+      outstanding: Math.max(0, sum('expected') - sum('remitted')),
+      fees: sum('fees'),
+      shortPaid: sum('shortPaid'),
+      missing: sum('missing'),
+      unreconciled: sum('unreconciled')
+    };
+  });
+}
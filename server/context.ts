@@ -0,0 +1,36 @@
+import { Db } from 'mongodb';
+import { UserRole } from '../types';
+import { ApiRequest, HttpError } from './http';
+import { StoredUser } from './auth';
+import { connectCentral, getTenantDb } from './db';
+
+// Everything a route handler needs about the caller. `tenantId` comes from the
+// session; only DEV_ADMIN may address another tenant through a `tenantId` parameter.
+export interface RequestContext {
+  req: ApiRequest;
+  user: StoredUser | null;
+  tenantId: string | undefined;
+  central: Db;
+}
+
+// Session user for routes that declare `auth` (the router guarantees it is present)
+export const sessionUser = (ctx: RequestContext): StoredUser => {
+  if (!ctx.user) throw new HttpError(401, 'Session expired');
+  return ctx.user;
+};
+
+export const isDevAdmin = (ctx: RequestContext) => ctx.user?.role === UserRole.DEV_ADMIN;
+
+export const requireTenantId = (ctx: RequestContext): string => {
+  if (!ctx.tenantId) throw new HttpError(400, 'Context Required');
+  return ctx.tenantId;
+};
+
+export const tenantDb = (ctx: RequestContext) => getTenantDb(requireTenantId(ctx));
+
+export const createContext = async (req: ApiRequest): Promise<RequestContext> => ({
+  req,
+  user: null,
+  tenantId: undefined,
+  central: await connectCentral()
+});
@@ -0,0 +1,152 @@
+import { CourierAccount, CourierProviderId, Order } from '../../types';
+import { CourierProvider, CourierResult, CourierTrackingResult } from './types';
+
+export const FDE_ERRORS: Record<number, string> = {
+  201: "Inactive Client",
+  202: "Invalid Order ID (Numeric Required)",
+  203: "Invalid Weight",
+  204: "Invalid Parcel Description",
+  205: "Invalid Name",
+  206: "Contact Number 1 Invalid",
+  207: "Contact Number 2 Invalid",
+  208: "Invalid Address",
+  209: "Invalid City Name",
+  210: "Insert Failed, Try Again",
+  211: "Invalid API Key",
+  212: "Invalid or Inactive Client",
+  213: "Invalid Exchange Value",
+  214: "Courier Maintenance Mode"
+};
+
+// Transient refusals worth retrying; every other code means the parcel data or account is wrong
+export const FDE_RETRYABLE_CODES = [210, 214];
+
+// Set FDE_API_URL only to point the server at the offline mock; tenants cannot change where their keys are sent
+const FDE_API_BASE = (process.env.FDE_API_URL || 'https://www.fdedomestic.com/api/parcel').replace(/\/+$/, '');
+const FDE_NEW_WAYBILL_PATH = '/new_api_v1.php';
+const FDE_EXISTING_WAYBILL_PATH = '/existing_waybill_api_v1.php';
+const FDE_TRACKING_PATH = '/tracking_api_v1.php';
+const FDE_TIMEOUT_MS = Number(process.env.FDE_TIMEOUT_MS || 30000); // Well inside the dispatch lock, so a hung call cannot outlive it
+
+// FDE callbacks are inconsistent: JSON, multipart, urlencoded, JSON posted as a
+// form key, or bare query parameters. Normalise all of them into one payload.
+function extractWebhookPayload(body: any, query: Record<string, string | undefined>) {
+  let payload = body && typeof body === 'object' ? body : {};
+
+  // Handle JSON-as-key edge case (Curl quirks)
+  if (!payload.waybill_id && !payload.waybillId) {
+    const keys = Object.keys(payload);
+    if (keys.length === 1 && keys[0].trim().startsWith('{')) {
+      try {
+        const parsedKey = JSON.parse(keys[0]);
+        if (parsedKey.waybill_id || parsedKey.waybillId) payload = parsedKey;
+      } catch (e) {}
+    }
+  }
+
+  // Query Param Fallback
+  if (Object.keys(payload).length === 0) payload = query;
+  return payload;
+}
+
+// Submits the order form to one of FDE's parcel endpoints
+async function submitParcel(order: Order, account: CourierAccount, waybill?: string): Promise<CourierResult> {
+  // FDE expects a numeric order_id. Dispatch always assigns courierRef; the id's digits are a fallback.
+  const fdeOrderId = order.courierRef || order.id.replace(/\D/g, '').slice(-10);
+
+  // INTELLIGENT DESCRIPTION LOGIC: Prioritize product name if description is generic or missing
+  const productNames = order.items && order.items.length > 0 ? order.items.map(i => i.name).join(' + ') : 'Standard Shipment';
+  const hasCustomDescription = order.parcelDescription && order.parcelDescription !== 'Online Order';
+  const finalDescription = hasCustomDescription ? order.parcelDescription! : productNames;
+
+  const formData = new URLSearchParams();
+  formData.append('api_key', account.apiKey.trim());
+  formData.append('client_id', (account.clientId || '').trim());
+  formData.append('order_id', fdeOrderId);
+  formData.append('parcel_weight', order.parcelWeight || '1');
+  formData.append('parcel_description', finalDescription.slice(0, 50));
+  formData.append('recipient_name', String(order.customerName));
+  formData.append('recipient_contact_1', order.customerPhone.replace(/\D/g, ''));
+
+  const phone2 = (order.customerPhone2 || '').replace(/\D/g, '');
+  if (phone2) formData.append('recipient_contact_2', phone2);
+
+  formData.append('recipient_address', String(order.customerAddress));
+  formData.append('recipient_city', String(order.customerCity || ''));
+  formData.append('amount', Math.round(order.totalAmount).toString());
+  formData.append('exchange', '0');
+  if (waybill !== undefined) formData.append('waybill_id', waybill);
+
+  const reply = await postForm(waybill !== undefined ? FDE_EXISTING_WAYBILL_PATH : FDE_NEW_WAYBILL_PATH, formData);
+  if (!reply.ok) return reply;
+  const issued = reply.data.waybill_no ? String(reply.data.waybill_no).trim() : (waybill || '').trim();
+  return { ok: true, code: reply.code, waybill: issued };
+}
+
+// FDE answers every call with JSON carrying its own `status` code; 200 is success
+async function postForm(path: string, formData: URLSearchParams): Promise<CourierResult & { data?: any }> {
+  let rawText: string;
+  let httpStatus: number;
+  try {
+    const response = await fetch(FDE_API_BASE + path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: formData,
+      signal: AbortSignal.timeout(FDE_TIMEOUT_MS)
+    });
+    httpStatus = response.status;
+    rawText = await response.text();
+  } catch (err: any) {
+    if (err?.name !== 'TimeoutError') throw err;
+    return { ok: false, code: 0, error: `FDE did not answer within ${FDE_TIMEOUT_MS / 1000}s`, retryable: true };
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(rawText);
+  } catch (err) {
+    // Non-JSON replies are FDE's gateway or maintenance pages; their body is not passed on
+    return { ok: false, code: 0, error: `FDE sent an unreadable reply (HTTP ${httpStatus})`, retryable: true };
+  }
+
+  const code = Number(data.status);
+  if (code === 200) return { ok: true, code, data };
+  return { ok: false, code, error: FDE_ERRORS[code] || data.message || `FDE Status ${code}`, retryable: FDE_RETRYABLE_CODES.includes(code) };
+}
+
+async function trackParcel(waybill: string, account: CourierAccount): Promise<CourierTrackingResult> {
+  const formData = new URLSearchParams();
+  formData.append('api_key', account.apiKey.trim());
+  formData.append('client_id', (account.clientId || '').trim());
+  formData.append('waybill_id', waybill.trim());
+
+  const reply = await postForm(FDE_TRACKING_PATH, formData);
+  if (!reply.ok) return reply;
+  return {
+    ok: true,
+    code: reply.code,
+    waybill: waybill.trim(),
+    status: reply.data.current_status || reply.data.delivery_status || undefined,
+    updatedAt: reply.data.last_update_time || undefined
+  };
+}
+
+export const fdeProvider: CourierProvider = {
+  id: CourierProviderId.FDE,
+  name: 'FDE',
+  createShipment: (order, account) => submitParcel(order, account),
+  attachWaybill: (order, account) => submitParcel(order, account, String(order.trackingNumber || '')),
+  // FDE's client API has no cancellation endpoint; parcels are cancelled through their support desk
+  cancelShipment: async () => ({ ok: false, code: 0, error: 'FDE does not support cancellation over its API. Contact FDE support.' }),
+  trackShipment: trackParcel,
+  parseWebhook: (body, query) => {
+    const payload = extractWebhookPayload(body, query);
+    const waybill = payload.waybill_id || payload.waybillId;
+    if (!waybill) return null;
+    return {
+      waybill: String(waybill).trim(),
+      status: payload.delivery_status || payload.current_status || payload.status,
+      updatedAt: payload.last_update_time || undefined
+    };
+  }
+};
@@ -0,0 +1,16 @@
+import { CourierProviderId } from '../../types';
+import { HttpError } from '../http';
+import { fdeProvider } from './fde';
+import { CourierProvider } from './types';
+
+export type { CourierProvider, CourierResult, CourierTrackingResult, CourierWebhookEvent } from './types';
+
+const PROVIDERS: Record<CourierProviderId, CourierProvider> = {
+  [CourierProviderId.FDE]: fdeProvider
+};
+
+export const getCourierProvider = (id: CourierProviderId | string | undefined = CourierProviderId.FDE): CourierProvider => {
+  const provider = PROVIDERS[id as CourierProviderId];
+  if (!provider) throw new HttpError(400, `Unknown courier provider: ${id}`);
+  return provider;
+};
@@ -0,0 +1,40 @@
+import { CourierAccount, CourierProviderId, Order } from '../../types';
+
+export interface CourierResult {
+  ok: boolean;
+  code: number; // Provider status code; 0 when the reply could not be understood
+  waybill?: string;
+  error?: string;
+  retryable?: boolean; // The courier was busy or down, so the same request may succeed later
+}
+
+// Current state of a parcel as reported by the courier's tracking API
+export interface CourierTrackingResult extends CourierResult {
+  status?: string;
+  updatedAt?: string;
+}
+
+// One tracking update pushed by a courier, already pulled out of its transport format
+export interface CourierWebhookEvent {
+  waybill: string;
+  status: string;
+  updatedAt?: string; // Courier's own timestamp, when it sends one
+}
+
+/**
+ * Everything the OMS needs from a courier. Adding a courier means implementing this
+ * interface and registering it in `./index.ts`; routes never talk to a courier directly.
+ * Default status wording lives in `utils/courierStatus.ts` so Settings can show it.
+ */
+export interface CourierProvider {
+  id: CourierProviderId;
+  name: string;
+  createShipment(order: Order, account: CourierAccount): Promise<CourierResult>;
+  // EXISTING_WAYBILL mode: register a parcel under the pre-printed waybill on the order
+  attachWaybill(order: Order, account: CourierAccount): Promise<CourierResult>;
+  cancelShipment(waybill: string, account: CourierAccount): Promise<CourierResult>;
+  // Pull the parcel's latest status; the tracking poller's fallback for missed webhooks
+  trackShipment(waybill: string, account: CourierAccount): Promise<CourierTrackingResult>;
+  // Returns null when the payload carries no waybill
+  parseWebhook(body: any, query: Record<string, string | undefined>): CourierWebhookEvent | null;
+}
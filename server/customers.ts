@@ -0,0 +1,169 @@
+import { Db, ObjectId } from 'mongodb';
+import { Customer, CustomerAddress, CustomerRisk, Order, OrderStatus, TenantSettings } from '../types';
+import { CUSTOMER_RETURN_STATUSES, customerKey } from '../utils/customers';
+import { riskRulesOf, scoreCustomer } from '../utils/customerRisk';
+import { normalizePhone } from '../utils/phone';
+
+// --- CUSTOMERS ---
+// A profile per phone number, rebuilt from the customer's orders whenever one of them is
+// written or changes status. Only `notes` are edited by hand. Orders carry the profile
+// key as `customerId`; orders saved before profiles existed get it from the customer
+// migration DEV_ADMIN runs.
+export const CUSTOMERS_COLLECTION = 'customers';
+const MIGRATIONS_COLLECTION = 'migrations';
+const MAX_ADDRESSES = 10;
+const MIGRATION_BATCH = 500;
+const UNCALLED_STATUSES = [OrderStatus.PENDING, OrderStatus.OPEN_LEAD];
+
+// Progress of a tenant's customer migration, kept centrally so any instance can resume it
+export interface CustomerMigration {
+  _id: string;
+  tenantId: string;
+  after: ObjectId | null; // Last order handled, in `_id` order
+  scanned: number;
+  updated: number;
+  done: boolean;
+  updatedAt: string;
+}
+
+const addressKey = (address?: string) => (address || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+async function rebuildCustomer(db: Db, tenantId: string, key: string) {
+  const customers = db.collection<Customer>(CUSTOMERS_COLLECTION);
+  const orders = await db.collection<Order>('orders')
+    .find(
+      { tenantId, customerId: key },
+      { projection: { _id: 0, id: 1, customerName: 1, customerPhone: 1, customerPhone2: 1, customerAddress: 1, customerCity: 1, status: 1, totalAmount: 1, createdAt: 1 } }
+    )
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  if (orders.length === 0) {
+    // Notes outlive the orders they were written about
+    await customers.deleteOne({ id: key, tenantId, notes: { $size: 0 } });
+    await customers.updateOne({ id: key, tenantId }, { $set: { orders: 0, delivered: 0, returned: 0, rejected: 0, noAnswerStreak: [], lifetimeValue: 0, updatedAt: new Date().toISOString() } });
+    return;
+  }
+
+  const addresses = new Map<string, CustomerAddress>();
+  const altPhones = new Set<string>();
+  for (const o of orders) {
+    const addr = addressKey(o.customerAddress);
+    if (addr && !addresses.has(addr)) addresses.set(addr, { address: o.customerAddress.trim(), city: o.customerCity || '', lastUsedAt: o.createdAt });
+    for (const phone of [o.customerPhone, o.customerPhone2]) {
+      const alt = customerKey(phone);
+      if (alt && alt !== key) altPhones.add(alt);
+    }
+  }
+  const delivered = orders.filter(o => o.status === OrderStatus.DELIVERED);
+  // Leads nobody has called yet neither extend nor break a no-answer streak
+  const called = orders.filter(o => !UNCALLED_STATUSES.includes(o.status));
+  const streakEnd = called.findIndex(o => o.status !== OrderStatus.NO_ANSWER);
+  const noAnswerStreak = called.slice(0, streakEnd < 0 ? called.length : streakEnd).map(o => o.id);
+
+  await customers.updateOne(
+    { id: key, tenantId },
+    {
+      $set: {
+        name: orders[0].customerName,
+        phone: key,
+        altPhones: [...altPhones],
+        addresses: [...addresses.values()].slice(0, MAX_ADDRESSES),
+        orders: orders.length,
+        delivered: delivered.length,
+        returned: orders.filter(o => CUSTOMER_RETURN_STATUSES.includes(o.status)).length,
+        rejected: orders.filter(o => o.status === OrderStatus.REJECTED).length,
+        noAnswerStreak,
+        lifetimeValue: delivered.reduce((s, o) => s + (o.totalAmount || 0), 0),
+        firstOrderAt: orders[orders.length - 1].createdAt,
+        lastOrderAt: orders[0].createdAt,
+        updatedAt: new Date().toISOString()
+      },
+      $setOnInsert: { id: key, tenantId, notes: [] }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Rebuilds the profiles behind `keys` after their orders changed. A failure is logged
+ * rather than thrown: the order write it follows has already happened, and the profile
+ * is rebuilt again the next time any of its orders changes.
+ */
+export async function syncCustomers(db: Db, tenantId: string, keys: (string | undefined | null)[]) {
+  for (const key of new Set(keys.filter((k): k is string => !!k))) {
+    try {
+      await rebuildCustomer(db, tenantId, key);
+    } catch (e: any) {
+      console.error(`Customer sync failed for ${tenantId}/${key}:`, e.message);
+    }
+  }
+}
+
+// Brings one batch of orders saved before customer profiles existed up to date: phones
+// into local form, then the customerId they are grouped by. Numbers that do not parse are
+// left for someone to correct; the scan moves on past them.
+async function migrateCustomerBatch(db: Db, state: CustomerMigration) {
+  const ordersCol = db.collection<Order>('orders');
+  const batch = await ordersCol
+    .find(
+      { tenantId: state.tenantId, ...(state.after ? { _id: { $gt: state.after } } : {}) },
+      { projection: { _id: 1, id: 1, customerPhone: 1, customerPhone2: 1, customerId: 1 } }
+    )
+    .sort({ _id: 1 })
+    .limit(MIGRATION_BATCH)
+    .toArray();
+
+  const fixed = batch
+    .map(o => {
+      const customerPhone = normalizePhone(o.customerPhone);
+      const customerPhone2 = o.customerPhone2 ? normalizePhone(o.customerPhone2) : o.customerPhone2;
+      return { order: o, customerPhone, customerPhone2, customerId: customerKey(customerPhone) };
+    })
+    .filter(f => f.customerPhone !== f.order.customerPhone || f.customerPhone2 !== f.order.customerPhone2 || f.order.customerId === undefined);
+  if (fixed.length > 0) {
+    await ordersCol.bulkWrite(fixed.map(f => ({
+      updateOne: {
+        filter: { id: f.order.id, tenantId: state.tenantId },
+        update: { $set: { customerPhone: f.customerPhone, customerPhone2: f.customerPhone2, customerId: f.customerId } }
+      }
+    })));
+    await syncCustomers(db, state.tenantId, fixed.flatMap(f => [f.order.customerId, f.customerId]));
+  }
+  return {
+    ...state,
+    after: batch.length > 0 ? batch[batch.length - 1]._id : state.after,
+    scanned: state.scanned + batch.length,
+    updated: state.updated + fixed.length,
+    done: batch.length < MIGRATION_BATCH,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Runs a tenant's customer migration from where it last stopped, a batch at a time, until
+ * it finishes or `budgetMs` has passed. Progress is saved after every batch, so a run cut
+ * short loses at most the batch in hand, and running it again after it finished is a no-op.
+ */
+export async function migrateCustomers(central: Db, db: Db, tenantId: string, budgetMs: number): Promise<CustomerMigration> {
+  const deadline = Date.now() + budgetMs;
+  const migrations = central.collection<CustomerMigration>(MIGRATIONS_COLLECTION);
+  const id = `customers:${tenantId}`;
+  let state: CustomerMigration = await migrations.findOne({ _id: id })
+    || { _id: id, tenantId, after: null, scanned: 0, updated: 0, done: false, updatedAt: new Date().toISOString() };
+  while (!state.done && Date.now() < deadline) {
+    state = await migrateCustomerBatch(db, state);
+    await migrations.replaceOne({ _id: id }, state, { upsert: true });
+  }
+  return state;
+}
+
+// Risk grade for an order from `phone` under the tenant's rules, read from the stored profile
+export async function assessCustomer(
+  db: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined,
+  phone: string | undefined, orderValue?: number, orderId?: string
+): Promise<{ customer: Customer | null; risk: CustomerRisk }> {
+  const key = customerKey(phone);
+  const customer = key ? await db.collection<Customer>(CUSTOMERS_COLLECTION).findOne({ id: key, tenantId }, { projection: { _id: 0 } }) : null;
+  return { customer, risk: scoreCustomer(customer, riskRulesOf(settings), orderValue, orderId) };
+}
@@ -0,0 +1,59 @@
+import { Db, MongoClient, ServerApiVersion } from 'mongodb';
+import { Tenant } from '../types';
+
+export const CENTRAL_DB_NAME = 'milkyway_central';
+
+let centralClient: MongoClient | null = null;
+let centralDb: Db | null = null;
+const tenantClients = new Map<string, MongoClient>();
+
+export async function connectCentral(): Promise<Db> {
+  if (!centralClient || !centralDb) {
+    const uri = process.env.MONGODB_URI;
+    if (!uri) throw new Error('MONGODB_URI is missing');
+    const client = new MongoClient(uri, {
+      serverApi: { version: ServerApiVersion.v1, strict: true, deprecationErrors: true },
+      maxPoolSize: 10,
+      connectTimeoutMS: 15000
+    });
+    await client.connect();
+    centralClient = client;
+    centralDb = client.db(process.env.MONGODB_DB_NAME || CENTRAL_DB_NAME); // The test suite uses its own
+    console.log('>>> MW-OMS Master Node Active.');
+  }
+  return centralDb;
+}
+
+// Tenants with their own `mongoUri` get a dedicated client; everyone else shares the
+// central database, which is why every tenant query must also filter on `tenantId`.
+export async function getTenantDb(tenantId: string): Promise<Db> {
+  const db = await connectCentral();
+  const tenantConfig = await db.collection<Tenant>('tenants').findOne({ id: tenantId });
+  if (!tenantConfig?.mongoUri) return db;
+  if (tenantClients.has(tenantId)) return tenantClients.get(tenantId)!.db();
+  try {
+    const client = new MongoClient(tenantConfig.mongoUri, { maxPoolSize: 10 });
+    await client.connect();
+    tenantClients.set(tenantId, client);
+    return client.db();
+  } catch (err) {
+    return db;
+  }
+}
+
+// Closes every open client; long-running servers never need this, the test suite does
+export async function closeConnections() {
+  await Promise.all([centralClient, ...tenantClients.values()].map(c => c?.close()));
+  centralClient = null;
+  centralDb = null;
+  tenantClients.clear();
+}
+
+// For user-supplied text inside a `$regex` filter
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const clean = <T extends Record<string, any>>(doc: T | null | undefined): Omit<T, '_id'> | null => {
+  if (!doc) return null;
+  const { _id, ...rest } = doc;
+  return rest;
+};
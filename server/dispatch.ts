@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+import { Db } from 'mongodb';
+import { CourierAccount, CourierMode, DispatchAttempt, DispatchJob, DispatchJobStatus, Order, OrderStatus, Tenant } from '../types';
+import { selectCourierAccount } from '../utils/couriers';
+import { computeShippingCost } from '../utils/rateCards';
+import { HttpError } from './http';
+import { connectCentral, getTenantDb } from './db';
+import { CourierProvider, getCourierProvider } from './couriers';
+import { acquireJobLock, releaseJobLock } from './jobLocks';
+import { assertItemQuantities, assertItemsEditable, assertTransition, normalizeOrderPhones, transitionOrder } from './orderLifecycle';
+import { bindWaybill, markWaybillUsed, restoreOrderWaybill } from './waybillPool';
+import { validateOrderCity } from './cities';
+import { indexWaybill } from './webhooks';
+
+const COUNTERS_COLLECTION = 'counters';
+const COURIER_REF_START = 100000;
+const DISPATCH_LOCK_SECONDS = 120; // Longer than a courier call can run (FDE_TIMEOUT_MS); a crashed attempt frees the order after this
+
+export type DispatchedOrder = Order & { alreadyProcessed?: boolean };
+
+// Next number in the tenant's courier reference sequence
+async function nextCourierRef(db: Db, tenantId: string): Promise<string> {
+  const counter = await db.collection<{ _id: string; seq: number }>(COUNTERS_COLLECTION).findOneAndUpdate(
+    { _id: `courierRef:${tenantId}` },
+    { $inc: { seq: 1 } },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return String(COURIER_REF_START + (counter?.seq || 0));
+}
+
+const alreadyShipped = (order: Order) => order.status !== OrderStatus.CONFIRMED && !!order.shippedAt;
+
+/**
+ * Takes the order for one courier call. Only a CONFIRMED order with no call in flight can
+ * be taken, so a double scan or an overlapping retry is turned away before the courier
+ * sees it. The courier reference is fixed here on first dispatch and reused after that.
+ */
+async function claimOrderForDispatch(db: Db, stored: Order): Promise<Order> {
+  const now = new Date();
+  const claimed = await db.collection<Order>('orders').findOneAndUpdate(
+    {
+      id: stored.id,
+      tenantId: stored.tenantId,
+      status: OrderStatus.CONFIRMED,
+      $or: [{ dispatchLockUntil: null }, { dispatchLockUntil: { $lt: now.toISOString() } }]
+    },
+    { $set: {
+      courierRef: stored.courierRef || await nextCourierRef(db, stored.tenantId),
+      dispatchLockUntil: new Date(now.getTime() + DISPATCH_LOCK_SECONDS * 1000).toISOString()
+    } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (claimed) return claimed;
+
+  const current = await db.collection<Order>('orders').findOne({ id: stored.id, tenantId: stored.tenantId });
+  if (!current) throw new HttpError(404, 'Order reference not found');
+  if (current.status === OrderStatus.CONFIRMED) throw new HttpError(409, 'Dispatch already in progress for this order.', { retryable: true });
+  // Shipped meanwhile comes back as already processed; anything else is not ours to ship
+  if (!alreadyShipped(current)) throw new HttpError(409, `Order is ${current.status}.`);
+  return current;
+}
+
+const releaseOrderClaim = (db: Db, order: Order) =>
+  db.collection<Order>('orders').updateOne({ id: order.id, tenantId: order.tenantId }, { $set: { dispatchLockUntil: null } });
+
+/**
+ * Hands one order to the tenant's courier and moves it to SHIPPED. `edits` are form
+ * changes submitted with the request (OrderDetail); the stored status always decides.
+ * An order that already shipped comes back unchanged with `alreadyProcessed` instead of
+ * being booked again. Courier refusals throw a 400 whose details carry the courier code
+ * and whether the same request may succeed later.
+ */
+export async function dispatchOrder(central: Db, db: Db, stored: Order, edits: Partial<Order>, user: string): Promise<DispatchedOrder> {
+  if (alreadyShipped(stored)) return { ...stored, alreadyProcessed: true };
+  const tenantId = stored.tenantId;
+  // The destination city decides which of the tenant's courier accounts takes the parcel
+  const tenantDoc = await central.collection<Tenant>('tenants').findOne({ id: tenantId });
+  const account = selectCourierAccount(tenantDoc?.settings, edits.customerCity ?? stored.customerCity);
+  if (!account || !account.apiKey) throw new HttpError(400, 'Keys Missing');
+  const provider = getCourierProvider(account.provider);
+
+  const claimed = await claimOrderForDispatch(db, stored);
+  if (alreadyShipped(claimed)) return { ...claimed, alreadyProcessed: true };
+  try {
+    return await shipClaimedOrder(central, db, claimed, edits, user, account, provider);
+  } catch (e) {
+    // A pool waybill taken for this attempt goes back, unless the courier already booked it
+    const current = await db.collection<Order>('orders').findOne({ id: claimed.id, tenantId }, { projection: { bookedWaybill: 1 } });
+    if (!current?.bookedWaybill) await restoreOrderWaybill(db, claimed, account);
+    await releaseOrderClaim(db, claimed);
+    throw e;
+  }
+}
+
+async function shipClaimedOrder(central: Db, db: Db, stored: Order, edits: Partial<Order>, user: string, account: CourierAccount, provider: CourierProvider): Promise<Order> {
+  const tenantId = stored.tenantId;
+  // The parcel ships the units CONFIRMED reserved
+  assertItemQuantities(edits.items);
+  assertItemsEditable(stored, edits.items);
+  const candidate: Order = { ...stored, ...edits, id: stored.id, tenantId, status: stored.status, stockAllocations: stored.stockAllocations, courierRef: stored.courierRef };
+  // Stored under the registry spelling; the courier gets its own code for the city
+  const { city, courierCity } = await validateOrderCity(central, candidate.customerCity, provider.id);
+  candidate.customerCity = city.name;
+  // FDE refuses malformed numbers (codes 206/207); catch them before the courier round trip
+  normalizeOrderPhones(candidate);
+
+  // Standard mode gets its waybill from the courier, so check everything but that up front
+  const existingWaybill = account.mode === CourierMode.EXISTING_WAYBILL;
+  if (stored.bookedWaybill) candidate.trackingNumber = stored.bookedWaybill;
+  else if (existingWaybill) candidate.trackingNumber = (await bindWaybill(db, candidate, account, candidate.trackingNumber)) || undefined;
+  assertTransition(candidate, OrderStatus.SHIPPED, existingWaybill ? [] : ['trackingNumber']);
+
+  // A booking an earlier attempt got but could not record is reused, never booked twice
+  let waybill = stored.bookedWaybill || '';
+  if (!waybill) {
+    const parcel = { ...candidate, customerCity: courierCity };
+    const result = existingWaybill
+      ? await provider.attachWaybill(parcel, account)
+      : await provider.createShipment(parcel, account);
+    if (!result.ok) {
+      throw new HttpError(400, result.error || `${provider.name} Handshake Refused`, { code: result.code, retryable: !!result.retryable });
+    }
+    waybill = result.waybill || '';
+    await db.collection<Order>('orders').updateOne(
+      { id: stored.id, tenantId },
+      { $set: { bookedWaybill: waybill, courierProvider: provider.id, courierAccountId: account.id } }
+    );
+  }
+
+  const updated = await transitionOrder(db, stored, OrderStatus.SHIPPED, {
+    user,
+    holdsDispatchLock: true,
+    message: `${provider.name} Handshake: Success`,
+    extra: {
+      customerName: candidate.customerName,
+      customerPhone: candidate.customerPhone,
+      customerPhone2: candidate.customerPhone2,
+      customerAddress: candidate.customerAddress,
+      customerCity: candidate.customerCity,
+      parcelWeight: candidate.parcelWeight,
+      parcelDescription: candidate.parcelDescription,
+      items: candidate.items,
+      totalAmount: candidate.totalAmount,
+      trackingNumber: waybill,
+      courierProvider: provider.id,
+      courierAccountId: account.id,
+      // Priced now so later rate card changes do not rewrite the profit of parcels already out
+      ...(account.rateCard ? { shippingCost: computeShippingCost(account.rateCard, candidate) } : {}),
+      dispatchLockUntil: null,
+      bookedWaybill: null
+    }
+  });
+  if (existingWaybill && waybill) await markWaybillUsed(db, stored, account, waybill);
+  await indexWaybill(central, { tenantId, provider: provider.id, waybill, orderId: stored.id });
+  return updated;
+}
+
+// --- DISPATCH QUEUE ---
+// Bulk shipping and the scan terminal queue jobs here instead of calling the courier from
+// the browser. Busy or down couriers are retried with exponential backoff; validation
+// refusals fail the job straight away so someone fixes the order.
+export const DISPATCH_JOBS_COLLECTION = 'dispatch_jobs';
+const POLL_SECONDS = Number(process.env.DISPATCH_POLL_SECONDS ?? 60); // 0 disables the in-process timer
+const MAX_ATTEMPTS = Number(process.env.DISPATCH_MAX_ATTEMPTS || 6);
+const RETRY_BASE_SECONDS = Number(process.env.DISPATCH_RETRY_BASE_SECONDS || 60); // Doubles after every failure
+const RETRY_MAX_SECONDS = 3600;
+const BATCH_SIZE = Number(process.env.DISPATCH_BATCH_SIZE || 50); // Jobs per tenant per run
+const REQUEST_GAP_MS = Number(process.env.DISPATCH_REQUEST_GAP_MS || 800); // Spacing between courier calls
+const LEASE_MINUTES = 5;
+const LOCK_MINUTES = 15;
+
+export const ACTIVE_DISPATCH_STATUSES = [DispatchJobStatus.QUEUED, DispatchJobStatus.RUNNING];
+
+export interface DispatchEnqueueResult {
+  jobs: DispatchJob[];
+  skipped: { orderId: string; reason: string }[];
+}
+
+export interface DispatchRunSummary {
+  attempted: number;
+  shipped: number;
+  retrying: number;
+  failed: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const jobsCol = (db: Db) => db.collection<DispatchJob>(DISPATCH_JOBS_COLLECTION);
+
+const retryDelaySeconds = (failures: number) => Math.min(RETRY_BASE_SECONDS * 2 ** (failures - 1), RETRY_MAX_SECONDS);
+
+/**
+ * Queues CONFIRMED orders for dispatch. An order that already has a queued or running
+ * job gets that job back rather than a second one.
+ */
+export async function enqueueDispatch(db: Db, tenantId: string, orderIds: string[], user: string): Promise<DispatchEnqueueResult> {
+  const result: DispatchEnqueueResult = { jobs: [], skipped: [] };
+  for (const orderId of [...new Set(orderIds)]) {
+    const order = await db.collection<Order>('orders').findOne({ id: orderId, tenantId });
+    if (!order) { result.skipped.push({ orderId, reason: 'Order reference not found' }); continue; }
+
+    const active = await jobsCol(db).findOne({ tenantId, orderId, status: { $in: ACTIVE_DISPATCH_STATUSES } }, { projection: { _id: 0 } });
+    if (active) { result.jobs.push(active); continue; }
+    if (order.status !== OrderStatus.CONFIRMED) { result.skipped.push({ orderId, reason: alreadyShipped(order) ? 'Already shipped' : `Order is ${order.status}` }); continue; }
+
+    const now = new Date().toISOString();
+    const job: DispatchJob = {
+      id: `dj-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      tenantId,
+      orderId,
+      customerName: order.customerName,
+      customerCity: order.customerCity || '',
+      status: DispatchJobStatus.QUEUED,
+      attempts: [],
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      leaseUntil: null,
+      lastError: null,
+      waybill: null,
+      requestedBy: user,
+      createdAt: now,
+      updatedAt: now
+    };
+    await jobsCol(db).insertOne({ ...job });
+    result.jobs.push(job);
+  }
+  return result;
+}
+
+// Takes a due job (or one whose runner died mid-attempt) for this instance only
+async function claimJob(db: Db, tenantId: string, jobId?: string): Promise<DispatchJob | null> {
+  const now = new Date();
+  return jobsCol(db).findOneAndUpdate(
+    {
+      tenantId,
+      ...(jobId ? { id: jobId } : {}),
+      $or: [
+        { status: DispatchJobStatus.QUEUED, nextAttemptAt: { $lte: now.toISOString() } },
+        { status: DispatchJobStatus.RUNNING, leaseUntil: { $lt: now.toISOString() } }
+      ]
+    },
+    { $set: { status: DispatchJobStatus.RUNNING, leaseUntil: new Date(now.getTime() + LEASE_MINUTES * 60000).toISOString(), updatedAt: now.toISOString() } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: 'after', projection: { _id: 0 } }
+  );
+}
+
+// One attempt at a claimed job; records it and decides whether the job is done, waits for another try, or has failed
+async function runClaimedJob(central: Db, db: Db, job: DispatchJob): Promise<DispatchJob> {
+  const now = new Date();
+  const order = await db.collection<Order>('orders').findOne({ id: job.orderId, tenantId: job.tenantId });
+  let update: Partial<DispatchJob>;
+  let attempt: DispatchAttempt | null = null;
+
+  if (order && alreadyShipped(order)) {
+    // Shipped some other way (OrderDetail, another terminal) while the job waited
+    update = { status: DispatchJobStatus.DONE, waybill: order.trackingNumber || null, lastError: null };
+  } else {
+    try {
+      if (!order) throw new HttpError(404, 'Order reference not found');
+      const shipped = await dispatchOrder(central, db, order, {}, job.requestedBy);
+      attempt = { at: now.toISOString(), code: 200, error: null, retryable: false };
+      update = { status: DispatchJobStatus.DONE, waybill: shipped.trackingNumber || null, lastError: null };
+    } catch (e: any) {
+      // Anything that is not an HttpError never reached a courier verdict (network, timeouts)
+      const retryable = e instanceof HttpError ? !!e.details?.retryable : true;
+      attempt = { at: now.toISOString(), code: Number(e.details?.code) || 0, error: e.message, retryable };
+      const failures = job.attempts.length + 1;
+      update = retryable && failures < job.maxAttempts
+        ? { status: DispatchJobStatus.QUEUED, nextAttemptAt: new Date(now.getTime() + retryDelaySeconds(failures) * 1000).toISOString(), lastError: e.message }
+        : { status: DispatchJobStatus.FAILED, nextAttemptAt: null, lastError: e.message };
+    }
+  }
+
+  const finished = { ...update, leaseUntil: null, updatedAt: new Date().toISOString() };
+  await jobsCol(db).updateOne({ id: job.id, tenantId: job.tenantId }, attempt ? { $set: finished, $push: { attempts: attempt } } : { $set: finished });
+  return { ...job, ...finished, attempts: attempt ? [...job.attempts, attempt] : job.attempts };
+}
+
+// Runs just-queued jobs inside the request (scan terminal) so the operator sees the outcome,
+// one courier call at a time with the same spacing as the worker
+export async function runDispatchJobsNow(central: Db, db: Db, jobs: DispatchJob[]): Promise<DispatchJob[]> {
+  const results: DispatchJob[] = [];
+  let calledCourier = false;
+  for (const job of jobs) {
+    const claimed = job.status === DispatchJobStatus.QUEUED ? await claimJob(db, job.tenantId, job.id) : null;
+    if (!claimed) { results.push(job); continue; }
+    if (calledCourier) await sleep(REQUEST_GAP_MS);
+    results.push(await runClaimedJob(central, db, claimed));
+    calledCourier = true;
+  }
+  return results;
+}
+
+async function drainTenantQueue(central: Db, tenantId: string, summary: DispatchRunSummary, deadline: number) {
+  const lockId = `dispatch-queue:${tenantId}`;
+  if (Date.now() >= deadline || !(await acquireJobLock(central, lockId, LOCK_MINUTES))) return;
+  try {
+    const db = await getTenantDb(tenantId);
+    // No new job is started past the deadline; the rest wait for the next run
+    for (let i = 0; i < BATCH_SIZE && Date.now() + (i > 0 ? REQUEST_GAP_MS : 0) < deadline; i++) {
+      const job = await claimJob(db, tenantId);
+      if (!job) break;
+      if (i > 0) await sleep(REQUEST_GAP_MS);
+      const done = await runClaimedJob(central, db, job);
+      summary.attempted++;
+      if (done.status === DispatchJobStatus.DONE) summary.shipped++;
+      else if (done.status === DispatchJobStatus.QUEUED) summary.retrying++;
+      else summary.failed++;
+    }
+  } finally {
+    await releaseJobLock(central, lockId);
+  }
+}
+
+/**
+ * Works through due dispatch jobs, one tenant at a time. Pass a tenant to drain just its
+ * queue, as right after a bulk enqueue. With `budgetMs`, no job is started once that much
+ * time has passed, for runtimes that kill the run at a fixed limit (Netlify).
+ */
+export async function runDispatchQueue(tenantId?: string, budgetMs = Infinity): Promise<DispatchRunSummary> {
+  const deadline = Date.now() + budgetMs;
+  const central = await connectCentral();
+  const summary: DispatchRunSummary = { attempted: 0, shipped: 0, retrying: 0, failed: 0 };
+  const tenants = tenantId
+    ? [{ id: tenantId }]
+    : await central.collection<Tenant>('tenants').find({ isActive: true }, { projection: { id: 1 } }).toArray();
+  for (const tenant of tenants) {
+    try {
+      await drainTenantQueue(central, tenant.id, summary, deadline);
+    } catch (e: any) {
+      console.error(`Dispatch queue failed for ${tenant.id}:`, e.message);
+    }
+  }
+  if (summary.attempted > 0) console.log('>>> Dispatch queue:', summary);
+  return summary;
+}
+
+let longRunning = false;
+
+// Starts on a tenant's new jobs without waiting for the next poll, where the process outlives
+// the request (the Express server). Serverless functions are frozen once they answer, so
+// there the scheduled dispatch-queue function picks the jobs up.
+export function kickDispatchQueue(tenantId: string) {
+  if (!longRunning) return;
+  runDispatchQueue(tenantId).catch(e => console.error('Dispatch queue crashed:', e.message));
+}
+
+// In-process schedule for the long-running Express server; Netlify uses a scheduled function
+export function startDispatchWorker() {
+  longRunning = true;
+  if (!(POLL_SECONDS > 0)) return;
+  setInterval(() => {
+    runDispatchQueue().catch(e => console.error('Dispatch queue crashed:', e.message));
+  }, POLL_SECONDS * 1000);
+}
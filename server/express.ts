@@ -0,0 +1,38 @@
+import express from 'express';
+import { ApiRequest, handleApiRequest, parseBody } from './api';
+
+// Express adapter for the shared API core, mounted at /api by server.ts
+export function apiRouter() {
+  const router = express.Router();
+  // Capture every body as raw text; the core decodes JSON, urlencoded and multipart itself
+  router.use(express.text({ type: () => true, limit: '50mb' }));
+
+  router.use(async (req, res) => {
+    const rawBody = typeof req.body === 'string' ? req.body : '';
+    const headers: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(req.headers)) {
+      headers[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    const query: Record<string, string | undefined> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      query[key] = Array.isArray(value) ? String(value[0]) : (value as string | undefined);
+    }
+    const forwarded = String(headers['x-forwarded-for'] || '').split(',')[0].trim();
+
+    const apiReq: ApiRequest = {
+      method: req.method,
+      path: req.path,
+      query,
+      headers,
+      rawBody,
+      body: parseBody(rawBody),
+      ip: forwarded || req.socket.remoteAddress || null
+    };
+
+    const result = await handleApiRequest(apiReq);
+    if (result.text) res.status(result.status).type('text/plain').send(result.body);
+    else res.status(result.status).json(result.body);
+  });
+
+  return router;
+}
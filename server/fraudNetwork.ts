@@ -0,0 +1,67 @@
+import { Db } from 'mongodb';
+import { FraudListing, FraudReasonCode, NetworkFlag, TenantSettings } from '../types';
+import { FRAUD_REASON_LABELS, customerKey } from '../utils/customers';
+
+// --- FRAUD NETWORK ---
+// A blocklist in the central database shared by the shops that opt in. Shops report a
+// phone with a reason category and a private note; it warns every participating shop once
+// DEV_ADMIN confirms it or enough different shops have reported it. Shops only ever see
+// the count of reporting shops, their categories and the report dates, never who reported,
+// their notes or any order behind a report.
+export const FRAUD_COLLECTION = 'fraud_blocklist';
+const MIN_SHOPS = Number(process.env.FRAUD_NETWORK_MIN_SHOPS || 2);
+
+export const inFraudNetwork = (settings?: Partial<TenantSettings> | null) => !!settings?.fraudNetwork;
+
+const reportingShops = (listing: FraudListing) => new Set(listing.reports.map(r => r.tenantId)).size;
+
+export const isFlagged = (listing: FraudListing) => listing.confirmed || reportingShops(listing) >= MIN_SHOPS;
+
+// The listing as one shop sees it: free text from other shops never leaves the listing
+export function networkFlagFor(listing: FraudListing, tenantId: string): NetworkFlag {
+  const others = listing.reports.filter(r => r.tenantId !== tenantId);
+  const dates = others.map(r => r.reportedAt).sort();
+  return {
+    flagged: isFlagged(listing),
+    shops: new Set(others.map(r => r.tenantId)).size,
+    categories: [...new Set(others.map(r => r.category || FraudReasonCode.OTHER))],
+    firstReportedAt: dates[0] || null,
+    lastReportedAt: dates[dates.length - 1] || null,
+    ...(listing.note ? { note: listing.note } : {}),
+    confirmed: listing.confirmed,
+    reportedByYou: others.length < listing.reports.length
+  };
+}
+
+// Network flag for `phone`, or null when the shop has not opted in or the phone is not listed
+export async function checkFraudNetwork(
+  central: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined, phone: string | undefined
+): Promise<NetworkFlag | null> {
+  const key = customerKey(phone);
+  if (!key || !inFraudNetwork(settings)) return null;
+  const listing = await central.collection<FraudListing>(FRAUD_COLLECTION).findOne({ id: key }, { projection: { _id: 0 } });
+  return listing ? networkFlagFor(listing, tenantId) : null;
+}
+
+// Flagged phones among `phones`, keyed by customer key, for checking a batch of new leads
+export async function flaggedOnNetwork(
+  central: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined, phones: (string | undefined)[]
+): Promise<Map<string, NetworkFlag>> {
+  const keys = [...new Set(phones.map(customerKey).filter(Boolean))];
+  if (keys.length === 0 || !inFraudNetwork(settings)) return new Map();
+  const found = await central.collection<FraudListing>(FRAUD_COLLECTION).find({ id: { $in: keys } }, { projection: { _id: 0 } }).toArray();
+  return new Map(found.filter(isFlagged).map(l => [l.id, networkFlagFor(l, tenantId)]));
+}
+
+// A deleted shop's reports go with it; listings left with no report and no confirmation are dropped
+export async function dropTenantReports(central: Db, tenantId: string) {
+  const col = central.collection<FraudListing>(FRAUD_COLLECTION);
+  await col.updateMany({ 'reports.tenantId': tenantId }, { $pull: { reports: { tenantId } } });
+  await col.deleteMany({ confirmed: false, reports: { $size: 0 } });
+}
+
+// Human-readable warning for order logs and lead screens
+export const networkWarning = (flag: NetworkFlag) => {
+  const reasons = [...(flag.note ? [flag.note] : []), ...flag.categories.map(c => FRAUD_REASON_LABELS[c])];
+  return `Flagged on network${flag.confirmed ? ' (confirmed)' : ''}: reported by ${flag.shops} other shop${flag.shops === 1 ? '' : 's'}${reasons.length ? ` — ${reasons.join('; ')}` : ''}`;
+};
@@ -0,0 +1,95 @@
+// Transport-neutral request/response shapes. The Express server and the Netlify
+// function both translate their native objects into these and back.
+
+export interface ApiRequest {
+  method: string;
+  path: string; // Route path without the `/api` prefix, e.g. `/orders`
+  query: Record<string, string | undefined>;
+  headers: Record<string, string | undefined>; // Lower-cased header names
+  rawBody: string;
+  body: any;
+  ip: string | null;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+  text?: boolean; // Send `body` as plain text instead of JSON
+}
+
+export class HttpError extends Error {
+  status: number;
+  details?: Record<string, any>;
+
+  constructor(status: number, message: string, details?: Record<string, any>) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const json = (body: any, status = 200): ApiResponse => ({ status, body });
+export const text = (body: string, status = 200): ApiResponse => ({ status, body, text: true });
+
+export const accessDenied = () => new HttpError(403, 'Access Denied');
+
+// Parse raw multipart string manually without external libs
+export function parseMultipartData(rawBody: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!rawBody || typeof rawBody !== 'string') return result;
+
+  // 1. Identify Boundary (scan first few lines)
+  const lines = rawBody.split(/\r?\n/);
+  let boundary = '';
+  for (const line of lines) {
+    if (line.trim().startsWith('--')) {
+      boundary = line.trim();
+      break;
+    }
+  }
+  if (!boundary) return result;
+
+  // 2. Split by boundary
+  const parts = rawBody.split(boundary);
+
+  for (const part of parts) {
+    // 3. Find Name
+    if (!part || !part.includes('name="')) continue;
+    const nameMatch = part.match(/name="([^"]+)"/);
+    if (!nameMatch) continue;
+
+    const name = nameMatch[1];
+
+    // 4. Find Value (content after double newline)
+    const headerMatch = part.match(/\r?\n\r?\n/);
+    if (!headerMatch) continue;
+
+    const valueStart = headerMatch.index! + headerMatch[0].length;
+    let value = part.substring(valueStart).trim();
+
+    // Cleanup trailing dashes from end of body
+    if (value.endsWith('--')) value = value.substring(0, value.length - 2).trim();
+
+    result[name] = value;
+  }
+  return result;
+}
+
+// Best-effort body decoding: JSON first, then multipart, then urlencoded.
+// Courier callbacks arrive in all three shapes, often with a wrong content type.
+export function parseBody(rawBody: string): any {
+  if (!rawBody) return {};
+  try {
+    const parsed = JSON.parse(rawBody);
+    if (parsed && typeof parsed === 'object') return parsed;
+  } catch (e) {}
+
+  if (rawBody.includes('Content-Disposition: form-data')) return parseMultipartData(rawBody);
+  if (rawBody.includes('=')) return Object.fromEntries(new URLSearchParams(rawBody));
+  return {};
+}
+
+export function getBearerToken(req: ApiRequest) {
+  const header = req.headers['authorization'] || '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+}
@@ -0,0 +1,28 @@
+import { Db } from 'mongodb';
+
+// Central leases for background jobs, so only one instance runs a job at a time. A lease
+// expires on its own if the run holding it dies.
+const LOCK_COLLECTION = 'job_locks';
+
+interface JobLock {
+  _id: string;
+  lockedUntil: string;
+}
+
+export async function acquireJobLock(central: Db, id: string, minutes: number): Promise<boolean> {
+  const now = new Date();
+  try {
+    await central.collection<JobLock>(LOCK_COLLECTION).updateOne(
+      { _id: id, lockedUntil: { $lt: now.toISOString() } },
+      { $set: { lockedUntil: new Date(now.getTime() + minutes * 60000).toISOString() } },
+      { upsert: true }
+    );
+    return true;
+  } catch (e: any) {
+    if (e.code === 11000) return false; // Lock held: the upsert collided with the live lock document
+    throw e;
+  }
+}
+
+export const releaseJobLock = (central: Db, id: string) =>
+  central.collection<JobLock>(LOCK_COLLECTION).updateOne({ _id: id }, { $set: { lockedUntil: new Date(0).toISOString() } });
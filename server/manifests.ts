@@ -0,0 +1,250 @@
+import { Db, Filter } from 'mongodb';
+import { CourierAccount, ManifestParcel, ManifestStatus, Order, OrderStatus, PickupManifest, TenantSettings, UnmanifestedSummary } from '../types';
+import { getCourierAccount, selectCourierAccount } from '../utils/couriers';
+import { courierAccountFor } from '../utils/rateCards';
+import { normalizeWaybill } from '../utils/waybills';
+import { HttpError } from './http';
+import { findOrderByWaybill } from './webhooks';
+
+// --- PICKUP MANIFESTS ---
+// Shipped parcels wait on the packing floor until a courier rider collects them. A manifest
+// is the numbered handover sheet for one collection: parcels are added, scanned as they go
+// into the rider's bag, and only the scanned ones stay on it once it is handed over.
+export const MANIFESTS_COLLECTION = 'pickup_manifests';
+const COUNTERS_COLLECTION = 'counters';
+const ALERT_HOURS = Number(process.env.MANIFEST_ALERT_HOURS || 6);
+
+async function nextManifestNumber(db: Db, tenantId: string): Promise<number> {
+  const counter = await db.collection<{ _id: string; seq: number }>(COUNTERS_COLLECTION).findOneAndUpdate(
+    { _id: `manifest:${tenantId}` },
+    { $inc: { seq: 1 } },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return counter?.seq || 1;
+}
+
+// However long ago it shipped, a parcel stays here until it is on a manifest or the courier moves it on
+const waitingForPickup = (tenantId: string): Filter<Order> => ({
+  tenantId,
+  status: OrderStatus.SHIPPED,
+  manifestId: null
+});
+
+// Orders shipped before multi-courier support carry no account and belong to the default one
+const accountFilter = (account: CourierAccount, settings?: Partial<TenantSettings> | null): Filter<Order> =>
+  selectCourierAccount(settings)?.id === account.id
+    ? { $or: [{ courierAccountId: account.id }, { courierAccountId: { $in: [null, ''] } }] }
+    : { courierAccountId: account.id };
+
+const toParcel = (order: Order): ManifestParcel => ({
+  orderId: order.id,
+  waybill: order.trackingNumber || '',
+  customerName: order.customerName,
+  customerCity: order.customerCity || '',
+  codAmount: order.totalAmount,
+  scannedAt: null,
+  scannedBy: null
+});
+
+const codTotalOf = (parcels: ManifestParcel[]) => parcels.reduce((s, p) => s + p.codAmount, 0);
+
+const logEntry = (message: string, user: string) => ({ id: `l-${Date.now()}`, message, timestamp: new Date().toISOString(), user });
+
+async function loadOpenManifest(db: Db, tenantId: string, id: string): Promise<PickupManifest> {
+  const manifest = await db.collection<PickupManifest>(MANIFESTS_COLLECTION).findOne({ id, tenantId }, { projection: { _id: 0 } });
+  if (!manifest) throw new HttpError(404, 'Manifest not found');
+  if (manifest.status !== ManifestStatus.OPEN) throw new HttpError(409, `Manifest #${manifest.number} was already handed over.`);
+  return manifest;
+}
+
+/**
+ * Opens a manifest for parcels of one courier account. `orderIds` limits it to a picked set;
+ * without it every parcel waiting for that account's rider is added. Parcels already on
+ * another manifest are skipped, so two packers building sheets at once never share one.
+ */
+export async function createManifest(
+  db: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined,
+  account: CourierAccount, orderIds: string[] | undefined, user: string
+): Promise<PickupManifest> {
+  const ordersCol = db.collection<Order>('orders');
+  const id = `mf-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  const filter: Filter<Order> = { $and: [waitingForPickup(tenantId), accountFilter(account, settings), ...(orderIds ? [{ id: { $in: orderIds } }] : [])] };
+  const claimed = await ordersCol.updateMany(filter, { $set: { manifestId: id } });
+  if (claimed.modifiedCount === 0) throw new HttpError(400, `No shipped parcels are waiting for a ${account.label} pickup.`);
+
+  const orders = await ordersCol.find({ tenantId, manifestId: id }, { projection: { _id: 0 } }).sort({ shippedAt: 1 }).toArray();
+  const parcels = orders.map(toParcel);
+  const manifest: PickupManifest = {
+    id,
+    tenantId,
+    number: await nextManifestNumber(db, tenantId),
+    courierAccountId: account.id,
+    label: account.label,
+    status: ManifestStatus.OPEN,
+    parcels,
+    codTotal: codTotalOf(parcels),
+    createdBy: user,
+    createdAt: new Date().toISOString(),
+    riderName: null,
+    handedOverBy: null,
+    handedOverAt: null
+  };
+  await db.collection<PickupManifest>(MANIFESTS_COLLECTION).insertOne({ ...manifest });
+  await ordersCol.updateMany({ tenantId, manifestId: id }, { $push: { logs: logEntry(`Added to pickup manifest #${manifest.number} (${account.label})`, user) } });
+  return manifest;
+}
+
+// One manifest per courier account among the picked orders
+export async function createManifestsFor(
+  db: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined, orderIds: string[], user: string
+): Promise<PickupManifest[]> {
+  const orders = await db.collection<Order>('orders')
+    .find({ ...waitingForPickup(tenantId), id: { $in: orderIds } }, { projection: { _id: 0, id: 1, courierAccountId: 1, customerCity: 1 } })
+    .toArray();
+  const byAccount = new Map<string, { account: CourierAccount; ids: string[] }>();
+  for (const order of orders) {
+    const account = courierAccountFor(settings, order);
+    if (!account) continue;
+    const group = byAccount.get(account.id) || { account, ids: [] };
+    group.ids.push(order.id);
+    byAccount.set(account.id, group);
+  }
+  if (byAccount.size === 0) throw new HttpError(400, 'None of the selected parcels are waiting for pickup. They are either on a manifest already or no longer SHIPPED.');
+
+  const manifests: PickupManifest[] = [];
+  for (const { account, ids } of byAccount.values()) manifests.push(await createManifest(db, tenantId, settings, account, ids, user));
+  return manifests;
+}
+
+/**
+ * Scan-verifies a parcel into an open manifest by waybill (or order id). A parcel already
+ * listed is marked scanned; one that is waiting for the same courier but not listed yet is
+ * added, since riders take whatever is on the table. Anything else is refused with why.
+ */
+export async function scanParcel(
+  central: Db, db: Db, tenantId: string, settings: Partial<TenantSettings> | null | undefined,
+  manifestId: string, code: string, user: string
+): Promise<{ manifest: PickupManifest; orderId: string; duplicate: boolean }> {
+  const manifest = await loadOpenManifest(db, tenantId, manifestId);
+  const key = normalizeWaybill(code);
+  if (!key) throw new HttpError(400, 'Scan a waybill barcode');
+  const manifests = db.collection<PickupManifest>(MANIFESTS_COLLECTION);
+  const now = new Date().toISOString();
+
+  const listed = manifest.parcels.find(p => normalizeWaybill(p.waybill) === key || p.orderId === code.trim());
+  if (listed) {
+    if (listed.scannedAt) return { manifest, orderId: listed.orderId, duplicate: true };
+    await manifests.updateOne(
+      { id: manifest.id, tenantId, status: ManifestStatus.OPEN, 'parcels.orderId': listed.orderId },
+      { $set: { 'parcels.$.scannedAt': now, 'parcels.$.scannedBy': user } }
+    );
+    return { manifest: (await loadOpenManifest(db, tenantId, manifest.id)), orderId: listed.orderId, duplicate: false };
+  }
+
+  const account = getCourierAccount(settings, manifest.courierAccountId);
+  const ordersCol = db.collection<Order>('orders');
+  const order = (account && await findOrderByWaybill(central, db, tenantId, account.provider, code))
+    || await ordersCol.findOne({ id: code.trim(), tenantId });
+  if (!order) throw new HttpError(404, `No order carries waybill ${key}.`);
+  if (order.manifestId) {
+    const other = await manifests.findOne({ id: order.manifestId, tenantId }, { projection: { number: 1 } });
+    throw new HttpError(409, `${key} is already on manifest #${other?.number ?? '?'}.`, { orderId: order.id });
+  }
+  if (order.status !== OrderStatus.SHIPPED) throw new HttpError(409, `${key} is ${order.status}, not waiting for pickup.`, { orderId: order.id });
+  if (courierAccountFor(settings, order)?.id !== manifest.courierAccountId) {
+    throw new HttpError(409, `${key} was shipped with another courier account, not ${manifest.label}.`, { orderId: order.id });
+  }
+
+  const claimed = await ordersCol.updateOne(
+    { id: order.id, tenantId, status: OrderStatus.SHIPPED, manifestId: null },
+    { $set: { manifestId: manifest.id }, $push: { logs: logEntry(`Added to pickup manifest #${manifest.number} (${manifest.label}) by scan`, user) } }
+  );
+  if (claimed.modifiedCount === 0) throw new HttpError(409, `${key} was just added to another manifest.`, { orderId: order.id });
+  const parcel = { ...toParcel(order), scannedAt: now, scannedBy: user };
+  await manifests.updateOne({ id: manifest.id, tenantId }, { $push: { parcels: parcel }, $inc: { codTotal: parcel.codAmount } });
+  return { manifest: (await loadOpenManifest(db, tenantId, manifest.id)), orderId: order.id, duplicate: false };
+}
+
+// Takes a parcel off an open manifest; it goes back to waiting for pickup
+export async function removeParcel(db: Db, tenantId: string, manifestId: string, orderId: string, user: string): Promise<PickupManifest> {
+  const manifest = await loadOpenManifest(db, tenantId, manifestId);
+  const parcel = manifest.parcels.find(p => p.orderId === orderId);
+  if (!parcel) throw new HttpError(404, 'Parcel is not on this manifest');
+  await db.collection<PickupManifest>(MANIFESTS_COLLECTION).updateOne(
+    { id: manifest.id, tenantId },
+    { $pull: { parcels: { orderId } }, $inc: { codTotal: -parcel.codAmount } }
+  );
+  await db.collection<Order>('orders').updateOne(
+    { id: orderId, tenantId, manifestId: manifest.id },
+    { $set: { manifestId: null }, $push: { logs: logEntry(`Removed from pickup manifest #${manifest.number}`, user) } }
+  );
+  return loadOpenManifest(db, tenantId, manifest.id);
+}
+
+/**
+ * Closes a manifest when the rider leaves. Only scanned parcels were verified into the
+ * rider's bag, so unscanned ones drop off the sheet and go back to waiting for pickup.
+ */
+export async function handOverManifest(db: Db, tenantId: string, manifestId: string, riderName: string | undefined, user: string): Promise<PickupManifest> {
+  const manifest = await loadOpenManifest(db, tenantId, manifestId);
+  const scanned = manifest.parcels.filter(p => p.scannedAt);
+  const unscanned = manifest.parcels.filter(p => !p.scannedAt).map(p => p.orderId);
+  if (scanned.length === 0) throw new HttpError(400, 'Scan at least one parcel before handing the manifest over.');
+
+  const now = new Date().toISOString();
+  const closed = await db.collection<PickupManifest>(MANIFESTS_COLLECTION).findOneAndUpdate(
+    { id: manifest.id, tenantId, status: ManifestStatus.OPEN },
+    { $set: {
+      status: ManifestStatus.HANDED_OVER,
+      parcels: scanned,
+      codTotal: codTotalOf(scanned),
+      riderName: riderName?.trim() || null,
+      handedOverBy: user,
+      handedOverAt: now
+    } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  if (!closed) throw new HttpError(409, `Manifest #${manifest.number} was already handed over.`);
+
+  const ordersCol = db.collection<Order>('orders');
+  if (unscanned.length > 0) {
+    await ordersCol.updateMany(
+      { tenantId, id: { $in: unscanned }, manifestId: manifest.id },
+      { $set: { manifestId: null }, $push: { logs: logEntry(`Not scanned at handover of manifest #${manifest.number}; waiting for the next pickup`, user) } }
+    );
+  }
+  const rider = closed.riderName ? ` to ${closed.riderName}` : '';
+  await ordersCol.updateMany(
+    { tenantId, id: { $in: scanned.map(p => p.orderId) } },
+    { $push: { logs: logEntry(`Handed over${rider} on manifest #${manifest.number} (${manifest.label})`, user) } }
+  );
+  return closed;
+}
+
+// Discards an open manifest; its parcels go back to waiting for pickup
+export async function deleteManifest(db: Db, tenantId: string, manifestId: string, user: string) {
+  const manifest = await loadOpenManifest(db, tenantId, manifestId);
+  await db.collection<Order>('orders').updateMany(
+    { tenantId, manifestId: manifest.id },
+    { $set: { manifestId: null }, $push: { logs: logEntry(`Pickup manifest #${manifest.number} discarded`, user) } }
+  );
+  await db.collection<PickupManifest>(MANIFESTS_COLLECTION).deleteOne({ id: manifest.id, tenantId });
+}
+
+// Parcels waiting for pickup, with the ones past the alert window listed
+export async function getUnmanifested(db: Db, tenantId: string): Promise<UnmanifestedSummary> {
+  const ordersCol = db.collection<Order>('orders');
+  const cutoff = new Date(Date.now() - ALERT_HOURS * 3600000).toISOString();
+  const [count, overdue] = await Promise.all([
+    ordersCol.countDocuments(waitingForPickup(tenantId)),
+    ordersCol
+      .find(
+        { $and: [waitingForPickup(tenantId), { shippedAt: { $lt: cutoff } }] },
+        { projection: { _id: 0, id: 1, customerName: 1, customerCity: 1, trackingNumber: 1, totalAmount: 1, courierAccountId: 1, shippedAt: 1, status: 1 } }
+      )
+      .sort({ shippedAt: 1 })
+      .limit(200)
+      .toArray()
+  ]);
+  return { count, alertHours: ALERT_HOURS, overdue: overdue as Order[] };
+}
@@ -0,0 +1,132 @@
+import { Db } from 'mongodb';
+import { Order, OrderLog, OrderStatus } from '../types';
+import { customerKey } from '../utils/customers';
+import { normalizePhone, phoneProblem } from '../utils/phone';
+import { PIPELINE_STATUSES, STATUS_TIMESTAMPS, getAllowedTransitions, getMissingFields, getTransition } from '../utils/orderTransitions';
+import { HttpError } from './http';
+import { applyStockEffect, revertStockEffect } from './stock';
+import { syncCustomers } from './customers';
+
+interface TransitionOptions {
+  user: string;
+  message?: string;
+  at?: string; // When the change actually happened (courier `last_update_time`), defaults to now
+  extra?: Partial<Order>; // Fields written together with the status, e.g. `courierStatus`
+  holdsDispatchLock?: boolean; // The dispatcher that set `dispatchLockUntil`; everyone else waits for it
+}
+
+// Order fields owned by the lifecycle; plain order saves may not change them
+export const LIFECYCLE_FIELDS: (keyof Order)[] = ['status', 'confirmedAt', 'shippedAt', 'deliveredAt', 'returnCompletedAt', 'stockAllocations', 'courierRef', 'dispatchLockUntil', 'bookedWaybill',
+  'shippingCost', 'codStatus', 'codRemitted', 'courierFee', 'codStatementId', 'codReconciledAt', 'manifestId', 'returnCondition'];
+
+// `deferred` lists required fields the caller will only obtain later (e.g. a courier-issued waybill)
+export function assertTransition(order: Order, to: OrderStatus, deferred: (keyof Order)[] = []) {
+  if (order.status === to) throw new HttpError(409, `Order is already ${to}.`, { from: order.status, to });
+  if (!getTransition(order.status, to)) {
+    throw new HttpError(409, `Illegal status change: ${order.status} → ${to}.`, {
+      from: order.status, to, allowed: getAllowedTransitions(order.status)
+    });
+  }
+  const missing = getMissingFields(order, to).filter(f => !deferred.includes(f));
+  if (missing.length > 0) {
+    throw new HttpError(422, `Cannot move to ${to}: missing ${missing.join(', ')}.`, { missing });
+  }
+}
+
+// Units per product, which is all a stock reservation depends on
+const unitsByProduct = (items: Order['items'] = []) => {
+  const units = new Map<string, number>();
+  for (const item of items) units.set(item.productId, (units.get(item.productId) || 0) + Number(item.quantity || 0));
+  return units;
+};
+
+/**
+ * Products and quantities decide the stock an order holds, so they may only change while
+ * the order is in the pipeline. Prices stay editable; a CONFIRMED order goes back to HOLD
+ * (releasing its stock) to change what it holds.
+ */
+export function assertItemsEditable(stored: Order, items?: Order['items']) {
+  if (items === undefined || PIPELINE_STATUSES.includes(stored.status)) return;
+  const before = unitsByProduct(stored.items);
+  const after = unitsByProduct(items);
+  if (before.size === after.size && [...before].every(([productId, units]) => after.get(productId) === units)) return;
+  throw new HttpError(409, `Products and quantities are fixed once an order is ${stored.status}${stored.status === OrderStatus.CONFIRMED ? '; move it back to HOLD to change them' : ''}.`);
+}
+
+// Stock moves add these up, so a string, fraction, zero or negative count would corrupt them
+export function assertItemQuantities(items?: Order['items']) {
+  if (items === undefined) return;
+  if (!Array.isArray(items)) throw new HttpError(422, 'Items must be a list', { field: 'items' });
+  for (const item of items) {
+    if (!Number.isInteger(item?.quantity) || item.quantity <= 0) {
+      throw new HttpError(422, `Quantity for ${item?.name || item?.productId || 'an item'} must be a whole number above zero`, { field: 'items' });
+    }
+  }
+}
+
+const PHONE_FIELDS = ['customerPhone', 'customerPhone2'] as const;
+
+/**
+ * Puts the order's phones in local form (0771234567), in place. With `strict`, a phone that
+ * differs from `previous` (every phone, without one) must be a Sri Lankan number; phones
+ * left as stored only get normalised, so an order saved before validation stays editable.
+ * The second phone may be blank.
+ */
+export function normalizeOrderPhones(order: Partial<Order>, previous?: Partial<Order> | null, strict = true) {
+  for (const field of PHONE_FIELDS) {
+    const raw = order[field];
+    if (raw === undefined || (field === 'customerPhone2' && !String(raw).trim())) continue;
+    const problem = strict && !(previous && raw === previous[field]) ? phoneProblem(raw) : null;
+    if (problem) throw new HttpError(422, `${field === 'customerPhone' ? 'Phone' : 'Second phone'}: ${problem}`, { field });
+    order[field] = normalizePhone(raw);
+  }
+}
+
+/**
+ * Moves an order to `to` after checking the transition table and required fields,
+ * applying its stock effect (reserve, release or consume) and stamping the lifecycle
+ * timestamp. The write is conditional on the status we read, so two agents cannot
+ * both move the same order.
+ */
+export async function transitionOrder(db: Db, order: Order, to: OrderStatus, options: TransitionOptions): Promise<Order> {
+  const from = order.status;
+  const next: Order = { ...order, ...options.extra };
+  assertTransition(next, to);
+
+  const transition = getTransition(from, to)!;
+  const at = options.at || new Date().toISOString();
+
+  if (transition.stock) next.stockAllocations = await applyStockEffect(db, next, transition.stock, options.user);
+
+  const stampField = STATUS_TIMESTAMPS[to];
+  if (stampField && !next[stampField]) next[stampField] = at;
+
+  const log: OrderLog = {
+    id: `l-${Date.now()}`,
+    message: options.message || `Status Protocol: Order transitioned to ${to}`,
+    timestamp: new Date().toISOString(),
+    user: options.user
+  };
+  next.status = to;
+  next.logs = [...(order.logs || []), log];
+  next.customerId = customerKey(next.customerPhone);
+
+  const { _id, ...doc } = next as Order & { _id?: unknown };
+  // An order with a courier call in flight only moves through the dispatcher holding it
+  const unlocked = options.holdsDispatchLock ? {} : { $or: [{ dispatchLockUntil: null }, { dispatchLockUntil: { $lt: new Date().toISOString() } }] };
+  const result = await db.collection<Order>('orders').updateOne({ id: order.id, tenantId: order.tenantId, status: from, ...unlocked }, { $set: doc });
+  if (result.matchedCount === 0) {
+    // Someone else moved the order first; give back whatever this attempt took
+    if (transition.stock) {
+      await revertStockEffect(db, order, transition.stock, next.stockAllocations || [], options.user);
+    }
+    const current = await db.collection<Order>('orders').findOne({ id: order.id, tenantId: order.tenantId }, { projection: { status: 1, dispatchLockUntil: 1 } });
+    if (current?.status === from && current.dispatchLockUntil && current.dispatchLockUntil >= new Date().toISOString()) {
+      throw new HttpError(409, 'Order is being handed to the courier. Try again in a moment.', { retryable: true });
+    }
+    throw new HttpError(409, 'Order was updated by another user. Reload and try again.');
+  }
+  // The patch may have moved the order to another phone, so both profiles are rebuilt
+  await syncCustomers(db, order.tenantId, [order.customerId, doc.customerId]);
+  return doc;
+}
@@ -0,0 +1,59 @@
+import { User } from '../types';
+import { hasCapability } from '../utils/permissions';
+import { ApiRequest, ApiResponse, HttpError, accessDenied, getBearerToken, json } from './http';
+import { StoredUser, verifySession } from './auth';
+import { RequestContext, createContext } from './context';
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface Route {
+  method: Method | Method[];
+  path: string;
+  public?: boolean; // Reachable without a session (login, branding, courier callbacks)
+  devAdmin?: boolean;
+  tenant?: boolean; // Needs a resolved tenant scope
+  capability?: string[]; // Page IDs, any of which unlocks the route (see CAPABILITIES)
+  handler: (ctx: RequestContext) => Promise<ApiResponse>;
+}
+
+const matchesMethod = (route: Route, method: string) =>
+  Array.isArray(route.method) ? route.method.includes(method as Method) : route.method === method;
+
+// Resolves the caller from their session and pins the tenant scope.
+async function authenticate(ctx: RequestContext) {
+  const claims = verifySession(getBearerToken(ctx.req));
+  const user = claims ? await ctx.central.collection<StoredUser>('users').findOne({ id: claims.sub }) : null;
+  if (!user) throw new HttpError(401, 'Session expired');
+
+  ctx.user = user;
+  ctx.tenantId = user.role === 'DEV_ADMIN'
+    ? (ctx.req.query.tenantId || ctx.req.body?.tenantId || undefined)
+    : user.tenantId;
+}
+
+function authorize(route: Route, ctx: RequestContext) {
+  const user = ctx.user as User;
+  if (route.devAdmin && user.role !== 'DEV_ADMIN') throw accessDenied();
+  if (route.tenant && !ctx.tenantId) throw new HttpError(400, 'Context Required');
+  if (route.capability && !hasCapability(user, route.capability)) throw accessDenied();
+}
+
+export const createRouter = (routes: Route[]) => async (req: ApiRequest): Promise<ApiResponse> => {
+  const candidates = routes.filter(r => r.path === req.path);
+  if (candidates.length === 0) return json({ error: 'API route not matched.' }, 404);
+  const route = candidates.find(r => matchesMethod(r, req.method));
+  if (!route) return json({ error: 'Method Not Allowed' }, 405);
+
+  try {
+    const ctx = await createContext(req);
+    if (!route.public) {
+      await authenticate(ctx);
+      authorize(route, ctx);
+    }
+    return await route.handler(ctx);
+  } catch (e: any) {
+    if (e instanceof HttpError) return json({ error: e.message, ...e.details }, e.status);
+    console.error(`${req.method} ${req.path} failed:`, e);
+    return json({ error: e.message }, 500);
+  }
+};
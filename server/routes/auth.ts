@@ -0,0 +1,85 @@
+import { SecurityAction, Tenant } from '../../types';
+import { Route } from '../router';
+import { HttpError, getBearerToken, json } from '../http';
+import { StoredUser, hashPassword, matchesLegacyPassword, publicUser, signSession, verifyPassword, verifySession } from '../auth';
+import { recordSecurityEvent } from '../audit';
+
+export const authRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/health',
+    public: true,
+    handler: async () => json({ status: 'connected' })
+  },
+  {
+    // Public branding lookup for the login screen (custom domains)
+    method: 'GET',
+    path: '/branding',
+    public: true,
+    handler: async ({ req, central }) => {
+      const host = String(req.query.host || '').toLowerCase().trim();
+      const hostNoWww = host.replace(/^www\./, '');
+      if (!host) return json(null);
+      const tenant = await central.collection<Tenant>('tenants').findOne({
+        $or: [
+          { domain: { $in: [host, hostNoWww] } },
+          { domainRecords: { $elemMatch: { host: { $in: [host, hostNoWww] }, isActive: true } } }
+        ]
+      });
+      if (!tenant) return json(null);
+      return json({ id: tenant.id, name: tenant.name, settings: { shopName: tenant.settings?.shopName, logoUrl: tenant.settings?.logoUrl } });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/login',
+    public: true,
+    handler: async (ctx) => {
+      const { username, password } = ctx.req.body || {};
+      // Anything but two strings (e.g. {"$ne": ""}) would reach the query as an operator
+      if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+        await recordSecurityEvent(ctx, SecurityAction.LOGIN_FAILED, { actor: { username: typeof username === 'string' ? username : '' }, tenantId: null });
+        throw new HttpError(400, 'Username and password are required');
+      }
+
+      const usersCol = ctx.central.collection<StoredUser>('users');
+      const user = await usersCol.findOne({ username });
+      let valid = false;
+      if (user?.passwordHash) {
+        valid = verifyPassword(password, user.passwordHash);
+      } else if (user && typeof user.password === 'string') {
+        // MIGRATION: Legacy plaintext record, rehash on first successful login
+        valid = matchesLegacyPassword(password, user.password);
+        if (valid) {
+          await usersCol.updateOne(
+            { _id: user._id },
+            { $set: { passwordHash: hashPassword(password) }, $unset: { password: '' } }
+          );
+        }
+      }
+      if (!user || !valid) {
+        await recordSecurityEvent(ctx, SecurityAction.LOGIN_FAILED, {
+          actor: user ? publicUser(user) : { username },
+          tenantId: user?.tenantId || null,
+          after: { reason: user ? 'BAD_PASSWORD' : 'UNKNOWN_USER' }
+        });
+        throw new HttpError(401, 'Identity failure');
+      }
+
+      const { token, expiresAt } = signSession(user);
+      await recordSecurityEvent(ctx, SecurityAction.LOGIN, { actor: user, tenantId: user.tenantId || null });
+      return json({ user: publicUser(user), token, expiresAt });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/session',
+    public: true,
+    handler: async ({ req, central }) => {
+      const claims = verifySession(getBearerToken(req));
+      const user = claims ? await central.collection<StoredUser>('users').findOne({ id: claims.sub }) : null;
+      if (!user) throw new HttpError(401, 'Session expired');
+      return json({ user: publicUser(user) });
+    }
+  }
+];
@@ -0,0 +1,77 @@
+import { CityRecord, CourierProviderId } from '../../types';
+import { cityFromName, cityId } from '../../utils/cities';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { CITIES_COLLECTION, clearCityCache, loadCityRegistry } from '../cities';
+
+const cleanList = (values: unknown) =>
+  Array.isArray(values) ? [...new Set(values.map(v => String(v || '').trim()).filter(Boolean))] : [];
+
+// Keeps only known courier providers with a non-empty code
+const cleanCourierCodes = (codes: any): CityRecord['courierCodes'] => Object.fromEntries(
+  Object.values(CourierProviderId).filter(p => String(codes?.[p] || '').trim()).map(p => [p, String(codes[p]).trim()])
+);
+
+export const cityRoutes: Route[] = [
+  {
+    // `cities` keeps the plain name list older screens use; `registry` is the full record set
+    method: 'GET',
+    path: '/cities',
+    handler: async ({ central }) => {
+      const registry = await loadCityRegistry(central);
+      return json({ cities: registry.filter(c => c.active).map(c => c.name), registry });
+    }
+  },
+  {
+    // One record as `city`, or plain names as `cities` (added, existing ones left alone)
+    method: 'POST',
+    path: '/cities',
+    devAdmin: true,
+    handler: async ({ req, central }) => {
+      const { city, cities } = req.body as { city?: Partial<CityRecord> & { previousId?: string }; cities?: string[] };
+      const col = central.collection<CityRecord>(CITIES_COLLECTION);
+      await loadCityRegistry(central);
+
+      if (city) {
+        const name = String(city.name || '').trim();
+        if (!name) throw new HttpError(400, 'City name required');
+        const record: CityRecord = {
+          id: cityId(name),
+          name,
+          district: String(city.district || '').trim(),
+          province: String(city.province || '').trim(),
+          aliases: cleanList(city.aliases),
+          courierCodes: cleanCourierCodes(city.courierCodes),
+          active: city.active !== false
+        };
+        if (city.previousId && city.previousId !== record.id) {
+          if (await col.findOne({ id: record.id })) throw new HttpError(409, `${name} is already in the registry`);
+          await col.deleteOne({ id: city.previousId });
+        }
+        await col.updateOne({ id: record.id }, { $set: record }, { upsert: true });
+        clearCityCache();
+        return json(record);
+      }
+
+      const names = cleanList(cities);
+      if (names.length === 0) throw new HttpError(400, 'No cities given');
+      const result = await col.bulkWrite(names.map(name => ({
+        updateOne: { filter: { id: cityId(name) }, update: { $setOnInsert: cityFromName(name) }, upsert: true }
+      })));
+      clearCityCache();
+      return json({ added: result.upsertedCount });
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/cities',
+    devAdmin: true,
+    handler: async ({ req, central }) => {
+      const id = req.query.id;
+      if (!id) throw new HttpError(400, 'City id required');
+      await central.collection<CityRecord>(CITIES_COLLECTION).deleteOne({ id });
+      clearCityCache();
+      return json({ success: true });
+    }
+  }
+];
@@ -0,0 +1,109 @@
+import { Customer, CustomerNote, Order, Tenant } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { customerKey } from '../../utils/customers';
+import { riskRulesOf, scoreCustomer } from '../../utils/customerRisk';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { requireTenantId, sessionUser, tenantDb } from '../context';
+import { escapeRegex } from '../db';
+import { CUSTOMERS_COLLECTION, migrateCustomers } from '../customers';
+import { checkFraudNetwork, inFraudNetwork } from '../fraudNetwork';
+
+const MAX_NOTE_LENGTH = 2000;
+const MIGRATION_BUDGET_MS = 8000; // Inside the 10-second limit of a Netlify function
+
+export const customerRoutes: Route[] = [
+  {
+    // `id` returns one profile with its orders and fraud network flag; `ids` (comma separated)
+    // a batch of profiles for an order list; otherwise a searchable page of profiles.
+    // Profiles carry their risk grade under the tenant's current rules.
+    method: 'GET',
+    path: '/customers',
+    tenant: true,
+    handler: async (ctx) => {
+      const { id, ids, search, page, limit } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const col = db.collection<Customer>(CUSTOMERS_COLLECTION);
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      const rules = riskRulesOf(tenant?.settings);
+      const scored = (c: Customer) => ({ ...c, risk: scoreCustomer(c, rules) });
+
+      if (id) {
+        const key = customerKey(id);
+        const customer = await col.findOne({ id: key, tenantId }, { projection: { _id: 0 } });
+        if (!customer) throw new HttpError(404, 'Customer not found');
+        const orders = await db.collection<Order>('orders')
+          .find({ tenantId, customerId: key }, { projection: { _id: 0, logs: 0 } })
+          .sort({ createdAt: -1 })
+          .limit(500)
+          .toArray();
+        const network = await checkFraudNetwork(ctx.central, tenantId, tenant?.settings, key);
+        return json({ customer: scored(customer), orders, network, inNetwork: inFraudNetwork(tenant?.settings) });
+      }
+
+      if (ids) {
+        const keys = ids.split(',').map(customerKey).filter(Boolean).slice(0, 200);
+        const batch = await col.find({ tenantId, id: { $in: keys } }, { projection: { _id: 0, notes: 0, addresses: 0 } }).toArray();
+        return json(batch.map(scored));
+      }
+
+      const query: any = { tenantId };
+      if (search) {
+        const term = escapeRegex(search.trim());
+        query.$or = [{ name: { $regex: term, $options: 'i' } }, { id: { $regex: escapeRegex(customerKey(search) || search.trim()) } }, { altPhones: { $regex: term } }];
+      }
+      const p = parseInt(page || '') || 1;
+      const l = Math.min(parseInt(limit || '') || 50, 200);
+      const total = await col.countDocuments(query);
+      const data = await col.find(query, { projection: { _id: 0 } }).sort({ lastOrderAt: -1 }).skip((p - 1) * l).limit(l).toArray();
+      return json({ data: data.map(scored), total, page: p, limit: l });
+    }
+  },
+  {
+    // Notes are the only hand-edited part of a profile
+    method: 'PUT',
+    path: '/customers',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const { id, action, text, noteId } = ctx.req.body as { id?: string; action?: string; text?: string; noteId?: string };
+      const tenantId = requireTenantId(ctx);
+      const key = customerKey(id);
+      if (!key) throw new HttpError(400, 'Customer id required');
+      const col = (await tenantDb(ctx)).collection<Customer>(CUSTOMERS_COLLECTION);
+
+      let update;
+      if (action === 'ADD_NOTE') {
+        const body = (text || '').trim();
+        if (!body) throw new HttpError(400, 'Note text required');
+        if (body.length > MAX_NOTE_LENGTH) throw new HttpError(400, `Notes are limited to ${MAX_NOTE_LENGTH} characters`);
+        const note: CustomerNote = { id: `n-${Date.now()}`, text: body, user: sessionUser(ctx).username, timestamp: new Date().toISOString() };
+        update = { $push: { notes: note } };
+      } else if (action === 'DELETE_NOTE') {
+        if (!noteId) throw new HttpError(400, 'Note id required');
+        update = { $pull: { notes: { id: noteId } } };
+      } else {
+        throw new HttpError(400, 'Unknown customer action');
+      }
+
+      const customer = await col.findOneAndUpdate({ id: key, tenantId }, update, { returnDocument: 'after', projection: { _id: 0 } });
+      if (!customer) throw new HttpError(404, 'Customer not found');
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      return json({ ...customer, risk: scoreCustomer(customer, riskRulesOf(tenant?.settings)) });
+    }
+  },
+  {
+    // Normalises the phones and fills in the customerId of orders saved before profiles
+    // existed, resuming where the last call stopped; call again until `done`
+    method: 'POST',
+    path: '/customers/migrate',
+    devAdmin: true,
+    tenant: true,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { _id, after, ...progress } = await migrateCustomers(ctx.central, await tenantDb(ctx), tenantId, MIGRATION_BUDGET_MS);
+      return json(progress);
+    }
+  }
+];
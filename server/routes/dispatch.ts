@@ -0,0 +1,87 @@
+import { DispatchJob, DispatchJobStatus } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { requireTenantId, sessionUser, tenantDb } from '../context';
+import { DISPATCH_JOBS_COLLECTION, enqueueDispatch, kickDispatchQueue, runDispatchJobsNow } from '../dispatch';
+
+const MANUAL_RETRY_ATTEMPTS = 3;
+
+export const dispatchRoutes: Route[] = [
+  {
+    // Dispatch monitor: jobs newest first, plus a count per status for the tabs
+    method: 'GET',
+    path: '/dispatch-jobs',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { status, limit } = ctx.req.query;
+      const db = await tenantDb(ctx);
+      const col = db.collection<DispatchJob>(DISPATCH_JOBS_COLLECTION);
+
+      const query: any = { tenantId };
+      if (status && status !== 'ALL') query.status = status;
+      const jobs = await col.find(query, { projection: { _id: 0 } })
+        .sort({ createdAt: -1 })
+        .limit(Math.min(parseInt(limit || '') || 500, 2000))
+        .toArray();
+      const grouped = await col.aggregate<{ _id: DispatchJobStatus; count: number }>([
+        { $match: { tenantId } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ]).toArray();
+      return json({ jobs, counts: Object.fromEntries(grouped.map(g => [g._id, g.count])) });
+    }
+  },
+  {
+    // Queue orders for the courier. `runNow` makes the first attempts inside the request, one
+    // after another, for the scan terminal; otherwise the worker picks the jobs up.
+    method: 'POST',
+    path: '/dispatch-jobs',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { orderIds, runNow } = ctx.req.body as { orderIds?: string[]; runNow?: boolean };
+      if (!Array.isArray(orderIds) || orderIds.length === 0) throw new HttpError(400, 'No orders to dispatch');
+
+      const db = await tenantDb(ctx);
+      const result = await enqueueDispatch(db, tenantId, orderIds, sessionUser(ctx).username);
+      if (runNow) result.jobs = await runDispatchJobsNow(ctx.central, db, result.jobs);
+      else kickDispatchQueue(tenantId);
+      return json(result);
+    }
+  },
+  {
+    // RETRY puts a failed job back in the queue with a few fresh attempts; CANCEL drops a queued one
+    method: 'PUT',
+    path: '/dispatch-jobs',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { id, action } = ctx.req.body as { id?: string; action?: 'RETRY' | 'CANCEL' };
+      const db = await tenantDb(ctx);
+      const col = db.collection<DispatchJob>(DISPATCH_JOBS_COLLECTION);
+      const job = await col.findOne({ id, tenantId });
+      if (!job) throw new HttpError(404, 'Dispatch job not found');
+
+      const now = new Date().toISOString();
+      if (action === 'RETRY') {
+        if (job.status !== DispatchJobStatus.FAILED) throw new HttpError(409, `Only failed jobs can be retried (job is ${job.status})`);
+        await col.updateOne({ id, tenantId, status: DispatchJobStatus.FAILED }, {
+          $set: { status: DispatchJobStatus.QUEUED, nextAttemptAt: now, maxAttempts: job.attempts.length + MANUAL_RETRY_ATTEMPTS, updatedAt: now }
+        });
+        kickDispatchQueue(tenantId);
+      } else if (action === 'CANCEL') {
+        if (job.status !== DispatchJobStatus.QUEUED) throw new HttpError(409, `Only queued jobs can be cancelled (job is ${job.status})`);
+        await col.updateOne({ id, tenantId, status: DispatchJobStatus.QUEUED }, {
+          $set: { status: DispatchJobStatus.FAILED, nextAttemptAt: null, lastError: `Cancelled by ${sessionUser(ctx).username}`, updatedAt: now }
+        });
+      } else {
+        throw new HttpError(400, 'Unknown dispatch action');
+      }
+      return json(await col.findOne({ id, tenantId }, { projection: { _id: 0 } }));
+    }
+  }
+];
@@ -0,0 +1,79 @@
+import { CodStatement, Order, OrderStatus, RemittanceStatus, Tenant } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { getCourierAccount } from '../../utils/couriers';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { RequestContext, requireTenantId, sessionUser, tenantDb } from '../context';
+import { COD_STATEMENTS_COLLECTION, flagMissingRemittances, getCodReceivables, importCodStatement } from '../codRemittance';
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+const loadTenant = async (ctx: RequestContext) => {
+  const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: requireTenantId(ctx) });
+  if (!tenant) throw new HttpError(404, 'Cluster not found');
+  return tenant;
+};
+
+export const financialRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/cod-statements',
+    tenant: true,
+    capability: CAPABILITIES.FINANCIALS,
+    handler: async (ctx) => {
+      const db = await tenantDb(ctx);
+      const statements = await db.collection<CodStatement>(COD_STATEMENTS_COLLECTION)
+        .find({ tenantId: requireTenantId(ctx) }, { projection: { _id: 0 } })
+        .sort({ importedAt: -1 })
+        .limit(50)
+        .toArray();
+      return json(statements);
+    }
+  },
+  {
+    // `content` is the statement file, base64 encoded; CSV or XLSX by `fileName`. `reference`
+    // names the statement so a corrected file replaces it; it defaults to the file name.
+    method: 'POST',
+    path: '/cod-statements',
+    tenant: true,
+    capability: CAPABILITIES.FINANCIALS,
+    handler: async (ctx) => {
+      const { accountId, fileName, content, reference } = ctx.req.body as { accountId?: string; fileName?: string; content?: string; reference?: string };
+      if (!fileName || !content) throw new HttpError(400, 'Statement file required');
+      const statementRef = String(reference || '').trim() || fileName.replace(/\.[^.]+$/, '');
+      const buffer = Buffer.from(content.replace(/^data:[^,]*,/, ''), 'base64');
+      if (buffer.length > MAX_STATEMENT_BYTES) throw new HttpError(413, 'Statement file is larger than 5 MB');
+
+      const tenant = await loadTenant(ctx);
+      const account = getCourierAccount(tenant.settings, accountId);
+      if (!account) throw new HttpError(404, 'Courier account not found');
+      const db = await tenantDb(ctx);
+      const statement = await importCodStatement(ctx.central, db, tenant.id, tenant.settings, account, statementRef, fileName, buffer, sessionUser(ctx).username);
+      return json(statement);
+    }
+  },
+  {
+    // Outstanding cash per courier, plus the orders flagged short-paid or missing
+    method: 'GET',
+    path: '/cod-receivables',
+    tenant: true,
+    capability: CAPABILITIES.FINANCIALS,
+    handler: async (ctx) => {
+      const tenant = await loadTenant(ctx);
+      const db = await tenantDb(ctx);
+      await flagMissingRemittances(db, tenant.id, tenant.settings);
+      const [receivables, flagged] = await Promise.all([
+        getCodReceivables(db, tenant.id, tenant.settings),
+        db.collection<Order>('orders')
+          .find(
+            { tenantId: tenant.id, status: OrderStatus.DELIVERED, codStatus: { $in: [RemittanceStatus.SHORT_PAID, RemittanceStatus.MISSING] } },
+            { projection: { _id: 0, id: 1, customerName: 1, trackingNumber: 1, totalAmount: 1, codRemitted: 1, courierFee: 1, codStatus: 1, courierAccountId: 1, deliveredAt: 1 } }
+          )
+          .sort({ deliveredAt: 1 })
+          .limit(500)
+          .toArray()
+      ]);
+      return json({ receivables, flagged });
+    }
+  }
+];
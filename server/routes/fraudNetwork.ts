@@ -0,0 +1,171 @@
+import { Customer, FraudListing, FraudReasonCode, FraudReport, SecurityAction, Tenant } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { customerKey } from '../../utils/customers';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { RequestContext, requireTenantId, sessionUser, tenantDb } from '../context';
+import { recordSecurityEvent } from '../audit';
+import { escapeRegex } from '../db';
+import { CUSTOMERS_COLLECTION } from '../customers';
+import { FRAUD_COLLECTION, inFraudNetwork, isFlagged, networkFlagFor } from '../fraudNetwork';
+
+const MAX_REASON_LENGTH = 300;
+
+const cleanReason = (reason: unknown) => {
+  const text = String(reason || '').trim();
+  if (!text) throw new HttpError(400, 'A reason is required');
+  if (text.length > MAX_REASON_LENGTH) throw new HttpError(400, `Reasons are limited to ${MAX_REASON_LENGTH} characters`);
+  return text;
+};
+
+// The shop's own note is optional; other shops only ever see the category
+const cleanNote = (note: unknown) => {
+  const text = String(note || '').trim();
+  if (text.length > MAX_REASON_LENGTH) throw new HttpError(400, `Notes are limited to ${MAX_REASON_LENGTH} characters`);
+  return text;
+};
+
+const requireCategory = (category: unknown) => {
+  if (!Object.values(FraudReasonCode).includes(category as FraudReasonCode)) throw new HttpError(400, 'Pick a report category');
+  return category as FraudReasonCode;
+};
+
+const requirePhone = (phone: unknown) => {
+  const key = customerKey(String(phone || ''));
+  if (!key) throw new HttpError(400, 'Phone required');
+  return key;
+};
+
+const listings = (ctx: RequestContext) => ctx.central.collection<FraudListing>(FRAUD_COLLECTION);
+
+async function requireNetworkTenant(ctx: RequestContext) {
+  const tenantId = requireTenantId(ctx);
+  const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+  if (!inFraudNetwork(tenant?.settings)) throw new HttpError(403, 'Join the fraud network in Settings to report customers');
+  return tenantId;
+}
+
+export const fraudNetworkRoutes: Route[] = [
+  {
+    // Full listings with the reporting shops, for review
+    method: 'GET',
+    path: '/fraud-blocklist',
+    devAdmin: true,
+    handler: async ({ req, central }) => {
+      const { search } = req.query;
+      const query: any = {};
+      if (search) query.id = { $regex: escapeRegex(customerKey(search) || search.trim()) };
+      const data = await central.collection<FraudListing>(FRAUD_COLLECTION)
+        .find(query, { projection: { _id: 0 } })
+        .sort({ updatedAt: -1 })
+        .limit(500)
+        .toArray();
+      return json(data.map(l => ({ ...l, flagged: isFlagged(l) })));
+    }
+  },
+  {
+    // Adds a phone as confirmed, or confirms one shops have reported
+    method: 'POST',
+    path: '/fraud-blocklist',
+    devAdmin: true,
+    handler: async (ctx) => {
+      const key = requirePhone(ctx.req.body?.phone);
+      const note = cleanReason(ctx.req.body?.note);
+      const now = new Date().toISOString();
+      const listing = await listings(ctx).findOneAndUpdate(
+        { id: key },
+        {
+          $set: { confirmed: true, note, confirmedBy: sessionUser(ctx).username, confirmedAt: now, updatedAt: now },
+          $setOnInsert: { id: key, reports: [], createdAt: now }
+        },
+        { upsert: true, returnDocument: 'after', projection: { _id: 0 } }
+      );
+      await recordSecurityEvent(ctx, SecurityAction.FRAUD_LIST_UPDATED, { tenantId: null, target: key, after: { confirmed: true, note } });
+      return json(listing);
+    }
+  },
+  {
+    // Unconfirming leaves the shop reports; the phone stays flagged if enough shops reported it
+    method: 'PUT',
+    path: '/fraud-blocklist',
+    devAdmin: true,
+    handler: async (ctx) => {
+      const key = requirePhone(ctx.req.body?.id);
+      const listing = await listings(ctx).findOneAndUpdate(
+        { id: key },
+        { $set: { confirmed: false, updatedAt: new Date().toISOString() }, $unset: { note: '', confirmedBy: '', confirmedAt: '' } },
+        { returnDocument: 'after', projection: { _id: 0 } }
+      );
+      if (!listing) throw new HttpError(404, 'Phone is not on the blocklist');
+      await recordSecurityEvent(ctx, SecurityAction.FRAUD_LIST_UPDATED, { tenantId: null, target: key, after: { confirmed: false } });
+      return json(listing);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/fraud-blocklist',
+    devAdmin: true,
+    handler: async (ctx) => {
+      const key = requirePhone(ctx.req.query.id);
+      const removed = await listings(ctx).findOneAndDelete({ id: key });
+      if (!removed) throw new HttpError(404, 'Phone is not on the blocklist');
+      await recordSecurityEvent(ctx, SecurityAction.FRAUD_LIST_UPDATED, { tenantId: null, target: key, before: { confirmed: removed.confirmed, reports: removed.reports.length } });
+      return json({ success: true });
+    }
+  },
+  {
+    // A shop reports one of its own customers with a return or rejection; a new report replaces its earlier one.
+    // Other shops see the category, never the note.
+    method: 'POST',
+    path: '/fraud-reports',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const tenantId = await requireNetworkTenant(ctx);
+      const key = requirePhone(ctx.req.body?.phone);
+      const category = requireCategory(ctx.req.body?.category);
+      const reason = cleanNote(ctx.req.body?.reason);
+      const customer = await (await tenantDb(ctx)).collection<Customer>(CUSTOMERS_COLLECTION).findOne({ id: key, tenantId });
+      if (!customer || customer.returned + customer.rejected === 0) {
+        throw new HttpError(400, 'Only customers with a returned or rejected order can be reported');
+      }
+
+      const now = new Date().toISOString();
+      const report: FraudReport = { tenantId, category, reason, returned: customer.returned, rejected: customer.rejected, reportedBy: sessionUser(ctx).username, reportedAt: now };
+      const col = listings(ctx);
+      await col.updateOne(
+        { id: key },
+        { $pull: { reports: { tenantId } }, $setOnInsert: { id: key, confirmed: false, createdAt: now } },
+        { upsert: true }
+      );
+      const listing = await col.findOneAndUpdate(
+        { id: key },
+        { $push: { reports: report }, $set: { updatedAt: now } },
+        { returnDocument: 'after', projection: { _id: 0 } }
+      );
+      await recordSecurityEvent(ctx, SecurityAction.FRAUD_LIST_UPDATED, { tenantId, target: key, after: { category, reason } });
+      return json(networkFlagFor(listing!, tenantId));
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/fraud-reports',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const key = requirePhone(ctx.req.query.phone);
+      const col = listings(ctx);
+      const listing = await col.findOneAndUpdate(
+        { id: key, 'reports.tenantId': tenantId },
+        { $pull: { reports: { tenantId } }, $set: { updatedAt: new Date().toISOString() } },
+        { returnDocument: 'after', projection: { _id: 0 } }
+      );
+      if (!listing) throw new HttpError(404, 'No report from this shop for that phone');
+      // A listing nobody reports any more and DEV_ADMIN never confirmed is dropped
+      if (!listing.confirmed && listing.reports.length === 0) await col.deleteOne({ id: key, confirmed: false, reports: { $size: 0 } });
+      await recordSecurityEvent(ctx, SecurityAction.FRAUD_LIST_UPDATED, { tenantId, target: key, before: { reported: true } });
+      return json(networkFlagFor(listing, tenantId));
+    }
+  }
+];
@@ -0,0 +1,194 @@
+import { Order, OrderStatus, ReturnCondition, Tenant, WebhookEventStatus, WebhookInboxEntry } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { Route } from '../router';
+import { HttpError, accessDenied, json, text } from '../http';
+import { requireTenantId, sessionUser, tenantDb } from '../context';
+import { escapeRegex } from '../db';
+import { getCourierProvider } from '../couriers';
+import { dispatchOrder } from '../dispatch';
+import { assertTransition, transitionOrder } from '../orderLifecycle';
+import { restockReturn } from '../stock';
+import { refreshTracking } from '../tracking';
+import { WEBHOOK_INBOX_COLLECTION, authenticateWebhook, processWebhookEntry, receiveWebhook } from '../webhooks';
+import { TRACKED_STATUSES } from '../../utils/orderTransitions';
+
+export const logisticsRoutes: Route[] = [
+  {
+    method: 'POST',
+    path: '/ship-order',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { order } = ctx.req.body as { order?: Order };
+      const tenantId = requireTenantId(ctx);
+      if (!order || order.tenantId !== tenantId) throw accessDenied();
+
+      const db = await tenantDb(ctx);
+      const stored = await db.collection<Order>('orders').findOne({ id: order.id, tenantId });
+      if (!stored) throw new HttpError(404, 'Order reference not found');
+
+      return json(await dispatchOrder(ctx.central, db, stored, order, sessionUser(ctx).username));
+    }
+  },
+  {
+    // "Refresh tracking now" from OrderDetail: the poller's courier lookup for one order
+    method: 'POST',
+    path: '/refresh-tracking',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const ordersCol = db.collection<Order>('orders');
+      const order = await ordersCol.findOne({ id: ctx.req.body.orderId, tenantId });
+      if (!order) throw new HttpError(404, 'Order reference not found');
+      if (!TRACKED_STATUSES.includes(order.status)) throw new HttpError(409, `Orders in ${order.status} are not tracked.`);
+      // Courier APIs are rate limited; one lookup per order per minute is plenty
+      if (order.trackingCheckedAt && Date.now() - Date.parse(order.trackingCheckedAt) < 60000) {
+        throw new HttpError(429, 'Tracking was refreshed less than a minute ago.');
+      }
+
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      const entry = await refreshTracking(ctx.central, db, tenant!, order);
+      const updated = await ordersCol.findOne({ id: order.id, tenantId }, { projection: { _id: 0 } });
+      return json({
+        order: updated,
+        outcome: entry?.status || 'UNCHANGED',
+        courierStatus: entry?.courierStatus || updated?.courierStatus || null,
+        result: entry?.result || 'Courier reports no new status'
+      });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/process-return',
+    tenant: true,
+    capability: CAPABILITIES.RETURNS,
+    handler: async (ctx) => {
+      const { trackingOrId, condition = ReturnCondition.RESELLABLE } = ctx.req.body as { trackingOrId: string; condition?: ReturnCondition };
+      if (!Object.values(ReturnCondition).includes(condition)) throw new HttpError(400, `Unknown return condition: ${condition}`);
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const ordersCol = db.collection<Order>('orders');
+
+      const order = await ordersCol.findOne({ tenantId, $or: [{ id: trackingOrId }, { trackingNumber: trackingOrId }] });
+      if (!order) throw new HttpError(404, 'Order reference not found');
+
+      // CHECK IF ALREADY PROCESSED. A restock that failed after the status moved is finished
+      // now; returns completed before grading existed were booked by the old flow.
+      const user = sessionUser(ctx).username;
+      if (order.status === OrderStatus.RETURN_COMPLETED) {
+        if (order.returnCondition) await restockReturn(db, order, order.returnCondition, user);
+        const { _id, ...processed } = order;
+        return json({ ...processed, alreadyProcessed: true });
+      }
+      assertTransition(order, OrderStatus.RETURN_COMPLETED);
+
+      // Claim the order first so a double scan cannot restock the same parcel twice
+      const updated = await transitionOrder(db, order, OrderStatus.RETURN_COMPLETED, {
+        user,
+        message: condition === ReturnCondition.RESELLABLE
+          ? 'Return Processed: Stock Restored to Registry'
+          : `Return Processed: Graded ${condition}, units written off`,
+        extra: { returnCondition: condition }
+      });
+
+      // Resellable units go back to inventory, the rest to the write-off bucket
+      await restockReturn(db, order, condition, user);
+      return json(updated);
+    }
+  },
+  {
+    // Courier Webhook Endpoint (Reverse API). Public, but every call must carry the tenant's webhook secret.
+    method: ['GET', 'POST'],
+    path: '/courier-webhook',
+    public: true,
+    handler: async ({ req, central }) => {
+      // Each courier posts to ?provider=<id>; FDE predates the parameter and is the default
+      const provider = getCourierProvider(req.query.provider);
+      const tenant = await authenticateWebhook(central, req);
+      const received = await receiveWebhook(central, tenant.id, provider, req);
+      // Redelivery of an event we already processed
+      if (!received) return text('Success');
+
+      const entry = await processWebhookEntry(central, received);
+
+      // The raw payload stays in the inbox; it is not echoed back to the caller
+      if (entry.status === WebhookEventStatus.INVALID) return json({ error: 'Bad Request: waybill_id missing' }, 400);
+      // A failure asks the courier to retry; the inbox lets that retry through and keeps the cause
+      if (entry.status === WebhookEventStatus.FAILED) {
+        console.error(`Courier callback failed for ${tenant.id}/${entry.waybill}:`, entry.result);
+        return json({ error: 'Callback could not be processed; please retry' }, 500);
+      }
+      // Return 200 for unknown waybills to stop courier retries; they stay visible in the inbox
+      if (entry.status === WebhookEventStatus.UNMATCHED) return text('Waybill Processed (Not in Registry)');
+      return text('Success');
+    }
+  },
+  {
+    method: 'GET',
+    path: '/webhook-inbox',
+    devAdmin: true,
+    handler: async ({ req, central, tenantId }) => {
+      const { status, waybill, limit } = req.query;
+      const query: any = {};
+      if (status && status !== 'ALL') query.status = status;
+      if (tenantId) query.tenantId = tenantId;
+      if (waybill) query.waybill = { $regex: escapeRegex(waybill.trim()), $options: 'i' };
+      const entries = await central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION)
+        .find(query, { projection: { _id: 0 } })
+        .sort({ receivedAt: -1 })
+        .limit(Math.min(parseInt(limit || '') || 500, 5000))
+        .toArray();
+      return json(entries);
+    }
+  },
+  {
+    // Courier wording no status rule recognised yet, for review in Settings
+    method: 'GET',
+    path: '/unmapped-statuses',
+    tenant: true,
+    capability: CAPABILITIES.SETTINGS,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const rows = await ctx.central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION).aggregate([
+        { $match: { tenantId, status: WebhookEventStatus.UNMAPPED } },
+        { $group: { _id: { provider: '$provider', courierStatus: '$courierStatus' }, count: { $sum: 1 }, lastSeen: { $max: '$receivedAt' } } },
+        { $sort: { lastSeen: -1 } }
+      ]).toArray();
+      return json(rows.map(r => ({ provider: r._id.provider, courierStatus: r._id.courierStatus, count: r.count, lastSeen: r.lastSeen })));
+    }
+  },
+  {
+    // Runs held events through the current rules again, oldest courier time first
+    method: 'POST',
+    path: '/unmapped-statuses',
+    tenant: true,
+    capability: CAPABILITIES.SETTINGS,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const held = await ctx.central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION)
+        .find({ tenantId, status: WebhookEventStatus.UNMAPPED }, { projection: { _id: 0 } })
+        .sort({ eventTime: 1, receivedAt: 1 })
+        .toArray();
+      let stillUnmapped = 0;
+      for (const entry of held) {
+        const result = await processWebhookEntry(ctx.central, entry);
+        if (result.status === WebhookEventStatus.UNMAPPED) stillUnmapped++;
+      }
+      return json({ replayed: held.length, stillUnmapped });
+    }
+  },
+  {
+    // Re-runs a stored callback, e.g. once the order for an unmatched waybill exists
+    method: 'POST',
+    path: '/webhook-replay',
+    devAdmin: true,
+    handler: async ({ req, central }) => {
+      const inbox = central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION);
+      const entry = await inbox.findOne({ id: req.body.id }, { projection: { _id: 0 } });
+      if (!entry) throw new HttpError(404, 'Webhook event not found');
+      return json(await processWebhookEntry(central, entry));
+    }
+  }
+];
@@ -0,0 +1,96 @@
+import { ManifestStatus, PickupManifest, Tenant } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { getCourierAccount } from '../../utils/couriers';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { RequestContext, requireTenantId, sessionUser, tenantDb } from '../context';
+import {
+  MANIFESTS_COLLECTION, createManifest, createManifestsFor, deleteManifest, getUnmanifested, handOverManifest, removeParcel, scanParcel
+} from '../manifests';
+
+const loadTenant = async (ctx: RequestContext) => {
+  const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: requireTenantId(ctx) });
+  if (!tenant) throw new HttpError(404, 'Cluster not found');
+  return tenant;
+};
+
+export const manifestRoutes: Route[] = [
+  {
+    // Open manifests and the latest handed-over ones, plus the parcels still waiting for a rider
+    method: 'GET',
+    path: '/manifests',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const col = db.collection<PickupManifest>(MANIFESTS_COLLECTION);
+      const [open, handedOver, unmanifested] = await Promise.all([
+        col.find({ tenantId, status: ManifestStatus.OPEN }, { projection: { _id: 0 } }).sort({ number: -1 }).toArray(),
+        col.find({ tenantId, status: ManifestStatus.HANDED_OVER }, { projection: { _id: 0 } }).sort({ number: -1 }).limit(30).toArray(),
+        getUnmanifested(db, tenantId)
+      ]);
+      return json({ manifests: [...open, ...handedOver], unmanifested });
+    }
+  },
+  {
+    // `orderIds` builds one manifest per courier account among them; `accountId` alone takes
+    // every parcel waiting for that account
+    method: 'POST',
+    path: '/manifests',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { accountId, orderIds } = ctx.req.body as { accountId?: string; orderIds?: string[] };
+      const tenant = await loadTenant(ctx);
+      const db = await tenantDb(ctx);
+      const user = sessionUser(ctx).username;
+      if (Array.isArray(orderIds) && orderIds.length > 0) {
+        return json(await createManifestsFor(db, tenant.id, tenant.settings, orderIds, user));
+      }
+      const account = getCourierAccount(tenant.settings, accountId);
+      if (!account) throw new HttpError(404, 'Courier account not found');
+      return json([await createManifest(db, tenant.id, tenant.settings, account, undefined, user)]);
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/manifests',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { id, action, code, orderId, riderName } = ctx.req.body as { id?: string; action?: string; code?: string; orderId?: string; riderName?: string };
+      if (!id) throw new HttpError(400, 'Manifest id required');
+      const tenant = await loadTenant(ctx);
+      const db = await tenantDb(ctx);
+      const user = sessionUser(ctx).username;
+
+      switch (action) {
+        case 'SCAN':
+          if (!code) throw new HttpError(400, 'Scan a waybill barcode');
+          return json(await scanParcel(ctx.central, db, tenant.id, tenant.settings, id, code, user));
+        case 'REMOVE':
+          if (!orderId) throw new HttpError(400, 'Order id required');
+          return json(await removeParcel(db, tenant.id, id, orderId, user));
+        case 'HAND_OVER':
+          return json(await handOverManifest(db, tenant.id, id, riderName, user));
+        default:
+          throw new HttpError(400, 'Unknown manifest action');
+      }
+    }
+  },
+  {
+    // Only open manifests; a handed-over sheet is the record of what the rider signed for
+    method: 'DELETE',
+    path: '/manifests',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { id } = ctx.req.query;
+      if (!id) throw new HttpError(400, 'Manifest id required');
+      const db = await tenantDb(ctx);
+      await deleteManifest(db, requireTenantId(ctx), id, sessionUser(ctx).username);
+      return json({ success: true });
+    }
+  }
+];
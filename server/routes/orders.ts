@@ -0,0 +1,300 @@
+import { CourierAccount, CustomerRisk, CustomerStatus, Order, OrderStatus, Product, SecurityAction, Tenant, UserRole } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { Route } from '../router';
+import { HttpError, accessDenied, json } from '../http';
+import { recordSecurityEvent } from '../audit';
+import { isDevAdmin, requireTenantId, sessionUser, tenantDb } from '../context';
+import { clean } from '../db';
+import { LIFECYCLE_FIELDS, assertItemQuantities, assertItemsEditable, normalizeOrderPhones, transitionOrder } from '../orderLifecycle';
+import { releaseStock } from '../stock';
+import { bindWaybill, rebindWaybill, releaseOrderWaybills, restoreOrderWaybill } from '../waybillPool';
+import { selectCourierAccount } from '../../utils/couriers';
+import { customerKey } from '../../utils/customers';
+import { CUSTOMERS_COLLECTION, assessCustomer, syncCustomers } from '../customers';
+import { riskRulesOf } from '../../utils/customerRisk';
+import { checkFraudNetwork, flaggedOnNetwork, networkWarning } from '../fraudNetwork';
+
+const LOGISTICS_STATUSES = [
+  OrderStatus.SHIPPED, OrderStatus.DELIVERY, OrderStatus.DELIVERED,
+  OrderStatus.TRANSFER, OrderStatus.RETURNED, OrderStatus.RETURN_TRANSFER,
+  OrderStatus.RETURN_HANDOVER, OrderStatus.RETURN_COMPLETED,
+  OrderStatus.RETURN_AS_ON_SYSTEM, OrderStatus.RESIDUAL, OrderStatus.REARRANGE
+];
+
+// Roles that may confirm a RISK_RED customer's order when the tenant blocks them
+const RISK_OVERRIDE_ROLES = [UserRole.SUPER_ADMIN, UserRole.DEV_ADMIN];
+
+// Statuses a new order may be created in; anything later has to be reached by transitions
+const INTAKE_STATUSES = [OrderStatus.PENDING, OrderStatus.OPEN_LEAD];
+
+// Editable order details that may travel with a status change (OrderDetail's form)
+const TRANSITION_PATCH_FIELDS: (keyof Order)[] = [
+  'customerName', 'customerPhone', 'customerPhone2', 'customerAddress', 'customerCity',
+  'parcelWeight', 'parcelDescription', 'trackingNumber', 'items', 'totalAmount'
+];
+
+const pick = (source: Record<string, any> = {}, fields: string[]) =>
+  Object.fromEntries(fields.filter(f => source[f] !== undefined).map(f => [f, source[f]]));
+
+const omit = (source: Record<string, any>, fields: string[]) =>
+  Object.fromEntries(Object.entries(source).filter(([k]) => !fields.includes(k)));
+
+export const orderRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/orders',
+    tenant: true,
+    handler: async (ctx) => {
+      const { id, page, limit, search, status, productId, startDate, endDate } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const col = (await tenantDb(ctx)).collection<Order>('orders');
+
+      if (id) return json(clean(await col.findOne({ id, tenantId })));
+
+      const query: any = { tenantId };
+
+      if (status && status !== 'ALL') {
+        if (status === 'TODAY_SHIPPED') {
+          const dateToMatch = startDate || new Date().toISOString().split('T')[0];
+          query.shippedAt = { $regex: `^${dateToMatch}` };
+        } else if (status === 'LOGISTICS_ALL') {
+          query.status = { $in: LOGISTICS_STATUSES };
+        } else {
+          query.status = status;
+        }
+      }
+
+      if (productId) query['items.productId'] = productId;
+
+      if (!query.shippedAt && (startDate || endDate)) {
+        query.createdAt = {};
+        if (startDate) query.createdAt.$gte = startDate;
+        if (endDate) query.createdAt.$lte = endDate + 'T23:59:59';
+      }
+
+      if (search) {
+        query.$or = [
+          { id: { $regex: search, $options: 'i' } },
+          { customerName: { $regex: search, $options: 'i' } },
+          { customerPhone: { $regex: search, $options: 'i' } },
+          { trackingNumber: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      const p = parseInt(page || '') || 1;
+      const l = parseInt(limit || '') || 50;
+      const total = await col.countDocuments(query);
+      const data = await col.find(query, { projection: { _id: 0 } }).sort({ createdAt: -1 }).skip((p - 1) * l).limit(l).toArray();
+      return json({ data, total, page: p, limit: l });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/orders',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { order, orders } = ctx.req.body as { order?: Order; orders?: Order[] };
+      const db = await tenantDb(ctx);
+      const col = db.collection<Order>('orders');
+      const incoming = orders || (order ? [order] : []);
+      if (incoming.length === 0) return json({ success: true });
+
+      // Status only moves through /orders/transition. DEV_ADMIN migrations may seed any status.
+      const existing = await col.find({ tenantId, id: { $in: incoming.map(o => o.id) } }, { projection: { id: 1, tenantId: 1, status: 1, items: 1, customerId: 1, customerPhone: 1, customerPhone2: 1, customerCity: 1, trackingNumber: 1 } }).toArray();
+      const storedStatus = new Map(existing.map(o => [o.id, o.status]));
+      const stored = new Map(existing.map(o => [o.id, o]));
+      const migrating = isDevAdmin(ctx);
+      for (const o of incoming) {
+        const current = storedStatus.get(o.id);
+        // Migrated history keeps numbers that do not parse; everything else must be a Sri Lankan number
+        normalizeOrderPhones(o, stored.get(o.id), !migrating);
+        assertItemQuantities(o.items);
+        if (current && o.status && o.status !== current && !migrating) {
+          throw new HttpError(409, `Order ${o.id} is ${current}; status changes must use the transition endpoint.`);
+        }
+        if (current && !migrating) assertItemsEditable(stored.get(o.id)!, o.items);
+        if (!current && !migrating && !INTAKE_STATUSES.includes(o.status)) {
+          throw new HttpError(409, `New orders must start as ${INTAKE_STATUSES.join(' or ')}.`);
+        }
+      }
+
+      // New leads from a phone flagged on the fraud network carry the warning in their log
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      const fresh = migrating ? [] : incoming.filter(o => !storedStatus.has(o.id));
+      const flags = await flaggedOnNetwork(ctx.central, tenantId, tenant?.settings, fresh.map(o => o.customerPhone));
+      const flagged: { orderId: string; warning: string }[] = [];
+      for (const o of fresh) {
+        const flag = flags.get(customerKey(o.customerPhone));
+        if (!flag) continue;
+        const warning = networkWarning(flag);
+        o.logs = [...(o.logs || []), { id: `l-${Date.now()}-${o.id}`, message: warning, timestamp: new Date().toISOString(), user: 'System' }];
+        flagged.push({ orderId: o.id, warning });
+      }
+
+      // Hand-typed waybills are checked against the courier's waybill pool; if the write
+      // fails, every order goes back to holding the waybill it had stored
+      const bound: { before: Pick<Order, 'id' | 'tenantId' | 'trackingNumber'>; account: CourierAccount | null }[] = [];
+      try {
+        for (const o of incoming) {
+          if (migrating || o.trackingNumber === undefined) continue;
+          const before = stored.get(o.id);
+          const account = selectCourierAccount(tenant?.settings, o.customerCity ?? before?.customerCity);
+          if (before) {
+            bound.push({ before, account });
+            o.trackingNumber = await rebindWaybill(db, before, account, o.trackingNumber);
+          } else if (o.trackingNumber && account) {
+            bound.push({ before: { id: o.id, tenantId }, account });
+            o.trackingNumber = (await bindWaybill(db, { ...o, tenantId }, account, o.trackingNumber)) || undefined;
+          }
+        }
+
+        const ops = incoming.map(o => {
+          // Lifecycle fields are only written by transitions; a new order keeps just its intake status
+          const doc: Record<string, any> = migrating ? clean(o)! : { ...omit(clean(o)!, LIFECYCLE_FIELDS), ...(storedStatus.has(o.id) ? {} : { status: o.status }) };
+          if (o.customerPhone !== undefined) doc.customerId = customerKey(o.customerPhone);
+          return { updateOne: { filter: { id: o.id, tenantId }, update: { $set: { ...doc, tenantId } }, upsert: true } };
+        });
+        await col.bulkWrite(ops);
+      } catch (e) {
+        for (const { before, account } of bound) await restoreOrderWaybill(db, before, account);
+        throw e;
+      }
+      await syncCustomers(db, tenantId, [...existing.map(o => o.customerId), ...incoming.map(o => customerKey(o.customerPhone))]);
+      return json({ success: true, flagged });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/orders/transition',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const { orderId, status, patch, override } = ctx.req.body as { orderId: string; status: OrderStatus; patch?: Partial<Order>; override?: boolean };
+      const tenantId = requireTenantId(ctx);
+      if (!orderId || !Object.values(OrderStatus).includes(status)) throw new HttpError(400, 'orderId and a valid status are required');
+      // Dispatch has to go through the courier handshake
+      if (status === OrderStatus.SHIPPED) throw new HttpError(400, 'Use /ship-order to dispatch an order.');
+
+      const db = await tenantDb(ctx);
+      const order = await db.collection<Order>('orders').findOne({ id: orderId, tenantId });
+      if (!order) throw new HttpError(404, 'Order reference not found');
+
+      const extra: Partial<Order> = pick(patch, TRANSITION_PATCH_FIELDS);
+      normalizeOrderPhones(extra, order);
+      // Checked before anything is reserved, including quantities stored before this check
+      assertItemQuantities(status === OrderStatus.CONFIRMED ? extra.items ?? order.items : extra.items);
+      assertItemsEditable(order, extra.items);
+      let message: string | undefined;
+      let overridden: CustomerRisk | null = null;
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      const account = selectCourierAccount(tenant?.settings, extra.customerCity ?? order.customerCity);
+      if (status === OrderStatus.CONFIRMED) {
+        if (riskRulesOf(tenant?.settings).blockRedConfirm) {
+          const { risk } = await assessCustomer(db, tenantId, tenant?.settings, extra.customerPhone ?? order.customerPhone, extra.totalAmount ?? order.totalAmount, order.id);
+          if (risk.status === CustomerStatus.RISK_RED) {
+            const user = sessionUser(ctx);
+            if (!override) {
+              throw new HttpError(409, `Customer is ${risk.status}: ${risk.reasons.join('; ')}. A supervisor must override to confirm.`, {
+                customerStatus: risk.status, reasons: risk.reasons, overrideRequired: true
+              });
+            }
+            if (!RISK_OVERRIDE_ROLES.includes(user.role)) throw new HttpError(403, 'Only a supervisor can confirm a RISK_RED customer.');
+            message = `Status Protocol: Order transitioned to ${status} over ${risk.status} (${risk.reasons.join('; ')}), overridden by ${user.username}`;
+            overridden = risk;
+          }
+        }
+
+        // EXISTING_WAYBILL accounts with a pool hand the order its waybill on confirm
+        const waybill = account ? await bindWaybill(db, order, account, extra.trackingNumber ?? order.trackingNumber) : null;
+        if (waybill) extra.trackingNumber = waybill;
+      } else if (extra.trackingNumber !== undefined) {
+        extra.trackingNumber = await rebindWaybill(db, order, account, extra.trackingNumber);
+      }
+
+      let updated: Order;
+      try {
+        updated = await transitionOrder(db, order, status, {
+          user: sessionUser(ctx).username,
+          message,
+          extra
+        });
+      } catch (e) {
+        await restoreOrderWaybill(db, order, account);
+        throw e;
+      }
+      if (overridden) {
+        await recordSecurityEvent(ctx, SecurityAction.RISK_OVERRIDE, { tenantId, target: order.id, after: { customerStatus: overridden.status, reasons: overridden.reasons } });
+      }
+      // Leaving CONFIRMED (or rejecting a lead holding a typed waybill) puts its pool waybill back
+      if (order.status === OrderStatus.CONFIRMED || status === OrderStatus.REJECTED) {
+        await releaseOrderWaybills(db, tenantId, [order.id]);
+        return json(await db.collection<Order>('orders').findOne({ id: order.id, tenantId }, { projection: { _id: 0 } }));
+      }
+      return json(updated);
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/orders',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_DELETE,
+    handler: async (ctx) => {
+      const { id, purge } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const col = db.collection<Order>('orders');
+      if (purge === 'true') {
+        if (!isDevAdmin(ctx)) throw accessDenied();
+        const result = await col.deleteMany({ tenantId });
+        await db.collection(CUSTOMERS_COLLECTION).deleteMany({ tenantId });
+        // No orders are left to hold reservations
+        await db.collection<Product>('products').updateMany({ tenantId }, { $set: { 'batches.$[].reserved': 0 }, $inc: { stockVersion: 1 } });
+        await recordSecurityEvent(ctx, SecurityAction.ORDERS_PURGED, { tenantId, target: tenantId, after: { deletedCount: result.deletedCount } });
+        return json({ success: true, count: result.deletedCount });
+      }
+      if (id) {
+        const ids = id.split(',');
+        const targets = await col.find({ id: { $in: ids }, tenantId }).toArray();
+        for (const o of targets.filter(o => o.status === OrderStatus.CONFIRMED)) await releaseStock(db, tenantId, o.stockAllocations || []);
+        const result = await col.deleteMany({ id: { $in: ids }, tenantId });
+        await releaseOrderWaybills(db, tenantId, ids);
+        await syncCustomers(db, tenantId, targets.map(o => o.customerId));
+        return json({ success: true, count: result.deletedCount });
+      }
+      throw new HttpError(400, 'Missing Target');
+    }
+  },
+  {
+    // Order and return counts for a phone with its risk grade and any fraud network flag;
+    // `amount` is the order being taken and `orderId` an existing one, left out of its own
+    // no-answer streak
+    method: 'GET',
+    path: '/customer-history',
+    tenant: true,
+    handler: async (ctx) => {
+      const { phone, amount, orderId } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      if (!customerKey(phone)) return json({ count: 0, returns: 0, status: CustomerStatus.NEW, reasons: [] });
+      const db = await tenantDb(ctx);
+      const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: tenantId });
+      const { customer, risk } = await assessCustomer(db, tenantId, tenant?.settings, phone, Number(amount) || 0, orderId);
+      const network = await checkFraudNetwork(ctx.central, tenantId, tenant?.settings, phone);
+      return json({ count: customer?.orders || 0, returns: (customer?.returned || 0) + (customer?.rejected || 0), ...risk, network });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/customer-history-detailed',
+    tenant: true,
+    handler: async (ctx) => {
+      const { phone } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const key = customerKey(phone);
+      if (!key) return json([]);
+      const db = await tenantDb(ctx);
+      return json(await db.collection<Order>('orders').find({ tenantId, customerId: key }, { projection: { _id: 0 } }).sort({ createdAt: -1 }).toArray());
+    }
+  }
+];
@@ -0,0 +1,154 @@
+import { Product, StockBatch, StockLedgerEntry, StockMovementType, StockWriteOff } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { isDevAdmin, requireTenantId, sessionUser, tenantDb } from '../context';
+import { clean } from '../db';
+import { WRITE_OFF_COLLECTION, adjustStock, stockConflict } from '../stock';
+import { LEDGER_COLLECTION, recordBatchChanges, stockOnHandAt } from '../stockLedger';
+
+export const productRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/products',
+    tenant: true,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const col = (await tenantDb(ctx)).collection<Product>('products');
+      return json(await col.find({ tenantId }, { projection: { _id: 0 } }).toArray());
+    }
+  },
+  {
+    method: 'POST',
+    path: '/products',
+    tenant: true,
+    capability: CAPABILITIES.INVENTORY_WRITE,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const { product, reason } = ctx.req.body as { product: Product; reason?: string };
+      const db = await tenantDb(ctx);
+      const col = db.collection<Product>('products');
+      const stored = await col.findOne({ id: product.id, tenantId });
+
+      // The form sends back the version it loaded; anything older would undo stock moves made since.
+      // DEV_ADMIN backup restores replace the product wholesale on purpose.
+      if (stored && !isDevAdmin(ctx) && product.stockVersion !== stored.stockVersion) throw stockConflict();
+
+      // Reservations belong to confirmed orders, so keep the stored counts whatever the form sent
+      const held = new Map((stored?.batches || []).map(b => [b.id, b.reserved || 0]));
+      const batches: StockBatch[] = (product.batches || []).map(({ reserved, ...b }) => (held.get(b.id) ? { ...b, reserved: held.get(b.id) } : b));
+      const dropsReserved = [...held].some(([id, units]) => units > 0 && !batches.some(b => b.id === id));
+      if (dropsReserved || batches.some(b => b.quantity < (b.reserved || 0))) {
+        throw new HttpError(409, 'Batches reserved by confirmed orders cannot be removed or reduced below the reserved units.');
+      }
+
+      const result = await col.updateOne(
+        { id: product.id, tenantId, stockVersion: stored?.stockVersion ?? { $exists: false } },
+        { $set: { ...clean(product)!, batches, tenantId, stockVersion: (stored?.stockVersion || 0) + 1 } },
+        { upsert: !stored }
+      );
+      if (stored && result.matchedCount === 0) throw stockConflict();
+
+      await recordBatchChanges(db, tenantId, product.id, stored?.batches || [], batches, {
+        type: StockMovementType.ADJUSTMENT,
+        reason: reason || 'Inventory edit',
+        user: sessionUser(ctx).username
+      });
+      return json({ success: true });
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/products',
+    tenant: true,
+    capability: CAPABILITIES.INVENTORY_WRITE,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const db = await tenantDb(ctx);
+      const col = db.collection<Product>('products');
+      const product = await col.findOne({ id: ctx.req.query.id, tenantId });
+      if (product?.batches?.some(b => (b.reserved || 0) > 0)) {
+        throw new HttpError(409, 'Product has units reserved by confirmed orders and cannot be deleted.');
+      }
+      const result = await col.deleteOne({ id: ctx.req.query.id, tenantId });
+      if (product && result.deletedCount > 0) {
+        // Write the remaining units off so past-date balances stay correct
+        await recordBatchChanges(db, tenantId, product.id, product.batches || [], [], {
+          type: StockMovementType.ADJUSTMENT,
+          reason: 'Product deleted',
+          user: sessionUser(ctx).username
+        });
+      }
+      return json({ success: true });
+    }
+  },
+  {
+    method: 'POST',
+    path: '/stock-adjust',
+    tenant: true,
+    capability: CAPABILITIES.INVENTORY_WRITE,
+    handler: async (ctx) => {
+      const { productId, batchId, quantity, reason } = ctx.req.body as { productId: string; batchId: string; quantity: number; reason: string };
+      const tenantId = requireTenantId(ctx);
+      if (!productId || !batchId || !Number.isInteger(quantity) || quantity === 0) {
+        throw new HttpError(400, 'productId, batchId and a non-zero whole quantity are required');
+      }
+      if (!reason || !reason.trim()) throw new HttpError(400, 'A reason is required for manual adjustments');
+
+      await adjustStock(await tenantDb(ctx), tenantId, productId, batchId, quantity, {
+        type: StockMovementType.ADJUSTMENT,
+        reason: reason.trim(),
+        user: sessionUser(ctx).username
+      });
+      return json({ success: true });
+    }
+  },
+  {
+    method: 'GET',
+    path: '/stock-ledger',
+    tenant: true,
+    handler: async (ctx) => {
+      const { productId, type, startDate, endDate, limit } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const query: any = { tenantId };
+      if (productId) query.productId = productId;
+      if (type) query.type = type;
+      if (startDate || endDate) {
+        query.timestamp = {};
+        if (startDate) query.timestamp.$gte = startDate;
+        if (endDate) query.timestamp.$lte = endDate + 'T23:59:59.999Z';
+      }
+      const col = (await tenantDb(ctx)).collection<StockLedgerEntry>(LEDGER_COLLECTION);
+      const l = Math.min(parseInt(limit || '') || 500, 5000);
+      return json(await col.find(query, { projection: { _id: 0 } }).sort({ timestamp: -1 }).limit(l).toArray());
+    }
+  },
+  {
+    method: 'GET',
+    path: '/stock-writeoffs',
+    tenant: true,
+    handler: async (ctx) => {
+      const { startDate, endDate } = ctx.req.query;
+      const tenantId = requireTenantId(ctx);
+      const query: any = { tenantId };
+      if (startDate || endDate) {
+        query.timestamp = {};
+        if (startDate) query.timestamp.$gte = startDate;
+        if (endDate) query.timestamp.$lte = endDate + 'T23:59:59.999Z';
+      }
+      const col = (await tenantDb(ctx)).collection<StockWriteOff>(WRITE_OFF_COLLECTION);
+      return json(await col.find(query, { projection: { _id: 0 } }).sort({ timestamp: -1 }).toArray());
+    }
+  },
+  {
+    method: 'GET',
+    path: '/stock-on-hand',
+    tenant: true,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const date = ctx.req.query.date || new Date().toISOString().split('T')[0];
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) throw new HttpError(400, 'date must be YYYY-MM-DD');
+      return json({ date, products: await stockOnHandAt(await tenantDb(ctx), tenantId, date) });
+    }
+  }
+];
@@ -0,0 +1,30 @@
+import { SecurityLog } from '../../types';
+import { Route } from '../router';
+import { json } from '../http';
+import { escapeRegex } from '../db';
+
+export const systemRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/security-logs',
+    devAdmin: true,
+    handler: async ({ req, central, tenantId }) => {
+      const { action, actor, startDate, endDate, limit } = req.query;
+      const query: any = {};
+      if (action && action !== 'ALL') query.action = action;
+      if (tenantId) query.tenantId = tenantId;
+      if (actor) query['actor.username'] = { $regex: escapeRegex(actor), $options: 'i' };
+      if (startDate || endDate) {
+        query.timestamp = {};
+        if (startDate) query.timestamp.$gte = startDate;
+        if (endDate) query.timestamp.$lte = endDate + 'T23:59:59';
+      }
+      const logs = await central.collection<SecurityLog>('security_logs')
+        .find(query, { projection: { _id: 0 } })
+        .sort({ timestamp: -1 })
+        .limit(Math.min(parseInt(limit || '') || 500, 5000))
+        .toArray();
+      return json(logs);
+    }
+  }
+];
@@ -0,0 +1,160 @@
+import { CourierAccount, CourierStatusRule, SecurityAction, Tenant, TenantSettings, UserRole } from '../../types';
+import { CAPABILITIES, hasPermission } from '../../utils/permissions';
+import { statusRuleProblem } from '../../utils/courierStatus';
+import { Route } from '../router';
+import { HttpError, accessDenied, json } from '../http';
+import { StoredUser, redactTenant, withHashedPassword } from '../auth';
+import { auditDiff, auditTenantSettings, hasChanges, recordSecurityEvent } from '../audit';
+import { isDevAdmin, requireTenantId, sessionUser } from '../context';
+import { clean } from '../db';
+import { generateWebhookSecret } from '../webhooks';
+import { dropTenantReports } from '../fraudNetwork';
+
+// The webhook secret is only issued by POST /webhook-secret, so settings edits keep the stored
+// one. DEV_ADMIN may carry a secret over when restoring a tenant that has none yet.
+const keepWebhookSecret = (settings: TenantSettings | undefined, existing: Tenant | null, allowImport: boolean) => {
+  if (!settings) return settings;
+  const { webhookSecret, ...rest } = settings;
+  const kept = existing?.settings?.webhookSecret || (allowImport ? webhookSecret : undefined);
+  return kept ? { ...rest, webhookSecret: kept } : rest;
+};
+
+const assertStatusRules = (rules: CourierStatusRule[] = []) => {
+  for (const rule of rules) {
+    const problem = statusRuleProblem(rule);
+    if (problem) throw new HttpError(400, problem);
+  }
+};
+
+const assertRateCards = (accounts: CourierAccount[] = []) => {
+  for (const { label, rateCard } of accounts) {
+    if (!rateCard) continue;
+    const amounts = [rateCard.baseFee, rateCard.returnFee, rateCard.codPercent,
+      ...(rateCard.weightSlabs || []).flatMap(s => [s.overKg, s.fee]),
+      ...(rateCard.zones || []).map(z => z.surcharge)];
+    if (amounts.some(n => typeof n !== 'number' || !isFinite(n) || n < 0)) throw new HttpError(400, `Rate card for ${label} has a missing or negative amount`);
+    if (rateCard.codPercent > 100) throw new HttpError(400, `COD percentage for ${label} cannot exceed 100`);
+  }
+};
+
+const assertRiskRules = (rules: TenantSettings['riskRules']) => {
+  if (!rules) return;
+  const { blockRedConfirm, ...thresholds } = rules;
+  if (Object.values(thresholds).some(n => typeof n !== 'number' || !isFinite(n) || n < 0)) throw new HttpError(400, 'Risk thresholds must be zero or positive numbers');
+  if ((rules.returnRatioOrange ?? 0) > 1 || (rules.returnRatioRed ?? 0) > 1) throw new HttpError(400, 'Return ratio thresholds cannot exceed 1');
+};
+
+export const tenantRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/tenants',
+    handler: async (ctx) => {
+      const user = sessionUser(ctx);
+      const tenantsCol = ctx.central.collection<Tenant>('tenants');
+      if (isDevAdmin(ctx)) return json(await tenantsCol.find({}).toArray());
+      // Tenant members only see their own node, minus infrastructure details and (for non-owners) secrets
+      const own = await tenantsCol.find({ id: user.tenantId }).toArray();
+      return json(own.map(t => redactTenant(t, user)));
+    }
+  },
+  {
+    method: ['POST', 'PUT'],
+    path: '/tenants',
+    handler: async (ctx) => {
+      const user = sessionUser(ctx);
+      const { tenant, adminUser } = ctx.req.body;
+      if (!tenant || !tenant.id) throw new HttpError(400, 'Invalid tenant payload');
+      assertStatusRules(tenant.settings?.statusRules);
+      assertRateCards(tenant.settings?.couriers);
+      assertRiskRules(tenant.settings?.riskRules);
+
+      const tenantsCol = ctx.central.collection<Tenant>('tenants');
+      const existing = await tenantsCol.findOne({ id: tenant.id });
+
+      // Tenant owners may only edit their own settings; provisioning stays with DEV_ADMIN
+      if (!isDevAdmin(ctx)) {
+        if (tenant.id !== ctx.tenantId || !hasPermission(user, 'settings')) throw accessDenied();
+        const settings = keepWebhookSecret(tenant.settings, existing, false);
+        await tenantsCol.updateOne({ id: tenant.id }, { $set: { settings } });
+        await auditTenantSettings(ctx, existing, { ...existing, id: tenant.id, settings });
+        return json({ success: true });
+      }
+
+      const tenantDoc = clean<Tenant>(tenant)!;
+      if (tenantDoc.settings) {
+        tenantDoc.settings = keepWebhookSecret(tenantDoc.settings, existing, true)!;
+        // New tenants get their courier callback secret at provisioning
+        if (!tenantDoc.settings.webhookSecret && !existing) tenantDoc.settings.webhookSecret = generateWebhookSecret();
+      }
+      await tenantsCol.updateOne({ id: tenant.id }, { $set: tenantDoc }, { upsert: true });
+
+      const { settings: prevSettings, ...prevTenant } = clean(existing) || ({} as Partial<Tenant>);
+      const { settings: nextSettings, ...nextTenant } = tenantDoc;
+      const tenantDiff = auditDiff(prevTenant, existing ? { ...prevTenant, ...nextTenant } : nextTenant);
+      if (!existing || hasChanges(tenantDiff)) {
+        await recordSecurityEvent(ctx, existing ? SecurityAction.TENANT_UPDATED : SecurityAction.TENANT_CREATED, {
+          tenantId: tenant.id, target: tenant.name || tenant.id, ...tenantDiff
+        });
+      }
+      if (nextSettings) await auditTenantSettings(ctx, existing, { id: tenant.id, settings: nextSettings });
+
+      if (adminUser) {
+        const usersCol = ctx.central.collection<StoredUser>('users');
+        const filter = { tenantId: tenant.id, role: UserRole.SUPER_ADMIN };
+        const prevAdmin = clean(await usersCol.findOne(filter));
+        const update = withHashedPassword(adminUser);
+        await usersCol.updateOne(filter, { $set: update }, { upsert: true });
+        const adminDiff = auditDiff(prevAdmin, prevAdmin ? { ...prevAdmin, ...update } : update);
+        if (!prevAdmin || hasChanges(adminDiff)) {
+          await recordSecurityEvent(ctx, prevAdmin ? SecurityAction.USER_UPDATED : SecurityAction.USER_CREATED, {
+            tenantId: tenant.id, target: update.username, ...adminDiff
+          });
+        }
+      }
+      return json({ success: true });
+    }
+  },
+  {
+    // Issues (or rotates) the secret couriers must present on the tenant's webhook URL
+    method: 'POST',
+    path: '/webhook-secret',
+    tenant: true,
+    capability: CAPABILITIES.SETTINGS,
+    handler: async (ctx) => {
+      const tenantId = requireTenantId(ctx);
+      const tenantsCol = ctx.central.collection<Tenant>('tenants');
+      const existing = await tenantsCol.findOne({ id: tenantId });
+      if (!existing) throw new HttpError(404, 'Tenant not found');
+
+      const webhookSecret = generateWebhookSecret();
+      await tenantsCol.updateOne({ id: tenantId }, { $set: { 'settings.webhookSecret': webhookSecret } });
+      await recordSecurityEvent(ctx, SecurityAction.WEBHOOK_SECRET_ROTATED, {
+        tenantId,
+        target: tenantId,
+        ...auditDiff({ webhookSecret: existing.settings?.webhookSecret }, { webhookSecret })
+      });
+      return json({ webhookSecret });
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/tenants',
+    devAdmin: true,
+    handler: async (ctx) => {
+      const id = ctx.req.query.id;
+      const tenantsCol = ctx.central.collection<Tenant>('tenants');
+      const existing = await tenantsCol.findOne({ id });
+      if (!existing) throw new HttpError(404, 'Tenant not found');
+      await tenantsCol.deleteOne({ id });
+      const result = await ctx.central.collection<StoredUser>('users').deleteMany({ tenantId: id });
+      await dropTenantReports(ctx.central, id);
+      const { settings, ...tenant } = clean(existing)!;
+      await recordSecurityEvent(ctx, SecurityAction.TENANT_DELETED, {
+        tenantId: id,
+        target: existing.name || id,
+        before: { ...auditDiff(tenant, {}).before, removedUsers: result.deletedCount }
+      });
+      return json({ success: true });
+    }
+  }
+];
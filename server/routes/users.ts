@@ -0,0 +1,78 @@
+import { CAPABILITIES, hasPermission } from '../../utils/permissions';
+import { SecurityAction, User, UserRole } from '../../types';
+import { Route } from '../router';
+import { accessDenied, json } from '../http';
+import { StoredUser, publicUser, withHashedPassword } from '../auth';
+import { auditDiff, recordSecurityEvent } from '../audit';
+import { isDevAdmin, sessionUser } from '../context';
+import { clean } from '../db';
+
+const TENANT_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+// Tenant callers can only hand out what they hold: only owners create or edit owners,
+// and staff grant no page they cannot open themselves.
+function assertWithinOwnAccess(caller: User, target: Partial<User>, existing?: Partial<User> | null) {
+  if (!TENANT_ROLES.includes(target.role as UserRole)) throw accessDenied();
+  if (caller.role === UserRole.SUPER_ADMIN) return;
+  if (target.role === UserRole.SUPER_ADMIN || existing?.role === UserRole.SUPER_ADMIN) throw accessDenied();
+  const held = existing?.permissions || [];
+  const granted = (target.permissions || []).filter(p => !held.includes(p));
+  if (granted.some(p => !hasPermission(caller, p))) throw accessDenied();
+}
+
+export const userRoutes: Route[] = [
+  {
+    method: 'GET',
+    path: '/users',
+    tenant: true,
+    handler: async ({ central, tenantId }) => {
+      const users = await central.collection<StoredUser>('users').find({ tenantId }).toArray();
+      return json(users.map(publicUser));
+    }
+  },
+  {
+    method: 'POST',
+    path: '/users',
+    capability: CAPABILITIES.TEAM,
+    handler: async (ctx) => {
+      const user = ctx.req.body;
+      const usersCol = ctx.central.collection<StoredUser>('users');
+      const existing = clean(await usersCol.findOne({ id: user.id }));
+      if (!isDevAdmin(ctx)) {
+        if (existing && existing.tenantId !== ctx.tenantId) throw accessDenied();
+        assertWithinOwnAccess(sessionUser(ctx), user, existing);
+        user.tenantId = ctx.tenantId;
+      }
+      const update = withHashedPassword(user);
+      await usersCol.updateOne({ id: user.id }, { $set: update }, { upsert: true });
+      await recordSecurityEvent(ctx, existing ? SecurityAction.USER_UPDATED : SecurityAction.USER_CREATED, {
+        tenantId: update.tenantId || null,
+        target: update.username || user.id,
+        ...auditDiff(existing, existing ? { ...existing, ...update } : update)
+      });
+      return json({ success: true });
+    }
+  },
+  {
+    method: 'DELETE',
+    path: '/users',
+    capability: CAPABILITIES.TEAM,
+    handler: async (ctx) => {
+      const id = ctx.req.query.id;
+      const usersCol = ctx.central.collection<StoredUser>('users');
+      const filter = isDevAdmin(ctx) ? { id } : { id, tenantId: ctx.tenantId };
+      const existing = await usersCol.findOne(filter);
+      // Staff cannot remove an owner
+      if (existing?.role === UserRole.SUPER_ADMIN && !isDevAdmin(ctx) && sessionUser(ctx).role !== UserRole.SUPER_ADMIN) throw accessDenied();
+      await usersCol.deleteOne(filter);
+      if (existing) {
+        await recordSecurityEvent(ctx, SecurityAction.USER_DELETED, {
+          tenantId: existing.tenantId || null,
+          target: existing.username,
+          before: publicUser(existing)
+        });
+      }
+      return json({ success: true });
+    }
+  }
+];
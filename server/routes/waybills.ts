@@ -0,0 +1,84 @@
+import { PooledWaybill, Tenant } from '../../types';
+import { CAPABILITIES } from '../../utils/permissions';
+import { getCourierAccount } from '../../utils/couriers';
+import { normalizeWaybill, parseWaybillInput } from '../../utils/waybills';
+import { Route } from '../router';
+import { HttpError, json } from '../http';
+import { RequestContext, requireTenantId, sessionUser, tenantDb } from '../context';
+import { escapeRegex } from '../db';
+import { WAYBILL_POOL_COLLECTION, addWaybills, getPoolSummary, voidWaybills } from '../waybillPool';
+
+const loadTenant = async (ctx: RequestContext) => {
+  const tenant = await ctx.central.collection<Tenant>('tenants').findOne({ id: requireTenantId(ctx) });
+  if (!tenant) throw new HttpError(404, 'Cluster not found');
+  return tenant;
+};
+
+const requireAccount = (tenant: Tenant, accountId?: string) => {
+  const account = getCourierAccount(tenant.settings, accountId);
+  if (!account) throw new HttpError(404, 'Courier account not found');
+  return account;
+};
+
+export const waybillRoutes: Route[] = [
+  {
+    // Counts for every EXISTING_WAYBILL account; with `accountId`, that account's waybills too
+    method: 'GET',
+    path: '/waybill-pool',
+    tenant: true,
+    capability: CAPABILITIES.ORDERS_WRITE,
+    handler: async (ctx) => {
+      const { accountId, status, search, limit } = ctx.req.query;
+      const tenant = await loadTenant(ctx);
+      const db = await tenantDb(ctx);
+      const summary = await getPoolSummary(db, tenant.id, tenant.settings);
+      if (!accountId) return json({ summary, waybills: [] });
+
+      const query: any = { tenantId: tenant.id, courierAccountId: accountId };
+      if (status && status !== 'ALL') query.status = status;
+      if (search) query.waybill = { $regex: escapeRegex(normalizeWaybill(search)) };
+      const waybills = await db.collection<PooledWaybill>(WAYBILL_POOL_COLLECTION)
+        .find(query, { projection: { _id: 0 } })
+        .sort({ sortKey: 1, waybill: 1 })
+        .limit(Math.min(parseInt(limit || '') || 200, 2000))
+        .toArray();
+      return json({ summary, waybills });
+    }
+  },
+  {
+    // Load pre-printed stock: pasted lists, CSV columns, scanner bursts and `FROM-TO` ranges
+    method: 'POST',
+    path: '/waybill-pool',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { accountId, input } = ctx.req.body as { accountId?: string; input?: string };
+      const tenant = await loadTenant(ctx);
+      const account = requireAccount(tenant, accountId);
+      const { waybills, errors } = parseWaybillInput(input || '');
+      if (errors.length > 0) throw new HttpError(400, errors[0], { errors });
+      if (waybills.length === 0) throw new HttpError(400, 'No waybill numbers found');
+
+      const db = await tenantDb(ctx);
+      const result = await addWaybills(db, tenant.id, account.id, waybills, sessionUser(ctx).username);
+      return json(result);
+    }
+  },
+  {
+    method: 'PUT',
+    path: '/waybill-pool',
+    tenant: true,
+    capability: CAPABILITIES.DISPATCH,
+    handler: async (ctx) => {
+      const { accountId, waybills, action, reason } = ctx.req.body as { accountId?: string; waybills?: string[]; action?: string; reason?: string };
+      if (action !== 'VOID') throw new HttpError(400, 'Unknown waybill action');
+      if (!Array.isArray(waybills) || waybills.length === 0) throw new HttpError(400, 'No waybills selected');
+      const tenant = await loadTenant(ctx);
+      const account = requireAccount(tenant, accountId);
+
+      const db = await tenantDb(ctx);
+      const voided = await voidWaybills(db, tenant.id, account.id, waybills, reason || `Voided by ${sessionUser(ctx).username}`);
+      return json({ voided, skipped: waybills.length - voided });
+    }
+  }
+];
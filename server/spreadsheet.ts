@@ -0,0 +1,113 @@
+import zlib from 'zlib';
+import { splitCSVLine } from '../utils/helpers';
+
+// Reads uploaded statements without external libs: CSV text, or the first worksheet of an
+// XLSX workbook (a zip of XML parts). Every cell comes back as trimmed text.
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+// A workbook has a few dozen parts; anything far past these is a zip bomb, not a statement
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_INFLATED_BYTES = 50 * 1024 * 1024;
+
+function inflateEntry(data: Buffer, limit: number): Buffer {
+  try {
+    return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, limit) });
+  } catch (e: any) {
+    if (e instanceof RangeError || e.code === 'ERR_BUFFER_TOO_LARGE') throw new Error('XLSX file is too large once unpacked');
+    throw new Error('Corrupt XLSX entry');
+  }
+}
+
+function readZipEntries(buffer: Buffer): Map<string, Buffer> {
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_DIRECTORY) { end = i; break; }
+  }
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  if (count > MAX_ZIP_ENTRIES) throw new Error(`XLSX file has more than ${MAX_ZIP_ENTRIES} parts`);
+  let offset = buffer.readUInt32LE(end + 16);
+  let inflated = 0;
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_DIRECTORY_ENTRY) throw new Error('Corrupt XLSX directory');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) throw new Error('Corrupt XLSX entry');
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? inflateEntry(data, MAX_INFLATED_BYTES - inflated) : data;
+    inflated += content.length;
+    if (inflated > MAX_INFLATED_BYTES) throw new Error('XLSX file is too large once unpacked');
+    entries.set(name, content);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&');
+
+// Rich text splits one string over several <t> runs
+const textRuns = (xml: string) => [...xml.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)].map(m => decodeXml(m[1])).join('');
+
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+/g, '').split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') || '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+  const target = relId ? new RegExp(`<Relationship\\b[^>]*Id="${relId}"[^>]*Target="([^"]+)"`).exec(rels)?.[1]
+    || new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${relId}"`).exec(rels)?.[1] : undefined;
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function readXlsxRows(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const shared = [...(entries.get('xl/sharedStrings.xml')?.toString('utf8') || '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => textRuns(m[1]));
+  const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+  if (!sheet) throw new Error('XLSX file has no worksheet');
+
+  const rows: string[][] = [];
+  for (const row of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const inner = cell[2] || '';
+      const ref = /\br="([A-Z]+\d+)"/.exec(attrs)?.[1];
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+      const value = type === 's' ? shared[Number(raw)] || ''
+        : type === 'inlineStr' ? textRuns(inner)
+        : decodeXml(raw || '');
+      cells[ref ? columnIndex(ref) : cells.length] = value.trim();
+    }
+    rows.push(Array.from(cells, c => c || ''));
+  }
+  return rows.filter(r => r.some(Boolean));
+}
+
+function readCsvRows(buffer: Buffer): string[][] {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '').split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => splitCSVLine(line).map(cell => cell.replace(/^"|"$/g, '').trim()));
+}
+
+export function readSpreadsheetRows(fileName: string, buffer: Buffer): string[][] {
+  if (/\.xlsx$/i.test(fileName)) return readXlsxRows(buffer);
+  if (/\.(csv|txt)$/i.test(fileName)) return readCsvRows(buffer);
+  throw new Error('Upload a .csv or .xlsx statement');
+}
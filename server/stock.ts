@@ -0,0 +1,232 @@
+import { Db } from 'mongodb';
+import { Order, Product, ReturnCondition, StockAllocation, StockBatch, StockLedgerEntry, StockMovementType, StockWriteOff } from '../types';
+import { StockEffect } from '../utils/orderTransitions';
+import { HttpError } from './http';
+import { LEDGER_COLLECTION, StockMovement, recordBatchChanges } from './stockLedger';
+
+export const WRITE_OFF_COLLECTION = 'stock_writeoffs';
+
+// How often a write that lost a race is retried against fresh data before giving up
+const MAX_ATTEMPTS = 3;
+
+type BatchMove = (batch: StockBatch, quantity: number) => void;
+
+const byOldestFirst = (a: { createdAt: string }, b: { createdAt: string }) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+export const availableUnits = (batch: StockBatch) => Math.max(0, batch.quantity - (batch.reserved || 0));
+
+export const stockConflict = () =>
+  new HttpError(409, 'STOCK CONFLICT: Inventory was changed by another user. Reload and try again.');
+
+/**
+ * Read-modify-write of one product's batches. The write only lands if `stockVersion`
+ * is still the one we read, so two agents confirming at once cannot overwrite each other.
+ * Quantity and cost changes are written to the stock ledger as `movement`.
+ */
+async function updateBatches<T>(db: Db, tenantId: string, productId: string, change: (batches: StockBatch[], product: Product) => T, movement?: StockMovement): Promise<T> {
+  const col = db.collection<Product>('products');
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const product = await col.findOne({ id: productId, tenantId });
+    if (!product) throw new HttpError(404, `Product ${productId} not found in registry.`);
+
+    const batches = (product.batches || []).map(b => ({ ...b }));
+    const result = change(batches, product);
+    const { matchedCount } = await col.updateOne(
+      { id: productId, tenantId, stockVersion: product.stockVersion ?? { $exists: false } },
+      { $set: { batches, stockVersion: (product.stockVersion || 0) + 1 } }
+    );
+    if (matchedCount === 0) continue;
+    if (movement) await recordBatchChanges(db, tenantId, productId, product.batches || [], batches, movement);
+    return result;
+  }
+  throw stockConflict();
+}
+
+const groupByProduct = <T extends { productId: string }>(rows: T[]) =>
+  rows.reduce((map, row) => map.set(row.productId, [...(map.get(row.productId) || []), row]), new Map<string, T[]>());
+
+// The ledger entry for undoing `movement`; the ledger is append-only, so mistakes are corrected forward
+const reversal = (movement?: StockMovement): StockMovement | undefined =>
+  movement && { ...movement, type: StockMovementType.ADJUSTMENT, reason: `Reversal: ${movement.reason}` };
+
+// Applies `move` to the exact batches listed. Products are written one at a time, so a
+// failure part-way undoes the products already written with `undo`.
+async function moveAllocations(db: Db, tenantId: string, allocations: StockAllocation[], move: BatchMove, undo: BatchMove, movement?: StockMovement) {
+  const done: StockAllocation[] = [];
+  try {
+    for (const [productId, rows] of groupByProduct(allocations)) {
+      await updateBatches(db, tenantId, productId, batches => {
+        for (const a of rows) {
+          const batch = batches.find(b => b.id === a.batchId);
+          if (!batch) throw new HttpError(409, `STOCK CONFLICT: Batch ${a.batchId} no longer exists.`);
+          move(batch, a.quantity);
+        }
+      }, movement);
+      done.push(...rows);
+    }
+  } catch (e) {
+    if (done.length > 0) await moveAllocations(db, tenantId, done, undo, move, reversal(movement));
+    throw e;
+  }
+}
+
+const reserve: BatchMove = (b, q) => {
+  if (availableUnits(b) < q) throw stockConflict();
+  b.reserved = (b.reserved || 0) + q;
+};
+const release: BatchMove = (b, q) => { b.reserved = Math.max(0, (b.reserved || 0) - q); };
+const consume: BatchMove = (b, q) => {
+  if ((b.reserved || 0) < q || b.quantity < q) throw stockConflict();
+  b.reserved = (b.reserved || 0) - q;
+  b.quantity -= q;
+};
+const unconsume: BatchMove = (b, q) => {
+  b.reserved = (b.reserved || 0) + q;
+  b.quantity += q;
+};
+
+// Holds order units against the oldest batches with free stock and reports which batches were used
+export async function reserveStock(db: Db, tenantId: string, items: Order['items']): Promise<StockAllocation[]> {
+  const allocations: StockAllocation[] = [];
+  try {
+    for (const [productId, lines] of groupByProduct(items)) {
+      const wanted = lines.reduce((sum, l) => sum + l.quantity, 0);
+      const taken = await updateBatches(db, tenantId, productId, (batches, product) => {
+        const available = batches.reduce((sum, b) => sum + availableUnits(b), 0);
+        if (available < wanted) {
+          throw new HttpError(409, `INSUFFICIENT STOCK: SKU [${product.sku}] only has ${available} units available.`);
+        }
+        const rows: StockAllocation[] = [];
+        let remaining = wanted;
+        for (const batch of [...batches].sort(byOldestFirst)) {
+          if (remaining <= 0) break;
+          const take = Math.min(availableUnits(batch), remaining);
+          if (take <= 0) continue;
+          reserve(batch, take);
+          remaining -= take;
+          rows.push({ productId, batchId: batch.id, quantity: take, buyingPrice: batch.buyingPrice });
+        }
+        return rows;
+      });
+      allocations.push(...taken);
+    }
+  } catch (e) {
+    // Give back the products already reserved so a failed confirmation leaves stock untouched
+    await moveAllocations(db, tenantId, allocations, release, reserve);
+    throw e;
+  }
+  return allocations;
+}
+
+export const releaseStock = (db: Db, tenantId: string, allocations: StockAllocation[]) =>
+  moveAllocations(db, tenantId, allocations, release, reserve);
+
+// Turns a reservation into a sale: the units leave the batch for good
+export const consumeStock = (db: Db, tenantId: string, allocations: StockAllocation[], movement: StockMovement) =>
+  moveAllocations(db, tenantId, allocations, consume, unconsume, movement);
+
+// Average cost of the purchased (non-return) batches, weighted by units received
+const averageReceiptCost = (product: Product | null) => {
+  const received = (product?.batches || []).filter(b => !b.isReturn);
+  const units = received.reduce((sum, b) => sum + (b.originalQuantity ?? b.quantity), 0);
+  return units > 0 ? received.reduce((sum, b) => sum + (b.originalQuantity ?? b.quantity) * b.buyingPrice, 0) / units : 0;
+};
+
+/**
+ * The units a returned parcel brings back, priced at the batches the order consumed.
+ * Orders dispatched before allocations were recorded fall back to the product's
+ * average receipt cost.
+ */
+async function returnedUnits(db: Db, order: Order): Promise<StockAllocation[]> {
+  if (order.stockAllocations && order.stockAllocations.length > 0) return order.stockAllocations;
+  const prodCol = db.collection<Product>('products');
+  return Promise.all(order.items.map(async item => {
+    const product = await prodCol.findOne({ id: item.productId, tenantId: order.tenantId });
+    return { productId: item.productId, batchId: '', quantity: item.quantity, buyingPrice: averageReceiptCost(product) };
+  }));
+}
+
+/**
+ * Books a returned parcel back in. Resellable units become return batches at their
+ * original cost; damaged or missing units go to the write-off bucket instead. Each
+ * product is booked once per order (checked against the ledger and the write-offs), so
+ * a rescan after a failed restock books only what is still missing.
+ */
+export async function restockReturn(db: Db, order: Order, condition: ReturnCondition, user: string) {
+  const timestamp = new Date().toISOString();
+
+  if (condition !== ReturnCondition.RESELLABLE) {
+    const written = await db.collection<StockWriteOff>(WRITE_OFF_COLLECTION).distinct('productId', { tenantId: order.tenantId, orderId: order.id });
+    const units = (await returnedUnits(db, order)).filter(u => !written.includes(u.productId));
+    const writeOffs: StockWriteOff[] = units.map((u, i) => ({
+      id: `wo-${Date.now()}-${i}`,
+      tenantId: order.tenantId,
+      orderId: order.id,
+      productId: u.productId,
+      ...(u.batchId ? { batchId: u.batchId } : {}),
+      quantity: u.quantity,
+      unitCost: u.buyingPrice,
+      condition,
+      user,
+      timestamp
+    }));
+    if (writeOffs.length > 0) await db.collection<StockWriteOff>(WRITE_OFF_COLLECTION).insertMany(writeOffs);
+    return;
+  }
+
+  const restocked = await db.collection<StockLedgerEntry>(LEDGER_COLLECTION).distinct('productId', { tenantId: order.tenantId, orderId: order.id, type: StockMovementType.RETURN });
+  const units = (await returnedUnits(db, order)).filter(u => !restocked.includes(u.productId));
+  const movement: StockMovement = { type: StockMovementType.RETURN, reason: `Return of order ${order.id}`, user, orderId: order.id };
+  for (const [productId, rows] of groupByProduct(units)) {
+    await updateBatches(db, order.tenantId, productId, batches => {
+      rows.forEach((u, i) => batches.push({
+        id: `rb-${Date.now()}-${i}`,
+        quantity: u.quantity,
+        originalQuantity: u.quantity,
+        buyingPrice: u.buyingPrice,
+        createdAt: timestamp,
+        isReturn: true
+      }));
+    }, movement);
+  }
+}
+
+// Manual correction of one batch (count differences, damage found on the shelf)
+export async function adjustStock(db: Db, tenantId: string, productId: string, batchId: string, delta: number, movement: StockMovement) {
+  await updateBatches(db, tenantId, productId, batches => {
+    const batch = batches.find(b => b.id === batchId);
+    if (!batch) throw new HttpError(404, `Batch ${batchId} not found.`);
+    if (batch.quantity + delta < (batch.reserved || 0)) {
+      throw new HttpError(409, `Batch ${batchId} cannot drop below the ${batch.reserved || 0} units reserved by confirmed orders.`);
+    }
+    batch.quantity += delta;
+  }, movement);
+}
+
+const dispatchMovement = (order: Order, user: string): StockMovement =>
+  ({ type: StockMovementType.CONSUMPTION, reason: `Order ${order.id} dispatched`, user, orderId: order.id });
+
+/**
+ * Runs a transition's stock effect and returns the allocations the order should carry
+ * afterwards. Orders confirmed before reservations existed have no allocations; their
+ * stock was already taken in the browser, so consuming them is a no-op.
+ */
+export async function applyStockEffect(db: Db, order: Order, effect: StockEffect, user: string): Promise<StockAllocation[]> {
+  const allocations = order.stockAllocations || [];
+  switch (effect) {
+    case 'RESERVE': return reserveStock(db, order.tenantId, order.items);
+    case 'RELEASE': await releaseStock(db, order.tenantId, allocations); return [];
+    case 'CONSUME': await consumeStock(db, order.tenantId, allocations, dispatchMovement(order, user)); return allocations;
+  }
+}
+
+// Undoes `applyStockEffect` when the order write that should have followed it was refused
+export async function revertStockEffect(db: Db, order: Order, effect: StockEffect, after: StockAllocation[], user: string) {
+  const before = order.stockAllocations || [];
+  switch (effect) {
+    case 'RESERVE': return moveAllocations(db, order.tenantId, after, release, reserve);
+    case 'RELEASE': return moveAllocations(db, order.tenantId, before, reserve, release);
+    case 'CONSUME': return moveAllocations(db, order.tenantId, before, unconsume, consume, reversal(dispatchMovement(order, user)));
+  }
+}
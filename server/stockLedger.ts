@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { Db } from 'mongodb';
+import { StockBatch, StockLedgerEntry, StockMovementType } from '../types';
+
+export const LEDGER_COLLECTION = 'stock_ledger';
+
+// Describes whatever on-hand change a batch write makes. Batches that appear in the
+// write are receipts, unless the movement itself is a return restock.
+export interface StockMovement {
+  type: StockMovementType;
+  reason: string;
+  user: string;
+  orderId?: string;
+}
+
+const onHand = (batches: StockBatch[]) => batches.reduce((sum, b) => sum + b.quantity, 0);
+
+/**
+ * Appends ledger entries for the difference between two versions of a product's batches.
+ * Reservation-only writes change no quantities and therefore record nothing.
+ */
+export async function recordBatchChanges(db: Db, tenantId: string, productId: string, before: StockBatch[], after: StockBatch[], movement: StockMovement) {
+  const col = db.collection<StockLedgerEntry>(LEDGER_COLLECTION);
+  const timestamp = new Date().toISOString();
+  const entries: StockLedgerEntry[] = [];
+  let balance = 0;
+
+  const add = (batch: StockBatch, type: StockMovementType, quantity: number, batchBalance: number, details: Partial<StockLedgerEntry> = {}) => {
+    balance += quantity;
+    entries.push({
+      id: `sl-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+      tenantId,
+      productId,
+      batchId: batch.id,
+      type,
+      quantity,
+      unitCost: batch.buyingPrice,
+      balance,
+      batchBalance,
+      reason: movement.reason,
+      user: movement.user,
+      ...(movement.orderId ? { orderId: movement.orderId } : {}),
+      timestamp,
+      ...details
+    });
+  };
+
+  // Products that predate the ledger start it with what they held at that moment
+  const known = await col.findOne({ tenantId, productId }, { projection: { _id: 1 } });
+  if (!known) {
+    for (const b of before.filter(b => b.quantity !== 0)) {
+      add(b, StockMovementType.OPENING, b.quantity, b.quantity, { reason: 'Opening balance', user: 'System', orderId: undefined });
+    }
+  }
+  balance = onHand(before);
+
+  const addedType = movement.type === StockMovementType.RETURN ? StockMovementType.RETURN : StockMovementType.RECEIPT;
+  for (const batch of after) {
+    const prev = before.find(b => b.id === batch.id);
+    if (!prev) {
+      if (batch.quantity !== 0) add(batch, addedType, batch.quantity, batch.quantity);
+      continue;
+    }
+    if (batch.quantity !== prev.quantity) add(batch, movement.type, batch.quantity - prev.quantity, batch.quantity);
+    if (batch.buyingPrice !== prev.buyingPrice) {
+      add(batch, StockMovementType.PRICE_CHANGE, 0, batch.quantity, { previousCost: prev.buyingPrice });
+    }
+  }
+  for (const prev of before.filter(b => b.quantity !== 0 && !after.some(a => a.id === b.id))) {
+    add(prev, movement.type, -prev.quantity, 0);
+  }
+
+  if (entries.length > 0) await col.insertMany(entries);
+}
+
+// On-hand units per product at the end of `date` (YYYY-MM-DD), summed from the ledger
+export async function stockOnHandAt(db: Db, tenantId: string, date: string): Promise<{ productId: string; quantity: number }[]> {
+  return db.collection<StockLedgerEntry>(LEDGER_COLLECTION).aggregate<{ productId: string; quantity: number }>([
+    { $match: { tenantId, timestamp: { $lte: date + 'T23:59:59.999Z' } } },
+    { $group: { _id: '$productId', quantity: { $sum: '$quantity' } } },
+    { $project: { _id: 0, productId: '$_id', quantity: 1 } }
+  ]).toArray();
+}
@@ -0,0 +1,102 @@
+import { Db } from 'mongodb';
+import { Order, Tenant, WebhookEventStatus, WebhookInboxEntry } from '../types';
+import { TRACKED_STATUSES } from '../utils/orderTransitions';
+import { getCourierAccount, selectCourierAccount } from '../utils/couriers';
+import { HttpError } from './http';
+import { connectCentral, getTenantDb } from './db';
+import { getCourierProvider } from './couriers';
+import { acquireJobLock, releaseJobLock } from './jobLocks';
+import { processWebhookEntry, receivePolledStatus } from './webhooks';
+
+// --- TRACKING POLLER ---
+// Fallback for missed courier webhooks. In-flight orders with no courier news for
+// TRACKING_QUIET_HOURS are asked about through their provider's tracking API, and the
+// answer goes through the webhook inbox so ordering rules and order logs are the same.
+const QUIET_HOURS = Number(process.env.TRACKING_QUIET_HOURS || 12);
+const POLL_MINUTES = Number(process.env.TRACKING_POLL_MINUTES ?? 30); // 0 disables the in-process timer
+const BATCH_SIZE = Number(process.env.TRACKING_BATCH_SIZE || 50); // Orders per tenant per run
+const REQUEST_GAP_MS = Number(process.env.TRACKING_REQUEST_GAP_MS || 1000); // Spacing between courier calls
+const LOCK_ID = 'tracking-poll';
+const LOCK_MINUTES = 15;
+
+export interface TrackingPollSummary {
+  skipped?: boolean; // Another instance holds the lock
+  checked: number;
+  updated: number;
+  failed: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Asks the courier for one order's current status and applies it. Returns the processed
+ * inbox entry, or null when the courier had nothing new.
+ */
+export async function refreshTracking(central: Db, db: Db, tenant: Tenant, order: Order): Promise<WebhookInboxEntry | null> {
+  if (!order.trackingNumber) throw new HttpError(422, 'Order has no waybill to track');
+  // Stamped before anything can fail, so an order without a usable account goes to the
+  // back of the poller's queue instead of being picked first on every run
+  await db.collection<Order>('orders').updateOne({ id: order.id, tenantId: order.tenantId }, { $set: { trackingCheckedAt: new Date().toISOString() } });
+  const account = getCourierAccount(tenant.settings, order.courierAccountId) || selectCourierAccount(tenant.settings, order.customerCity);
+  if (!account || !account.apiKey) throw new HttpError(400, 'Keys Missing');
+  const provider = getCourierProvider(order.courierProvider || account.provider);
+
+  const result = await provider.trackShipment(order.trackingNumber, account);
+  if (!result.ok) throw new HttpError(502, result.error || `${provider.name} tracking refused`, { code: result.code });
+  if (!result.status) return null;
+
+  const entry = await receivePolledStatus(central, order.tenantId, provider.id, {
+    waybill: order.trackingNumber,
+    status: result.status,
+    updatedAt: result.updatedAt
+  });
+  return entry ? processWebhookEntry(central, entry) : null;
+}
+
+export async function runTrackingPoll(): Promise<TrackingPollSummary> {
+  const central = await connectCentral();
+  const summary: TrackingPollSummary = { checked: 0, updated: 0, failed: 0 };
+  if (!(await acquireJobLock(central, LOCK_ID, LOCK_MINUTES))) return { ...summary, skipped: true };
+
+  try {
+    const cutoff = new Date(Date.now() - QUIET_HOURS * 3600000).toISOString();
+    const tenants = await central.collection<Tenant>('tenants').find({ isActive: true }).toArray();
+    for (const tenant of tenants) {
+      const db = await getTenantDb(tenant.id);
+      const quiet = await db.collection<Order>('orders').find({
+        tenantId: tenant.id,
+        status: { $in: TRACKED_STATUSES },
+        trackingNumber: { $nin: [null, ''] },
+        $and: [
+          // Last courier news, or the dispatch itself when the courier never called
+          { $or: [{ courierStatusAt: { $lt: cutoff } }, { courierStatusAt: { $exists: false }, shippedAt: { $lt: cutoff } }] },
+          { $or: [{ trackingCheckedAt: { $lt: cutoff } }, { trackingCheckedAt: { $exists: false } }] }
+        ]
+      }).sort({ trackingCheckedAt: 1 }).limit(BATCH_SIZE).toArray();
+
+      for (const order of quiet) {
+        summary.checked++;
+        try {
+          const entry = await refreshTracking(central, db, tenant, order);
+          if (entry && entry.status === WebhookEventStatus.APPLIED) summary.updated++;
+        } catch (e: any) {
+          summary.failed++;
+          console.error(`Tracking poll failed for ${tenant.id}/${order.id}:`, e.message);
+        }
+        await sleep(REQUEST_GAP_MS);
+      }
+    }
+  } finally {
+    await releaseJobLock(central, LOCK_ID);
+  }
+  console.log('>>> Tracking poll:', summary);
+  return summary;
+}
+
+// In-process schedule for the long-running Express server; Netlify uses a scheduled function
+export function startTrackingPoller() {
+  if (!(POLL_MINUTES > 0)) return;
+  setInterval(() => {
+    runTrackingPoll().catch(e => console.error('Tracking poll crashed:', e.message));
+  }, POLL_MINUTES * 60000);
+}
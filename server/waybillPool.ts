@@ -0,0 +1,170 @@
+import { Db } from 'mongodb';
+import { CourierAccount, CourierMode, Order, OrderStatus, PooledWaybill, TenantSettings, WaybillPoolSummary, WaybillStatus } from '../types';
+import { getCourierAccounts } from '../utils/couriers';
+import { normalizeWaybill, waybillSortKey } from '../utils/waybills';
+import { PIPELINE_STATUSES } from '../utils/orderTransitions';
+import { HttpError } from './http';
+
+// --- WAYBILL POOL ---
+// Pre-printed waybill stock for EXISTING_WAYBILL accounts. Once an account has any
+// waybills loaded its pool is authoritative: confirmed orders are handed the next free
+// number, and a typed number must be in the pool and not held by another order.
+export const WAYBILL_POOL_COLLECTION = 'waybill_pool';
+const DEFAULT_LOW_POOL_ALERT = 50;
+
+const poolCol = (db: Db) => db.collection<PooledWaybill>(WAYBILL_POOL_COLLECTION);
+
+const poolInUse = async (db: Db, tenantId: string, accountId: string) =>
+  !!(await poolCol(db).findOne({ tenantId, courierAccountId: accountId }, { projection: { _id: 1 } }));
+
+// Loads waybills into an account's pool, skipping ones already there. Waybills loaded before
+// pools were ordered by number get their sort key here too, so any upload re-keys old stock.
+export async function addWaybills(db: Db, tenantId: string, accountId: string, waybills: string[], user: string): Promise<{ added: number; duplicates: number }> {
+  if (waybills.length === 0) return { added: 0, duplicates: 0 };
+  const now = new Date().toISOString();
+  const result = await poolCol(db).bulkWrite(waybills.map(w => ({
+    updateOne: {
+      filter: { tenantId, courierAccountId: accountId, waybill: normalizeWaybill(w) },
+      update: { $setOnInsert: {
+        tenantId, courierAccountId: accountId, waybill: normalizeWaybill(w), sortKey: waybillSortKey(w), status: WaybillStatus.AVAILABLE,
+        orderId: null, addedBy: user, addedAt: now, assignedAt: null, usedAt: null, voidReason: null
+      } },
+      upsert: true
+    }
+  })));
+  const unkeyed = await poolCol(db).find({ tenantId, courierAccountId: accountId, sortKey: { $exists: false } }, { projection: { _id: 1, waybill: 1 } }).toArray();
+  if (unkeyed.length > 0) {
+    await poolCol(db).bulkWrite(unkeyed.map(u => ({ updateOne: { filter: { _id: u._id }, update: { $set: { sortKey: waybillSortKey(u.waybill) } } } })));
+  }
+  return { added: result.upsertedCount, duplicates: waybills.length - result.upsertedCount };
+}
+
+// Only free stock can be voided; a waybill held by an order has to be released from it first
+export async function voidWaybills(db: Db, tenantId: string, accountId: string, waybills: string[], reason: string): Promise<number> {
+  const result = await poolCol(db).updateMany(
+    { tenantId, courierAccountId: accountId, waybill: { $in: waybills.map(normalizeWaybill) }, status: WaybillStatus.AVAILABLE },
+    { $set: { status: WaybillStatus.VOID, voidReason: reason || 'Voided' } }
+  );
+  return result.modifiedCount;
+}
+
+/**
+ * Holds a pool waybill for `order` and returns it: the one given (typed on the order),
+ * or the lowest-numbered free one. Returns the given waybill untouched for accounts without a pool,
+ * and null when the pool has run dry. Any other waybill the order held goes back to stock.
+ */
+export async function bindWaybill(db: Db, order: Order, account: CourierAccount, waybill?: string): Promise<string | null> {
+  const requested = normalizeWaybill(waybill);
+  if (account.mode !== CourierMode.EXISTING_WAYBILL || !(await poolInUse(db, order.tenantId, account.id))) return requested || null;
+
+  const scope = { tenantId: order.tenantId, courierAccountId: account.id };
+  const hold = { $set: { status: WaybillStatus.ASSIGNED, orderId: order.id, assignedAt: new Date().toISOString() } };
+  let bound: string | null = null;
+
+  if (requested) {
+    const entry = await poolCol(db).findOne({ ...scope, waybill: requested });
+    if (!entry) throw new HttpError(422, `Waybill ${requested} is not in the ${account.label} waybill pool.`);
+    if (entry.status === WaybillStatus.VOID) throw new HttpError(422, `Waybill ${requested} was voided${entry.voidReason ? `: ${entry.voidReason}` : ''}.`);
+    if (entry.orderId !== order.id && entry.status !== WaybillStatus.AVAILABLE) {
+      throw new HttpError(409, `Waybill ${requested} is already used by order ${entry.orderId}.`);
+    }
+    if (entry.status !== WaybillStatus.USED) {
+      const taken = await poolCol(db).updateOne({ ...scope, waybill: requested, $or: [{ status: WaybillStatus.AVAILABLE }, { orderId: order.id }] }, hold);
+      if (taken.matchedCount === 0) throw new HttpError(409, `Waybill ${requested} was just taken by another order.`);
+    }
+    bound = requested;
+  } else {
+    const next = await poolCol(db).findOneAndUpdate({ ...scope, status: WaybillStatus.AVAILABLE }, hold, { sort: { sortKey: 1, waybill: 1 }, returnDocument: 'after' });
+    bound = next?.waybill || null;
+  }
+
+  await poolCol(db).updateMany(
+    { tenantId: order.tenantId, orderId: order.id, status: WaybillStatus.ASSIGNED, ...(bound ? { waybill: { $ne: bound } } : {}) },
+    { $set: { status: WaybillStatus.AVAILABLE, orderId: null, assignedAt: null } }
+  );
+  return bound;
+}
+
+/**
+ * A waybill typed on an existing order outside confirm and dispatch: a new number is held
+ * through bindWaybill and a cleared one goes back to stock. Returns what the order should
+ * store. Past CONFIRMED the courier knows the parcel by its waybill, so it cannot change.
+ */
+export async function rebindWaybill(db: Db, stored: Order, account: CourierAccount | null, waybill?: string): Promise<string | undefined> {
+  const requested = normalizeWaybill(waybill);
+  if (requested === normalizeWaybill(stored.trackingNumber)) return stored.trackingNumber;
+  if (!PIPELINE_STATUSES.includes(stored.status) && stored.status !== OrderStatus.CONFIRMED) {
+    throw new HttpError(409, `Order ${stored.id} is ${stored.status}; its waybill can no longer change.`);
+  }
+  if (!requested) {
+    await releaseOrderWaybills(db, stored.tenantId, [stored.id]);
+    return undefined;
+  }
+  return account ? (await bindWaybill(db, stored, account, requested)) || undefined : requested;
+}
+
+// Undoes binds for an order write that then failed: the order holds its stored waybill again and nothing else
+export async function restoreOrderWaybill(db: Db, stored: Pick<Order, 'id' | 'tenantId' | 'trackingNumber'>, account: CourierAccount | null) {
+  const kept = normalizeWaybill(stored.trackingNumber);
+  await poolCol(db).updateMany(
+    { tenantId: stored.tenantId, orderId: stored.id, status: WaybillStatus.ASSIGNED, ...(kept ? { waybill: { $ne: kept } } : {}) },
+    { $set: { status: WaybillStatus.AVAILABLE, orderId: null, assignedAt: null } }
+  );
+  if (!kept || !account) return;
+  await poolCol(db).updateOne(
+    { tenantId: stored.tenantId, courierAccountId: account.id, waybill: kept, status: WaybillStatus.AVAILABLE },
+    { $set: { status: WaybillStatus.ASSIGNED, orderId: stored.id, assignedAt: new Date().toISOString() } }
+  );
+}
+
+export async function markWaybillUsed(db: Db, order: Order, account: CourierAccount, waybill: string) {
+  await poolCol(db).updateOne(
+    { tenantId: order.tenantId, courierAccountId: account.id, waybill: normalizeWaybill(waybill) },
+    { $set: { status: WaybillStatus.USED, orderId: order.id, usedAt: new Date().toISOString() } }
+  );
+}
+
+// Puts back waybills held by orders that will not ship (moved out of CONFIRMED, deleted)
+export async function releaseOrderWaybills(db: Db, tenantId: string, orderIds: string[]) {
+  const held = await poolCol(db).find({ tenantId, orderId: { $in: orderIds }, status: WaybillStatus.ASSIGNED }).toArray();
+  if (held.length === 0) return;
+  await poolCol(db).updateMany(
+    { tenantId, orderId: { $in: orderIds }, status: WaybillStatus.ASSIGNED },
+    { $set: { status: WaybillStatus.AVAILABLE, orderId: null, assignedAt: null } }
+  );
+  // The order no longer owns the number, so it must not keep printing it on labels
+  await Promise.all(held.map(h => db.collection<Order>('orders').updateOne(
+    { id: h.orderId!, tenantId, trackingNumber: h.waybill },
+    { $unset: { trackingNumber: '' } }
+  )));
+}
+
+// Stock counts for every EXISTING_WAYBILL account, flagged when free stock runs low
+export async function getPoolSummary(db: Db, tenantId: string, settings?: Partial<TenantSettings> | null): Promise<WaybillPoolSummary[]> {
+  const accounts = getCourierAccounts(settings).filter(a => a.mode === CourierMode.EXISTING_WAYBILL);
+  const grouped = await poolCol(db).aggregate<{ _id: { account: string; status: WaybillStatus }; count: number }>([
+    { $match: { tenantId } },
+    { $group: { _id: { account: '$courierAccountId', status: '$status' }, count: { $sum: 1 } } }
+  ]).toArray();
+  const count = (accountId: string, status: WaybillStatus) =>
+    grouped.find(g => g._id.account === accountId && g._id.status === status)?.count || 0;
+
+  return accounts.map(a => {
+    const available = count(a.id, WaybillStatus.AVAILABLE);
+    const lowAlert = a.waybillLowAlert ?? DEFAULT_LOW_POOL_ALERT;
+    const assigned = count(a.id, WaybillStatus.ASSIGNED);
+    const used = count(a.id, WaybillStatus.USED);
+    const voided = count(a.id, WaybillStatus.VOID);
+    return {
+      courierAccountId: a.id,
+      label: a.label,
+      available,
+      assigned,
+      used,
+      void: voided,
+      lowAlert,
+      // Accounts still on hand-typed waybills have no pool to run low
+      low: available + assigned + used + voided > 0 && available < lowAlert
+    };
+  });
+}
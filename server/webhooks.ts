@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import { Db } from 'mongodb';
+import { CourierProviderId, Order, OrderStatus, Tenant, WebhookEventStatus, WebhookInboxEntry } from '../types';
+import { canTransition } from '../utils/orderTransitions';
+import { getStatusRules, matchCourierStatus } from '../utils/courierStatus';
+import { normalizeWaybill } from '../utils/waybills';
+import { ApiRequest, HttpError } from './http';
+import { escapeRegex, getTenantDb } from './db';
+import { CourierProvider, CourierWebhookEvent, getCourierProvider } from './couriers';
+import { transitionOrder } from './orderLifecycle';
+
+// --- COURIER WEBHOOKS ---
+// Couriers call back on a tenant-scoped URL: `?tenant=<id>&token=<webhookSecret>`.
+// Couriers able to sign their payloads may send `x-webhook-signature` (hex HMAC-SHA256
+// of the raw body, keyed with the same secret) and leave the token out of the URL.
+export const WAYBILL_INDEX_COLLECTION = 'waybill_index';
+export const WEBHOOK_INBOX_COLLECTION = 'webhook_inbox';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// Central waybill → order map, so a callback resolves with one lookup instead of a tenant scan
+export interface WaybillIndexEntry {
+  tenantId: string;
+  provider: CourierProviderId;
+  waybill: string; // Trimmed and upper-cased
+  orderId: string;
+  createdAt: string;
+}
+
+export const generateWebhookSecret = () => crypto.randomBytes(24).toString('hex');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+function verifyWebhookRequest(req: ApiRequest, secret: string): boolean {
+  const signature = req.headers[WEBHOOK_SIGNATURE_HEADER];
+  if (signature) {
+    const expected = crypto.createHmac('sha256', secret).update(req.rawBody || '').digest('hex');
+    return safeEqual(signature.trim().replace(/^sha256=/i, '').toLowerCase(), expected);
+  }
+  return !!req.query.token && safeEqual(req.query.token, secret);
+}
+
+// The tenant a callback is addressed to. Unknown tenants and bad credentials get the same 401.
+export async function authenticateWebhook(central: Db, req: ApiRequest): Promise<Tenant> {
+  const tenantId = req.query.tenant;
+  const tenant = tenantId ? await central.collection<Tenant>('tenants').findOne({ id: tenantId, isActive: true }) : null;
+  const secret = tenant?.settings?.webhookSecret;
+  if (!tenant || !secret || !verifyWebhookRequest(req, secret)) throw new HttpError(401, 'Webhook authentication failed');
+  return tenant;
+}
+
+export async function indexWaybill(central: Db, entry: Omit<WaybillIndexEntry, 'createdAt'>) {
+  const waybill = normalizeWaybill(entry.waybill);
+  if (!waybill) return;
+  await central.collection<WaybillIndexEntry>(WAYBILL_INDEX_COLLECTION).updateOne(
+    { tenantId: entry.tenantId, provider: entry.provider, waybill },
+    { $set: { orderId: entry.orderId }, $setOnInsert: { createdAt: new Date().toISOString() } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Resolves a courier waybill to the tenant's order through the central index. Orders
+ * shipped before the index existed (or whose waybill was edited since) are looked up
+ * in that one tenant by waybill and indexed on the way through.
+ */
+export async function findOrderByWaybill(central: Db, db: Db, tenantId: string, provider: CourierProviderId, waybill: string): Promise<Order | null> {
+  const key = normalizeWaybill(waybill);
+  const ordersCol = db.collection<Order>('orders');
+
+  const entry = await central.collection<WaybillIndexEntry>(WAYBILL_INDEX_COLLECTION).findOne({ tenantId, provider, waybill: key });
+  if (entry) {
+    const order = await ordersCol.findOne({ id: entry.orderId, tenantId });
+    if (order && normalizeWaybill(order.trackingNumber) === key) return order;
+  }
+
+  const order = await ordersCol.findOne({
+    tenantId,
+    trackingNumber: { $regex: `^${escapeRegex(waybill.trim())}$`, $options: 'i' },
+    // Waybill numbers are only unique per courier; orders shipped before providers existed are FDE
+    courierProvider: { $in: [provider, null] }
+  });
+  if (order) await indexWaybill(central, { tenantId, provider, waybill: key, orderId: order.id });
+  return order;
+}
+
+// --- INBOX ---
+// Every authenticated callback is stored raw before anything acts on it, then processed
+// from the stored copy. DevAdmin replays go through exactly the same path.
+
+interface WebhookOutcome {
+  status: WebhookEventStatus;
+  result: string;
+  orderId?: string;
+}
+
+const MAX_RAW_BODY = 20000;
+
+const toIsoTime = (value?: string) => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? null : new Date(time).toISOString();
+};
+
+// Same courier, waybill, status and courier time means a redelivery. Payloads we cannot parse dedupe on their bytes.
+const dedupeKey = (tenantId: string, provider: CourierProviderId, event: CourierWebhookEvent | null, rawBody: string) =>
+  crypto.createHash('sha256').update(event
+    ? [tenantId, provider, normalizeWaybill(event.waybill), event.status, event.updatedAt || ''].join('|')
+    : [tenantId, provider, rawBody].join('|')
+  ).digest('hex');
+
+// Returns the entry to process, or null for a redelivery of an event that was already
+// processed (only its duplicate count moves)
+async function storeInboxEntry(central: Db, entry: WebhookInboxEntry): Promise<WebhookInboxEntry | null> {
+  const inbox = central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION);
+  const inserted = await inbox.updateOne({ dedupeKey: entry.dedupeKey }, { $setOnInsert: entry }, { upsert: true });
+  if (inserted.upsertedCount > 0) return entry;
+
+  // A courier retry: let it through only if the first delivery never finished processing
+  const existing = await inbox.findOneAndUpdate({ dedupeKey: entry.dedupeKey }, { $inc: { duplicates: 1 } }, { returnDocument: 'after', projection: { _id: 0 } });
+  return existing && [WebhookEventStatus.RECEIVED, WebhookEventStatus.FAILED].includes(existing.status) ? existing : null;
+}
+
+const inboxEntry = (tenantId: string, provider: CourierProviderId, event: CourierWebhookEvent | null, fields: Partial<WebhookInboxEntry>): WebhookInboxEntry => ({
+  id: `wh-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+  dedupeKey: dedupeKey(tenantId, provider, event, fields.rawBody || ''),
+  tenantId,
+  provider,
+  source: 'WEBHOOK',
+  waybill: event?.waybill || null,
+  courierStatus: event?.status || null,
+  eventTime: toIsoTime(event?.updatedAt),
+  contentType: null,
+  rawBody: '',
+  body: null,
+  query: {},
+  status: WebhookEventStatus.RECEIVED,
+  result: null,
+  orderId: null,
+  attempts: 0,
+  duplicates: 0,
+  receivedAt: new Date().toISOString(),
+  processedAt: null,
+  ...fields
+});
+
+// Stores an inbound callback in the inbox before anything acts on it
+export async function receiveWebhook(central: Db, tenantId: string, provider: CourierProvider, req: ApiRequest): Promise<WebhookInboxEntry | null> {
+  const event = provider.parseWebhook(req.body, req.query);
+  const { token, ...query } = req.query;
+  return storeInboxEntry(central, inboxEntry(tenantId, provider.id, event, {
+    contentType: req.headers['content-type'] || null,
+    rawBody: (req.rawBody || '').slice(0, MAX_RAW_BODY),
+    body: req.body,
+    query
+  }));
+}
+
+// A status pulled by the tracking poller goes through the inbox like a callback, so an
+// update already delivered by webhook is recognised as a duplicate
+export async function receivePolledStatus(central: Db, tenantId: string, provider: CourierProviderId, event: CourierWebhookEvent): Promise<WebhookInboxEntry | null> {
+  return storeInboxEntry(central, inboxEntry(tenantId, provider, event, { source: 'POLL', body: event }));
+}
+
+async function applyCourierEvent(central: Db, tenantId: string, provider: CourierProvider, event: CourierWebhookEvent, receivedAt: string): Promise<WebhookOutcome> {
+  const db = await getTenantDb(tenantId);
+  const order = await findOrderByWaybill(central, db, tenantId, provider.id, event.waybill);
+  if (!order) return { status: WebhookEventStatus.UNMATCHED, result: 'No order carries this waybill' };
+
+  const statusRaw = event.status;
+  const at = toIsoTime(event.updatedAt) || receivedAt;
+  const ordersCol = db.collection<Order>('orders');
+  const courierFields = { courierStatus: statusRaw, courierStatusAt: at };
+  // Couriers deliver out of order; an update older than the last one applied never touches the order
+  if (order.courierStatusAt && at < order.courierStatusAt) {
+    return { status: WebhookEventStatus.IGNORED, result: `Stale: ${order.courierStatus} from ${order.courierStatusAt} is newer`, orderId: order.id };
+  }
+
+  // Wording no rule recognises is recorded on the order but never guessed at
+  const tenant = await central.collection<Tenant>('tenants').findOne({ id: tenantId });
+  const rule = matchCourierStatus(getStatusRules(tenant?.settings, provider.id), statusRaw);
+  if (!rule) {
+    await ordersCol.updateOne(
+      { id: order.id, tenantId },
+      {
+        $set: courierFields,
+        $push: { logs: { id: `l-${Date.now()}`, message: `WEBHOOK: Unrecognised courier status ${statusRaw}, held for mapping review [Time: ${event.updatedAt || at}]`, timestamp: new Date().toISOString(), user: 'Courier System' } }
+      }
+    );
+    return { status: WebhookEventStatus.UNMAPPED, result: `No status rule matches "${statusRaw}"`, orderId: order.id };
+  }
+
+  const newStatus = rule.status;
+  if (order.status === newStatus) {
+    await ordersCol.updateOne({ id: order.id, tenantId }, { $set: courierFields });
+    return { status: WebhookEventStatus.APPLIED, result: `Already ${newStatus}`, orderId: order.id };
+  }
+
+  // Dispatch books the parcel itself; a callback never takes a CONFIRMED order out
+  if (order.status !== OrderStatus.CONFIRMED && canTransition(order.status, newStatus)) {
+    await transitionOrder(db, order, newStatus, {
+      user: 'Courier System',
+      message: `WEBHOOK: Status update to ${statusRaw} [Time: ${event.updatedAt || at}]`,
+      at,
+      extra: courierFields
+    });
+    return { status: WebhookEventStatus.APPLIED, result: `${order.status} → ${newStatus}`, orderId: order.id };
+  }
+
+  // Keep the courier's wording but refuse to move the order backwards
+  await ordersCol.updateOne(
+    { id: order.id, tenantId },
+    {
+      $set: courierFields,
+      $push: { logs: { id: `l-${Date.now()}`, message: `WEBHOOK: Ignored ${statusRaw} (${order.status} → ${newStatus} not allowed) [Time: ${event.updatedAt || at}]`, timestamp: new Date().toISOString(), user: 'Courier System' } }
+    }
+  );
+  return { status: WebhookEventStatus.IGNORED, result: `${order.status} → ${newStatus} not allowed`, orderId: order.id };
+}
+
+// Parses a stored callback through its provider again and applies it to the order
+export async function processWebhookEntry(central: Db, entry: WebhookInboxEntry): Promise<WebhookInboxEntry> {
+  const provider = getCourierProvider(entry.provider);
+  const event = entry.source === 'POLL' ? entry.body as CourierWebhookEvent : provider.parseWebhook(entry.body, entry.query);
+  let outcome: WebhookOutcome;
+  try {
+    outcome = event
+      ? await applyCourierEvent(central, entry.tenantId, provider, event, entry.receivedAt)
+      : { status: WebhookEventStatus.INVALID, result: 'Payload carries no waybill' };
+  } catch (e: any) {
+    outcome = { status: WebhookEventStatus.FAILED, result: e.message };
+  }
+
+  const update = {
+    waybill: event?.waybill || null,
+    courierStatus: event?.status || null,
+    eventTime: toIsoTime(event?.updatedAt),
+    status: outcome.status,
+    result: outcome.result,
+    orderId: outcome.orderId || null,
+    processedAt: new Date().toISOString()
+  };
+  await central.collection<WebhookInboxEntry>(WEBHOOK_INBOX_COLLECTION).updateOne({ id: entry.id }, { $set: update, $inc: { attempts: 1 } });
+  return { ...entry, ...update, attempts: entry.attempts + 1 };
+}
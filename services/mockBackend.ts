@@ -1,7 +1,8 @@
 
-import { Order, OrderStatus, Product, Tenant, User, UserRole, CustomerStatus, TenantSettings, StockBatch, CourierMode } from '../types';
+import { Order, OrderStatus, Product, Tenant, User, UserRole, CustomerStatus, TenantSettings, StockBatch, CourierMode, SecurityLog, StockLedgerEntry, StockWriteOff, ReturnCondition, WebhookInboxEntry, CourierProviderId, DispatchJob, DispatchJobStatus, PooledWaybill, WaybillPoolSummary, WaybillStatus, CodStatement, CodReceivable, CityRecord, PickupManifest, UnmanifestedSummary, ScoredCustomer, FraudListing, FraudReasonCode, NetworkFlag } from '../types';
 
 const API_BASE = '/api';
+const SESSION_KEY = 'mw_session';
 
 interface GetOrdersParams {
   tenantId: string;
@@ -15,7 +16,41 @@ interface GetOrdersParams {
   endDate?: string;
 }
 
+interface SecurityLogFilters {
+  action?: string;
+  tenantId?: string;
+  actor?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
+interface WebhookInboxFilters {
+  status?: string;
+  tenantId?: string;
+  waybill?: string;
+  limit?: number;
+}
+
+interface StockLedgerFilters {
+  tenantId: string;
+  productId?: string;
+  type?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
 class BackendService {
+  private getSessionToken(): string | null {
+    return localStorage.getItem(SESSION_KEY);
+  }
+
+  private clearSession() {
+    localStorage.removeItem(SESSION_KEY);
+    localStorage.removeItem('mw_user');
+  }
+
   private async request(path: string, method: string = 'GET', body?: any, params?: any) {
     const url = new URL(`${window.location.origin}${API_BASE}${path}`);
     if (params) {
@@ -26,24 +61,36 @@ class BackendService {
       });
     }
     
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = this.getSessionToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+
     try {
       const response = await fetch(url.toString(), {
         method,
-        headers: { 'Content-Type': 'application/json' },
+        headers,
         body: body ? JSON.stringify(body) : undefined,
       });
       
+      // Expired or revoked session: drop local credentials and return to the login screen
+      if (response.status === 401 && token && path !== '/session') {
+        this.clearSession();
+        window.location.reload();
+      }
+
       const contentType = response.headers.get("content-type");
       if (!response.ok) {
         let errorMsg = `HTTP ${response.status}`;
+        let errorData: any = {};
         if (contentType && contentType.includes("application/json")) {
-           const errorData = await response.json();
+           errorData = await response.json();
            errorMsg = errorData.error || errorMsg;
         } else {
            const text = await response.text();
            console.error("Server returned non-JSON error:", text.slice(0, 200));
         }
-        throw new Error(errorMsg);
+        // Callers branch on the status and any details the server sent with the message
+        throw Object.assign(new Error(errorMsg), { status: response.status, details: errorData });
       }
 
       if (contentType && contentType.includes("application/json")) {
@@ -67,7 +114,29 @@ class BackendService {
   }
 
   async login(username: string, password?: string): Promise<User | null> {
-    return await this.request('/login', 'POST', { username, password });
+    const res = await this.request('/login', 'POST', { username, password });
+    if (!res?.token) return null;
+    localStorage.setItem(SESSION_KEY, res.token);
+    return res.user;
+  }
+
+  /**
+   * Resolves the signed-in user from the stored session token.
+   * The server is the source of truth; the cached `mw_user` profile is never trusted.
+   */
+  async restoreSession(): Promise<User | null> {
+    if (!this.getSessionToken()) return null;
+    try {
+      const res = await this.request('/session', 'GET');
+      return res?.user || null;
+    } catch {
+      this.clearSession();
+      return null;
+    }
+  }
+
+  logout(): void {
+    this.clearSession();
   }
 
   async getOrders(params: string | GetOrdersParams): Promise<{ data: Order[], total: number }> {
@@ -95,6 +164,15 @@ class BackendService {
     await this.request('/orders', 'POST', { order, tenantId: order.tenantId }, { tenantId: order.tenantId });
   }
 
+  /**
+   * Moves an order to a new status through the server's transition table.
+   * `patch` carries unsaved form edits that should be stored with the change;
+   * `override` is a supervisor confirming a RISK_RED customer anyway.
+   */
+  async transitionOrder(orderId: string, tenantId: string, status: OrderStatus, patch?: Partial<Order>, override?: boolean): Promise<Order> {
+    return this.request('/orders/transition', 'POST', { orderId, status, patch, tenantId, override });
+  }
+
   async deleteOrder(orderId: string, tenantId: string): Promise<void> {
     await this.request('/orders', 'DELETE', null, { id: orderId, tenantId });
   }
@@ -103,61 +181,58 @@ class BackendService {
     const res = await this.request('/orders', 'DELETE', null, { tenantId, purge: 'true' });
     return res.count || 0;
   }
+
+  async migrateCustomers(tenantId: string): Promise<{ scanned: number; updated: number; done: boolean }> {
+    return this.request('/customers/migrate', 'POST', { tenantId });
+  }
   
-  async createOrders(orders: Order[]): Promise<void> {
-    if (orders.length === 0) return;
+  // Returns the new leads whose phone is flagged on the fraud network, with the warning logged on them
+  async createOrders(orders: Order[]): Promise<{ orderId: string; warning: string }[]> {
+    if (orders.length === 0) return [];
     const tenantId = orders[0].tenantId;
-    await this.request('/orders', 'POST', { orders, tenantId }, { tenantId });
+    const res = await this.request('/orders', 'POST', { orders, tenantId }, { tenantId });
+    return res.flagged || [];
   }
 
   async getProducts(tenantId: string): Promise<Product[]> {
     return this.request('/products', 'GET', null, { tenantId });
   }
 
-  async updateProduct(product: Product): Promise<void> {
-    await this.request('/products', 'POST', { product, tenantId: product.tenantId }, { tenantId: product.tenantId });
+  // `reason` is written to the stock ledger for any batch changes this save makes
+  async updateProduct(product: Product, reason?: string): Promise<void> {
+    await this.request('/products', 'POST', { product, reason, tenantId: product.tenantId }, { tenantId: product.tenantId });
   }
 
   async deleteProduct(productId: string, tenantId: string): Promise<void> {
     await this.request('/products', 'DELETE', null, { id: productId, tenantId });
   }
 
+  async adjustStock(tenantId: string, productId: string, batchId: string, quantity: number, reason: string): Promise<void> {
+    await this.request('/stock-adjust', 'POST', { productId, batchId, quantity, reason, tenantId });
+  }
+
+  async getStockLedger(filters: StockLedgerFilters): Promise<StockLedgerEntry[]> {
+    return this.request('/stock-ledger', 'GET', null, filters);
+  }
+
+  async getStockWriteOffs(tenantId: string, startDate?: string, endDate?: string): Promise<StockWriteOff[]> {
+    return this.request('/stock-writeoffs', 'GET', null, { tenantId, startDate, endDate });
+  }
+
   /**
-   * FIFO STOCK REDUCTION LOGIC
-   * Automatically iterates through batches from oldest to newest
+   * Units on hand per product at the end of `date`, replayed from the stock ledger.
    */
-  async deductStockFIFO(tenantId: string, productId: string, quantityToDeduct: number): Promise<void> {
-    const products = await this.getProducts(tenantId);
-    const product = products.find(p => p.id === productId);
-    
-    if (!product) throw new Error("Product not found in registry.");
-    
-    let remainingToDeduct = quantityToDeduct;
-    const updatedBatches = [...(product.batches || [])].sort((a, b) => 
-        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-    );
-
-    for (let i = 0; i < updatedBatches.length; i++) {
-        if (remainingToDeduct <= 0) break;
-        
-        const batch = updatedBatches[i];
-        if (batch.quantity >= remainingToDeduct) {
-            batch.quantity -= remainingToDeduct;
-            remainingToDeduct = 0;
-        } else {
-            remainingToDeduct -= batch.quantity;
-            batch.quantity = 0;
-        }
-    }
+  async getStockOnHand(tenantId: string, date: string): Promise<{ productId: string; quantity: number }[]> {
+    const res = await this.request('/stock-on-hand', 'GET', null, { tenantId, date });
+    return res.products || [];
+  }
 
-    // IMPORTANT: Do NOT filter out zero quantity batches.
-    // Keeping them ensures 'originalQuantity' is preserved for history calculations.
-    // The UI will filter them out for 'Live Stock' view.
-    
-    await this.updateProduct({
-        ...product,
-        batches: updatedBatches
-    });
+  /**
+   * Public login-screen branding for a custom domain.
+   * Only the shop name and logo are exposed before sign-in.
+   */
+  async getBranding(host: string): Promise<Tenant | null> {
+    return this.request('/branding', 'GET', null, { host });
   }
 
   async getTenants(): Promise<Tenant[]> {
@@ -177,6 +252,20 @@ class BackendService {
     await this.request('/tenants', 'PUT', payload);
   }
 
+  async getUnmappedStatuses(tenantId: string): Promise<{ provider: CourierProviderId; courierStatus: string; count: number; lastSeen: string }[]> {
+    return this.request('/unmapped-statuses', 'GET', null, { tenantId });
+  }
+
+  async replayUnmappedStatuses(tenantId: string): Promise<{ replayed: number; stillUnmapped: number }> {
+    return this.request('/unmapped-statuses', 'POST', { tenantId });
+  }
+
+  // Issues a new courier webhook secret; the previous webhook URL stops working immediately
+  async rotateWebhookSecret(tenantId: string): Promise<string> {
+    const res = await this.request('/webhook-secret', 'POST', { tenantId });
+    return res.webhookSecret;
+  }
+
   async createTenant(formData: any): Promise<void> {
     const tenant = {
       id: formData.name,
@@ -212,10 +301,25 @@ class BackendService {
     return data.cities || [];
   }
 
+  // Adds plain names to the registry; names already there are left as they are
   async updateGlobalCities(cities: string[]): Promise<void> {
     await this.request('/cities', 'POST', { cities });
   }
 
+  async getCityRegistry(): Promise<CityRecord[]> {
+    const data = await this.request('/cities', 'GET');
+    return data.registry || [];
+  }
+
+  // `previousId` renames: the record stored under it is replaced
+  async saveCity(city: CityRecord, previousId?: string): Promise<CityRecord> {
+    return this.request('/cities', 'POST', { city: { ...city, previousId } });
+  }
+
+  async deleteCity(id: string): Promise<void> {
+    await this.request('/cities', 'DELETE', null, { id });
+  }
+
   async getTeamMembers(tenantId: string): Promise<User[]> {
     return this.request('/users', 'GET', null, { tenantId });
   }
@@ -233,9 +337,80 @@ class BackendService {
     return this.request('/ship-order', 'POST', { order, tenantId });
   }
 
-  async getCustomerHistory(phone: string, tenantId: string): Promise<any> {
-    if (!phone) return { status: CustomerStatus.NEW, count: 0, returns: 0 };
-    return this.request('/customer-history', 'GET', null, { phone, tenantId });
+  // Queues orders for the server-side dispatch worker; `runNow` makes the first attempt before returning
+  async enqueueDispatch(orderIds: string[], tenantId: string, runNow = false): Promise<{ jobs: DispatchJob[]; skipped: { orderId: string; reason: string }[] }> {
+    return this.request('/dispatch-jobs', 'POST', { orderIds, runNow, tenantId });
+  }
+
+  async getDispatchJobs(tenantId: string, status: DispatchJobStatus | 'ALL' = 'ALL'): Promise<{ jobs: DispatchJob[]; counts: Partial<Record<DispatchJobStatus, number>> }> {
+    return this.request('/dispatch-jobs', 'GET', null, { tenantId, status });
+  }
+
+  async updateDispatchJob(id: string, action: 'RETRY' | 'CANCEL', tenantId: string): Promise<DispatchJob> {
+    return this.request('/dispatch-jobs', 'PUT', { id, action, tenantId });
+  }
+
+  async getWaybillPool(tenantId: string, accountId?: string, status: WaybillStatus | 'ALL' = 'ALL', search = ''): Promise<{ summary: WaybillPoolSummary[]; waybills: PooledWaybill[] }> {
+    return this.request('/waybill-pool', 'GET', null, { tenantId, accountId, status, search });
+  }
+
+  // `input` is raw text: one waybill per line or comma, or FROM-TO ranges
+  async addPoolWaybills(tenantId: string, accountId: string, input: string): Promise<{ added: number; duplicates: number }> {
+    return this.request('/waybill-pool', 'POST', { tenantId, accountId, input });
+  }
+
+  async voidPoolWaybills(tenantId: string, accountId: string, waybills: string[], reason: string): Promise<{ voided: number; skipped: number }> {
+    return this.request('/waybill-pool', 'PUT', { tenantId, accountId, waybills, action: 'VOID', reason });
+  }
+
+  // `content` is the statement file read as a data URL; the server decodes it. Importing the
+  // same `reference` again replaces that statement's lines.
+  async importCodStatement(tenantId: string, accountId: string, reference: string, fileName: string, content: string): Promise<CodStatement> {
+    return this.request('/cod-statements', 'POST', { tenantId, accountId, reference, fileName, content });
+  }
+
+  async getCodStatements(tenantId: string): Promise<CodStatement[]> {
+    return this.request('/cod-statements', 'GET', null, { tenantId });
+  }
+
+  async getCodReceivables(tenantId: string): Promise<{ receivables: CodReceivable[]; flagged: Order[] }> {
+    return this.request('/cod-receivables', 'GET', null, { tenantId });
+  }
+
+  async getManifests(tenantId: string): Promise<{ manifests: PickupManifest[]; unmanifested: UnmanifestedSummary }> {
+    return this.request('/manifests', 'GET', null, { tenantId });
+  }
+
+  // With `orderIds`, one manifest per courier account among them; else every waiting parcel of `accountId`
+  async createManifests(tenantId: string, orderIds?: string[], accountId?: string): Promise<PickupManifest[]> {
+    return this.request('/manifests', 'POST', { tenantId, orderIds, accountId });
+  }
+
+  async scanManifestParcel(tenantId: string, id: string, code: string): Promise<{ manifest: PickupManifest; orderId: string; duplicate: boolean }> {
+    return this.request('/manifests', 'PUT', { tenantId, id, action: 'SCAN', code });
+  }
+
+  async removeManifestParcel(tenantId: string, id: string, orderId: string): Promise<PickupManifest> {
+    return this.request('/manifests', 'PUT', { tenantId, id, action: 'REMOVE', orderId });
+  }
+
+  async handOverManifest(tenantId: string, id: string, riderName?: string): Promise<PickupManifest> {
+    return this.request('/manifests', 'PUT', { tenantId, id, action: 'HAND_OVER', riderName });
+  }
+
+  async deleteManifest(tenantId: string, id: string): Promise<void> {
+    await this.request('/manifests', 'DELETE', null, { tenantId, id });
+  }
+
+  // Asks the courier for the order's current status right away instead of waiting for the poller
+  async refreshTracking(orderId: string, tenantId: string): Promise<{ order: Order; outcome: string; courierStatus: string | null; result: string }> {
+    return this.request('/refresh-tracking', 'POST', { orderId, tenantId });
+  }
+
+  // `amount` and `orderId` grade the order being worked on rather than the number alone
+  async getCustomerHistory(phone: string, tenantId: string, amount?: number, orderId?: string): Promise<any> {
+    if (!phone) return { status: CustomerStatus.NEW, count: 0, returns: 0, reasons: [] };
+    return this.request('/customer-history', 'GET', null, { phone, tenantId, amount: amount || undefined, orderId });
   }
 
   async getCustomerDetailedHistory(phone: string, tenantId: string): Promise<Order[]> {
@@ -244,12 +419,65 @@ class BackendService {
     return Array.isArray(res) ? res : [];
   }
 
-  async processReturn(trackingOrId: string, tenantId: string): Promise<Order | null> {
-    return this.request('/process-return', 'POST', { trackingOrId, tenantId });
+  async getCustomer(tenantId: string, id: string): Promise<{ customer: ScoredCustomer; orders: Order[]; network: NetworkFlag | null; inNetwork: boolean }> {
+    return this.request('/customers', 'GET', null, { tenantId, id });
+  }
+
+  // Profiles for a page of orders, in one call; phones without a profile are left out
+  async getCustomersByIds(tenantId: string, ids: string[]): Promise<ScoredCustomer[]> {
+    if (ids.length === 0) return [];
+    const res = await this.request('/customers', 'GET', null, { tenantId, ids: ids.join(',') });
+    return Array.isArray(res) ? res : [];
+  }
+
+  async addCustomerNote(tenantId: string, id: string, text: string): Promise<ScoredCustomer> {
+    return this.request('/customers', 'PUT', { tenantId, id, action: 'ADD_NOTE', text });
+  }
+
+  async deleteCustomerNote(tenantId: string, id: string, noteId: string): Promise<ScoredCustomer> {
+    return this.request('/customers', 'PUT', { tenantId, id, action: 'DELETE_NOTE', noteId });
+  }
+
+  // Shared fraud blocklist: shops report their own customers, DEV_ADMIN confirms or removes
+  async reportToFraudNetwork(tenantId: string, phone: string, category: FraudReasonCode, reason: string): Promise<NetworkFlag> {
+    return this.request('/fraud-reports', 'POST', { tenantId, phone, category, reason });
+  }
+
+  async withdrawFraudReport(tenantId: string, phone: string): Promise<NetworkFlag> {
+    return this.request('/fraud-reports', 'DELETE', null, { tenantId, phone });
+  }
+
+  async getFraudBlocklist(search?: string): Promise<(FraudListing & { flagged: boolean })[]> {
+    const res = await this.request('/fraud-blocklist', 'GET', null, { search: search || undefined });
+    return Array.isArray(res) ? res : [];
+  }
+
+  async confirmFraudPhone(phone: string, note: string): Promise<FraudListing> {
+    return this.request('/fraud-blocklist', 'POST', { phone, note });
+  }
+
+  async unconfirmFraudPhone(id: string): Promise<FraudListing> {
+    return this.request('/fraud-blocklist', 'PUT', { id });
+  }
+
+  async removeFraudPhone(id: string): Promise<void> {
+    await this.request('/fraud-blocklist', 'DELETE', null, { id });
+  }
+
+  async processReturn(trackingOrId: string, tenantId: string, condition: ReturnCondition = ReturnCondition.RESELLABLE): Promise<Order | null> {
+    return this.request('/process-return', 'POST', { trackingOrId, condition, tenantId });
+  }
+
+  async getSecurityLogs(filters: SecurityLogFilters = {}): Promise<SecurityLog[]> {
+    return this.request('/security-logs', 'GET', null, filters);
+  }
+
+  async getWebhookInbox(filters: WebhookInboxFilters = {}): Promise<WebhookInboxEntry[]> {
+    return this.request('/webhook-inbox', 'GET', null, filters);
   }
 
-  async getSecurityLogs(): Promise<any[]> {
-    return this.request('/security-logs', 'GET');
+  async replayWebhook(id: string): Promise<WebhookInboxEntry> {
+    return this.request('/webhook-replay', 'POST', { id });
   }
 }
 export const db = new BackendService();
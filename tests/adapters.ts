@@ -0,0 +1,83 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import type { HandlerContext, HandlerEvent, HandlerResponse } from '@netlify/functions';
+import { apiRouter } from '../server/express';
+import { handler } from '../netlify/functions/api';
+
+export interface CallOptions {
+  token?: string;
+  query?: Record<string, string>;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface Reply {
+  status: number;
+  body: any;
+  headers: Record<string, string | undefined>;
+}
+
+// One way of reaching the shared route core; every scenario runs through each of them
+export interface Adapter {
+  name: string;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  call(method: string, path: string, options?: CallOptions): Promise<Reply>;
+}
+
+const requestHeaders = ({ token, body, headers }: CallOptions) => ({
+  ...(body !== undefined && typeof body !== 'string' ? { 'content-type': 'application/json' } : {}),
+  ...(token ? { authorization: `Bearer ${token}` } : {}),
+  ...headers
+});
+
+const encodeBody = (body: any) => (body === undefined || typeof body === 'string' ? body : JSON.stringify(body));
+
+const decode = (text: string) => {
+  try { return JSON.parse(text); } catch (e) { return text; }
+};
+
+// server.ts mounts the same router; the static frontend and workers are left out
+export function expressAdapter(): Adapter {
+  let server: Server | null = null;
+  let base = '';
+  return {
+    name: 'Express',
+    start: () => new Promise(resolve => {
+      const app = express();
+      app.use('/api', apiRouter());
+      server = app.listen(0, '127.0.0.1', () => {
+        base = `http://127.0.0.1:${(server!.address() as AddressInfo).port}/api`;
+        resolve();
+      });
+    }),
+    stop: () => new Promise((resolve, reject) => server ? server.close(err => (err ? reject(err) : resolve())) : resolve()),
+    async call(method, path, options = {}) {
+      const url = `${base}${path}${options.query ? `?${new URLSearchParams(options.query)}` : ''}`;
+      const response = await fetch(url, { method, headers: requestHeaders(options), body: encodeBody(options.body) });
+      return { status: response.status, body: decode(await response.text()), headers: Object.fromEntries(response.headers) };
+    }
+  };
+}
+
+// Calls the function handler with the event Netlify builds for the /api/* redirect
+export function netlifyAdapter(): Adapter {
+  return {
+    name: 'Netlify',
+    start: async () => {},
+    stop: async () => {},
+    async call(method, path, options = {}) {
+      const event = {
+        httpMethod: method,
+        path: `/api${path}`,
+        headers: requestHeaders(options),
+        queryStringParameters: options.query || null,
+        body: encodeBody(options.body) ?? null,
+        isBase64Encoded: false
+      } as unknown as HandlerEvent;
+      const response = (await handler(event, {} as HandlerContext)) as HandlerResponse;
+      return { status: response.statusCode, body: decode(response.body || ''), headers: (response.headers || {}) as Record<string, string> };
+    }
+  };
+}
@@ -0,0 +1,419 @@
+import { TEST_DB_NAME } from './env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { OrderStatus, UserRole } from '../types';
+import { hashPassword } from '../server/auth';
+import { closeConnections } from '../server/db';
+import { expressAdapter, netlifyAdapter } from './adapters';
+import { connectTestMongo } from './mongo';
+
+// Runs the shared route core (server/api.ts) through both of its adapters against a local
+// MongoDB (TEST_MONGODB_URI, default mongodb://127.0.0.1:27017). Each run gets its own
+// database and drops it afterwards; without a reachable server the suite is skipped.
+
+const DEV_ADMIN = { id: 'u-dev', username: 'dev-root', password: 'dev-pass' };
+const COURIER = { id: 'fde-main', provider: 'FDE', label: 'FDE', apiKey: 'test-key', clientId: 'test-client', mode: 'STANDARD', isDefault: true };
+
+const { mongo: client, skip } = await connectTestMongo();
+const mongo = client!;
+
+describe('API core', { skip }, () => {
+  before(async () => {
+    await mongo.db(TEST_DB_NAME).collection('users').insertOne({
+      id: DEV_ADMIN.id, username: DEV_ADMIN.username, role: UserRole.DEV_ADMIN, passwordHash: hashPassword(DEV_ADMIN.password)
+    });
+  });
+
+  after(async () => {
+    await closeConnections();
+    await mongo.db(TEST_DB_NAME).dropDatabase().catch(() => {});
+    await mongo.close();
+  });
+
+  for (const adapter of [expressAdapter(), netlifyAdapter()]) {
+    describe(`${adapter.name} adapter`, () => {
+      // Usernames are global, so every adapter provisions its own shops and staff
+      const prefix = adapter.name.toLowerCase();
+      const shopId = `${prefix}-shop`;
+      const rivalId = `${prefix}-rival`;
+      const productId = `${prefix}-p1`;
+      let devToken = '';
+      let ownerToken = '';
+      let rivalToken = '';
+
+      const login = async (username: string, password: string) => {
+        const res = await adapter.call('POST', '/login', { body: { username, password } });
+        assert.equal(res.status, 200, JSON.stringify(res.body));
+        return res.body.token as string;
+      };
+
+      const provisionShop = async (tenantId: string) => {
+        const res = await adapter.call('POST', '/tenants', {
+          token: devToken,
+          body: {
+            tenant: { id: tenantId, name: tenantId, mongoUri: '', isActive: true, settings: { shopName: tenantId, shopAddress: '', shopPhone: '', couriers: [COURIER] } },
+            adminUser: { id: `u-${tenantId}`, username: `${tenantId}-owner`, password: 'owner-pass', role: UserRole.SUPER_ADMIN, tenantId }
+          }
+        });
+        assert.equal(res.status, 200, JSON.stringify(res.body));
+        return login(`${tenantId}-owner`, 'owner-pass');
+      };
+
+      const placeOrder = (token: string, id: string, phone: string) => adapter.call('POST', '/orders', {
+        token,
+        body: {
+          order: {
+            id, customerName: 'Nimal Perera', customerPhone: phone, customerAddress: '12 Galle Road', customerCity: 'Colombo',
+            items: [{ productId, quantity: 1, price: 2500, name: 'Kettle' }], totalAmount: 2500,
+            status: OrderStatus.PENDING, createdAt: new Date().toISOString(), logs: []
+          }
+        }
+      });
+
+      const orderStatus = async (token: string, id: string) =>
+        (await adapter.call('GET', '/orders', { token, query: { id } })).body?.status;
+
+      // A parcel already with the courier, as dispatch leaves it
+      const shipParcel = (tenantId: string, id: string, waybill: string) => mongo.db(TEST_DB_NAME).collection('orders').insertOne({
+        id, tenantId, status: OrderStatus.SHIPPED, trackingNumber: waybill, courierProvider: 'FDE', courierAccountId: COURIER.id,
+        customerName: 'Kamal', customerPhone: '0771112223', customerAddress: 'Kandy', items: [], totalAmount: 3000,
+        createdAt: new Date().toISOString(), logs: []
+      });
+
+      const webhookSecret = async (tenantId: string) =>
+        (await mongo.db(TEST_DB_NAME).collection('tenants').findOne({ id: tenantId }))!.settings.webhookSecret as string;
+
+      const courierCallback = async (fields: Record<string, string>, tenantId = shopId) => adapter.call('POST', '/courier-webhook', {
+        query: { tenant: tenantId, token: await webhookSecret(tenantId) },
+        body: new URLSearchParams(fields).toString(),
+        headers: { 'content-type': 'application/x-www-form-urlencoded' }
+      });
+
+      before(async () => {
+        await adapter.start();
+        devToken = await login(DEV_ADMIN.username, DEV_ADMIN.password);
+        ownerToken = await provisionShop(shopId);
+        rivalToken = await provisionShop(rivalId);
+      });
+
+      after(() => adapter.stop());
+
+      it('answers health checks without a session', async () => {
+        const res = await adapter.call('GET', '/health');
+        assert.equal(res.status, 200);
+        assert.deepEqual(res.body, { status: 'connected' });
+      });
+
+      it('returns 404 for unknown routes and 405 for unsupported methods', async () => {
+        assert.equal((await adapter.call('GET', '/nowhere')).status, 404);
+        assert.equal((await adapter.call('PATCH', '/orders', { token: ownerToken })).status, 405);
+      });
+
+      it('rejects missing sessions and wrong passwords', async () => {
+        assert.equal((await adapter.call('GET', '/orders')).status, 401);
+        assert.equal((await adapter.call('GET', '/orders', { token: 'forged.token' })).status, 401);
+        assert.equal((await adapter.call('POST', '/login', { body: { username: `${shopId}-owner`, password: 'wrong' } })).status, 401);
+        assert.equal((await adapter.call('POST', '/login', { body: { username: { $ne: '' }, password: { $ne: '' } } })).status, 400);
+        assert.equal((await adapter.call('POST', '/login', { body: { username: `${shopId}-owner` } })).status, 400);
+      });
+
+      it('keeps provisioning with DEV_ADMIN', async () => {
+        const res = await adapter.call('POST', '/tenants', {
+          token: ownerToken,
+          body: { tenant: { id: `${prefix}-other`, name: 'Other', settings: {} } }
+        });
+        assert.equal(res.status, 403);
+      });
+
+      it('normalises phones on new orders and refuses numbers that are not Sri Lankan', async () => {
+        assert.equal((await placeOrder(ownerToken, `${prefix}-o1`, '+94 77 123 4567')).status, 200);
+        const stored = await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-o1` } });
+        assert.equal(stored.status, 200);
+        assert.equal(stored.body.customerPhone, '0771234567');
+        assert.equal(stored.body.tenantId, shopId);
+
+        const invalid = await placeOrder(ownerToken, `${prefix}-o2`, '12345');
+        assert.equal(invalid.status, 422);
+        assert.equal(invalid.body.field, 'customerPhone');
+      });
+
+      it('drops lifecycle fields sent with a new order', async () => {
+        const res = await adapter.call('POST', '/orders', {
+          token: ownerToken,
+          body: { order: {
+            id: `${prefix}-n1`, customerPhone: '0771234567', status: OrderStatus.PENDING, items: [], totalAmount: 0,
+            stockAllocations: [{ productId, batchId: 'b1', quantity: 3, buyingPrice: 0 }], courierRef: '999', bookedWaybill: 'X1', shippedAt: new Date().toISOString(), codStatus: 'REMITTED'
+          } }
+        });
+        assert.equal(res.status, 200, JSON.stringify(res.body));
+        const order = (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-n1` } })).body;
+        assert.equal(order.status, OrderStatus.PENDING);
+        for (const field of ['stockAllocations', 'courierRef', 'bookedWaybill', 'shippedAt', 'codStatus']) assert.equal(order[field], undefined, field);
+      });
+
+      it('refuses item quantities that are not whole numbers above zero', async () => {
+        for (const quantity of ['2', 0, -1, 1.5]) {
+          const res = await adapter.call('POST', '/orders', {
+            token: ownerToken,
+            body: { order: { id: `${prefix}-q1`, customerPhone: '0771234567', status: OrderStatus.PENDING, items: [{ productId, quantity, price: 2500, name: 'Kettle' }] } }
+          });
+          assert.equal(res.status, 422, `quantity ${JSON.stringify(quantity)}`);
+          assert.equal(res.body.field, 'items');
+        }
+        const patched = await adapter.call('POST', '/orders/transition', {
+          token: ownerToken,
+          body: { orderId: `${prefix}-o1`, status: OrderStatus.HOLD, patch: { items: [{ productId, quantity: -1, price: 2500, name: 'Kettle' }] } }
+        });
+        assert.equal(patched.status, 422);
+      });
+
+      it('reserves stock when an order is confirmed', async () => {
+        const product = {
+          id: productId, sku: 'KTL-1', name: 'Kettle', price: 2500,
+          batches: [{ id: 'b1', quantity: 5, originalQuantity: 5, buyingPrice: 1200, createdAt: new Date().toISOString() }]
+        };
+        assert.equal((await adapter.call('POST', '/products', { token: ownerToken, body: { product } })).status, 200);
+
+        const confirmed = await adapter.call('POST', '/orders/transition', { token: ownerToken, body: { orderId: `${prefix}-o1`, status: OrderStatus.CONFIRMED } });
+        assert.equal(confirmed.status, 200, JSON.stringify(confirmed.body));
+        assert.equal(confirmed.body.status, OrderStatus.CONFIRMED);
+
+        const products = await adapter.call('GET', '/products', { token: ownerToken });
+        assert.equal(products.body.find((p: any) => p.id === productId).batches[0].reserved, 1);
+
+        const again = await adapter.call('POST', '/orders/transition', { token: ownerToken, body: { orderId: `${prefix}-o1`, status: OrderStatus.CONFIRMED } });
+        assert.equal(again.status, 409);
+      });
+
+      it('only moves status through the transition endpoint', async () => {
+        const res = await adapter.call('POST', '/orders', {
+          token: ownerToken,
+          body: { order: { id: `${prefix}-o1`, customerPhone: '0771234567', status: OrderStatus.DELIVERED } }
+        });
+        assert.equal(res.status, 409);
+      });
+
+      it('locks products and quantities once an order holds stock', async () => {
+        const doubled = [{ productId, quantity: 2, price: 2500, name: 'Kettle' }];
+        const save = await adapter.call('POST', '/orders', { token: ownerToken, body: { order: { id: `${prefix}-o1`, customerPhone: '0771234567', items: doubled } } });
+        assert.equal(save.status, 409);
+        const patched = await adapter.call('POST', '/orders/transition', { token: ownerToken, body: { orderId: `${prefix}-o1`, status: OrderStatus.HOLD, patch: { items: doubled } } });
+        assert.equal(patched.status, 409);
+
+        const held = await adapter.call('POST', '/orders/transition', { token: ownerToken, body: { orderId: `${prefix}-o1`, status: OrderStatus.HOLD } });
+        assert.equal(held.status, 200, JSON.stringify(held.body));
+        const products = await adapter.call('GET', '/products', { token: ownerToken });
+        assert.equal(products.body.find((p: any) => p.id === productId).batches[0].reserved, 0);
+      });
+
+      it('refuses to ship an order that left CONFIRMED', async () => {
+        const res = await adapter.call('POST', '/ship-order', { token: ownerToken, body: { order: { id: `${prefix}-o1`, tenantId: shopId } } });
+        assert.equal(res.status, 409);
+        const order = (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-o1` } })).body;
+        assert.equal(order.status, OrderStatus.HOLD);
+        assert.equal(order.dispatchLockUntil ?? null, null);
+      });
+
+      it('books a returned parcel back in once, however often it is scanned', async () => {
+        await mongo.db(TEST_DB_NAME).collection('orders').insertOne({
+          id: `${prefix}-s1`, tenantId: shopId, status: OrderStatus.SHIPPED, trackingNumber: `${prefix}-W1`, customerName: 'Kamal',
+          customerPhone: '0771112223', customerAddress: 'Kandy', items: [{ productId, quantity: 1, price: 2500, name: 'Kettle' }],
+          stockAllocations: [{ productId, batchId: 'b1', quantity: 1, buyingPrice: 1200 }], totalAmount: 2500,
+          createdAt: new Date().toISOString(), logs: []
+        });
+        for (const expected of [undefined, true]) {
+          const res = await adapter.call('POST', '/process-return', { token: ownerToken, body: { trackingOrId: `${prefix}-s1` } });
+          assert.equal(res.status, 200, JSON.stringify(res.body));
+          assert.equal(res.body.alreadyProcessed, expected);
+        }
+        const products = await adapter.call('GET', '/products', { token: ownerToken });
+        assert.equal(products.body.find((p: any) => p.id === productId).batches.filter((b: any) => b.isReturn).length, 1);
+      });
+
+      it('writes every stock movement to the ledger and sums it by date', async () => {
+        const product = {
+          id: `${prefix}-p2`, sku: 'MUG-1', name: 'Mug', price: 900,
+          batches: [{ id: 'm1', quantity: 10, originalQuantity: 10, buyingPrice: 300, createdAt: new Date().toISOString() }]
+        };
+        assert.equal((await adapter.call('POST', '/products', { token: ownerToken, body: { product, reason: 'Delivery from supplier' } })).status, 200);
+        const adjust = (body: any) => adapter.call('POST', '/stock-adjust', { token: ownerToken, body: { productId: product.id, batchId: 'm1', ...body } });
+        assert.equal((await adjust({ quantity: -3 })).status, 400);
+        assert.equal((await adjust({ quantity: 1.5, reason: 'Count' })).status, 400);
+        assert.equal((await adjust({ quantity: -11, reason: 'Damaged' })).status, 409);
+        assert.equal((await adjust({ quantity: -3, reason: 'Damaged' })).status, 200);
+
+        const ledger = (await adapter.call('GET', '/stock-ledger', { token: ownerToken, query: { productId: product.id } })).body;
+        const moves = ledger.map((e: any) => ({ type: e.type, quantity: e.quantity, balance: e.balance, reason: e.reason }));
+        assert.equal(moves.length, 2);
+        assert.deepEqual(moves.find((m: any) => m.type === 'RECEIPT'), { type: 'RECEIPT', quantity: 10, balance: 10, reason: 'Delivery from supplier' });
+        assert.deepEqual(moves.find((m: any) => m.type === 'ADJUSTMENT'), { type: 'ADJUSTMENT', quantity: -3, balance: 7, reason: 'Damaged' });
+
+        const onHand = (await adapter.call('GET', '/stock-on-hand', { token: ownerToken })).body;
+        assert.equal(onHand.products.find((p: any) => p.productId === product.id).quantity, 7);
+        assert.deepEqual((await adapter.call('GET', '/stock-on-hand', { token: ownerToken, query: { date: '2000-01-01' } })).body.products, []);
+        assert.equal((await adapter.call('GET', '/stock-on-hand', { token: ownerToken, query: { date: 'yesterday' } })).status, 400);
+      });
+
+      it('links older orders to customer profiles only when DEV_ADMIN migrates them', async () => {
+        await mongo.db(TEST_DB_NAME).collection('orders').insertOne({
+          id: `${prefix}-legacy`, tenantId: shopId, status: OrderStatus.DELIVERED, customerName: 'Sunil', customerPhone: '+94 76 555 1234',
+          customerAddress: 'Galle', items: [], totalAmount: 1800, createdAt: new Date().toISOString(), logs: []
+        });
+        const unlinked = await adapter.call('GET', '/customers', { token: ownerToken, query: { id: '0765551234' } });
+        assert.equal(unlinked.status, 404);
+        assert.equal((await adapter.call('POST', '/customers/migrate', { token: ownerToken, body: { tenantId: shopId } })).status, 403);
+
+        const run = await adapter.call('POST', '/customers/migrate', { token: devToken, body: { tenantId: shopId } });
+        assert.equal(run.status, 200, JSON.stringify(run.body));
+        assert.equal(run.body.done, true);
+        const order = (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-legacy` } })).body;
+        assert.equal(order.customerPhone, '0765551234');
+        assert.equal(order.customerId, '0765551234');
+        const profile = await adapter.call('GET', '/customers', { token: ownerToken, query: { id: '0765551234' } });
+        assert.equal(profile.body.customer.lifetimeValue, 1800);
+
+        const again = await adapter.call('POST', '/customers/migrate', { token: devToken, body: { tenantId: shopId } });
+        assert.deepEqual({ ...again.body, updatedAt: 0 }, { ...run.body, updatedAt: 0 });
+      });
+
+      it('keeps tenants apart whatever tenantId the caller sends', async () => {
+        assert.equal((await placeOrder(rivalToken, `${prefix}-r1`, '0712345678')).status, 200);
+        const res = await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-r1`, tenantId: rivalId } });
+        assert.equal(res.status, 200);
+        assert.equal(res.body, null);
+
+        const list = await adapter.call('GET', '/orders', { token: rivalToken, query: { tenantId: shopId } });
+        assert.deepEqual(list.body.data.map((o: any) => o.id), [`${prefix}-r1`]);
+      });
+
+      it('refuses staff grants above their own access', async () => {
+        const staff = { id: `u-${prefix}-staff`, username: `${prefix}-staff`, password: 'staff-pass', role: UserRole.ADMIN, permissions: ['team'] };
+        assert.equal((await adapter.call('POST', '/users', { token: ownerToken, body: staff })).status, 200);
+        const staffToken = await login(staff.username, staff.password);
+
+        const owner = { id: `u-${prefix}-partner`, username: `${prefix}-partner`, password: 'x', role: UserRole.SUPER_ADMIN };
+        assert.equal((await adapter.call('POST', '/users', { token: staffToken, body: owner })).status, 403);
+        const financials = { id: `u-${prefix}-clerk`, username: `${prefix}-clerk`, password: 'x', role: UserRole.ADMIN, permissions: ['financials'] };
+        assert.equal((await adapter.call('POST', '/users', { token: staffToken, body: financials })).status, 403);
+        const packer = { ...financials, permissions: ['selling'] };
+        assert.equal((await adapter.call('POST', '/users', { token: staffToken, body: packer })).status, 200);
+      });
+
+      it('replaces a re-imported COD statement instead of adding to it', async () => {
+        const waybill = prefix === 'express' ? '700001' : '700002';
+        await mongo.db(TEST_DB_NAME).collection('orders').insertOne({
+          id: `${prefix}-d1`, tenantId: shopId, status: OrderStatus.DELIVERED, trackingNumber: waybill, courierProvider: 'FDE',
+          courierAccountId: COURIER.id, customerName: 'Kamal', customerPhone: '0771112223', customerAddress: 'Kandy', items: [],
+          totalAmount: 3000, createdAt: new Date().toISOString(), deliveredAt: new Date().toISOString(), logs: []
+        });
+        const importStatement = (csv: string) => adapter.call('POST', '/cod-statements', {
+          token: ownerToken,
+          body: { accountId: COURIER.id, reference: 'FDE-0912', fileName: 'payout.csv', content: Buffer.from(csv).toString('base64') }
+        });
+        const stored = async () => (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-d1` } })).body;
+
+        const first = await importStatement(`Waybill No,COD Amount (LKR),Delivery Charge,Paid Date,Remit Ref\n${waybill},3000,350,2026-09-12,R-88\n`);
+        assert.equal(first.status, 200, JSON.stringify(first.body));
+        assert.equal(first.body.matched, 1);
+        assert.deepEqual([(await stored()).codRemitted, (await stored()).courierFee], [3000, 350]);
+
+        const corrected = await importStatement(`Waybill No,COD Amount (LKR),Delivery Charge,Paid Date,Remit Ref\n${waybill},3000,400,2026-09-12,R-88\n`);
+        assert.equal(corrected.body.revision, 2);
+        const order = await stored();
+        assert.deepEqual([order.codRemitted, order.courierFee, order.codStatus], [3000, 400, 'REMITTED']);
+      });
+
+      it('keeps the waybill of an order the courier already has', async () => {
+        const res = await adapter.call('POST', '/orders', { token: ownerToken, body: { order: { id: `${prefix}-d1`, trackingNumber: '799999' } } });
+        assert.equal(res.status, 409);
+        const order = (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-d1` } })).body;
+        assert.notEqual(order.trackingNumber, '799999');
+      });
+
+      it('refuses status rules that map to a status a courier cannot report', async () => {
+        const rule = { id: 'sr-1', match: 'CONTAINS', pattern: 'done', status: OrderStatus.RETURN_COMPLETED, priority: 10 };
+        const res = await adapter.call('PUT', '/tenants', {
+          token: ownerToken,
+          body: { tenant: { id: shopId, name: shopId, settings: { shopName: shopId, couriers: [COURIER], statusRules: [rule] } } }
+        });
+        assert.equal(res.status, 400);
+      });
+
+      it('rejects courier callbacks without the tenant secret', async () => {
+        const res = await adapter.call('POST', '/courier-webhook', {
+          query: { tenant: shopId, token: 'not-the-secret' },
+          body: 'waybill_id=123456&current_status=Delivered',
+          headers: { 'content-type': 'application/x-www-form-urlencoded' }
+        });
+        assert.equal(res.status, 401);
+      });
+
+      it('applies a courier callback only to the tenant it is addressed to', async () => {
+        await shipParcel(shopId, `${prefix}-w1`, '810001');
+        await shipParcel(rivalId, `${prefix}-rw1`, '810001');
+        const res = await courierCallback({ waybill_id: '810001', current_status: 'Delivery', last_update_time: '2026-09-01 10:00:00' });
+        assert.equal(res.status, 200);
+        assert.equal(res.body, 'Success');
+        assert.equal(await orderStatus(ownerToken, `${prefix}-w1`), OrderStatus.DELIVERY);
+        assert.equal(await orderStatus(rivalToken, `${prefix}-rw1`), OrderStatus.SHIPPED);
+
+        // Signed callbacks leave the token out of the URL
+        const body = new URLSearchParams({ waybill_id: '810001', current_status: 'Delivered', last_update_time: '2026-09-01 12:00:00' }).toString();
+        const signature = crypto.createHmac('sha256', await webhookSecret(shopId)).update(body).digest('hex');
+        const signed = await adapter.call('POST', '/courier-webhook', {
+          query: { tenant: shopId },
+          body,
+          headers: { 'content-type': 'application/x-www-form-urlencoded', 'x-webhook-signature': `sha256=${signature}` }
+        });
+        assert.equal(signed.status, 200);
+        assert.equal(await orderStatus(ownerToken, `${prefix}-w1`), OrderStatus.DELIVERED);
+        const forged = await adapter.call('POST', '/courier-webhook', {
+          query: { tenant: shopId },
+          body,
+          headers: { 'content-type': 'application/x-www-form-urlencoded', 'x-webhook-signature': '0'.repeat(64) }
+        });
+        assert.equal(forged.status, 401);
+
+        assert.equal((await courierCallback({ waybill_id: '899999', current_status: 'Delivered' })).body, 'Waybill Processed (Not in Registry)');
+        assert.equal((await courierCallback({ current_status: 'Delivered' })).status, 400);
+      });
+
+      it('applies each courier event once and never lets an older one move the order', async () => {
+        await shipParcel(shopId, `${prefix}-w2`, '810002');
+        const inbox = async () => (await adapter.call('GET', '/webhook-inbox', { token: devToken, query: { tenantId: shopId, waybill: '810002' } })).body;
+        const delivery = { waybill_id: '810002', current_status: 'Delivery', last_update_time: '2026-09-02 10:00:00' };
+
+        assert.equal((await courierCallback(delivery)).status, 200);
+        assert.equal((await courierCallback(delivery)).status, 200);
+        let entries = await inbox();
+        assert.equal(entries.length, 1);
+        assert.deepEqual([entries[0].status, entries[0].duplicates, entries[0].attempts], ['APPLIED', 1, 1]);
+
+        assert.equal((await courierCallback({ waybill_id: '810002', current_status: 'Transfer', last_update_time: '2026-09-02 08:00:00' })).status, 200);
+        assert.equal(await orderStatus(ownerToken, `${prefix}-w2`), OrderStatus.DELIVERY);
+        entries = await inbox();
+        assert.equal(entries.find((e: any) => e.courierStatus === 'Transfer').status, 'IGNORED');
+
+        // Wording no rule knows is kept on the order for review and stays in the inbox for replay
+        assert.equal((await courierCallback({ waybill_id: '810002', current_status: 'Handed to rider', last_update_time: '2026-09-02 11:00:00' })).status, 200);
+        const unmapped = (await inbox()).find((e: any) => e.courierStatus === 'Handed to rider');
+        assert.equal(unmapped.status, 'UNMAPPED');
+        const order = (await adapter.call('GET', '/orders', { token: ownerToken, query: { id: `${prefix}-w2` } })).body;
+        assert.deepEqual([order.status, order.courierStatus], [OrderStatus.DELIVERY, 'Handed to rider']);
+
+        const replayed = await adapter.call('POST', '/webhook-replay', { token: devToken, body: { id: unmapped.id } });
+        assert.equal(replayed.status, 200);
+        assert.deepEqual([replayed.body.status, replayed.body.attempts], ['UNMAPPED', 2]);
+      });
+    });
+  }
+});
+
+describe('Netlify adapter preflight', () => {
+  it('answers CORS preflight without touching the core', async () => {
+    const res = await netlifyAdapter().call('OPTIONS', '/orders');
+    assert.equal(res.status, 204);
+    assert.equal(res.headers['Access-Control-Allow-Origin'], '*');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourierProviderId } from '../types';
+import { SEED_CITIES, cityFromName, cityId, courierCityName, matchCity, resolveCity, suggestCitiesFromAddress } from '../utils/cities';
+
+const names = (matches: { city: { name: string } }[]) => matches.map(m => m.city.name);
+
+describe('city registry', () => {
+  it('ids cities by their name, whatever the punctuation', () => {
+    assert.equal(cityId('  Ja-Ela '), 'ja-ela');
+    assert.equal(cityId('Dehiwala-Mount Lavinia'), 'dehiwala-mount-lavinia');
+    assert.equal(new Set(SEED_CITIES.map(c => c.id)).size, SEED_CITIES.length);
+  });
+
+  it('resolves names, aliases and courier codes exactly', () => {
+    assert.equal(resolveCity('mahanuwara', SEED_CITIES)?.name, 'Kandy');
+    assert.equal(resolveCity('JA ELA', SEED_CITIES)?.name, 'Ja-Ela');
+    const coded = { ...cityFromName('Galle'), courierCodes: { [CourierProviderId.FDE]: 'GALLE CITY' } };
+    assert.equal(resolveCity('galle city', [coded])?.id, 'galle');
+    assert.equal(courierCityName(coded, CourierProviderId.FDE), 'GALLE CITY');
+    assert.equal(courierCityName(coded), 'Galle');
+  });
+
+  it('offers close spellings as suggestions but never resolves them', () => {
+    assert.deepEqual(names(matchCity('Kurunagala', SEED_CITIES)), ['Kurunegala']);
+    assert.equal(resolveCity('Kurunagala', SEED_CITIES), undefined);
+    assert.deepEqual(matchCity('Somewhere', SEED_CITIES), []);
+    assert.deepEqual(matchCity('  ', SEED_CITIES), []);
+  });
+
+  it('skips inactive cities', () => {
+    const closed = { ...cityFromName('Haputale'), active: false };
+    assert.equal(resolveCity('Haputale', [closed]), undefined);
+  });
+
+  it('finds the town at the end of a free-text address first', () => {
+    const found = suggestCitiesFromAddress('No 5, Kandy Road, Mount Lavinia', SEED_CITIES);
+    assert.equal(found[0].city.name, 'Dehiwala-Mount Lavinia');
+    assert.ok(names(found).includes('Kandy'));
+    assert.ok(found.every(m => m.score <= 1));
+    assert.deepEqual(suggestCitiesFromAddress('12/3', SEED_CITIES), []);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourierProviderId, CourierStatusRule, OrderStatus, StatusMatchType } from '../types';
+import { DEFAULT_STATUS_RULES, getStatusRules, matchCourierStatus, statusRuleProblem } from '../utils/courierStatus';
+
+const rule = (patch: Partial<CourierStatusRule>): CourierStatusRule => ({
+  id: 'r', match: StatusMatchType.CONTAINS, pattern: 'transfer', status: OrderStatus.TRANSFER, priority: 10, ...patch
+});
+
+describe('courier status rules', () => {
+  it('maps FDE wording with the defaults, return transfers before plain transfers', () => {
+    const rules = getStatusRules(null, CourierProviderId.FDE);
+    assert.equal(matchCourierStatus(rules, 'Delivered')?.status, OrderStatus.DELIVERED);
+    assert.equal(matchCourierStatus(rules, 'Return Transfer to Colombo')?.status, OrderStatus.RETURN_TRANSFER);
+    assert.equal(matchCourierStatus(rules, 'Transfer to Kandy')?.status, OrderStatus.TRANSFER);
+    assert.equal(matchCourierStatus(rules, 'Something new'), null);
+    assert.equal(matchCourierStatus(rules, undefined), null);
+  });
+
+  it('checks lower priority numbers first whatever order the rules are stored in', () => {
+    const rules = [rule({ id: 'late', pattern: 'out', status: OrderStatus.DELIVERY, priority: 50 }), rule({ id: 'early', pattern: 'out for return', status: OrderStatus.RETURNED, priority: 5 })];
+    assert.equal(matchCourierStatus(rules, 'Out for return')?.id, 'early');
+  });
+
+  it('matches EXACT on the whole trimmed status and REGEX case-insensitively', () => {
+    const exact = rule({ match: StatusMatchType.EXACT, pattern: 'On Route' });
+    assert.ok(matchCourierStatus([exact], '  on route '));
+    assert.equal(matchCourierStatus([exact], 'On Route Again'), null);
+    const regex = rule({ match: StatusMatchType.REGEX, pattern: '^hub\\s+\\d+$' });
+    assert.ok(matchCourierStatus([regex], 'HUB 12'));
+    assert.equal(matchCourierStatus([regex], 'hub twelve'), null);
+  });
+
+  it('uses the tenant table for its courier instead of the defaults', () => {
+    const own = [rule({ provider: CourierProviderId.FDE, pattern: 'delivered', status: OrderStatus.RETURNED })];
+    assert.equal(matchCourierStatus(getStatusRules({ statusRules: own }, CourierProviderId.FDE), 'Delivered')?.status, OrderStatus.RETURNED);
+  });
+
+  it('accepts the default rules and refuses statuses a courier cannot report', () => {
+    for (const r of DEFAULT_STATUS_RULES[CourierProviderId.FDE]) assert.equal(statusRuleProblem(r), null, r.id);
+    for (const status of [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.RETURN_COMPLETED, OrderStatus.REJECTED]) {
+      assert.match(statusRuleProblem(rule({ status }))!, /cannot report/);
+    }
+  });
+
+  it('refuses blank patterns and broken regular expressions', () => {
+    assert.ok(statusRuleProblem(rule({ pattern: '  ' })));
+    assert.match(statusRuleProblem(rule({ match: StatusMatchType.REGEX, pattern: '(' }))!, /regular expression/);
+  });
+
+  it('ignores stored rules that map to statuses a courier cannot report', () => {
+    const stored = [rule({ pattern: 'done', status: OrderStatus.RETURN_COMPLETED })];
+    assert.equal(matchCourierStatus(getStatusRules({ statusRules: stored }, CourierProviderId.FDE), 'Done'), null);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourierProviderId } from '../types';
+import { getCourierProvider } from '../server/couriers';
+import { HttpError } from '../server/http';
+
+const fde = getCourierProvider(CourierProviderId.FDE);
+
+describe('courier providers', () => {
+  it('defaults to FDE and refuses couriers nobody registered', () => {
+    assert.equal(getCourierProvider().id, CourierProviderId.FDE);
+    assert.throws(() => getCourierProvider('DHL'), (e: any) => e instanceof HttpError && e.status === 400);
+  });
+
+  it('reads FDE callbacks in every shape FDE sends them', () => {
+    const expected = { waybill: '700001', status: 'Delivered', updatedAt: '2026-09-01 10:00:00' };
+    const fields = { waybill_id: ' 700001 ', current_status: 'Delivered', last_update_time: '2026-09-01 10:00:00' };
+    assert.deepEqual(fde.parseWebhook(fields, {}), expected);
+    assert.deepEqual(fde.parseWebhook({ [JSON.stringify(fields)]: '' }, {}), expected);
+    assert.deepEqual(fde.parseWebhook({}, fields), expected);
+    assert.deepEqual(fde.parseWebhook({ waybillId: '700001', delivery_status: 'Delivered' }, {}), { waybill: '700001', status: 'Delivered', updatedAt: undefined });
+  });
+
+  it('ignores callbacks without a waybill', () => {
+    assert.equal(fde.parseWebhook({ current_status: 'Delivered' }, {}), null);
+    assert.equal(fde.parseWebhook('not an object', {}), null);
+  });
+
+  it('says FDE cannot cancel over its API', async () => {
+    const result = await fde.cancelShipment('700001', {} as any);
+    assert.equal(result.ok, false);
+    assert.match(result.error!, /support/);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CustomerStatus } from '../types';
+import { DEFAULT_RISK_RULES, riskRulesOf, scoreCustomer } from '../utils/customerRisk';
+
+const profile = (patch: { delivered?: number; returned?: number; rejected?: number; noAnswerStreak?: string[] } = {}) =>
+  ({ delivered: 0, returned: 0, rejected: 0, noAnswerStreak: [], ...patch });
+
+describe('customer risk', () => {
+  it('grades unknown numbers NEW and customers with deliveries REGULAR', () => {
+    assert.deepEqual(scoreCustomer(null, DEFAULT_RISK_RULES), { status: CustomerStatus.NEW, reasons: ['First order from this number'] });
+    assert.equal(scoreCustomer(profile(), DEFAULT_RISK_RULES).reasons[0], 'No delivered order yet');
+    assert.equal(scoreCustomer(profile({ delivered: 3 }), DEFAULT_RISK_RULES).status, CustomerStatus.REGULAR);
+  });
+
+  it('turns orange then red as the return ratio rises', () => {
+    assert.equal(scoreCustomer(profile({ delivered: 8, returned: 2 }), DEFAULT_RISK_RULES).status, CustomerStatus.REGULAR);
+    assert.equal(scoreCustomer(profile({ delivered: 7, returned: 3 }), DEFAULT_RISK_RULES).status, CustomerStatus.RISK_ORANGE);
+    const red = scoreCustomer(profile({ delivered: 1, returned: 1 }), DEFAULT_RISK_RULES);
+    assert.equal(red.status, CustomerStatus.RISK_RED);
+    assert.equal(red.reasons[0], 'Returned 1 of 2 settled parcels (50%)');
+  });
+
+  it('leaves the order being decided out of its own no-answer streak', () => {
+    const streak = profile({ noAnswerStreak: ['o1', 'o2'] });
+    assert.equal(scoreCustomer(streak, DEFAULT_RISK_RULES).status, CustomerStatus.RISK_ORANGE);
+    assert.equal(scoreCustomer(streak, DEFAULT_RISK_RULES, 0, 'o2').status, CustomerStatus.NEW);
+  });
+
+  it('puts the worst reason first', () => {
+    const risk = scoreCustomer(profile({ rejected: 2, noAnswerStreak: ['a', 'b', 'c', 'd'] }), DEFAULT_RISK_RULES);
+    assert.equal(risk.status, CustomerStatus.RISK_RED);
+    assert.deepEqual(risk.reasons, ['Did not answer on the last 4 orders', 'Rejected 2 orders']);
+  });
+
+  it('cautions on a large first order and stops it on top of another warning', () => {
+    assert.equal(scoreCustomer(null, DEFAULT_RISK_RULES, 20000).status, CustomerStatus.RISK_ORANGE);
+    assert.equal(scoreCustomer(profile({ rejected: 2 }), DEFAULT_RISK_RULES, 20000).status, CustomerStatus.RISK_RED);
+    assert.equal(scoreCustomer(profile({ delivered: 1 }), DEFAULT_RISK_RULES, 20000).status, CustomerStatus.REGULAR);
+  });
+
+  it('takes tenant thresholds over the defaults, and a zero threshold turns a rule off', () => {
+    const rules = riskRulesOf({ riskRules: { ...DEFAULT_RISK_RULES, rejectedOrange: 0, rejectedRed: 0 } });
+    assert.equal(scoreCustomer(profile({ rejected: 9 }), rules).status, CustomerStatus.NEW);
+    assert.deepEqual(riskRulesOf(null), DEFAULT_RISK_RULES);
+  });
+});
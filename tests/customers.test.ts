@@ -0,0 +1,80 @@
+import { TEST_DB_NAME } from './env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Customer, CustomerStatus, Order, OrderStatus } from '../types';
+import { CUSTOMERS_COLLECTION, assessCustomer, syncCustomers } from '../server/customers';
+import { connectTestMongo } from './mongo';
+
+// Customer profiles rebuilt from orders in a throwaway database
+const KEY = '0771234567';
+
+const { mongo: client, skip } = await connectTestMongo();
+const mongo = client!;
+
+const order = (id: string, day: number, status: OrderStatus, patch: Partial<Order> = {}) => ({
+  id, tenantId: 'shop', customerId: KEY, status, customerName: 'Kamal', customerPhone: KEY, customerAddress: '12 Temple Rd', customerCity: 'Kandy',
+  items: [{ productId: 'p1', name: 'Kettle', quantity: 1, price: 2000 }], totalAmount: 2000,
+  createdAt: new Date(Date.UTC(2026, 8, day)).toISOString(), logs: [], ...patch
+} as Order);
+
+describe('customer profiles', { skip }, () => {
+  const db = () => mongo.db(TEST_DB_NAME);
+  const profile = (id: string) => db().collection<Customer>(CUSTOMERS_COLLECTION).findOne({ id, tenantId: 'shop' });
+
+  before(async () => {
+    await db().collection('orders').insertMany([
+      order('c-1', 1, OrderStatus.DELIVERED, { customerPhone2: '011 234 5678' }),
+      order('c-2', 2, OrderStatus.RETURNED, { customerAddress: '12, temple rd.' }),
+      order('c-3', 3, OrderStatus.REJECTED),
+      order('c-4', 4, OrderStatus.NO_ANSWER),
+      order('c-5', 5, OrderStatus.NO_ANSWER),
+      order('c-6', 6, OrderStatus.PENDING, { customerName: 'Kamal Perera', customerAddress: '45 Lake Rd', customerCity: 'Galle' }),
+      order('c-7', 7, OrderStatus.DELIVERED, { customerId: '0719876543', customerPhone: '0719876543' })
+    ]);
+  });
+
+  after(async () => {
+    await db().dropDatabase().catch(() => {});
+    await mongo.close();
+  });
+
+  it('sums up every order behind a phone', async () => {
+    await syncCustomers(db(), 'shop', [KEY, KEY, null]);
+    const customer = await profile(KEY);
+    assert.equal(customer!.name, 'Kamal Perera');
+    assert.deepEqual(customer!.altPhones, ['0112345678']);
+    assert.deepEqual(customer!.addresses.map(a => a.address), ['45 Lake Rd', '12 Temple Rd']);
+    assert.deepEqual(
+      [customer!.orders, customer!.delivered, customer!.returned, customer!.rejected, customer!.lifetimeValue],
+      [6, 1, 1, 1, 2000]
+    );
+    assert.deepEqual([customer!.firstOrderAt, customer!.lastOrderAt], ['2026-09-01T00:00:00.000Z', '2026-09-06T00:00:00.000Z']);
+    assert.deepEqual(customer!.notes, []);
+  });
+
+  it('counts a no-answer streak over the calls made, not the uncalled lead on top', async () => {
+    assert.deepEqual((await profile(KEY))!.noAnswerStreak, ['c-5', 'c-4']);
+    await db().collection<Order>('orders').updateOne({ id: 'c-5' }, { $set: { status: OrderStatus.CONFIRMED } });
+    await syncCustomers(db(), 'shop', [KEY]);
+    assert.deepEqual((await profile(KEY))!.noAnswerStreak, []);
+  });
+
+  it('grades an order from the stored profile, whatever spelling the phone has', async () => {
+    const { customer, risk } = await assessCustomer(db(), 'shop', {}, '+94 77 123 4567', 2000, 'c-6');
+    assert.equal(customer!.id, KEY);
+    assert.equal(risk.status, CustomerStatus.RISK_RED);
+    assert.equal((await assessCustomer(db(), 'shop', {}, '0700000000')).risk.status, CustomerStatus.NEW);
+  });
+
+  it('keeps a profile with notes once its orders are gone and drops one without', async () => {
+    await syncCustomers(db(), 'shop', ['0719876543']);
+    const note = { id: 'n-1', text: 'Prefers evening calls', user: 'owner', timestamp: new Date().toISOString() };
+    await db().collection<Customer>(CUSTOMERS_COLLECTION).updateOne({ id: KEY, tenantId: 'shop' }, { $push: { notes: note } });
+    await db().collection('orders').deleteMany({});
+
+    await syncCustomers(db(), 'shop', [KEY, '0719876543']);
+    const kept = await profile(KEY);
+    assert.deepEqual([kept!.orders, kept!.lifetimeValue, kept!.notes.length], [0, 0, 1]);
+    assert.equal(await profile('0719876543'), null);
+  });
+});
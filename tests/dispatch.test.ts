@@ -0,0 +1,102 @@
+import { TEST_DB_NAME } from './env';
+import { MOCK_COURIER_PORT } from './mockCourierEnv';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { CourierAccount, CourierMode, CourierProviderId, DispatchJob, DispatchJobStatus, Order, OrderStatus } from '../types';
+import { closeConnections } from '../server/db';
+import { DISPATCH_JOBS_COLLECTION, enqueueDispatch, runDispatchQueue } from '../server/dispatch';
+import { MOCK_FDE_API_KEY, MOCK_FDE_CLIENT_ID, mockCourierApp } from '../mock/fdeMock';
+import { connectTestMongo } from './mongo';
+
+// The dispatch queue against the mock FDE courier and a throwaway database
+const ACCOUNT = {
+  id: 'fde-main', provider: CourierProviderId.FDE, label: 'FDE', apiKey: MOCK_FDE_API_KEY, clientId: MOCK_FDE_CLIENT_ID, mode: CourierMode.STANDARD, isDefault: true
+} as CourierAccount;
+
+const { mongo: client, skip } = await connectTestMongo();
+const mongo = client!;
+
+const order = (id: string, patch: Partial<Order> = {}) => ({
+  id, tenantId: 'shop', status: OrderStatus.CONFIRMED, customerName: 'Kamal', customerPhone: '077 111 2223', customerAddress: '12 Temple Rd',
+  customerCity: 'Colombo', items: [{ productId: 'p1', name: 'Kettle', quantity: 1, price: 3000 }], totalAmount: 3000,
+  createdAt: new Date().toISOString(), logs: [], ...patch
+} as Order);
+
+describe('dispatch queue', { skip }, () => {
+  const db = () => mongo.db(TEST_DB_NAME);
+  const job = (orderId: string) => db().collection<DispatchJob>(DISPATCH_JOBS_COLLECTION).findOne({ orderId });
+  const stored = (id: string) => db().collection<Order>('orders').findOne({ id });
+  const enqueue = (...ids: string[]) => enqueueDispatch(db(), 'shop', ids, 'packer');
+  let server: Server;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => { const s = mockCourierApp.listen(MOCK_COURIER_PORT, '127.0.0.1', () => resolve(s)); });
+    await db().collection('tenants').insertOne({ id: 'shop', name: 'shop', mongoUri: '', isActive: true, settings: { shopName: 'shop', couriers: [ACCOUNT] } });
+    await db().collection('orders').insertMany([
+      order('d-1'), order('d-2'), order('d-3', { customerName: 'MOCK-ERR-205' }), order('d-4'), order('d-5', { status: OrderStatus.PENDING })
+    ]);
+  });
+
+  after(async () => {
+    await closeConnections();
+    await db().dropDatabase().catch(() => {});
+    await mongo.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('queues each CONFIRMED order once and says why the rest were left out', async () => {
+    const first = await enqueue('d-1', 'd-1', 'd-5', 'd-missing');
+    assert.deepEqual(first.jobs.map(j => [j.orderId, j.status]), [['d-1', DispatchJobStatus.QUEUED]]);
+    assert.deepEqual(first.skipped, [
+      { orderId: 'd-5', reason: `Order is ${OrderStatus.PENDING}` },
+      { orderId: 'd-missing', reason: 'Order reference not found' }
+    ]);
+    // Scanning the same order again returns the job already waiting
+    assert.equal((await enqueue('d-1')).jobs[0].id, first.jobs[0].id);
+    assert.equal(await db().collection(DISPATCH_JOBS_COLLECTION).countDocuments({ orderId: 'd-1' }), 1);
+  });
+
+  it('ships due jobs through the courier and records the waybill', async () => {
+    assert.deepEqual(await runDispatchQueue('shop'), { attempted: 1, shipped: 1, retrying: 0, failed: 0 });
+    const shipped = await stored('d-1');
+    assert.equal(shipped!.status, OrderStatus.SHIPPED);
+    assert.equal(shipped!.customerPhone, '0771112223');
+    const done = await job('d-1');
+    assert.equal(done!.status, DispatchJobStatus.DONE);
+    assert.equal(done!.waybill, shipped!.trackingNumber);
+    assert.equal((await enqueue('d-1')).skipped[0].reason, 'Already shipped');
+  });
+
+  it('puts a busy courier back in the queue with a delay', async () => {
+    await fetch(`http://127.0.0.1:${MOCK_COURIER_PORT}/mock/fail-next`, {
+      method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ code: 214 })
+    });
+    await enqueue('d-2');
+    assert.deepEqual(await runDispatchQueue('shop'), { attempted: 1, shipped: 0, retrying: 1, failed: 0 });
+    const waiting = await job('d-2');
+    assert.equal(waiting!.status, DispatchJobStatus.QUEUED);
+    assert.deepEqual(waiting!.attempts.map(a => [a.code, a.retryable]), [[214, true]]);
+    assert.ok(waiting!.nextAttemptAt! > new Date().toISOString());
+    // The order is free for another try, and the next run leaves the job until it is due
+    const free = await stored('d-2');
+    assert.deepEqual([free!.status, free!.dispatchLockUntil], [OrderStatus.CONFIRMED, null]);
+    assert.equal((await runDispatchQueue('shop')).attempted, 0);
+  });
+
+  it('fails a job the courier refuses outright', async () => {
+    await enqueue('d-3');
+    assert.deepEqual(await runDispatchQueue('shop'), { attempted: 1, shipped: 0, retrying: 0, failed: 1 });
+    const failed = await job('d-3');
+    assert.equal(failed!.status, DispatchJobStatus.FAILED);
+    assert.deepEqual(failed!.attempts.map(a => [a.code, a.retryable]), [[205, false]]);
+    assert.ok(failed!.lastError);
+    assert.equal((await stored('d-3'))!.status, OrderStatus.CONFIRMED);
+  });
+
+  it('starts nothing once the time budget is spent', async () => {
+    await enqueue('d-4');
+    assert.deepEqual(await runDispatchQueue('shop', 0), { attempted: 0, shipped: 0, retrying: 0, failed: 0 });
+    assert.equal((await job('d-4'))!.status, DispatchJobStatus.QUEUED);
+  });
+});
@@ -0,0 +1,7 @@
+// Imported before any server module: the suite gets a throwaway database on a local MongoDB
+export const TEST_MONGODB_URI = process.env.TEST_MONGODB_URI || 'mongodb://127.0.0.1:27017';
+export const TEST_DB_NAME = `milkyway_test_${process.pid}`;
+
+process.env.MONGODB_URI = TEST_MONGODB_URI;
+process.env.MONGODB_DB_NAME = TEST_DB_NAME;
+process.env.SESSION_SECRET ||= 'test-session-secret';
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FraudListing, FraudReasonCode, FraudReport } from '../types';
+import { inFraudNetwork, isFlagged, networkFlagFor, networkWarning } from '../server/fraudNetwork';
+
+const report = (tenantId: string, patch: Partial<FraudReport> = {}): FraudReport => ({
+  tenantId, category: FraudReasonCode.FAKE_ORDER, reason: `Called ${tenantId} claiming order 1234 was never placed`,
+  returned: 1, rejected: 0, reportedBy: `${tenantId}-owner`, reportedAt: '2026-09-01T10:00:00.000Z', ...patch
+});
+
+const listing = (reports: FraudReport[], patch: Partial<FraudListing> = {}): FraudListing => ({
+  id: '0771234567', reports, confirmed: false, createdAt: '2026-09-01T10:00:00.000Z', updatedAt: '2026-09-01T10:00:00.000Z', ...patch
+});
+
+describe('fraud network', () => {
+  it('only counts shops that opted in', () => {
+    assert.equal(inFraudNetwork({ fraudNetwork: true }), true);
+    assert.equal(inFraudNetwork({}), false);
+    assert.equal(inFraudNetwork(null), false);
+  });
+
+  it('flags a phone once enough different shops report it, or DEV_ADMIN confirms it', () => {
+    assert.equal(isFlagged(listing([report('a')])), false);
+    assert.equal(isFlagged(listing([report('a'), report('b')])), true);
+    assert.equal(isFlagged(listing([report('a')], { confirmed: true })), true);
+  });
+
+  it('shows other shops categories, counts and dates but never their notes or names', () => {
+    const flag = networkFlagFor(listing([
+      report('a', { reportedAt: '2026-09-03T10:00:00.000Z' }),
+      report('b', { category: FraudReasonCode.REFUSED_DELIVERY, reportedAt: '2026-09-01T10:00:00.000Z' }),
+      report('me', { category: FraudReasonCode.UNREACHABLE })
+    ]), 'me');
+    assert.equal(flag.shops, 2);
+    assert.deepEqual(flag.categories, [FraudReasonCode.FAKE_ORDER, FraudReasonCode.REFUSED_DELIVERY]);
+    assert.equal(flag.firstReportedAt, '2026-09-01T10:00:00.000Z');
+    assert.equal(flag.lastReportedAt, '2026-09-03T10:00:00.000Z');
+    assert.equal(flag.reportedByYou, true);
+    const shared = JSON.stringify(flag) + networkWarning(flag);
+    assert.doesNotMatch(shared, /1234|claiming|owner|"a"|"b"/);
+  });
+
+  it('reads reports made before categories as OTHER', () => {
+    const { category, ...legacy } = report('a');
+    assert.deepEqual(networkFlagFor(listing([legacy]), 'me').categories, [FraudReasonCode.OTHER]);
+  });
+
+  it('passes on the DEV_ADMIN confirmation note', () => {
+    const flag = networkFlagFor(listing([], { confirmed: true, note: 'Known fake-order ring' }), 'me');
+    assert.equal(flag.note, 'Known fake-order ring');
+    assert.match(networkWarning(flag), /^Flagged on network \(confirmed\): reported by 0 other shops — Known fake-order ring$/);
+  });
+});
@@ -0,0 +1,94 @@
+import { TEST_DB_NAME } from './env';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourierAccount, CourierMode, CourierProviderId, ManifestStatus, Order, OrderStatus, TenantSettings } from '../types';
+import { createManifest, createManifestsFor, getUnmanifested, handOverManifest, removeParcel, scanParcel } from '../server/manifests';
+import { connectTestMongo } from './mongo';
+
+// Pickup manifests against a throwaway database
+const MAIN = { id: 'fde-main', provider: CourierProviderId.FDE, label: 'FDE', apiKey: 'k', mode: CourierMode.STANDARD, isDefault: true } as CourierAccount;
+const NORTH = { id: 'fde-north', provider: CourierProviderId.FDE, label: 'FDE North', apiKey: 'k', mode: CourierMode.STANDARD, cities: ['Jaffna'] } as CourierAccount;
+const SETTINGS: Partial<TenantSettings> = { couriers: [MAIN, NORTH] };
+const LONG_AGO = new Date(Date.now() - 24 * 3600000).toISOString();
+
+const { mongo: client, skip } = await connectTestMongo();
+const mongo = client!;
+
+const parcel = (id: string, waybill: string, patch: Partial<Order> = {}) => ({
+  id, tenantId: 'shop', status: OrderStatus.SHIPPED, trackingNumber: waybill, courierProvider: CourierProviderId.FDE, courierAccountId: MAIN.id,
+  customerName: 'Kamal', customerPhone: '0771112223', customerAddress: 'Kandy', customerCity: 'Kandy',
+  items: [{ productId: 'p1', name: 'Kettle', quantity: 1, price: 1000 }], totalAmount: 1000, shippedAt: new Date().toISOString(),
+  createdAt: LONG_AGO, logs: [], ...patch
+} as Order);
+
+describe('pickup manifests', { skip }, () => {
+  const db = () => mongo.db(TEST_DB_NAME);
+  const stored = (id: string) => db().collection<Order>('orders').findOne({ id });
+  const scan = (manifestId: string, code: string) => scanParcel(db(), db(), 'shop', SETTINGS, manifestId, code, 'packer');
+  let first: string;
+
+  before(async () => {
+    await db().collection('orders').insertMany([
+      parcel('m-1', 'FD5001'),
+      // Shipped before multi-courier support, so the default account's rider takes it
+      parcel('m-2', 'FD5002', { courierAccountId: undefined, totalAmount: 2500 }),
+      parcel('m-3', 'FD5003', { courierAccountId: NORTH.id, customerCity: 'Jaffna', shippedAt: LONG_AGO }),
+      parcel('m-4', 'FD5004', { status: OrderStatus.DELIVERED }),
+      parcel('m-5', 'FD5005', { totalAmount: 400 })
+    ]);
+  });
+
+  after(async () => {
+    await db().dropDatabase().catch(() => {});
+    await mongo.close();
+  });
+
+  it('puts every parcel waiting for the account on one sheet, and none on two', async () => {
+    const manifest = await createManifest(db(), 'shop', SETTINGS, MAIN, ['m-1', 'm-2', 'm-3', 'm-4'], 'packer');
+    first = manifest.id;
+    assert.equal(manifest.number, 1);
+    assert.deepEqual(manifest.parcels.map(p => p.orderId).sort(), ['m-1', 'm-2']);
+    assert.equal(manifest.codTotal, 3500);
+    assert.equal((await stored('m-1'))!.manifestId, manifest.id);
+    await assert.rejects(createManifest(db(), 'shop', SETTINGS, MAIN, ['m-1', 'm-2'], 'packer'), { status: 400 });
+  });
+
+  it('marks listed parcels scanned, adds waiting ones and refuses the rest', async () => {
+    const scanned = await scan(first, ' fd5001 ');
+    assert.deepEqual([scanned.orderId, scanned.duplicate], ['m-1', false]);
+    assert.ok(scanned.manifest.parcels.find(p => p.orderId === 'm-1')!.scannedAt);
+    assert.equal((await scan(first, 'FD5001')).duplicate, true);
+
+    const added = await scan(first, 'FD5005');
+    assert.equal(added.manifest.parcels.length, 3);
+    assert.equal(added.manifest.codTotal, 3900);
+    assert.equal((await stored('m-5'))!.manifestId, first);
+
+    await assert.rejects(scan(first, 'FD5003'), { status: 409, message: /another courier account/ });
+    await assert.rejects(scan(first, 'FD5004'), { status: 409, message: /DELIVERED/ });
+    await assert.rejects(scan(first, 'FD9999'), { status: 404 });
+  });
+
+  it('keeps only the scanned parcels at handover and frees the others', async () => {
+    const closed = await handOverManifest(db(), 'shop', first, ' Nimal ', 'packer');
+    assert.equal(closed.status, ManifestStatus.HANDED_OVER);
+    assert.equal(closed.riderName, 'Nimal');
+    assert.deepEqual(closed.parcels.map(p => p.orderId).sort(), ['m-1', 'm-5']);
+    assert.equal(closed.codTotal, 1400);
+    assert.equal((await stored('m-2'))!.manifestId, null);
+    await assert.rejects(scan(first, 'FD5002'), { status: 409, message: /already handed over/ });
+  });
+
+  it('splits a picked set by courier account and lists what is still waiting', async () => {
+    const manifests = await createManifestsFor(db(), 'shop', SETTINGS, ['m-2', 'm-3'], 'packer');
+    assert.deepEqual(manifests.map(m => [m.courierAccountId, m.parcels.map(p => p.orderId)]).sort(), [[MAIN.id, ['m-2']], [NORTH.id, ['m-3']]]);
+    assert.equal((await getUnmanifested(db(), 'shop')).count, 0);
+
+    const north = manifests.find(m => m.courierAccountId === NORTH.id)!;
+    const emptied = await removeParcel(db(), 'shop', north.id, 'm-3', 'packer');
+    assert.deepEqual([emptied.parcels.length, emptied.codTotal], [0, 0]);
+    const waiting = await getUnmanifested(db(), 'shop');
+    assert.equal(waiting.count, 1);
+    assert.deepEqual(waiting.overdue.map(o => o.id), ['m-3']);
+  });
+});
@@ -0,0 +1,61 @@
+import { MOCK_COURIER_PORT } from './mockCourierEnv';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { CourierAccount, CourierMode, CourierProviderId, Order } from '../types';
+import { getCourierProvider } from '../server/couriers';
+import { MOCK_FDE_API_KEY, MOCK_FDE_CLIENT_ID, mockCourierApp } from '../mock/fdeMock';
+
+// The FDE provider against the offline mock, as `npm run mock:courier` serves it
+const fde = getCourierProvider(CourierProviderId.FDE);
+const base = `http://127.0.0.1:${MOCK_COURIER_PORT}`;
+
+const ACCOUNT = {
+  id: 'fde-main', provider: CourierProviderId.FDE, label: 'FDE', apiKey: MOCK_FDE_API_KEY, clientId: MOCK_FDE_CLIENT_ID, mode: CourierMode.STANDARD
+} as CourierAccount;
+
+const order = (patch: Partial<Order> = {}) => ({
+  id: 'o-1001', courierRef: '1001', customerName: 'Nimal Perera', customerPhone: '0771234567', customerAddress: '12 Galle Road',
+  customerCity: 'Colombo', items: [{ productId: 'p1', name: 'Kettle', quantity: 1, price: 2500 }], totalAmount: 2500, ...patch
+} as Order);
+
+const control = (path: string, body: any) =>
+  fetch(base + path, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) }).then(r => r.json());
+
+describe('mock FDE courier', () => {
+  let server: Server;
+  before(() => new Promise<void>(resolve => { server = mockCourierApp.listen(MOCK_COURIER_PORT, '127.0.0.1', () => resolve()); }));
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('issues a waybill, and the same one again for a resent order', async () => {
+    const first = await fde.createShipment(order(), ACCOUNT);
+    assert.equal(first.ok, true, first.error);
+    assert.match(first.waybill!, /^\d+$/);
+    assert.equal((await fde.createShipment(order(), ACCOUNT)).waybill, first.waybill);
+    assert.notEqual((await fde.createShipment(order({ id: 'o-1002', courierRef: '1002' }), ACCOUNT)).waybill, first.waybill);
+  });
+
+  it('refuses bad keys and bad parcels with FDE codes, only transient ones retryable', async () => {
+    const badKey = await fde.createShipment(order(), { ...ACCOUNT, apiKey: 'wrong' });
+    assert.deepEqual([badKey.ok, badKey.code, badKey.retryable], [false, 211, false]);
+    const badPhone = await fde.createShipment(order({ customerPhone: '12' }), ACCOUNT);
+    assert.deepEqual([badPhone.code, badPhone.error], [206, 'Contact Number 1 Invalid']);
+
+    await control('/mock/fail-next', { code: 214 });
+    const maintenance = await fde.createShipment(order(), ACCOUNT);
+    assert.deepEqual([maintenance.ok, maintenance.code, maintenance.retryable], [false, 214, true]);
+    assert.equal((await fde.createShipment(order(), ACCOUNT)).ok, true);
+  });
+
+  it('registers a pre-printed waybill and tracks it as statuses are pushed', async () => {
+    const attached = await fde.attachWaybill(order({ id: 'o-2001', courierRef: '2001', trackingNumber: 'FD0001' }), ACCOUNT);
+    assert.deepEqual([attached.ok, attached.waybill], [true, 'FD0001']);
+    assert.equal((await fde.trackShipment('FD0001', ACCOUNT)).status, 'Waiting');
+
+    await control('/mock/parcels/FD0001/push', { status: 'Delivered', format: 'json' });
+    const tracked = await fde.trackShipment('FD0001', ACCOUNT);
+    assert.equal(tracked.status, 'Delivered');
+    assert.ok(tracked.updatedAt);
+    assert.equal((await fde.trackShipment('FD9999', ACCOUNT)).code, 404);
+  });
+});
@@ -0,0 +1,7 @@
+// Imported before the FDE provider, which reads its endpoint once at load: FDE calls go to
+// the mock on a port of this run's own, and parcels only move when a test pushes them
+export const MOCK_COURIER_PORT = 18000 + (process.pid % 1000);
+
+process.env.FDE_API_URL = `http://127.0.0.1:${MOCK_COURIER_PORT}/api/parcel`;
+process.env.MOCK_AUTO_PROGRESS = 'false';
+process.env.MOCK_WEBHOOK_URL = '';
@@ -0,0 +1,20 @@
+import { MongoClient } from 'mongodb';
+import { TEST_MONGODB_URI } from './env';
+
+export interface TestMongo {
+  mongo: MongoClient | null;
+  // Reason the suites that need a database are skipped, false when one answered
+  skip: string | false;
+}
+
+// Connects to the test MongoDB, or reports why database suites have to be skipped
+export async function connectTestMongo(): Promise<TestMongo> {
+  const mongo = new MongoClient(TEST_MONGODB_URI, { serverSelectionTimeoutMS: 2000 });
+  try {
+    await mongo.connect();
+    return { mongo, skip: false };
+  } catch (err: any) {
+    await mongo.close().catch(() => {});
+    return { mongo: null, skip: `No MongoDB at ${TEST_MONGODB_URI} (${err.message}); start one or set TEST_MONGODB_URI` };
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { localPhone, normalizePhone, parsePhone, phoneProblem, whatsappNumber } from '../utils/phone';
+import { customerKey } from '../utils/customers';
+
+describe('phone numbers', () => {
+  it('reads the usual spellings of a number as the same local form', () => {
+    for (const raw of ['0771234567', '077 123 4567', '077-1234567', '771234567', '94771234567', '+94 77 123 4567', '0094-77-1234567', '+94 (0)77 123 4567']) {
+      assert.equal(localPhone(raw), '0771234567', raw);
+    }
+    assert.equal(localPhone('07712345'), null);
+    assert.equal(localPhone('077123456789'), null);
+    assert.equal(localPhone(undefined), null);
+  });
+
+  it('tells mobiles from landlines and refuses unknown prefixes', () => {
+    assert.deepEqual(parsePhone('+94 77 123 4567'), { local: '0771234567', international: '94771234567', type: 'MOBILE' });
+    assert.equal(parsePhone('011 234 5678')?.type, 'LANDLINE');
+    assert.equal(parsePhone('0731234567'), null);
+  });
+
+  it('explains why a phone cannot be stored', () => {
+    assert.equal(phoneProblem('077 123 4567'), null);
+    assert.match(phoneProblem('  ')!, /missing/);
+    assert.match(phoneProblem('12345')!, /not a 10-digit/);
+    assert.match(phoneProblem('0731234567')!, /no Sri Lankan mobile or area prefix/);
+  });
+
+  it('normalises what parses and keeps the rest as typed', () => {
+    assert.equal(normalizePhone('+94 77 123 4567'), '0771234567');
+    assert.equal(normalizePhone(' call after 6 '), 'call after 6');
+  });
+
+  it('only links mobiles to WhatsApp', () => {
+    assert.equal(whatsappNumber('0771234567'), '94771234567');
+    assert.equal(whatsappNumber('0112345678'), null);
+  });
+
+  it('groups customers by local form, whatever was typed', () => {
+    assert.equal(customerKey('+94 77 123 4567'), customerKey('077-1234567'));
+    assert.equal(customerKey('ext 12'), '12');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CourierAccount, CourierMode, CourierProviderId, CourierRateCard, Order } from '../types';
+import { computeShippingCost, parseWeightKg, shippingCostOf } from '../utils/rateCards';
+
+const CARD: CourierRateCard = {
+  baseFee: 350,
+  weightSlabs: [{ overKg: 3, fee: 250 }, { overKg: 1, fee: 100 }],
+  zones: [{ id: 'z1', name: 'Outstation', cities: ['Jaffna', 'Mannar'], surcharge: 200 }],
+  codPercent: 1.5,
+  returnFee: 150
+};
+
+const account = (patch: Partial<CourierAccount>): CourierAccount => ({
+  id: 'fde-main', provider: CourierProviderId.FDE, label: 'FDE', apiKey: 'k', clientId: 'c', mode: CourierMode.STANDARD, ...patch
+} as CourierAccount);
+
+describe('courier rate cards', () => {
+  it('bills a parcel with no usable weight as one kilogram', () => {
+    assert.equal(parseWeightKg(undefined), 1);
+    assert.equal(parseWeightKg('abc'), 1);
+    assert.equal(parseWeightKg('0'), 1);
+    assert.equal(parseWeightKg('2,5'), 2.5);
+  });
+
+  it('adds the heaviest slab passed, the zone surcharge and the COD share', () => {
+    const cost = computeShippingCost(CARD, { parcelWeight: '2.5', customerCity: ' jaffna ', totalAmount: 4999 });
+    assert.deepEqual(cost, { base: 350, weight: 100, zone: 200, zoneName: 'Outstation', cod: 74.99, delivery: 724.99, returnFee: 150 });
+    assert.equal(computeShippingCost(CARD, { parcelWeight: '5', customerCity: 'Colombo', totalAmount: 0 }).delivery, 600);
+  });
+
+  it('charges no slab at or below its threshold', () => {
+    assert.equal(computeShippingCost(CARD, { parcelWeight: '1', customerCity: 'Colombo', totalAmount: 0 }).weight, 0);
+  });
+
+  it('keeps the cost recorded at dispatch and estimates the rest from the current card', () => {
+    const settings = { couriers: [account({ isDefault: true, rateCard: CARD })] };
+    const recorded = { base: 1, weight: 0, zone: 0, zoneName: null, cod: 0, delivery: 1, returnFee: 0 };
+    assert.equal(shippingCostOf(settings, { customerCity: 'Colombo', totalAmount: 0, shippingCost: recorded } as unknown as Order), recorded);
+    assert.equal(shippingCostOf(settings, { customerCity: 'Mannar', totalAmount: 0 } as unknown as Order)?.delivery, 550);
+    assert.equal(shippingCostOf({ couriers: [account({ isDefault: true })] }, { customerCity: 'Mannar' } as unknown as Order), undefined);
+  });
+});
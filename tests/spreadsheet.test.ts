@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { readSpreadsheetRows } from '../server/spreadsheet';
+
+// Deflated zip with just the headers readZipEntries looks at
+function zip(files: Record<string, Buffer | string>): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(nameBytes.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    directory.push(entry, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+const SHEET = '<worksheet><sheetData>'
+  + '<row r="1"><c r="A1" t="inlineStr"><is><t>Waybill</t></is></c><c r="B1" t="s"><v>0</v></c></row>'
+  + '<row r="2"><c r="A2"><v>700001</v></c><c r="B2"><v>3000</v></c></row>'
+  + '</sheetData></worksheet>';
+
+describe('statement spreadsheets', () => {
+  it('reads CSV text and the first worksheet of an XLSX workbook', () => {
+    assert.deepEqual(readSpreadsheetRows('payout.csv', Buffer.from('Waybill,COD\n700001,3000\n')).slice(0, 2), [['Waybill', 'COD'], ['700001', '3000']]);
+    const workbook = zip({
+      'xl/sharedStrings.xml': '<sst><si><t>COD &amp; Fee</t></si></sst>',
+      'xl/worksheets/sheet1.xml': SHEET
+    });
+    assert.deepEqual(readSpreadsheetRows('payout.xlsx', workbook), [['Waybill', 'COD & Fee'], ['700001', '3000']]);
+  });
+
+  it('refuses workbooks that unpack past the size limit', () => {
+    const bomb = zip({ 'xl/worksheets/sheet1.xml': Buffer.alloc(60 * 1024 * 1024) });
+    assert.ok(bomb.length < 200 * 1024);
+    assert.throws(() => readSpreadsheetRows('bomb.xlsx', bomb), /too large once unpacked/);
+  });
+
+  it('refuses workbooks with an implausible number of parts', () => {
+    const parts = Object.fromEntries(Array.from({ length: 1001 }, (_, i) => [`xl/p${i}.xml`, '']));
+    assert.throws(() => readSpreadsheetRows('parts.xlsx', zip(parts)), /more than 1000 parts/);
+  });
+});
@@ -0,0 +1,79 @@
+import { TEST_DB_NAME } from './env';
+import { MOCK_COURIER_PORT } from './mockCourierEnv';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'http';
+import { CourierAccount, CourierMode, CourierProviderId, Order, OrderStatus } from '../types';
+import { closeConnections, connectCentral } from '../server/db';
+import { getCourierProvider } from '../server/couriers';
+import { acquireJobLock, releaseJobLock } from '../server/jobLocks';
+import { runTrackingPoll } from '../server/tracking';
+import { MOCK_FDE_API_KEY, MOCK_FDE_CLIENT_ID, mockCourierApp } from '../mock/fdeMock';
+import { connectTestMongo } from './mongo';
+
+// The tracking poller against the mock FDE courier and a throwaway database
+const ACCOUNT = {
+  id: 'fde-main', provider: CourierProviderId.FDE, label: 'FDE', apiKey: MOCK_FDE_API_KEY, clientId: MOCK_FDE_CLIENT_ID, mode: CourierMode.STANDARD, isDefault: true
+} as CourierAccount;
+const QUIET_SINCE = new Date(Date.now() - 2 * 24 * 3600000).toISOString();
+
+const { mongo: client, skip } = await connectTestMongo();
+const mongo = client!;
+
+const parcel = (tenantId: string, id: string, waybill: string, patch: Partial<Order> = {}) => ({
+  id, tenantId, status: OrderStatus.SHIPPED, trackingNumber: waybill, courierRef: id.replace(/\D/g, ''), courierProvider: CourierProviderId.FDE,
+  courierAccountId: ACCOUNT.id, customerName: 'Kamal', customerPhone: '0771112223', customerAddress: 'Kandy', customerCity: 'Kandy',
+  items: [{ productId: 'p1', name: 'Kettle', quantity: 1, price: 3000 }], totalAmount: 3000, shippedAt: QUIET_SINCE, createdAt: QUIET_SINCE, logs: []
+} as Order);
+
+describe('tracking poller', { skip }, () => {
+  const orders = () => mongo.db(TEST_DB_NAME).collection<Order>('orders');
+  let server: Server;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => { const s = mockCourierApp.listen(MOCK_COURIER_PORT, '127.0.0.1', () => resolve(s)); });
+    await mongo.db(TEST_DB_NAME).collection('tenants').insertMany([
+      { id: 'shop', name: 'shop', mongoUri: '', isActive: true, settings: { shopName: 'shop', couriers: [ACCOUNT] } },
+      { id: 'keyless', name: 'keyless', mongoUri: '', isActive: true, settings: { shopName: 'keyless' } }
+    ]);
+  });
+
+  after(async () => {
+    await closeConnections();
+    await mongo.db(TEST_DB_NAME).dropDatabase().catch(() => {});
+    await mongo.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('asks the courier about quiet parcels and applies what it says', async () => {
+    const quiet = parcel('shop', 'o-3001', 'FD3001');
+    assert.equal((await getCourierProvider().attachWaybill(quiet, ACCOUNT)).ok, true);
+    await fetch(`http://127.0.0.1:${MOCK_COURIER_PORT}/mock/parcels/FD3001/push`, {
+      method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify({ status: 'Delivered' })
+    });
+    await orders().insertMany([
+      quiet,
+      parcel('shop', 'o-3002', 'FD3002', { shippedAt: new Date().toISOString() }),
+      parcel('keyless', 'o-3003', 'FD3003')
+    ]);
+
+    assert.deepEqual(await runTrackingPoll(), { checked: 2, updated: 1, failed: 1 });
+    const delivered = await orders().findOne({ id: 'o-3001' });
+    assert.deepEqual([delivered!.status, delivered!.courierStatus], [OrderStatus.DELIVERED, 'Delivered']);
+    // Recently shipped parcels wait; failures go to the back of the queue
+    assert.equal((await orders().findOne({ id: 'o-3002' }))!.trackingCheckedAt, undefined);
+    assert.ok((await orders().findOne({ id: 'o-3003' }))!.trackingCheckedAt);
+
+    assert.deepEqual(await runTrackingPoll(), { checked: 0, updated: 0, failed: 0 });
+  });
+
+  it('leaves the run to whichever instance holds the lock', async () => {
+    const central = await connectCentral();
+    assert.equal(await acquireJobLock(central, 'tracking-poll', 1), true);
+    try {
+      assert.equal((await runTrackingPoll()).skipped, true);
+    } finally {
+      await releaseJobLock(central, 'tracking-poll');
+    }
+  });
+});
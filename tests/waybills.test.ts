@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_WAYBILLS_PER_UPLOAD, parseWaybillInput, waybillSortKey } from '../utils/waybills';
+
+describe('waybill input', () => {
+  it('reads lists, CSV columns and ranges, keeping zero padding', () => {
+    assert.deepEqual(parseWaybillInput('fd0998 - fd1001, 700001\n700002;700001').waybills, ['FD0998', 'FD0999', 'FD1000', 'FD1001', '700001', '700002']);
+    assert.deepEqual(parseWaybillInput('998-1001').waybills, ['998', '999', '1000', '1001']);
+  });
+
+  it('reports entries it cannot use and keeps the rest', () => {
+    const { waybills, errors } = parseWaybillInput('700001 70#02 1005-1000');
+    assert.deepEqual(waybills, ['700001']);
+    assert.equal(errors.length, 2);
+    assert.match(errors[1], /runs backwards/);
+  });
+
+  it('caps an upload', () => {
+    const { waybills, errors } = parseWaybillInput(`1-${MAX_WAYBILLS_PER_UPLOAD + 1}`);
+    assert.equal(waybills.length, 0);
+    assert.match(errors[0], /more than/);
+  });
+});
+
+describe('waybill pool order', () => {
+  it('sorts by prefix and then by number, not as text', () => {
+    const pool = ['FD1000', 'FD999', '10000', '9999', 'GA1', 'FD0998'];
+    assert.deepEqual([...pool].sort((a, b) => waybillSortKey(a).localeCompare(waybillSortKey(b))), ['9999', '10000', 'FD0998', 'FD999', 'FD1000', 'GA1']);
+  });
+
+  it('keys waybills the same however they were typed', () => {
+    assert.equal(waybillSortKey(' fd999 '), waybillSortKey('FD999'));
+    assert.equal(waybillSortKey('AB12CD'), 'AB12CD');
+  });
+});
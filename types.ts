@@ -37,6 +37,43 @@ export enum CourierMode {
   EXISTING_WAYBILL = 'EXISTING_WAYBILL'
 }
 
+export enum CourierProviderId {
+  FDE = 'FDE'
+}
+
+export enum SecurityAction {
+  LOGIN = 'LOGIN',
+  LOGIN_FAILED = 'LOGIN_FAILED',
+  TENANT_CREATED = 'TENANT_CREATED',
+  TENANT_UPDATED = 'TENANT_UPDATED',
+  TENANT_DELETED = 'TENANT_DELETED',
+  ORDERS_PURGED = 'ORDERS_PURGED',
+  USER_CREATED = 'USER_CREATED',
+  USER_UPDATED = 'USER_UPDATED',
+  USER_DELETED = 'USER_DELETED',
+  SETTINGS_UPDATED = 'SETTINGS_UPDATED',
+  COURIER_KEYS_UPDATED = 'COURIER_KEYS_UPDATED',
+  WEBHOOK_SECRET_ROTATED = 'WEBHOOK_SECRET_ROTATED',
+  RISK_OVERRIDE = 'RISK_OVERRIDE',
+  FRAUD_LIST_UPDATED = 'FRAUD_LIST_UPDATED'
+}
+
+// Grade given to a returned parcel at the scanner
+export enum ReturnCondition {
+  RESELLABLE = 'RESELLABLE',
+  DAMAGED = 'DAMAGED',
+  MISSING = 'MISSING'
+}
+
+export enum StockMovementType {
+  OPENING = 'OPENING', // Balance found when a product first reached the ledger
+  RECEIPT = 'RECEIPT',
+  CONSUMPTION = 'CONSUMPTION',
+  RETURN = 'RETURN',
+  ADJUSTMENT = 'ADJUSTMENT',
+  PRICE_CHANGE = 'PRICE_CHANGE'
+}
+
 export interface DomainRecord {
   host: string;
   type: 'CNAME' | 'A';
@@ -64,6 +101,135 @@ export interface TenantSettings {
   courierMode: CourierMode;
   showBillQr: boolean;
   cloudflareToken?: string; // New field for domain sync
+  couriers?: CourierAccount[]; // Supersedes the single courierApiKey/courierClientId/courierMode set
+  webhookSecret?: string; // Authenticates courier callbacks; issued and rotated by the server only
+  statusRules?: CourierStatusRule[]; // Replaces the couriers' default status mapping when set
+  riskRules?: Partial<CustomerRiskRules>; // Unset thresholds fall back to the defaults
+  fraudNetwork?: boolean; // Opted in to the shared fraud blocklist: reports phones and sees network flags
+}
+
+// Thresholds the customer risk score is graded against. A count or amount of 0 turns its rule off.
+export interface CustomerRiskRules {
+  returnRatioOrange: number; // Returned share of settled parcels, 0–1
+  returnRatioRed: number;
+  rejectedOrange: number;
+  rejectedRed: number;
+  noAnswerOrange: number; // Newest orders in a row left at NO_ANSWER
+  noAnswerRed: number;
+  highValueAmount: number; // Orders this large from a customer with nothing delivered are flagged
+  blockRedConfirm: boolean; // RISK_RED orders need a supervisor override to confirm
+}
+
+export interface CustomerRisk {
+  status: CustomerStatus;
+  reasons: string[]; // Why, in the order the rules ran; the first one decided the status
+}
+
+// One deliverable town in the shared registry couriers are validated against
+export interface CityRecord {
+  id: string; // Slug of the name
+  name: string;
+  district: string;
+  province: string;
+  aliases: string[]; // Other spellings and suburbs that mean this city
+  courierCodes: Partial<Record<CourierProviderId, string>>; // City code or spelling each courier expects
+  active: boolean; // Inactive cities are neither offered nor accepted at dispatch
+}
+
+// One courier contract. Tenants may hold several and split parcels between them by city.
+export interface CourierAccount {
+  id: string;
+  provider: CourierProviderId;
+  label: string;
+  apiKey: string;
+  clientId: string;
+  mode: CourierMode;
+  cities?: string[]; // Destination cities routed to this account
+  isDefault?: boolean; // Takes every city no other account claims
+  waybillLowAlert?: number; // EXISTING_WAYBILL: warn when fewer free pool waybills remain
+  rateCard?: CourierRateCard; // What this contract charges; priced onto each order at dispatch
+}
+
+// Extra charge for parcels heavier than `overKg`; the heaviest slab a parcel passes applies
+export interface RateWeightSlab {
+  overKg: number;
+  fee: number;
+}
+
+// Surcharge for deliveries to a group of cities (outstation, remote areas)
+export interface RateZone {
+  id: string;
+  name: string;
+  cities: string[];
+  surcharge: number;
+}
+
+export interface CourierRateCard {
+  baseFee: number; // Delivery charge before weight, zone and COD
+  weightSlabs: RateWeightSlab[];
+  zones: RateZone[];
+  codPercent: number; // Share of the collected cash the courier keeps
+  returnFee: number; // Charged instead of the delivery charge when the parcel comes back
+}
+
+// Cost of one parcel under its courier's rate card, fixed when the order is dispatched
+export interface ShippingCost {
+  base: number;
+  weight: number;
+  zone: number;
+  zoneName: string | null;
+  cod: number;
+  delivery: number; // base + weight + zone + cod
+  returnFee: number;
+}
+
+export enum WaybillStatus {
+  AVAILABLE = 'AVAILABLE',
+  ASSIGNED = 'ASSIGNED', // Held for a confirmed order that has not shipped yet
+  USED = 'USED', // Registered with the courier
+  VOID = 'VOID' // Damaged or lost stock, never handed out
+}
+
+// One pre-printed waybill in an EXISTING_WAYBILL account's stock
+export interface PooledWaybill {
+  tenantId: string;
+  courierAccountId: string;
+  waybill: string; // Trimmed and upper-cased
+  sortKey?: string; // waybillSortKey; missing on waybills loaded before pools were ordered by number
+  status: WaybillStatus;
+  orderId: string | null;
+  addedBy: string;
+  addedAt: string;
+  assignedAt: string | null;
+  usedAt: string | null;
+  voidReason: string | null;
+}
+
+export interface WaybillPoolSummary {
+  courierAccountId: string;
+  label: string;
+  available: number;
+  assigned: number;
+  used: number;
+  void: number;
+  lowAlert: number;
+  low: boolean;
+}
+
+export enum StatusMatchType {
+  EXACT = 'EXACT',
+  CONTAINS = 'CONTAINS',
+  REGEX = 'REGEX'
+}
+
+// Maps courier status text to an order status; matching ignores case and lower priority wins
+export interface CourierStatusRule {
+  id: string;
+  provider?: CourierProviderId; // Omitted: applies to every courier
+  match: StatusMatchType;
+  pattern: string;
+  status: OrderStatus;
+  priority: number;
 }
 
 export interface User {
@@ -82,6 +248,7 @@ export interface StockBatch {
   buyingPrice: number;
   createdAt: string;
   isReturn?: boolean;
+  reserved?: number; // Held for confirmed orders that have not shipped yet
 }
 
 export interface Product {
@@ -92,6 +259,47 @@ export interface Product {
   price: number;
   batches: StockBatch[];
   stock?: number;
+  stockVersion?: number; // Bumped on every batch write; stale writes are rejected
+}
+
+// Units an order reserved (CONFIRMED) and later consumed (SHIPPED) from a specific batch
+export interface StockAllocation {
+  productId: string;
+  batchId: string;
+  quantity: number;
+  buyingPrice: number;
+}
+
+// Append-only inventory movement. `quantity` is signed; balances are on hand after the entry.
+export interface StockLedgerEntry {
+  id: string;
+  tenantId: string;
+  productId: string;
+  batchId: string;
+  type: StockMovementType;
+  quantity: number;
+  unitCost: number;
+  previousCost?: number; // PRICE_CHANGE only
+  balance: number; // Product-wide
+  batchBalance: number;
+  orderId?: string;
+  reason: string;
+  user: string;
+  timestamp: string;
+}
+
+// Returned units kept out of live stock, valued at the cost of the batch they were sold from
+export interface StockWriteOff {
+  id: string;
+  tenantId: string;
+  orderId: string;
+  productId: string;
+  batchId?: string;
+  quantity: number;
+  unitCost: number;
+  condition: ReturnCondition;
+  user: string;
+  timestamp: string;
 }
 
 export interface OrderLog {
@@ -104,6 +312,7 @@ export interface OrderLog {
 export interface Order {
   id: string;
   tenantId: string;
+  customerId?: string; // Customer profile key, derived from customerPhone by the server
   customerName: string;
   customerPhone: string;
   customerPhone2?: string;
@@ -121,7 +330,282 @@ export interface Order {
   returnCompletedAt?: string; // New field for restocking analytics
   trackingNumber?: string;
   courierStatus?: string;
+  courierStatusAt?: string; // Courier time of the newest webhook applied; older ones are ignored
+  trackingCheckedAt?: string; // Last time the tracking poller asked the courier
+  courierProvider?: CourierProviderId;
+  courierAccountId?: string;
+  courierRef?: string; // Numeric reference the courier knows the order by; allocated once, reused on every retry
+  dispatchLockUntil?: string | null; // Set while a courier call for this order is in flight
+  bookedWaybill?: string | null; // Waybill the courier accepted before the order reached SHIPPED; a retry reuses it
+  shippingCost?: ShippingCost; // Rate card price at dispatch
+  codStatus?: RemittanceStatus; // Set by courier statement reconciliation
+  codRemitted?: number; // Cash the courier's statements say they collected for this parcel
+  courierFee?: number; // Delivery or return fee the statements deducted; replaces the flat estimate
+  codStatementId?: string; // Latest statement that lists this parcel
+  codReconciledAt?: string;
+  manifestId?: string | null; // Pickup manifest the parcel was handed over on
   isPrinted: boolean;
   openedBy?: string;
+  stockAllocations?: StockAllocation[];
+  returnCondition?: ReturnCondition;
   logs?: OrderLog[];
 }
+
+export interface CustomerAddress {
+  address: string;
+  city: string;
+  lastUsedAt: string;
+}
+
+export interface CustomerNote {
+  id: string;
+  text: string;
+  user: string;
+  timestamp: string;
+}
+
+// One buyer per tenant, keyed by phone. Everything but `notes` is rebuilt from their orders.
+export interface Customer {
+  id: string; // Phone in local form, e.g. 0771234567
+  tenantId: string;
+  name: string; // From the newest order
+  phone: string;
+  altPhones: string[];
+  addresses: CustomerAddress[]; // Newest first
+  orders: number;
+  delivered: number;
+  returned: number;
+  rejected: number;
+  noAnswerStreak: string[]; // Newest orders in a row left at NO_ANSWER, by id
+  lifetimeValue: number; // Totals of delivered orders
+  firstOrderAt: string;
+  lastOrderAt: string;
+  notes: CustomerNote[];
+  updatedAt: string;
+}
+
+export type ScoredCustomer = Customer & { risk: CustomerRisk };
+
+// Why a shop reported a phone; the only part of a report other shops see
+export enum FraudReasonCode {
+  REFUSED_DELIVERY = 'REFUSED_DELIVERY',
+  REPEATED_RETURNS = 'REPEATED_RETURNS',
+  FAKE_ORDER = 'FAKE_ORDER',
+  UNREACHABLE = 'UNREACHABLE',
+  OTHER = 'OTHER'
+}
+
+// One shop's report of a phone to the shared blocklist, with its counts when reported
+export interface FraudReport {
+  tenantId: string; // Only DEV_ADMIN ever sees which shop reported
+  category?: FraudReasonCode; // Missing on reports made before categories; read as OTHER
+  reason: string; // The shop's own note, seen only by that shop and DEV_ADMIN
+  returned: number;
+  rejected: number;
+  reportedBy: string;
+  reportedAt: string;
+}
+
+// A phone on the central, cross-tenant fraud blocklist
+export interface FraudListing {
+  id: string; // Phone in local form, as Customer.id
+  reports: FraudReport[];
+  confirmed: boolean; // Set by DEV_ADMIN; otherwise the phone is flagged once enough shops report it
+  note?: string; // DEV_ADMIN's reason when confirming
+  confirmedBy?: string;
+  confirmedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a participating shop is told about a flagged phone: no shop names or orders
+export interface NetworkFlag {
+  flagged: boolean; // Confirmed, or reported by enough shops to warn the network
+  shops: number; // Other shops that reported it
+  categories: FraudReasonCode[]; // Other shops' report categories, never their notes
+  firstReportedAt: string | null;
+  lastReportedAt: string | null;
+  note?: string; // DEV_ADMIN's reason when confirming
+  confirmed: boolean;
+  reportedByYou: boolean;
+}
+
+export enum WebhookEventStatus {
+  RECEIVED = 'RECEIVED', // Stored; processing has not finished
+  APPLIED = 'APPLIED',
+  IGNORED = 'IGNORED', // Matched an order but was stale or not an allowed move
+  UNMATCHED = 'UNMATCHED', // No order carries the waybill
+  UNMAPPED = 'UNMAPPED', // No status rule recognises the courier's wording
+  INVALID = 'INVALID', // Payload carried no waybill
+  FAILED = 'FAILED'
+}
+
+// One courier callback exactly as received, kept for dedupe, troubleshooting and replay
+export interface WebhookInboxEntry {
+  id: string;
+  dedupeKey: string;
+  tenantId: string;
+  provider: CourierProviderId;
+  source: 'WEBHOOK' | 'POLL'; // POLL: pulled by the tracking poller rather than pushed by the courier
+  waybill: string | null;
+  courierStatus: string | null;
+  eventTime: string | null; // Courier `last_update_time`, normalised to ISO
+  contentType: string | null;
+  rawBody: string;
+  body: any; // Parsed body; replays run it through the provider again
+  query: Record<string, string | undefined>; // Webhook token removed
+  status: WebhookEventStatus;
+  result: string | null;
+  orderId: string | null;
+  attempts: number;
+  duplicates: number; // Identical deliveries received after the first
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+export enum DispatchJobStatus {
+  QUEUED = 'QUEUED', // Waiting for its first or next attempt
+  RUNNING = 'RUNNING',
+  FAILED = 'FAILED', // Permanent: validation refusal, attempts used up, or cancelled
+  DONE = 'DONE'
+}
+
+export interface DispatchAttempt {
+  at: string;
+  code: number; // Courier status code; 0 for transport errors and refusals before the courier was called
+  error: string | null;
+  retryable: boolean;
+}
+
+// One order's trip to the courier, worked server-side so a closed tab never loses it
+export interface DispatchJob {
+  id: string;
+  tenantId: string;
+  orderId: string;
+  customerName: string;
+  customerCity: string;
+  status: DispatchJobStatus;
+  attempts: DispatchAttempt[];
+  maxAttempts: number; // Raised by a manual retry so the job gets a fresh round
+  nextAttemptAt: string | null;
+  leaseUntil: string | null; // RUNNING jobs past this are assumed abandoned and picked up again
+  lastError: string | null;
+  waybill: string | null;
+  requestedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum RemittanceStatus {
+  REMITTED = 'REMITTED',
+  SHORT_PAID = 'SHORT_PAID', // Statements collected less than the order total
+  MISSING = 'MISSING' // Delivered long enough ago that a statement should have listed it
+}
+
+export interface CodStatementLine {
+  waybill: string;
+  amount: number; // Cash collected from the customer
+  fee: number; // Courier charges deducted from it
+  reason: string; // Why the line was not applied
+}
+
+// One parcel on one statement. Order COD totals are summed from these, so importing a
+// corrected statement replaces its lines instead of adding to them.
+export interface CodRemittanceLine {
+  tenantId: string;
+  statementId: string;
+  waybill: string;
+  orderId: string;
+  courierAccountId: string;
+  amount: number;
+  fee: number;
+  importedAt: string;
+}
+
+// One imported courier payment statement, kept so the same file cannot be applied twice
+export interface CodStatement {
+  id: string;
+  tenantId: string;
+  courierAccountId: string;
+  provider: CourierProviderId;
+  reference: string; // Courier's statement number or payout date; re-importing it replaces the earlier lines
+  revision: number; // 1 for the first import of this reference
+  fileName: string;
+  fileHash: string;
+  importedBy: string;
+  importedAt: string;
+  lines: number;
+  matched: number;
+  remitted: number;
+  shortPaid: number;
+  unmatched: CodStatementLine[];
+  totals: { collected: number; fees: number; paid: number };
+}
+
+// Outstanding COD per courier account, from delivered orders and the statements applied to them
+export interface CodReceivable {
+  courierAccountId: string;
+  label: string;
+  delivered: number;
+  expected: number;
+  remitted: number;
+  outstanding: number;
+  fees: number;
+  shortPaid: number;
+  missing: number;
+  unreconciled: number; // Delivered, not yet on a statement, not yet overdue
+}
+
+export enum ManifestStatus {
+  OPEN = 'OPEN',
+  HANDED_OVER = 'HANDED_OVER'
+}
+
+// One parcel on a pickup manifest, copied from the order when it was added
+export interface ManifestParcel {
+  orderId: string;
+  waybill: string;
+  customerName: string;
+  customerCity: string;
+  codAmount: number;
+  scannedAt: string | null; // Set when the parcel is scanned at handover
+  scannedBy: string | null;
+}
+
+// A numbered pickup batch: the parcels one courier rider collected in one visit
+export interface PickupManifest {
+  id: string;
+  tenantId: string;
+  number: number; // Sequential per tenant, printed on the handover sheet
+  courierAccountId: string;
+  label: string;
+  status: ManifestStatus;
+  parcels: ManifestParcel[];
+  codTotal: number;
+  createdBy: string;
+  createdAt: string;
+  riderName: string | null;
+  handedOverBy: string | null;
+  handedOverAt: string | null;
+}
+
+// Shipped parcels not yet on any manifest; `overdue` are older than the alert window
+export interface UnmanifestedSummary {
+  count: number;
+  alertHours: number;
+  overdue: Order[];
+}
+
+// Central audit trail entry. `before`/`after` only carry changed keys; secrets are masked.
+export interface SecurityLog {
+  id: string;
+  action: SecurityAction;
+  actor: { id: string | null; username: string; role: UserRole | null };
+  tenantId: string | null;
+  target: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  timestamp: string;
+}
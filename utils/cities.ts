@@ -0,0 +1,143 @@
+import { CityRecord, CourierProviderId } from '../types';
+
+type CitySeed = [name: string, district: string, province: string, aliases?: string[]];
+
+// Starting registry, loaded into an empty `cities` collection together with any names
+// from the old free-text master list
+const SRI_LANKA_CITY_SEED: CitySeed[] = [
+  ['Colombo', 'Colombo', 'Western', ['Colombo 1', 'Fort', 'Pettah', 'Kollupitiya', 'Bambalapitiya', 'Wellawatte']],
+  ['Dehiwala-Mount Lavinia', 'Colombo', 'Western', ['Dehiwala', 'Mount Lavinia', 'Mt Lavinia']],
+  ['Moratuwa', 'Colombo', 'Western'],
+  ['Sri Jayawardenepura Kotte', 'Colombo', 'Western', ['Kotte', 'Sri Jayewardenepura']],
+  ['Kaduwela', 'Colombo', 'Western'],
+  ['Kolonnawa', 'Colombo', 'Western'],
+  ['Gampaha', 'Gampaha', 'Western'],
+  ['Negombo', 'Gampaha', 'Western', ['Meegamuwa']],
+  ['Wattala', 'Gampaha', 'Western'],
+  ['Welisara', 'Gampaha', 'Western'],
+  ['Ja-Ela', 'Gampaha', 'Western', ['Ja Ela', 'Jaela']],
+  ['Paliyagoda', 'Gampaha', 'Western', ['Peliyagoda']],
+  ['Kalutara', 'Kalutara', 'Western'],
+  ['Kandy', 'Kandy', 'Central', ['Mahanuwara', 'Senkadagala']],
+  ['Gampola', 'Kandy', 'Central'],
+  ['Nawalapitiya', 'Kandy', 'Central'],
+  ['Matale', 'Matale', 'Central'],
+  ['Nuwara Eliya', 'Nuwara Eliya', 'Central', ['Nuwaraeliya']],
+  ['Galle', 'Galle', 'Southern', ['Galla']],
+  ['Matara', 'Matara', 'Southern'],
+  ['Hambantota', 'Hambantota', 'Southern'],
+  ['Jaffna', 'Jaffna', 'Northern', ['Yapanaya']],
+  ['Kilinochchi', 'Kilinochchi', 'Northern'],
+  ['Mannar', 'Mannar', 'Northern'],
+  ['Vavuniya', 'Vavuniya', 'Northern'],
+  ['Mullaitivu', 'Mullaitivu', 'Northern'],
+  ['Batticaloa', 'Batticaloa', 'Eastern', ['Madakalapuwa']],
+  ['Ampara', 'Ampara', 'Eastern'],
+  ['Trincomalee', 'Trincomalee', 'Eastern', ['Trinco', 'Thirukonamalai']],
+  ['Kurunegala', 'Kurunegala', 'North Western'],
+  ['Puttalam', 'Puttalam', 'North Western'],
+  ['Chilaw', 'Puttalam', 'North Western', ['Halawatha']],
+  ['Anuradhapura', 'Anuradhapura', 'North Central'],
+  ['Polonnaruwa', 'Polonnaruwa', 'North Central'],
+  ['Badulla', 'Badulla', 'Uva'],
+  ['Haputale', 'Badulla', 'Uva'],
+  ['Monaragala', 'Monaragala', 'Uva', ['Moneragala']],
+  ['Ratnapura', 'Ratnapura', 'Sabaragamuwa', ['Rathnapura']],
+  ['Kegalle', 'Kegalle', 'Sabaragamuwa', ['Kegalla']]
+];
+
+export const normalizeCityName = (value?: string) =>
+  (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const cityId = (name: string) => normalizeCityName(name).replace(/ /g, '-');
+
+export const cityFromName = (name: string, district = '', province = '', aliases: string[] = []): CityRecord => ({
+  id: cityId(name),
+  name: name.trim(),
+  district,
+  province,
+  aliases,
+  courierCodes: {},
+  active: true
+});
+
+export const SEED_CITIES: CityRecord[] = SRI_LANKA_CITY_SEED.map(([name, district, province, aliases]) => cityFromName(name, district, province, aliases));
+
+// Spelling the courier expects for this city: its own code when one is set, else the registry name
+export const courierCityName = (city: CityRecord, provider?: CourierProviderId) =>
+  (provider && city.courierCodes?.[provider]) || city.name;
+
+// --- MATCHING ---
+// Order forms carry a picked city, CSV leads and old orders carry whatever was typed.
+// Exact hits on the name, an alias or a courier code win; otherwise the closest spelling
+// within an edit-distance budget is offered as a suggestion.
+
+export interface CityMatch {
+  city: CityRecord;
+  score: number; // 1 for an exact name/alias hit, lower for fuzzy ones
+}
+
+const MIN_FUZZY_SCORE = 0.8;
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+}
+
+const similarity = (a: string, b: string) => 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+const spellings = (city: CityRecord) => [city.name, ...(city.aliases || []), ...Object.values(city.courierCodes || {})]
+  .map(normalizeCityName)
+  .filter(Boolean);
+
+// Best registry matches for a typed city name, strongest first
+export function matchCity(input: string | undefined, registry: CityRecord[], limit = 3): CityMatch[] {
+  const target = normalizeCityName(input);
+  if (!target) return [];
+  return registry
+    .filter(c => c.active)
+    .map(city => ({ city, score: Math.max(...spellings(city).map(s => s === target ? 1 : similarity(s, target))) }))
+    .filter(m => m.score >= MIN_FUZZY_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// The registry city a stored name refers to, only when the match is exact
+export const resolveCity = (input: string | undefined, registry: CityRecord[]) =>
+  matchCity(input, registry, 1).find(m => m.score === 1)?.city;
+
+/**
+ * Suggests cities named in a free-text address. Runs of one to three words are tried
+ * against every spelling, so "No 5, Temple Rd, Mount Lavinia" finds Dehiwala-Mount Lavinia.
+ * Sri Lankan addresses end with the town, so later hits rank above earlier ones.
+ */
+export function suggestCitiesFromAddress(address: string | undefined, registry: CityRecord[], limit = 3): CityMatch[] {
+  const words = normalizeCityName(address).split(' ').filter(w => w && !/^\d+$/.test(w));
+  if (words.length === 0) return [];
+  const best = new Map<string, CityMatch>();
+  for (let start = 0; start < words.length; start++) {
+    for (let size = 1; size <= 3 && start + size <= words.length; size++) {
+      const phrase = words.slice(start, start + size).join(' ');
+      if (phrase.length < 4) continue;
+      // A small nudge for position keeps the last town ahead of a street named after another
+      const position = (start + size) / words.length / 100;
+      for (const { city, score } of matchCity(phrase, registry, 3)) {
+        const ranked = score + position;
+        if ((best.get(city.id)?.score || 0) < ranked) best.set(city.id, { city, score: ranked });
+      }
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(m => ({ city: m.city, score: Math.min(1, Math.round(m.score * 100) / 100) }));
+}
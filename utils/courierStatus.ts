@@ -0,0 +1,71 @@
+import { CourierProviderId, CourierStatusRule, OrderStatus, StatusMatchType, TenantSettings } from '../types';
+import { IN_TRANSIT_STATUSES, RETURN_STATUSES } from './orderTransitions';
+
+// FDE wording as seen on real callbacks. Lower priority numbers are checked first, so
+// "Return Transfer" is caught before the plain "transfer" rule.
+const FDE_RULES: CourierStatusRule[] = [
+  { id: 'fde-delivered', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'delivered', status: OrderStatus.DELIVERED, priority: 10 },
+  { id: 'fde-return-transfer', provider: CourierProviderId.FDE, match: StatusMatchType.REGEX, pattern: 'return.*transfer|transfer.*return', status: OrderStatus.RETURN_TRANSFER, priority: 20 },
+  { id: 'fde-transfer', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'transfer', status: OrderStatus.TRANSFER, priority: 30 },
+  { id: 'fde-returned', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'returned', status: OrderStatus.RETURNED, priority: 40 },
+  { id: 'fde-handover', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'handover', status: OrderStatus.RETURN_HANDOVER, priority: 50 },
+  { id: 'fde-system', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'system', status: OrderStatus.RETURN_AS_ON_SYSTEM, priority: 60 },
+  { id: 'fde-delivery', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'delivery', status: OrderStatus.DELIVERY, priority: 70 },
+  { id: 'fde-residual', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'residual', status: OrderStatus.RESIDUAL, priority: 80 },
+  { id: 'fde-rearrange', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'rearrange', status: OrderStatus.REARRANGE, priority: 90 },
+  { id: 'fde-waiting', provider: CourierProviderId.FDE, match: StatusMatchType.CONTAINS, pattern: 'waiting', status: OrderStatus.SHIPPED, priority: 100 }
+];
+
+// What a courier can report about a parcel it holds. Confirming, dispatch (from CONFIRMED)
+// and the warehouse return scan do work a callback cannot, so no rule may map elsewhere.
+export const COURIER_REPORTED_STATUSES = [...IN_TRANSIT_STATUSES, OrderStatus.DELIVERED, ...RETURN_STATUSES];
+
+export const DEFAULT_STATUS_RULES: Record<CourierProviderId, CourierStatusRule[]> = {
+  [CourierProviderId.FDE]: FDE_RULES
+};
+
+const normalizeStatus = (value?: string) => (value || '').trim().toLowerCase();
+
+// Null for an invalid pattern, so the Settings editor can point at it
+export const compileRule = (rule: CourierStatusRule): RegExp | null => {
+  if (rule.match !== StatusMatchType.REGEX) return null;
+  try {
+    return new RegExp(rule.pattern, 'i');
+  } catch (e) {
+    return null;
+  }
+};
+
+// Why a rule cannot be saved, or null when it is fine
+export const statusRuleProblem = (rule: CourierStatusRule): string | null => {
+  if (!String(rule.pattern || '').trim()) return 'Status rules need a pattern';
+  if (!Object.values(StatusMatchType).includes(rule.match)) return `Unknown match type in status rule: ${rule.pattern}`;
+  if (!COURIER_REPORTED_STATUSES.includes(rule.status)) return `Status rule ${rule.pattern} maps to ${rule.status}, which a courier cannot report`;
+  if (rule.match === StatusMatchType.REGEX && !compileRule(rule)) return `Invalid regular expression in status rule: ${rule.pattern}`;
+  return null;
+};
+
+const ruleMatches = (rule: CourierStatusRule, courierStatus: string) => {
+  const text = normalizeStatus(courierStatus);
+  const pattern = normalizeStatus(rule.pattern);
+  if (!text || !pattern) return false;
+  if (rule.match === StatusMatchType.EXACT) return text === pattern;
+  if (rule.match === StatusMatchType.CONTAINS) return text.includes(pattern);
+  return !!compileRule(rule)?.test(courierStatus.trim());
+};
+
+/**
+ * The rules applied to a courier's statuses: the tenant's own table when it has one
+ * (rules without a provider apply to every courier), otherwise the courier's defaults.
+ */
+export const getStatusRules = (settings: Partial<TenantSettings> | null | undefined, provider: CourierProviderId): CourierStatusRule[] => {
+  const rules = settings?.statusRules && settings.statusRules.length > 0
+    // Rules saved before targets were restricted never move an order past what a courier reports
+    ? settings.statusRules.filter(r => (!r.provider || r.provider === provider) && COURIER_REPORTED_STATUSES.includes(r.status))
+    : DEFAULT_STATUS_RULES[provider] || [];
+  return [...rules].sort((a, b) => a.priority - b.priority);
+};
+
+// First rule by priority that matches, or null when the status is unknown and needs review
+export const matchCourierStatus = (rules: CourierStatusRule[], courierStatus: string | undefined): CourierStatusRule | null =>
+  courierStatus ? [...rules].sort((a, b) => a.priority - b.priority).find(r => ruleMatches(r, courierStatus)) || null : null;
@@ -0,0 +1,41 @@
+import { CourierAccount, CourierMode, CourierProviderId, TenantSettings } from '../types';
+
+// Account id used for tenants still configured through the single legacy courier fields
+export const LEGACY_COURIER_ACCOUNT_ID = 'default';
+
+export const COURIER_PROVIDER_LABELS: Record<CourierProviderId, string> = {
+  [CourierProviderId.FDE]: 'FDE Domestic'
+};
+
+export const normalizeCity = (city?: string) => (city || '').trim().toLowerCase();
+
+/**
+ * Courier accounts configured for a tenant. Tenants that predate multi-courier
+ * support get their legacy FDE key pair as a single default account.
+ */
+export const getCourierAccounts = (settings?: Partial<TenantSettings> | null): CourierAccount[] => {
+  if (!settings) return [];
+  if (settings.couriers && settings.couriers.length > 0) return settings.couriers;
+  if (!settings.courierApiKey && !settings.courierClientId && !settings.courierMode) return [];
+  return [{
+    id: LEGACY_COURIER_ACCOUNT_ID,
+    provider: CourierProviderId.FDE,
+    label: COURIER_PROVIDER_LABELS[CourierProviderId.FDE],
+    apiKey: settings.courierApiKey || '',
+    clientId: settings.courierClientId || '',
+    mode: settings.courierMode || CourierMode.STANDARD,
+    isDefault: true
+  }];
+};
+
+// The account that handles parcels for `city`: an account claiming the city, else the default
+export const selectCourierAccount = (settings: Partial<TenantSettings> | null | undefined, city?: string): CourierAccount | undefined => {
+  const accounts = getCourierAccounts(settings);
+  const target = normalizeCity(city);
+  return accounts.find(a => target && (a.cities || []).some(c => normalizeCity(c) === target))
+    || accounts.find(a => a.isDefault)
+    || accounts[0];
+};
+
+export const getCourierAccount = (settings: Partial<TenantSettings> | null | undefined, accountId?: string) =>
+  getCourierAccounts(settings).find(a => a.id === accountId);
@@ -0,0 +1,69 @@
+import { Customer, CustomerRisk, CustomerRiskRules, CustomerStatus, TenantSettings } from '../types';
+import { formatCurrency } from './helpers';
+
+export const DEFAULT_RISK_RULES: CustomerRiskRules = {
+  returnRatioOrange: 0.3,
+  returnRatioRed: 0.5,
+  rejectedOrange: 2,
+  rejectedRed: 4,
+  noAnswerOrange: 2,
+  noAnswerRed: 4,
+  highValueAmount: 15000,
+  blockRedConfirm: false
+};
+
+export const riskRulesOf = (settings?: Partial<TenantSettings> | null): CustomerRiskRules => ({
+  ...DEFAULT_RISK_RULES,
+  ...(settings?.riskRules || {})
+});
+
+type RiskProfile = Pick<Customer, 'delivered' | 'returned' | 'rejected' | 'noAnswerStreak'>;
+
+const RANK: Record<CustomerStatus, number> = {
+  [CustomerStatus.NEW]: 0,
+  [CustomerStatus.REGULAR]: 0,
+  [CustomerStatus.RISK_ORANGE]: 1,
+  [CustomerStatus.RISK_RED]: 2
+};
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/**
+ * Grades a customer for a new or pending order. Each rule that fires adds a reason and the
+ * worst level wins; with none firing, a customer with a delivered parcel is REGULAR and
+ * anyone else NEW. `orderId` leaves the order being decided out of its own no-answer streak.
+ */
+export function scoreCustomer(customer: RiskProfile | null | undefined, rules: CustomerRiskRules, orderValue = 0, orderId?: string): CustomerRisk {
+  const flags: { status: CustomerStatus; reason: string }[] = [];
+  const flag = (red: boolean, reason: string) => flags.push({ status: red ? CustomerStatus.RISK_RED : CustomerStatus.RISK_ORANGE, reason });
+  const over = (value: number, threshold: number) => threshold > 0 && value >= threshold;
+
+  const delivered = customer?.delivered || 0;
+  const returned = customer?.returned || 0;
+  const rejected = customer?.rejected || 0;
+  const noAnswer = (customer?.noAnswerStreak || []).filter(id => id !== orderId).length;
+
+  if (returned > 0) {
+    const ratio = returned / (delivered + returned);
+    if (over(ratio, rules.returnRatioRed) || over(ratio, rules.returnRatioOrange)) {
+      flag(over(ratio, rules.returnRatioRed), `Returned ${returned} of ${delivered + returned} settled parcels (${percent(ratio)})`);
+    }
+  }
+  if (over(rejected, rules.rejectedRed) || over(rejected, rules.rejectedOrange)) {
+    flag(over(rejected, rules.rejectedRed), `Rejected ${rejected} order${rejected === 1 ? '' : 's'}`);
+  }
+  if (over(noAnswer, rules.noAnswerRed) || over(noAnswer, rules.noAnswerOrange)) {
+    flag(over(noAnswer, rules.noAnswerRed), `Did not answer on the last ${noAnswer} orders`);
+  }
+  if (over(orderValue, rules.highValueAmount) && delivered === 0) {
+    // A large first order is a caution on its own and a stop on top of other warnings
+    flag(flags.length > 0, `Order value ${formatCurrency(orderValue)} with no delivered order yet`);
+  }
+
+  if (flags.length > 0) {
+    const worst = flags.reduce((a, b) => RANK[b.status] > RANK[a.status] ? b : a);
+    return { status: worst.status, reasons: [worst, ...flags.filter(f => f !== worst)].map(f => f.reason) };
+  }
+  if (delivered > 0) return { status: CustomerStatus.REGULAR, reasons: [`${delivered} delivered order${delivered === 1 ? '' : 's'}, no warnings`] };
+  return { status: CustomerStatus.NEW, reasons: [customer ? 'No delivered order yet' : 'First order from this number'] };
+}
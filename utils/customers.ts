@@ -0,0 +1,23 @@
+import { FraudReasonCode, OrderStatus } from '../types';
+import { localPhone } from './phone';
+
+/**
+ * The customer profile a phone number belongs to, in local form (0771234567), so
+ * "+94 77 123 4567" and "077-1234567" are one customer. Numbers that are not nine
+ * national digits are kept as their digits.
+ */
+export const customerKey = (phone?: string) => localPhone(phone) || (phone || '').replace(/\D/g, '');
+
+// Statuses counted as a parcel that came back; REJECTED leads are counted separately
+export const CUSTOMER_RETURN_STATUSES = [
+  OrderStatus.RETURNED, OrderStatus.RETURN_TRANSFER, OrderStatus.RETURN_AS_ON_SYSTEM,
+  OrderStatus.RETURN_HANDOVER, OrderStatus.RETURN_COMPLETED
+];
+
+export const FRAUD_REASON_LABELS: Record<FraudReasonCode, string> = {
+  [FraudReasonCode.REFUSED_DELIVERY]: 'Refused delivery',
+  [FraudReasonCode.REPEATED_RETURNS]: 'Repeated returns',
+  [FraudReasonCode.FAKE_ORDER]: 'Fake order',
+  [FraudReasonCode.UNREACHABLE]: 'Unreachable after ordering',
+  [FraudReasonCode.OTHER]: 'Other'
+};
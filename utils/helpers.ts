@@ -1,5 +1,6 @@
 
 import { CustomerStatus, Order } from '../types';
+import { normalizePhone } from './phone';
 
 export const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('en-LK', {
@@ -90,30 +91,30 @@ export const getCustomerStatusColor = (status: CustomerStatus) => {
   }
 };
 
+// Robust CSV splitting (handles quotes with commas)
+export const splitCSVLine = (line: string) => {
+  const result = [];
+  let cur = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(cur.trim());
+      cur = '';
+    } else {
+      cur += char;
+    }
+  }
+  result.push(cur.trim());
+  return result;
+};
+
 export const parseCSV = (text: string) => {
   const lines = text.split(/\r?\n/).filter(l => l.trim());
   if (lines.length < 2) return [];
 
-  // Robust CSV splitting (handles quotes with commas)
-  const splitCSVLine = (line: string) => {
-    const result = [];
-    let cur = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(cur.trim());
-        cur = '';
-      } else {
-        cur += char;
-      }
-    }
-    result.push(cur.trim());
-    return result;
-  };
-
   const headers = splitCSVLine(lines[0].toLowerCase());
   
   // Heuristic header mapping
@@ -136,7 +137,7 @@ export const parseCSV = (text: string) => {
 
     const name = clean(parts[finalNameIdx]);
     const address = clean(parts[finalAddrIdx]);
-    const phone = clean(parts[finalPhoneIdx]).replace('p:', '').replace(/\s/g, '');
+    const phone = normalizePhone(clean(parts[finalPhoneIdx]));
 
     if (name && address && phone) {
       results.push({ name, address, phone });
@@ -0,0 +1,73 @@
+import { Order, OrderStatus } from '../types';
+
+/**
+ * Order lifecycle. The API rejects any status change that is not listed here, and
+ * OrderDetail only renders buttons for transitions this table allows.
+ */
+export type StockEffect = 'RESERVE' | 'RELEASE' | 'CONSUME';
+
+export interface OrderTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  stock?: StockEffect;
+}
+
+// Call-centre stages before stock is committed
+export const PIPELINE_STATUSES = [OrderStatus.PENDING, OrderStatus.OPEN_LEAD, OrderStatus.NO_ANSWER, OrderStatus.HOLD, OrderStatus.REJECTED];
+
+// Parcel is with the courier on its way to the customer
+export const IN_TRANSIT_STATUSES = [OrderStatus.SHIPPED, OrderStatus.TRANSFER, OrderStatus.DELIVERY, OrderStatus.RESIDUAL, OrderStatus.REARRANGE];
+
+// Parcel is on its way back to the warehouse
+export const RETURN_STATUSES = [OrderStatus.RETURNED, OrderStatus.RETURN_TRANSFER, OrderStatus.RETURN_AS_ON_SYSTEM, OrderStatus.RETURN_HANDOVER];
+
+// Parcel is with the courier in either direction, so its tracking is still moving
+export const TRACKED_STATUSES = [...IN_TRANSIT_STATUSES, ...RETURN_STATUSES];
+
+const edges = (from: OrderStatus[], to: OrderStatus[], stock?: StockEffect): OrderTransition[] =>
+  from.flatMap(f => to.filter(t => t !== f).map(t => ({ from: f, to: t, stock })));
+
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  ...edges(PIPELINE_STATUSES, [OrderStatus.OPEN_LEAD, OrderStatus.NO_ANSWER, OrderStatus.REJECTED, OrderStatus.HOLD]),
+  ...edges(PIPELINE_STATUSES, [OrderStatus.CONFIRMED], 'RESERVE'),
+  ...edges([OrderStatus.CONFIRMED], [OrderStatus.OPEN_LEAD, OrderStatus.NO_ANSWER, OrderStatus.REJECTED, OrderStatus.HOLD], 'RELEASE'),
+  ...edges([OrderStatus.CONFIRMED], [OrderStatus.SHIPPED], 'CONSUME'),
+  ...edges(IN_TRANSIT_STATUSES, [...IN_TRANSIT_STATUSES, OrderStatus.DELIVERED, ...RETURN_STATUSES]),
+  // A parcel can be scanned back in before the courier reports it as returned
+  ...edges([...IN_TRANSIT_STATUSES, ...RETURN_STATUSES], [OrderStatus.RETURN_COMPLETED]),
+  ...edges(RETURN_STATUSES, RETURN_STATUSES),
+  ...edges([OrderStatus.DELIVERED], [OrderStatus.RETURNED])
+];
+
+const DISPATCH_FIELDS: (keyof Order)[] = ['customerName', 'customerPhone', 'customerAddress', 'customerCity', 'items'];
+
+// Fields that must be present before an order may enter a status
+export const REQUIRED_FIELDS: Partial<Record<OrderStatus, (keyof Order)[]>> = {
+  [OrderStatus.CONFIRMED]: DISPATCH_FIELDS,
+  [OrderStatus.SHIPPED]: [...DISPATCH_FIELDS, 'trackingNumber'],
+  [OrderStatus.DELIVERED]: ['trackingNumber'],
+  [OrderStatus.RETURN_COMPLETED]: ['items']
+};
+
+// Lifecycle timestamps stamped the first time an order enters a status
+export const STATUS_TIMESTAMPS: Partial<Record<OrderStatus, 'confirmedAt' | 'shippedAt' | 'deliveredAt' | 'returnCompletedAt'>> = {
+  [OrderStatus.CONFIRMED]: 'confirmedAt',
+  [OrderStatus.SHIPPED]: 'shippedAt',
+  [OrderStatus.DELIVERED]: 'deliveredAt',
+  [OrderStatus.RETURN_COMPLETED]: 'returnCompletedAt'
+};
+
+export const getTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_TRANSITIONS.find(t => t.from === from && t.to === to);
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) => !!getTransition(from, to);
+
+export const getAllowedTransitions = (from: OrderStatus) =>
+  ORDER_TRANSITIONS.filter(t => t.from === from).map(t => t.to);
+
+export const getMissingFields = (order: Partial<Order>, to: OrderStatus) =>
+  (REQUIRED_FIELDS[to] || []).filter(field => {
+    const value = order[field];
+    if (Array.isArray(value)) return value.length === 0;
+    return value === undefined || value === null || String(value).trim() === '';
+  });
@@ -0,0 +1,32 @@
+import { User, UserRole } from '../types';
+
+/**
+ * Page IDs every tenant employee (ADMIN) can open without an explicit permission toggle.
+ * Anything else must be granted through `User.permissions` on the Team page.
+ */
+export const ADMIN_DEFAULT_PAGES = ['dashboard', 'leads', 'selling', 'shipping', 'today_shipped', 'dispatch_monitor', 'return_mgmt', 'residual_mgmt', 'inventory', 'returns'];
+
+/**
+ * Server capabilities expressed as the page IDs that unlock them.
+ * A caller needs access to at least one of the listed pages.
+ */
+export const CAPABILITIES = {
+  ORDERS_WRITE: ['leads', 'selling', 'shipping', 'return_mgmt', 'residual_mgmt', 'returns'],
+  ORDERS_DELETE: ['selling', 'shipping'],
+  DISPATCH: ['selling', 'shipping', 'returns', 'dispatch_monitor'],
+  RETURNS: ['returns', 'return_mgmt'],
+  INVENTORY_WRITE: ['inventory'],
+  FINANCIALS: ['financials'],
+  TEAM: ['team'],
+  SETTINGS: ['settings']
+};
+
+export const hasPermission = (user: Pick<User, 'role' | 'permissions'>, pageId: string) => {
+  if (user.role === UserRole.DEV_ADMIN) return true;
+  if (user.role === UserRole.SUPER_ADMIN) return true;
+  if (user.role === UserRole.ADMIN && ADMIN_DEFAULT_PAGES.includes(pageId)) return true;
+  return !!user.permissions?.includes(pageId);
+};
+
+export const hasCapability = (user: Pick<User, 'role' | 'permissions'>, pageIds: string[]) =>
+  pageIds.some(id => hasPermission(user, id));
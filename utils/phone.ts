@@ -0,0 +1,64 @@
+// --- SRI LANKAN PHONE NUMBERS ---
+// Every phone is stored in local form, 0 plus nine digits (0771234567). Couriers take
+// that form (FDE refuses anything else with codes 206/207); WhatsApp links use 94….
+
+export type PhoneType = 'MOBILE' | 'LANDLINE';
+
+export interface ParsedPhone {
+  local: string; // 0771234567
+  international: string; // 94771234567, for wa.me and SMS gateways
+  type: PhoneType;
+}
+
+// 070–078 (073 is unassigned)
+const MOBILE_PREFIXES = ['70', '71', '72', '74', '75', '76', '77', '78'];
+
+// Area codes; fixed-wireless numbers share them
+const AREA_CODES = [
+  '11', '21', '23', '24', '25', '26', '27', '31', '32', '33', '34', '35', '36', '37', '38',
+  '41', '45', '47', '51', '52', '54', '55', '57', '63', '65', '66', '67', '81', '91'
+];
+
+/**
+ * Nine national digits with a leading 0, from any of the usual spellings: 0771234567,
+ * 771234567, 94771234567, +94 77 123 4567, 0094-77-1234567 or +94 (0)77…. Null when the
+ * digits are not a nine-digit national number; the prefix is not checked here.
+ */
+export const localPhone = (raw?: string | null): string | null => {
+  const digits = String(raw || '').replace(/\D/g, '');
+  const national = digits.replace(/^(?:0094|94)0?(?=\d{9}$)/, '').replace(/^0(?=\d{9}$)/, '');
+  return national.length === 9 ? `0${national}` : null;
+};
+
+export const phoneType = (local: string): PhoneType | null => {
+  const prefix = local.slice(1, 3);
+  if (MOBILE_PREFIXES.includes(prefix)) return 'MOBILE';
+  if (AREA_CODES.includes(prefix)) return 'LANDLINE';
+  return null;
+};
+
+// The number in every form the app needs, or null when it is not a Sri Lankan number
+export const parsePhone = (raw?: string | null): ParsedPhone | null => {
+  const local = localPhone(raw);
+  const type = local ? phoneType(local) : null;
+  if (!local || !type) return null;
+  return { local, international: `94${local.slice(1)}`, type };
+};
+
+// Why a phone cannot be stored, or null when it is fine
+export const phoneProblem = (raw?: string | null): string | null => {
+  if (!String(raw || '').trim()) return 'Phone number is missing';
+  const local = localPhone(raw);
+  if (!local) return `${String(raw).trim()} is not a 10-digit Sri Lankan number`;
+  if (!phoneType(local)) return `${local} has no Sri Lankan mobile or area prefix`;
+  return null;
+};
+
+// Local form when the number parses; otherwise the input trimmed, so nothing typed is lost
+export const normalizePhone = (raw?: string | null): string => parsePhone(raw)?.local ?? String(raw || '').trim();
+
+// Digits for a wa.me link, or null when the number cannot be reached on WhatsApp
+export const whatsappNumber = (raw?: string | null): string | null => {
+  const phone = parsePhone(raw);
+  return phone?.type === 'MOBILE' ? phone.international : null;
+};
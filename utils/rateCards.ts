@@ -0,0 +1,47 @@
+import { CourierAccount, CourierRateCard, Order, ShippingCost, TenantSettings } from '../types';
+import { getCourierAccount, normalizeCity, selectCourierAccount } from './couriers';
+
+// Couriers bill a parcel with no declared weight as one kilogram
+export const parseWeightKg = (weight?: string) => {
+  const kg = parseFloat(String(weight || '').replace(',', '.'));
+  return isNaN(kg) || kg <= 0 ? 1 : kg;
+};
+
+export const emptyRateCard = (): CourierRateCard => ({ baseFee: 350, weightSlabs: [], zones: [], codPercent: 0, returnFee: 150 });
+
+const money = (n: number) => Math.round(n * 100) / 100;
+
+export function computeShippingCost(card: CourierRateCard, order: Pick<Order, 'parcelWeight' | 'customerCity' | 'totalAmount'>): ShippingCost {
+  const kg = parseWeightKg(order.parcelWeight);
+  const slab = [...card.weightSlabs].sort((a, b) => b.overKg - a.overKg).find(s => kg > s.overKg);
+  const city = normalizeCity(order.customerCity);
+  const zone = city ? card.zones.find(z => z.cities.some(c => normalizeCity(c) === city)) : undefined;
+
+  const base = card.baseFee || 0;
+  const weight = slab?.fee || 0;
+  const surcharge = zone?.surcharge || 0;
+  const cod = money((order.totalAmount || 0) * (card.codPercent || 0) / 100);
+  return {
+    base,
+    weight,
+    zone: surcharge,
+    zoneName: zone?.name || null,
+    cod,
+    delivery: money(base + weight + surcharge + cod),
+    returnFee: card.returnFee || 0
+  };
+}
+
+// The account an order shipped with, or for orders not yet shipped the one its city routes to
+export const courierAccountFor = (settings: Partial<TenantSettings> | null | undefined, order: Pick<Order, 'courierAccountId' | 'customerCity'>): CourierAccount | undefined =>
+  (order.courierAccountId && getCourierAccount(settings, order.courierAccountId)) || selectCourierAccount(settings, order.customerCity);
+
+/**
+ * The shipping cost recorded at dispatch, or for orders shipped before their courier had a
+ * rate card an estimate from the card as it stands today. Undefined when no card applies.
+ */
+export const shippingCostOf = (settings: Partial<TenantSettings> | null | undefined, order: Order): ShippingCost | undefined => {
+  if (order.shippingCost) return order.shippingCost;
+  const card = courierAccountFor(settings, order)?.rateCard;
+  return card ? computeShippingCost(card, order) : undefined;
+};
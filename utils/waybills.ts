@@ -0,0 +1,49 @@
+// Waybill numbers are compared trimmed and upper-cased everywhere
+export const normalizeWaybill = (waybill?: string) => String(waybill || '').trim().toUpperCase();
+
+export const MAX_WAYBILLS_PER_UPLOAD = 5000;
+
+const NUMBERED = /^([A-Z]*)(\d+)$/;
+const SORT_DIGITS = 20;
+
+// Orders a pool by prefix and then by number, so FD999 comes before FD1000
+export const waybillSortKey = (waybill?: string) => {
+  const normalized = normalizeWaybill(waybill);
+  const numbered = NUMBERED.exec(normalized);
+  return numbered && numbered[2].length <= SORT_DIGITS ? numbered[1] + numbered[2].padStart(SORT_DIGITS, '0') : normalized;
+};
+
+const RANGE = /^([A-Z]*)(\d+)-\1?(\d+)$/;
+
+/**
+ * Reads a pasted list, CSV column or scanner burst of pre-printed waybills. Entries are
+ * separated by new lines, commas or spaces; `FD1000-FD1099` (or `1000-1099`) expands to
+ * the whole range, keeping the digits' zero padding.
+ */
+export const parseWaybillInput = (text: string): { waybills: string[]; errors: string[] } => {
+  const found = new Set<string>();
+  const errors: string[] = [];
+  const tokens = (text || '').toUpperCase().replace(/\s*-\s*/g, '-').split(/[\s,;]+/).filter(Boolean);
+
+  for (const token of tokens) {
+    const range = RANGE.exec(token);
+    if (!range) {
+      if (/^[A-Z0-9]+$/.test(token)) found.add(token);
+      else errors.push(`"${token}" is not a waybill number`);
+      continue;
+    }
+    const [, prefix, from, to] = range;
+    const start = Number(from);
+    const end = Number(to);
+    if (end < start) { errors.push(`${token}: range runs backwards`); continue; }
+    if (found.size + (end - start + 1) > MAX_WAYBILLS_PER_UPLOAD) { errors.push(`${token}: more than ${MAX_WAYBILLS_PER_UPLOAD} waybills in one upload`); continue; }
+    for (let n = start; n <= end; n++) found.add(prefix + String(n).padStart(from.length, '0'));
+  }
+
+  const waybills = [...found];
+  if (waybills.length > MAX_WAYBILLS_PER_UPLOAD) {
+    errors.push(`More than ${MAX_WAYBILLS_PER_UPLOAD} waybills in one upload`);
+    return { waybills: waybills.slice(0, MAX_WAYBILLS_PER_UPLOAD), errors };
+  }
+  return { waybills, errors };
+};